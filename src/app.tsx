@@ -2,7 +2,7 @@
  * Roam - Arweave Content Discovery App
  * 
  * A shuffle-play interface for discovering random Arweave content.
- * Users explore transactions by content type (images, videos, music, websites, text, ArFS files)
+ * Users explore transactions by content type (images, videos, music, websites, text, code, ArFS files)
  * using a "Next" button to navigate through a curated stream.
  * 
  * Key Features:
@@ -26,6 +26,14 @@ import { TransactionInfo } from './components/TransactionInfo'
 import { AboutModal } from './components/AboutModal'
 import { ChannelsDrawer } from './components/ChannelsDrawer'
 import { SessionStats } from './components/SessionStats'
+import { CollectionsPanel } from './components/CollectionsPanel'
+import { SearchPanel } from './components/SearchPanel'
+import { DriveBrowser, type DriveTarget } from './components/DriveBrowser'
+import { BundleExplorer } from './components/BundleExplorer'
+import { ScopeBar } from './components/ScopeBar'
+import { OwnerProfile } from './components/OwnerProfile'
+import { ConsensusPanel } from './components/ConsensusPanel'
+import { Gallery } from './components/Gallery'
 import { ResetConfirmModal } from './components/ResetConfirmModal'
 import { Icons } from './components/Icons'
 import { useInterstitialInjector } from './hooks/useInterstitialInjector'
@@ -39,8 +47,18 @@ import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
 import { usePreloading } from './hooks/usePreloading'
 import { useSessionStats } from './hooks/useSessionStats'
 import { useVerificationStatus } from './hooks/useVerificationStatus'
+import { useFavorites } from './hooks/useFavorites'
+import { useHistoryBranches } from './hooks/useHistoryBranches'
+import { useArfsRevisions } from './hooks/useArfsRevisions'
+import { useTxSignature } from './hooks/useTxSignature'
+import { useSearchIndexer } from './hooks/useSearchIndex'
+import { useBlocklist } from './hooks/useBlocklist'
+import { useCustomMedia } from './hooks/useCustomMedia'
+import { useGallery } from './hooks/useGallery'
 import { logger } from './utils/logger'
-import { MAX_AD_CLICKS, MIN_AD_CLICKS, DEFAULT_DATE_RANGE_DAYS, APP_SWIPE_THRESHOLD, APP_SWIPE_TIME_LIMIT } from './constants'
+import { tagFiltersKey } from './utils/tagFilters'
+import type { ArUrl } from './utils/arUrl'
+import { MAX_AD_CLICKS, MIN_AD_CLICKS, DEFAULT_DATE_RANGE_DAYS, APP_SWIPE_THRESHOLD, APP_SWIPE_TIME_LIMIT, GALLERY_MEDIA, type ArfsScope, type BundleScope, type MediaType, type TxMeta } from './constants'
 import './styles/app.css'
 import './styles/channels-drawer.css'
 import './styles/welcome-screen.css'
@@ -89,6 +107,23 @@ export function App() {
   // Session statistics modal
   const [showSessionStats, setShowSessionStats] = useState(false)
   
+  // Collections modal
+  const [showCollections, setShowCollections] = useState(false)
+  
+  // Local search modal
+  const [showSearch, setShowSearch] = useState(false)
+  
+  // ArFS drive browser modal, opened from the details drawer
+  const [driveTarget, setDriveTarget] = useState<DriveTarget | null>(null)
+  
+  // Owner profile modal, opened from an owner address
+  const [profileOwner, setProfileOwner] = useState<string | null>(null)
+  // Transaction whose failed verification is being compared across gateways
+  const [consensusTxId, setConsensusTxId] = useState<string | null>(null)
+  
+  // Bundle explorer modal, opened from the details drawer
+  const [explorerBundleId, setExplorerBundleId] = useState<string | null>(null)
+  
   // Reset confirmation modal
   const [showResetConfirm, setShowResetConfirm] = useState(false)
   
@@ -98,6 +133,38 @@ export function App() {
   // Track verification status for current transaction
   const verificationStatus = useVerificationStatus(appState.currentTx?.id || null)
   
+  // Saved favorites (heart action + favorites channel)
+  const favorites = useFavorites(appState.currentTx)
+  
+  // Alternative paths through the history tree, shown in the details drawer
+  const historyBranches = useHistoryBranches(appState.currentTx, appState.detailsOpen)
+  
+  // Metadata revisions of the current ArFS file, shown in the details drawer
+  const arfsRevisions = useArfsRevisions(appState.currentTx, appState.detailsOpen)
+
+  // Opt-in check of the current transaction's signature, shown in the details drawer
+  const txSignature = useTxSignature(appState.currentTx)
+  
+  // Index viewed content for local search
+  const searchIndexer = useSearchIndexer(appState.currentTx)
+  
+  // Content type sniffed from the current transaction's data, for the details drawer
+  const [detectedType, setDetectedType] = useState<{ txId: string; contentType: string | null } | null>(null)
+  
+  // Owners whose uploads are never queued
+  const blocklist = useBlocklist()
+  
+  // User-defined media channels, registered into CONTENT_TYPES on load
+  const customMedia = useCustomMedia()
+  
+  // Gallery mode: a thumbnail grid of the queue for image and video channels
+  const [galleryOn, setGalleryOn] = useState(false)
+  const galleryAvailable = GALLERY_MEDIA.includes(appState.media) && !appState.arfsScope && !appState.bundleScope
+  const gallery = useGallery(appState.channel, galleryOn && galleryAvailable)
+  
+  useEffect(() => {
+    if (!galleryAvailable) setGalleryOn(false)
+  }, [galleryAvailable])
 
   // Navigation callbacks 
   const navigationCallbacks = {
@@ -152,6 +219,9 @@ export function App() {
         if (deepLink.deepLinkOpts?.appName && !cancelled) {
           appState.setAppName(deepLink.deepLinkOpts.appName)
         }
+        if (deepLink.deepLinkOpts?.tagFilters && !cancelled) {
+          appState.setTagFilters(deepLink.deepLinkOpts.tagFilters)
+        }
         if (deepLink.deepLinkOpts?.channel?.media && !cancelled) {
           appState.setMedia(deepLink.deepLinkOpts.channel.media)
         }
@@ -165,7 +235,8 @@ export function App() {
             minBlock: deepLink.deepLinkOpts?.minBlock,
             maxBlock: deepLink.deepLinkOpts?.maxBlock,
             ownerAddress: deepLink.deepLinkOpts?.ownerAddress,
-            appName: deepLink.deepLinkOpts?.appName
+            appName: deepLink.deepLinkOpts?.appName,
+            tagFilters: deepLink.deepLinkOpts?.tagFilters
           }
           
           await navigation.initializeQueue(appState.channel, opts)
@@ -203,7 +274,11 @@ export function App() {
           media: appState.media, 
           recency: appState.recency,
           ownerAddress: appState.ownerAddress,
-          appName: appState.appName 
+          ownerAddresses: appState.ownerAddresses,
+          appName: appState.appName,
+          tagFilters: appState.tagFilters,
+          arfsScope: appState.arfsScope,
+          bundleScope: appState.bundleScope
         })
         
         // Initialize new queue with current filters
@@ -217,7 +292,18 @@ export function App() {
     
     handleFilterChange()
     return () => { cancelled = true }
-  }, [appState.media, appState.recency, appState.ownerAddress, appState.appName])
+  }, [
+    appState.media,
+    appState.recency,
+    appState.ownerAddress,
+    appState.ownerAddresses.join(','),
+    appState.appName,
+    tagFiltersKey(appState.tagFilters),
+    appState.arfsScope && `${appState.arfsScope.driveId}/${appState.arfsScope.folderId ?? ''}`,
+    appState.bundleScope && `${appState.bundleScope.bundleId}/${appState.bundleScope.contentTypes?.join(',') ?? ''}`,
+    // Editing the active custom channel's types reloads it too
+    customMedia.definitions.find(def => def.id === appState.media)?.contentTypes.join(',')
+  ])
   
   // Date slider is independent - no automatic syncing needed
   
@@ -236,7 +322,8 @@ export function App() {
     appState.currentTx, 
     appState.media, 
     appState.ownerAddress, 
-    appState.appName
+    appState.appName,
+    appState.tagFilters
   )
   
   const handleDownload = () => navigation.handleDownload(appState.currentTx)
@@ -249,6 +336,50 @@ export function App() {
   }
   
   const handleRoam = () => navigation.handleRoam(appState.channel)
+  
+  // A tile opens in the single view and is recorded in history like any other item
+  const handleSelectGalleryTile = (tx: TxMeta) => {
+    setGalleryOn(false)
+    navigation.handleOpenTx(tx)
+  }
+  
+  // ar:// links in content and tags open inside Roam
+  const handleOpenArUrl = (url: ArUrl) => {
+    appState.setDetailsOpen(false)
+    navigation.handleOpenArUrl(url)
+  }
+
+  const handleBrowseDrive = (driveId: string) => {
+    if (!appState.currentTx) return
+    appState.setDetailsOpen(false)
+    setDriveTarget({ driveId, owner: appState.currentTx.owner.address })
+  }
+
+  // Roaming a drive or folder is a temporary scope on the ArFS channel
+  const handleRoamDrive = (scope: ArfsScope) => {
+    appState.setBundleScope(undefined)
+    appState.setArfsScope(scope)
+    appState.setMedia('arfs')
+  }
+
+  const handleViewBundle = (bundleId: string) => {
+    appState.setDetailsOpen(false)
+    setExplorerBundleId(bundleId)
+  }
+
+  // A bundle holds any kind of data item, so it is roamed on the everything channel
+  const handleRoamBundle = (scope: BundleScope) => {
+    appState.setArfsScope(undefined)
+    appState.setBundleScope(scope)
+    appState.setMedia('everything')
+  }
+
+  // Picking any channel leaves the drive or bundle scope
+  const handleMediaChange = (media: MediaType) => {
+    appState.setArfsScope(undefined)
+    appState.setBundleScope(undefined)
+    appState.setMedia(media)
+  }
 
   // Auto-start exploring - only on initial consent acceptance
   const [hasInitiallyLoaded, setHasInitiallyLoaded] = useState(false)
@@ -293,11 +424,19 @@ export function App() {
       if (appState.detailsOpen) appState.setDetailsOpen(false)
       if (appState.showAbout) appState.setShowAbout(false)
       if (showSessionStats) setShowSessionStats(false)
+      if (showCollections) setShowCollections(false)
+      if (showSearch) setShowSearch(false)
+      if (driveTarget) setDriveTarget(null)
+      if (explorerBundleId) setExplorerBundleId(null)
+      if (profileOwner) setProfileOwner(null)
+      if (consensusTxId) setConsensusTxId(null)
       if (showResetConfirm) setShowResetConfirm(false)
       if (appState.zoomSrc) appState.setZoomSrc(null)
     },
     onTogglePrivacy: appState.togglePrivacy,
-    onSessionStats: () => setShowSessionStats(true)
+    onSessionStats: () => setShowSessionStats(true),
+    onToggleFavorite: () => favorites.toggleFavorite(),
+    onOpenSearch: () => setShowSearch(true)
   })
 
   // Preload next content for smooth browsing
@@ -352,9 +491,35 @@ export function App() {
         <div className="error">{appState.error}</div>
       ) : null}
 
+      {appState.arfsScope && (
+        <ScopeBar
+          icon={<Icons.ArFS size={16} />}
+          label={appState.arfsScope.label}
+          onExit={() => appState.setArfsScope(undefined)}
+          exitLabel="Stop roaming this drive"
+        />
+      )}
+      {appState.bundleScope && (
+        <ScopeBar
+          icon={<Icons.Package />}
+          label={appState.bundleScope.label}
+          onExit={() => appState.setBundleScope(undefined)}
+          exitLabel="Stop roaming this bundle"
+        />
+      )}
+
       <main ref={mainRef} className="media-container">
-        {/* Only show full loading screen when no content exists */}
-        {(appState.loading || appState.queueLoading) && !appState.currentTx ? (
+        {/* The gallery replaces the single view; otherwise only show the full loading screen when no content exists */}
+        {galleryOn && galleryAvailable ? (
+          <Gallery
+            items={gallery.items}
+            loading={gallery.loading}
+            exhausted={gallery.exhausted}
+            privacyOn={appState.privacyOn}
+            onLoadMore={gallery.loadMore}
+            onSelect={handleSelectGalleryTile}
+          />
+        ) : (appState.loading || appState.queueLoading) && !appState.currentTx ? (
           <LoadingScreen />
         ) : appState.currentTx ? (
           <>
@@ -369,6 +534,12 @@ export function App() {
               onDownload={handleDownload}
               onDetails={() => appState.setDetailsOpen(true)}
               onOpenInNewTab={handleOpenInNewTab}
+              isFavorite={favorites.isCurrentFavorite}
+              onToggleFavorite={() => favorites.toggleFavorite()}
+              onTextExtracted={searchIndexer.handleTextExtracted}
+              onContentTypeDetected={(tx, contentType) => setDetectedType({ txId: tx.id, contentType })}
+              onOpenArUrl={handleOpenArUrl}
+              onOpenTx={navigation.handleOpenTx}
             />
 
             {!appState.loading && (
@@ -376,6 +547,8 @@ export function App() {
                 txMeta={appState.currentTx} 
                 formattedTime={appState.formattedTime}
                 verificationStatus={verificationStatus}
+                onViewOwner={setProfileOwner}
+                onCheckConsensus={() => setConsensusTxId(appState.currentTx?.id ?? null)}
               />
             )}
           </>
@@ -401,6 +574,8 @@ export function App() {
         hasCurrentTx={!!appState.currentTx}
         loading={appState.loading}
         queueLoading={appState.queueLoading}
+        galleryOn={galleryOn}
+        onToggleGallery={galleryAvailable ? () => setGalleryOn(on => !on) : undefined}
       />
 
       {/* Details Drawer */}
@@ -408,16 +583,42 @@ export function App() {
         txMeta={appState.currentTx}
         open={appState.detailsOpen}
         onClose={() => appState.setDetailsOpen(false)}
+        historyBranches={historyBranches}
+        onJumpToHistory={navigation.handleJumpToHistory}
+        detectedContentType={detectedType?.txId === appState.currentTx?.id ? detectedType?.contentType : null}
+        onOpenArUrl={handleOpenArUrl}
+        onBrowseDrive={handleBrowseDrive}
+        arfsRevisions={arfsRevisions.revisions}
+        arfsRevisionsLoading={arfsRevisions.loading}
+        onSelectRevision={navigation.handleOpenTx}
+        onViewBundle={handleViewBundle}
+        signatureCheck={txSignature.check}
+        signatureVerifying={txSignature.verifying}
+        signatureError={txSignature.error}
+        onVerifySignature={txSignature.verify}
       />
 
       <ChannelsDrawer
         open={appState.showChannels}
         onClose={appState.closeChannels}
         currentMedia={appState.media}
-        onMediaChange={appState.setMedia}
+        onMediaChange={handleMediaChange}
+        favoritesCount={favorites.favoritesCount}
+        customMedia={customMedia.definitions}
+        customMediaError={customMedia.error}
+        onCreateCustomMedia={customMedia.create}
+        onUpdateCustomMedia={customMedia.update}
+        onDeleteCustomMedia={customMedia.remove}
         currentTx={appState.currentTx}
         ownerAddress={appState.ownerAddress}
         onOwnerFilterChange={appState.setOwnerAddress}
+        ownerAddresses={appState.ownerAddresses}
+        onOwnerAddressesChange={appState.setOwnerAddresses}
+        blockedOwners={blocklist.blockedOwners}
+        onBlockOwner={blocklist.blockOwner}
+        onUnblockOwner={blocklist.unblockOwner}
+        tagFilters={appState.tagFilters}
+        onTagFiltersChange={appState.setTagFilters}
         recency={appState.recency}
         onRecencyChange={appState.setRecency}
         tempRange={dateRangeSlider.tempRange}
@@ -442,6 +643,24 @@ export function App() {
           <Icons.BarChart size={16} />
         </button>
         
+        <button 
+          className="search-btn"
+          onClick={() => setShowSearch(true)}
+          title="Search viewed content (/)"
+          aria-label="Search viewed content"
+        >
+          <Icons.Search />
+        </button>
+        
+        <button 
+          className="collections-btn-floating"
+          onClick={() => setShowCollections(true)}
+          title="Collections"
+          aria-label="Open collections"
+        >
+          <Icons.Collections />
+        </button>
+        
         <button 
           className="about-btn"
           onClick={() => appState.setShowAbout(true)}
@@ -463,6 +682,46 @@ export function App() {
         onClose={() => setShowSessionStats(false)}
       />
 
+      <CollectionsPanel
+        currentTx={appState.currentTx}
+        open={showCollections}
+        onClose={() => setShowCollections(false)}
+        onOpenTx={navigation.handleOpenTx}
+      />
+
+      <SearchPanel
+        open={showSearch}
+        onClose={() => setShowSearch(false)}
+        onSelect={navigation.handleRevisitTx}
+      />
+
+      <DriveBrowser
+        target={driveTarget}
+        onClose={() => setDriveTarget(null)}
+        onRoam={handleRoamDrive}
+      />
+
+      <BundleExplorer
+        bundleId={explorerBundleId}
+        onClose={() => setExplorerBundleId(null)}
+        onRoam={handleRoamBundle}
+        onOpenTx={navigation.handleOpenTx}
+      />
+
+      <OwnerProfile
+        owner={profileOwner}
+        privacyOn={appState.privacyOn}
+        onClose={() => setProfileOwner(null)}
+        onOpenTx={navigation.handleOpenTx}
+        onFollowOwner={appState.setOwnerAddress}
+      />
+
+      <ConsensusPanel
+        txId={consensusTxId}
+        verificationStatus={verificationStatus}
+        onClose={() => setConsensusTxId(null)}
+      />
+
       <ResetConfirmModal
         open={showResetConfirm}
         onConfirm={handleResetConfirm}
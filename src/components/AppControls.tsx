@@ -1,4 +1,4 @@
-import { RotateCcw, ArrowLeft, Settings, ArrowRight, Shuffle } from 'lucide-preact'
+import { RotateCcw, ArrowLeft, Settings, ArrowRight, Shuffle, LayoutGrid } from 'lucide-preact'
 
 interface AppControlsProps {
   onReset: () => Promise<void>
@@ -9,6 +9,9 @@ interface AppControlsProps {
   hasCurrentTx: boolean
   loading: boolean
   queueLoading: boolean
+  galleryOn?: boolean
+  /** Gallery toggle is only shown on channels that support it */
+  onToggleGallery?: () => void
 }
 
 export function AppControls({ 
@@ -19,7 +22,9 @@ export function AppControls({
   onOpenChannels,
   hasCurrentTx, 
   loading, 
-  queueLoading 
+  queueLoading,
+  galleryOn = false,
+  onToggleGallery
 }: AppControlsProps) {
   return (
     <div className="controls">
@@ -42,6 +47,18 @@ export function AppControls({
       <button className="nav-btn roam" onClick={onRoam} disabled={loading || queueLoading} title="Random explore" aria-label="Start random exploration">
         <Shuffle size={20} />
       </button>
+
+      {onToggleGallery && (
+        <button
+          className={`nav-btn secondary ${galleryOn ? 'active' : ''}`}
+          onClick={onToggleGallery}
+          title={galleryOn ? 'Back to single view' : 'Gallery view'}
+          aria-label={galleryOn ? 'Switch to single item view' : 'Switch to gallery view'}
+          aria-pressed={galleryOn}
+        >
+          <LayoutGrid size={20} />
+        </button>
+      )}
     </div>
   )
 }
\ No newline at end of file
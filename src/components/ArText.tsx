@@ -0,0 +1,51 @@
+import { useMemo } from 'preact/hooks'
+import { splitArUrls, formatArUrl, type ArUrl } from '../utils/arUrl'
+import { resolveArUrl } from '../services/arResolver'
+
+interface ArTextProps {
+  text: string
+  onOpenArUrl?: (url: ArUrl) => void
+}
+
+/**
+ * A left click without modifiers; other clicks keep the browser's
+ * open-in-new-tab behaviour for the gateway URL
+ */
+export function isPlainClick(event: MouseEvent): boolean {
+  return event.button === 0 && !event.metaKey && !event.ctrlKey && !event.shiftKey && !event.altKey
+}
+
+/**
+ * Text with every ar:// URL turned into a gateway link. Plain clicks open
+ * the target inside Roam when `onOpenArUrl` is given.
+ */
+export function ArText({ text, onOpenArUrl }: ArTextProps) {
+  const segments = useMemo(() => splitArUrls(text), [text])
+
+  return (
+    <>
+      {segments.map((segment, i) => {
+        if (typeof segment === 'string') return segment
+        const label = formatArUrl(segment)
+        const href = resolveArUrl(segment)
+        if (!href) return label
+        return (
+          <a
+            key={i}
+            className="ar-link"
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => {
+              if (!onOpenArUrl || !isPlainClick(e)) return
+              e.preventDefault()
+              onOpenArUrl(segment)
+            }}
+          >
+            {label}
+          </a>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useState } from 'preact/hooks'
+import {
+  bundleItemContentType,
+  countByContentType,
+  loadBundleContents,
+  rewindBundleScope,
+  type BundleContents
+} from '../engine/bundles'
+import { shortenId } from '../utils/format'
+import { formatFileSize } from '../utils/formatSize'
+import { logger } from '../utils/logger'
+import type { BundleScope, TxMeta } from '../constants'
+import { Icons, getMediaTypeIcon } from './Icons'
+import '../styles/bundle-explorer.css'
+
+/** Items listed individually; the type counts cover everything loaded */
+const LISTED_ITEMS = 100
+
+interface BundleExplorerProps {
+  bundleId: string | null
+  onClose: () => void
+  onRoam: (scope: BundleScope) => void
+  onOpenTx: (tx: TxMeta) => void
+}
+
+/**
+ * The sibling data items of an ANS-104 bundle with counts by content type.
+ * The bundle, or just one of its content types, can be roamed as a
+ * temporary channel.
+ */
+export function BundleExplorer({ bundleId, onClose, onRoam, onOpenTx }: BundleExplorerProps) {
+  const [contents, setContents] = useState<BundleContents | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!bundleId) return
+    let cancelled = false
+    setContents(null)
+    setError(null)
+
+    loadBundleContents(bundleId)
+      .then(loaded => { if (!cancelled) setContents(loaded) })
+      .catch(err => {
+        logger.warn(`Failed to load bundle ${bundleId}`, err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load bundle')
+      })
+
+    return () => { cancelled = true }
+  }, [bundleId])
+
+  const counts = useMemo(() => contents ? countByContentType(contents.items) : [], [contents])
+
+  if (!bundleId) return null
+
+  const roam = (contentTypes?: string[], typeLabel?: string) => {
+    const scope: BundleScope = {
+      bundleId,
+      contentTypes,
+      label: `bundle ${shortenId(bundleId)}${typeLabel ? ` (${typeLabel})` : ''}`
+    }
+    // Roaming always starts from the bundle's first item
+    rewindBundleScope(scope)
+    onRoam(scope)
+    onClose()
+  }
+
+  const openItem = (tx: TxMeta) => {
+    onOpenTx(tx)
+    onClose()
+  }
+
+  return (
+    <div className="search-overlay" onClick={onClose}>
+      <div className="search-panel bundle-panel" onClick={e => e.stopPropagation()}>
+        <div className="search-header">
+          <Icons.Package size={20} />
+          <h2 className="bundle-title" title={bundleId}>Bundle {shortenId(bundleId)}</h2>
+          <button className="close-btn" onClick={onClose} aria-label="Close bundle explorer">
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        {error ? (
+          <div className="no-data">{error}</div>
+        ) : !contents ? (
+          <div className="no-data">Loading bundle…</div>
+        ) : (
+          <div className="bundle-body">
+            <div className="bundle-summary">
+              <span>
+                {contents.items.length.toLocaleString()}{contents.complete ? '' : '+'} item{contents.items.length === 1 ? '' : 's'}
+              </span>
+              <button
+                type="button"
+                className="scope-roam-btn"
+                onClick={() => roam()}
+                disabled={contents.items.length === 0}
+              >
+                Roam bundle
+              </button>
+            </div>
+            {!contents.complete && (
+              <div className="bundle-note">Counts cover the first {contents.items.length.toLocaleString()} items.</div>
+            )}
+
+            <ul className="bundle-types">
+              {counts.map(({ contentType, count, tagValues }) => {
+                const TypeIcon = getMediaTypeIcon(contentType)
+                return (
+                  <li key={contentType} className="bundle-type">
+                    <TypeIcon size={16} />
+                    <span className="bundle-type-name">{contentType}</span>
+                    <span className="bundle-type-count">{count.toLocaleString()}</span>
+                    <button
+                      type="button"
+                      className="scope-roam-btn"
+                      onClick={() => roam(tagValues, contentType)}
+                      disabled={tagValues.length === 0}
+                      aria-label={`Roam ${contentType} items`}
+                    >
+                      Roam
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+
+            <div className="search-results">
+              {contents.items.slice(0, LISTED_ITEMS).map(tx => {
+                const contentType = bundleItemContentType(tx)
+                const TypeIcon = getMediaTypeIcon(contentType)
+                return (
+                  <button key={tx.id} className="search-result" onClick={() => openItem(tx)}>
+                    <TypeIcon size={18} />
+                    <div className="search-result-body">
+                      <div className="search-result-title">
+                        {tx.tags.find(t => t.name === 'Title')?.value || shortenId(tx.id)}
+                      </div>
+                      <div className="search-result-meta">
+                        {contentType} · {formatFileSize(Number(tx.data.size))} · by {shortenId(tx.owner.address)}
+                      </div>
+                    </div>
+                  </button>
+                )
+              })}
+              {contents.items.length > LISTED_ITEMS && (
+                <div className="bundle-note">
+                  Showing {LISTED_ITEMS} of {contents.items.length.toLocaleString()}{contents.complete ? '' : '+'} items.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,12 @@ import { useState } from 'preact/hooks'
 import { DateRangeSlider } from './DateRangeSlider'
 import { Icons } from './Icons'
 import { useWayfinderSettings } from '../hooks/useWayfinderSettings'
-import type { MediaType, TxMeta } from '../constants'
+import { useContentCache } from '../hooks/useContentCache'
+import { formatFileSize } from '../utils/formatSize'
+import { parseTagFilter, formatTagFilter } from '../utils/tagFilters'
+import { isArweaveAddress } from '../utils/arweaveIds'
+import type { VerificationStrategyType } from '../services/wayfinderTypes'
+import type { BlockedOwner, CustomMediaDefinition, CustomMediaRenderer, MediaType, TagFilter, TxMeta } from '../constants'
 
 interface DateRange {
   start: Date
@@ -16,11 +21,28 @@ interface ChannelsDrawerProps {
   // Media selection
   currentMedia: MediaType
   onMediaChange: (media: MediaType) => void
+  favoritesCount?: number
+  
+  // User-defined media channels
+  customMedia?: CustomMediaDefinition[]
+  customMediaError?: string | null
+  onCreateCustomMedia?: (label: string, rawContentTypes: string, renderAs: CustomMediaRenderer) => Promise<boolean>
+  onUpdateCustomMedia?: (id: string, label: string, rawContentTypes: string, renderAs: CustomMediaRenderer) => Promise<boolean>
+  onDeleteCustomMedia?: (id: string) => void
   
   // Owner filter
   currentTx: TxMeta | null
   ownerAddress?: string
   onOwnerFilterChange: (address?: string) => void
+  ownerAddresses?: string[]
+  onOwnerAddressesChange?: (addresses: string[]) => void
+  blockedOwners?: BlockedOwner[]
+  onBlockOwner?: (address: string) => void
+  onUnblockOwner?: (address: string) => void
+  
+  // Advanced tag filter
+  tagFilters?: TagFilter[]
+  onTagFiltersChange?: (filters: TagFilter[]) => void
   
   // Recency
   recency: 'new' | 'old'
@@ -43,9 +65,22 @@ export function ChannelsDrawer({
   onClose,
   currentMedia,
   onMediaChange,
+  favoritesCount = 0,
+  customMedia = [],
+  customMediaError,
+  onCreateCustomMedia,
+  onUpdateCustomMedia,
+  onDeleteCustomMedia,
   currentTx,
   ownerAddress,
   onOwnerFilterChange,
+  ownerAddresses = [],
+  onOwnerAddressesChange,
+  blockedOwners = [],
+  onBlockOwner,
+  onUnblockOwner,
+  tagFilters = [],
+  onTagFiltersChange,
   recency,
   onRecencyChange,
   tempRange,
@@ -66,8 +101,25 @@ export function ChannelsDrawer({
     validationErrors
   } = useWayfinderSettings()
   
+  // Verified content kept on this device across reloads
+  const contentCache = useContentCache(open)
+  
   // Advanced settings visibility
   const [showAdvanced, setShowAdvanced] = useState(false)
+  
+  // Custom channel editor; editingId is set while editing an existing channel
+  const [customLabel, setCustomLabel] = useState('')
+  const [customTypes, setCustomTypes] = useState('')
+  const [customRenderAs, setCustomRenderAs] = useState<CustomMediaRenderer>('download')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  
+  // Followed creators input
+  const [ownerInput, setOwnerInput] = useState('')
+  const [ownerError, setOwnerError] = useState<string | null>(null)
+  
+  // Advanced tag filter input
+  const [tagInput, setTagInput] = useState('')
+  const [tagError, setTagError] = useState<string | null>(null)
 
   const handleMediaChange = (media: MediaType) => {
     onMediaChange(media)
@@ -84,6 +136,72 @@ export function ChannelsDrawer({
     onClose()
   }
 
+  const resetCustomForm = () => {
+    setCustomLabel('')
+    setCustomTypes('')
+    setCustomRenderAs('download')
+    setEditingId(null)
+  }
+
+  const handleEditCustomMedia = (def: CustomMediaDefinition) => {
+    setEditingId(def.id)
+    setCustomLabel(def.label)
+    setCustomTypes(def.contentTypes.join(', '))
+    setCustomRenderAs(def.renderAs)
+  }
+
+  const handleSaveCustomMedia = async (e: Event) => {
+    e.preventDefault()
+    const saved = editingId
+      ? await onUpdateCustomMedia?.(editingId, customLabel, customTypes, customRenderAs)
+      : await onCreateCustomMedia?.(customLabel, customTypes, customRenderAs)
+    if (saved) resetCustomForm()
+  }
+
+  const handleDeleteCustomMedia = (id: string) => {
+    // Fall back to a built-in channel when the active one is removed
+    if (currentMedia === id) onMediaChange('everything')
+    if (editingId === id) resetCustomForm()
+    onDeleteCustomMedia?.(id)
+  }
+
+  const handleAddOwner = (e: Event) => {
+    e.preventDefault()
+    const address = ownerInput.trim()
+    if (!isArweaveAddress(address)) {
+      setOwnerError('Enter a 43 character Arweave address')
+      return
+    }
+    if (!ownerAddresses.includes(address)) {
+      onOwnerAddressesChange?.([...ownerAddresses, address])
+    }
+    setOwnerInput('')
+    setOwnerError(null)
+  }
+
+  const handleRemoveOwner = (address: string) => {
+    onOwnerAddressesChange?.(ownerAddresses.filter(a => a !== address))
+  }
+
+  const isCurrentOwnerBlocked = !!currentTx && blockedOwners.some(b => b.address === currentTx.owner.address)
+
+  const handleAddTagFilter = (e: Event) => {
+    e.preventDefault()
+    const filter = parseTagFilter(tagInput)
+    if (!filter) {
+      setTagError('Use Name=value, Name=value1,value2 or Name=*')
+      return
+    }
+    // A filter on an existing tag name replaces it
+    onTagFiltersChange?.([...tagFilters.filter(f => f.name !== filter.name), filter])
+    setTagInput('')
+    setTagError(null)
+  }
+
+  const handleRemoveTagFilter = (name: string) => {
+    onTagFiltersChange?.(tagFilters.filter(f => f.name !== name))
+  }
+
   return (
     <>
       {/* Backdrop */}
@@ -123,13 +241,111 @@ export function ChannelsDrawer({
               <span className="content-icon"><Icons.Text /></span>
               <span className="content-label">Text</span>
             </button>
+            <button className={`content-card ${currentMedia === 'code' ? 'active' : ''}`} onClick={() => handleMediaChange('code')}>
+              <span className="content-icon"><Icons.SourceCode /></span>
+              <span className="content-label">Code</span>
+            </button>
             <button className={`content-card ${currentMedia === 'arfs' ? 'active' : ''}`} onClick={() => handleMediaChange('arfs')}>
               <span className="content-icon"><Icons.ArFS /></span>
               <span className="content-label">ArFS</span>
             </button>
+            <button className={`content-card ${currentMedia === 'arns' ? 'active' : ''}`} onClick={() => handleMediaChange('arns')}>
+              <span className="content-icon"><Icons.ArNS /></span>
+              <span className="content-label">ArNS</span>
+            </button>
+            <button
+              className={`content-card ${currentMedia === 'favorites' ? 'active' : ''}`}
+              onClick={() => handleMediaChange('favorites')}
+              disabled={favoritesCount === 0 && currentMedia !== 'favorites'}
+              title={favoritesCount === 0 ? 'Save something with the heart action first' : undefined}
+            >
+              <span className="content-icon"><Icons.Favorites /></span>
+              <span className="content-label">Favorites{favoritesCount > 0 ? ` (${favoritesCount})` : ''}</span>
+            </button>
+            {customMedia.map(def => (
+              <button
+                key={def.id}
+                className={`content-card ${currentMedia === def.id ? 'active' : ''}`}
+                onClick={() => handleMediaChange(def.id)}
+                title={def.contentTypes.join(', ')}
+              >
+                <span className="content-icon"><Icons.CustomMedia /></span>
+                <span className="content-label">{def.label}</span>
+              </button>
+            ))}
           </div>
         </div>
         
+        {/* Custom Channels Section */}
+        {onCreateCustomMedia && (
+          <div className="section">
+            <h2 className="section-title">Custom Channels</h2>
+            {customMedia.length > 0 && (
+              <ul className="custom-media-list">
+                {customMedia.map(def => (
+                  <li className="custom-media-row" key={def.id}>
+                    <div className="custom-media-info">
+                      <span className="custom-media-name">{def.label}</span>
+                      <span className="custom-media-types">{def.contentTypes.join(', ')}</span>
+                    </div>
+                    <button type="button" className="custom-media-action" onClick={() => handleEditCustomMedia(def)}>
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      className="custom-media-action"
+                      onClick={() => handleDeleteCustomMedia(def.id)}
+                      aria-label={`Delete ${def.label} channel`}
+                    >
+                      <Icons.Trash size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form className="custom-media-form" onSubmit={handleSaveCustomMedia}>
+              <input
+                type="text"
+                className="setting-input"
+                value={customLabel}
+                placeholder="Channel name, e.g. 3D models"
+                onInput={e => setCustomLabel(e.currentTarget.value)}
+                aria-label="Custom channel name"
+              />
+              <input
+                type="text"
+                className={`setting-input ${customMediaError ? 'error' : ''}`}
+                value={customTypes}
+                placeholder="model/gltf-binary, model/obj"
+                onInput={e => setCustomTypes(e.currentTarget.value)}
+                aria-label="Content types"
+              />
+              <select
+                className="setting-select"
+                value={customRenderAs}
+                onChange={e => setCustomRenderAs(e.currentTarget.value as CustomMediaRenderer)}
+                aria-label="Display as"
+              >
+                <option value="download">Show download card</option>
+                <option value="text">Show as text</option>
+                <option value="embed">Embed in a frame</option>
+              </select>
+              <div className="custom-media-form-actions">
+                {editingId && (
+                  <button type="button" className="tag-filter-clear" onClick={resetCustomForm}>
+                    Cancel
+                  </button>
+                )}
+                <button type="submit" className="tag-filter-add" disabled={!customLabel.trim() || !customTypes.trim()}>
+                  {editingId ? 'Save' : 'Create'}
+                </button>
+              </div>
+            </form>
+            {customMediaError && <div className="validation-error">{customMediaError}</div>}
+            <p className="tag-filter-hint">Images, videos and audio always use their native players.</p>
+          </div>
+        )}
+        
         {/* Creator Section */}
         {(currentTx || ownerAddress) && (
           <div className="section">
@@ -152,10 +368,84 @@ export function ChannelsDrawer({
                   <span>More from this Creator</span>
                 </button>
               ) : null}
+              {currentTx && onBlockOwner && !isCurrentOwnerBlocked && (
+                <button className="creator-btn block" onClick={() => onBlockOwner(currentTx.owner.address)}>
+                  <span className="creator-icon"><Icons.BlockCreator /></span>
+                  <span>Block this Creator</span>
+                </button>
+              )}
             </div>
           </div>
         )}
         
+        {/* Followed & Blocked Creators Section */}
+        {(onOwnerAddressesChange || blockedOwners.length > 0) && (
+          <div className="section">
+            {onOwnerAddressesChange && (
+              <>
+                <h2 className="section-title">Followed Creators</h2>
+                {ownerAddresses.length > 0 && (
+                  <div className="owner-list">
+                    {ownerAddresses.map(address => (
+                      <span className="owner-chip" key={address} title={address}>
+                        <span className="owner-chip-text">{address.slice(0, 8)}...</span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveOwner(address)}
+                          aria-label={`Stop following ${address}`}
+                        >
+                          <Icons.CloseMenu size={14} />
+                        </button>
+                      </span>
+                    ))}
+                    <button type="button" className="tag-filter-clear" onClick={() => onOwnerAddressesChange([])}>
+                      Clear all
+                    </button>
+                  </div>
+                )}
+                <form className="owner-form" onSubmit={handleAddOwner}>
+                  <input
+                    type="text"
+                    className={`setting-input ${ownerError ? 'error' : ''}`}
+                    value={ownerInput}
+                    placeholder="Owner address"
+                    onInput={e => {
+                      setOwnerInput(e.currentTarget.value)
+                      setOwnerError(null)
+                    }}
+                    aria-label="Owner address to follow"
+                  />
+                  <button type="submit" className="tag-filter-add" disabled={!ownerInput.trim() || queueLoading}>
+                    Follow
+                  </button>
+                </form>
+                {ownerError && <div className="validation-error">{ownerError}</div>}
+                <p className="tag-filter-hint">Content from any followed creator is shown.</p>
+              </>
+            )}
+            
+            {blockedOwners.length > 0 && onUnblockOwner && (
+              <>
+                <h3 className="subsection-title">Blocked Creators</h3>
+                <div className="owner-list">
+                  {blockedOwners.map(({ address }) => (
+                    <span className="owner-chip blocked" key={address} title={address}>
+                      <span className="owner-chip-text">{address.slice(0, 8)}...</span>
+                      <button
+                        type="button"
+                        onClick={() => onUnblockOwner(address)}
+                        aria-label={`Unblock ${address}`}
+                      >
+                        <Icons.CloseMenu size={14} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+        
         {/* Time Period Section */}
         <div className="section">
           <h2 className="section-title">Time Period</h2>
@@ -171,6 +461,50 @@ export function ChannelsDrawer({
           </div>
         </div>
         
+        {/* Advanced Tag Filter Section */}
+        {onTagFiltersChange && (
+          <div className="section">
+            <h2 className="section-title">Advanced Tag Filter</h2>
+            {tagFilters.length > 0 && (
+              <div className="tag-filter-list">
+                {tagFilters.map(filter => (
+                  <span className="tag-filter-chip" key={filter.name}>
+                    <span className="tag-filter-text">{formatTagFilter(filter)}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveTagFilter(filter.name)}
+                      aria-label={`Remove ${filter.name} filter`}
+                    >
+                      <Icons.CloseMenu size={14} />
+                    </button>
+                  </span>
+                ))}
+                <button type="button" className="tag-filter-clear" onClick={() => onTagFiltersChange([])}>
+                  Clear all
+                </button>
+              </div>
+            )}
+            <form className="tag-filter-form" onSubmit={handleAddTagFilter}>
+              <input
+                type="text"
+                className={`setting-input ${tagError ? 'error' : ''}`}
+                value={tagInput}
+                placeholder="Type=meme or Topic=*"
+                onInput={e => {
+                  setTagInput(e.currentTarget.value)
+                  setTagError(null)
+                }}
+                aria-label="Tag filter"
+              />
+              <button type="submit" className="tag-filter-add" disabled={!tagInput.trim() || queueLoading}>
+                Add
+              </button>
+            </form>
+            {tagError && <div className="validation-error">{tagError}</div>}
+            <p className="tag-filter-hint">All filters must match. Separate alternative values with commas.</p>
+          </div>
+        )}
+        
         <DateRangeSlider
           tempRange={tempRange}
           setTempRange={setTempRange}
@@ -223,6 +557,27 @@ export function ChannelsDrawer({
               </button>
             </div>
 
+            {/* Persistent verified-content cache */}
+            <div className="setting-row">
+              <div className="setting-info">
+                <span className="setting-label">Verified Content Cache</span>
+                <span className="setting-description">
+                  {contentCache.usage
+                    ? `${contentCache.usage.entries} item${contentCache.usage.entries === 1 ? '' : 's'} · ${formatFileSize(contentCache.usage.bytes)} of ${formatFileSize(contentCache.usage.maxBytes)} stored on this device`
+                    : 'Cache unavailable'}
+                </span>
+              </div>
+              <button
+                className="reset-btn cache-clear-btn"
+                onClick={contentCache.clear}
+                disabled={contentCache.clearing || !contentCache.usage?.entries}
+                aria-label="Clear the verified content cache"
+              >
+                <Icons.Trash />
+                Clear
+              </button>
+            </div>
+
             {/* Advanced Configuration */}
             {showAdvanced && (
               <div className="advanced-settings">
@@ -394,14 +749,18 @@ export function ChannelsDrawer({
                         {wayfinderSettings.verificationStrategy === 'hash' && 
                           " - Compares hashes from multiple trusted gateways"
                         }
+                        {wayfinderSettings.verificationStrategy === 'local-merkle' && 
+                          " - Computes the data root on this device and checks it against the transaction header"
+                        }
                       </span>
                     </div>
                     <select 
                       className="setting-select"
                       value={wayfinderSettings.verificationStrategy}
-                      onChange={(e) => updateWayfinderSettings({ verificationStrategy: e.currentTarget.value as 'hash' | 'none' })}
+                      onChange={(e) => updateWayfinderSettings({ verificationStrategy: e.currentTarget.value as VerificationStrategyType })}
                     >
                       <option value="hash">Hash-based</option>
+                      <option value="local-merkle">Local data root</option>
                       <option value="none">Disabled</option>
                     </select>
                   </div>
@@ -0,0 +1,74 @@
+import { useMemo, useState, useEffect } from 'preact/hooks'
+import { highlightCode, CODE_LANGUAGE_LABELS, type CodeLanguage } from '../utils/codeHighlight'
+import { logger } from '../utils/logger'
+import { Icons } from './Icons'
+
+interface CodeViewProps {
+  source: string
+  language: CodeLanguage | null
+  filename?: string
+}
+
+const COPIED_RESET_MS = 2000
+
+/**
+ * Read-only source viewer with line numbers, a wrap toggle and a copy button.
+ * Tokens are rendered as text nodes, never as HTML.
+ */
+export function CodeView({ source, language, filename }: CodeViewProps) {
+  const [wrap, setWrap] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const lines = useMemo(() => highlightCode(source, language), [source, language])
+
+  useEffect(() => {
+    if (!copied) return
+    const timer = setTimeout(() => setCopied(false), COPIED_RESET_MS)
+    return () => clearTimeout(timer)
+  }, [copied])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(source)
+      setCopied(true)
+    } catch (err) {
+      logger.warn('Failed to copy source', err)
+    }
+  }
+
+  return (
+    <div className="media-element code-container">
+      <div className="code-toolbar">
+        <span className="code-language">
+          {language ? CODE_LANGUAGE_LABELS[language] : 'Plain text'}
+          {filename && <span className="code-filename">{filename}</span>}
+        </span>
+        <button
+          className={`code-btn ${wrap ? 'active' : ''}`}
+          onClick={() => setWrap(!wrap)}
+          aria-pressed={wrap}
+          title={wrap ? 'Disable line wrapping' : 'Wrap long lines'}
+        >
+          <Icons.WrapText />
+        </button>
+        <button className="code-btn" onClick={handleCopy} title="Copy source" aria-label="Copy source">
+          {copied ? <Icons.Copied /> : <Icons.Copy />}
+        </button>
+      </div>
+      <pre className={`code-view ${wrap ? 'wrap' : ''}`}>
+        <code>
+          {lines.map((line, i) => (
+            <div className="code-line" key={i}>
+              <span className="code-line-number" aria-hidden="true">{i + 1}</span>
+              <span className="code-line-content">
+                {line.map((token, j) => token.type === 'plain'
+                  ? token.text
+                  : <span key={j} className={`tok-${token.type}`}>{token.text}</span>
+                )}
+              </span>
+            </div>
+          ))}
+        </code>
+      </pre>
+    </div>
+  )
+}
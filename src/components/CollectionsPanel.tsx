@@ -0,0 +1,288 @@
+import { useState, useRef } from 'preact/hooks'
+import { useCollections } from '../hooks/useCollections'
+import { Icons } from './Icons'
+import type { TxMeta } from '../constants'
+import '../styles/collections.css'
+
+interface CollectionsPanelProps {
+  currentTx: TxMeta | null
+  open: boolean
+  onClose: () => void
+  onOpenTx: (tx: TxMeta) => void
+}
+
+export function CollectionsPanel({ currentTx, open, onClose, onOpenTx }: CollectionsPanelProps) {
+  const collections = useCollections()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [renaming, setRenaming] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  if (!open) return null
+
+  const selected = collections.collections.find(c => c.id === selectedId) ?? collections.collections[0] ?? null
+  const containsCurrent = !!currentTx && !!selected?.items.some(item => item.tx.id === currentTx.id)
+
+  const handleCreate = async (e: Event) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+    await collections.create(newName)
+    setNewName('')
+  }
+
+  const handleImport = async (e: Event) => {
+    const input = e.currentTarget as HTMLInputElement
+    const file = input.files?.[0]
+    if (file) await collections.importFromFile(file)
+    input.value = ''
+  }
+
+  const handleOpen = (tx: TxMeta) => {
+    onOpenTx(tx)
+    onClose()
+  }
+
+  return (
+    <div className="collections-overlay" onClick={onClose}>
+      <div className="collections-panel" onClick={e => e.stopPropagation()}>
+        <div className="collections-header">
+          <h2>Collections</h2>
+          <button
+            className="close-btn"
+            onClick={onClose}
+            aria-label="Close collections"
+          >
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        <div className="collections-content">
+          <div className="collections-toolbar">
+            <form className="collections-create" onSubmit={handleCreate}>
+              <input
+                type="text"
+                className="collections-input"
+                placeholder="New collection name"
+                value={newName}
+                onInput={e => setNewName((e.target as HTMLInputElement).value)}
+              />
+              <button type="submit" className="collections-btn" disabled={!newName.trim()}>
+                <Icons.Plus /> Create
+              </button>
+            </form>
+            <div className="collections-transfer">
+              <button
+                className="collections-btn"
+                onClick={() => collections.exportToFile()}
+                disabled={collections.collections.length === 0}
+                title="Export all collections as JSON"
+              >
+                <Icons.Download size={16} /> Export
+              </button>
+              <button
+                className="collections-btn"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={collections.importing}
+                title="Import collections from JSON"
+              >
+                <Icons.Upload /> Import
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImport}
+                hidden
+              />
+            </div>
+          </div>
+
+          {collections.error && (
+            <div className="collections-error">{collections.error}</div>
+          )}
+
+          {collections.importProgress && (
+            <div className="collections-status">
+              Re-validating {collections.importProgress.done}/{collections.importProgress.total} transactions…
+            </div>
+          )}
+
+          {collections.importReport && (
+            <div className="collections-report">
+              <div className="collections-report-header">
+                <span>
+                  Imported {collections.importReport.imported} item{collections.importReport.imported === 1 ? '' : 's'}
+                  {collections.importReport.skipped > 0 && `, ${collections.importReport.skipped} already present`}
+                </span>
+                <button className="close-btn" onClick={collections.clearImportReport} aria-label="Dismiss import report">
+                  <Icons.X size={16} />
+                </button>
+              </div>
+              {collections.importReport.unresolved.length > 0 && (
+                <>
+                  <div className="collections-report-warning">
+                    {collections.importReport.unresolved.length} transaction{collections.importReport.unresolved.length === 1 ? '' : 's'} no longer resolve:
+                  </div>
+                  <ul className="collections-unresolved">
+                    {collections.importReport.unresolved.map(({ collection, id }) => (
+                      <li key={`${collection}-${id}`}>
+                        <span className="collections-unresolved-name">{collection}</span>
+                        <code>{id}</code>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              {collections.importReport.failed.length > 0 && (
+                <>
+                  <div className="collections-report-warning">
+                    {collections.importReport.failed.length} transaction{collections.importReport.failed.length === 1 ? '' : 's'} could not be checked because no gateway answered. Import the file again to retry:
+                  </div>
+                  <ul className="collections-unresolved">
+                    {collections.importReport.failed.map(({ collection, id }) => (
+                      <li key={`${collection}-${id}`}>
+                        <span className="collections-unresolved-name">{collection}</span>
+                        <code>{id}</code>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
+          {collections.collections.length === 0 ? (
+            <div className="no-data">No collections yet. Create one to start curating.</div>
+          ) : (
+            <div className="collections-layout">
+              <ul className="collections-list">
+                {collections.collections.map(c => (
+                  <li key={c.id}>
+                    <button
+                      className={`collections-list-item ${selected?.id === c.id ? 'active' : ''}`}
+                      onClick={() => setSelectedId(c.id)}
+                    >
+                      <span className="collections-list-name">{c.name}</span>
+                      <span className="collections-list-count">{c.items.length}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {selected && (
+                <div className="collection-detail">
+                  <div className="collection-detail-header">
+                    {renaming === selected.id ? (
+                      <input
+                        type="text"
+                        className="collections-input"
+                        defaultValue={selected.name}
+                        autoFocus
+                        onBlur={async e => {
+                          await collections.rename(selected.id, (e.target as HTMLInputElement).value)
+                          setRenaming(null)
+                        }}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') (e.target as HTMLInputElement).blur()
+                          if (e.key === 'Escape') setRenaming(null)
+                        }}
+                      />
+                    ) : (
+                      <h3 onDblClick={() => setRenaming(selected.id)} title="Double-click to rename">
+                        {selected.name}
+                      </h3>
+                    )}
+                    <div className="collection-detail-actions">
+                      <button
+                        className="collections-btn"
+                        onClick={() => currentTx && collections.addItem(selected.id, currentTx)}
+                        disabled={!currentTx || containsCurrent}
+                        title={containsCurrent ? 'Current item is already in this collection' : 'Add the current item'}
+                      >
+                        <Icons.Plus /> Add current
+                      </button>
+                      <button
+                        className="collections-btn"
+                        onClick={() => collections.exportToFile([selected.id])}
+                        title="Export this collection"
+                      >
+                        <Icons.Download size={16} />
+                      </button>
+                      <button
+                        className="collections-btn danger"
+                        onClick={() => {
+                          if (confirm(`Delete collection "${selected.name}"?`)) {
+                            collections.remove(selected.id)
+                            setSelectedId(null)
+                          }
+                        }}
+                        title="Delete collection"
+                      >
+                        <Icons.Trash />
+                      </button>
+                    </div>
+                  </div>
+
+                  {selected.items.length === 0 ? (
+                    <div className="no-data">This collection is empty.</div>
+                  ) : (
+                    <ol className="collection-items">
+                      {selected.items.map((item, index) => (
+                        <li key={item.tx.id} className="collection-item">
+                          <div className="collection-item-main">
+                            <button
+                              className="collection-item-open"
+                              onClick={() => handleOpen(item.tx)}
+                              title="Open in Roam"
+                            >
+                              {item.tx.arfsMeta?.name || `${item.tx.id.slice(0, 8)}…${item.tx.id.slice(-6)}`}
+                            </button>
+                            <span className="collection-item-type">
+                              {item.tx.arfsMeta?.contentType || item.tx.tags.find(t => t.name === 'Content-Type')?.value || 'unknown'}
+                            </span>
+                            <div className="collection-item-actions">
+                              <button
+                                onClick={() => collections.moveItem(selected.id, index, index - 1)}
+                                disabled={index === 0}
+                                aria-label="Move up"
+                              >
+                                <Icons.MoveUp />
+                              </button>
+                              <button
+                                onClick={() => collections.moveItem(selected.id, index, index + 1)}
+                                disabled={index === selected.items.length - 1}
+                                aria-label="Move down"
+                              >
+                                <Icons.MoveDown />
+                              </button>
+                              <button
+                                onClick={() => collections.removeItem(selected.id, item.tx.id)}
+                                aria-label="Remove from collection"
+                              >
+                                <Icons.Trash />
+                              </button>
+                            </div>
+                          </div>
+                          <input
+                            type="text"
+                            className="collection-item-note"
+                            placeholder="Add a note…"
+                            defaultValue={item.note}
+                            onBlur={e => {
+                              const note = (e.target as HTMLInputElement).value
+                              if (note !== item.note) collections.setNote(selected.id, item.tx.id, note)
+                            }}
+                          />
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
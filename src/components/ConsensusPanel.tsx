@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'preact/hooks'
+import { wayfinderService } from '../services/wayfinder'
+import { runConsensusCheck } from '../services/consensus'
+import type { ConsensusGatewayResult, ConsensusGatewayRole, ConsensusReport, ConsensusVerdict, VerificationStatus } from '../services/wayfinderTypes'
+import { formatFileSize } from '../utils/formatSize'
+import { logger } from '../utils/logger'
+import { Icons } from './Icons'
+import '../styles/consensus.css'
+
+const VERDICTS: Record<ConsensusVerdict, string> = {
+  consistent: 'The routed and trusted gateways serve the same bytes. The failure is not a data mismatch; it may have timed out or been caused by a bad digest header.',
+  'routed-outlier': 'The routed gateway serves different bytes from the majority. Its copy is likely wrong.',
+  'trusted-outlier': 'A trusted gateway serves different bytes from the majority. The trusted set is likely wrong.',
+  split: 'No version of the data is served by a majority of gateways.',
+  unavailable: 'Too few gateways answered to compare.'
+}
+
+const ROLE_LABELS: Record<ConsensusGatewayRole, string> = {
+  routed: 'Routed',
+  trusted: 'Trusted',
+  network: 'Network'
+}
+
+interface ConsensusPanelProps {
+  txId: string | null
+  verificationStatus: VerificationStatus
+  onClose: () => void
+}
+
+const shortenDigest = (digest: string | null) => digest ? `${digest.slice(0, 8)}…` : '—'
+
+/** The gateway's x-ar-io-digest header disagrees with the bytes it served */
+const misreported = (result: ConsensusGatewayResult) =>
+  !!result.digest && !!result.reportedDigest && result.digest !== result.reportedDigest
+
+/**
+ * Diagnostic for a failed verification: the same transaction fetched from
+ * the routed gateway, the trusted gateways and a few network gateways, with
+ * their digests, sizes and content types side by side.
+ */
+export function ConsensusPanel({ txId, verificationStatus, onClose }: ConsensusPanelProps) {
+  const [report, setReport] = useState<ConsensusReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [run, setRun] = useState(0)
+
+  useEffect(() => {
+    if (!txId) return
+    let cancelled = false
+    setReport(null)
+    setError(null)
+
+    wayfinderService.getConsensusGateways(txId)
+      .then(gateways => runConsensusCheck(txId, gateways))
+      .then(result => { if (!cancelled) setReport(result) })
+      .catch(err => {
+        logger.warn(`Consensus check failed for ${txId}`, err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Consensus check failed')
+      })
+
+    return () => { cancelled = true }
+  }, [txId, run])
+
+  if (!txId) return null
+
+  const renderReport = (r: ConsensusReport) => (
+    <div className="consensus-body">
+      <div className={`consensus-verdict ${r.verdict}`}>{VERDICTS[r.verdict]}</div>
+      <table className="consensus-table">
+        <thead>
+          <tr>
+            <th>Gateway</th>
+            <th>Role</th>
+            <th>Digest</th>
+            <th>Size</th>
+            <th>Type</th>
+            <th>Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {r.results.map(result => (
+            <tr key={result.url} className={result.agrees === false ? 'disagrees' : result.agrees ? 'agrees' : ''}>
+              <td className="consensus-gateway" title={result.url}>{result.url.replace('https://', '')}</td>
+              <td>{ROLE_LABELS[result.role]}</td>
+              {result.error ? (
+                <td colSpan={3} className="consensus-error">{result.error}</td>
+              ) : (
+                <>
+                  <td
+                    className={`consensus-digest ${misreported(result) ? 'differs' : ''}`}
+                    title={misreported(result)
+                      ? `Computed ${result.digest}, but the gateway reports ${result.reportedDigest}`
+                      : result.digest ?? result.reportedDigest ?? undefined}
+                  >
+                    {shortenDigest(result.digest ?? result.reportedDigest)}
+                  </td>
+                  <td className={r.majoritySize !== null && result.size !== r.majoritySize ? 'differs' : ''}>
+                    {result.size !== null ? formatFileSize(result.size) : '—'}
+                  </td>
+                  <td className={r.majorityContentType !== null && result.contentType !== r.majorityContentType ? 'differs' : ''}>
+                    {result.contentType ?? '—'}
+                  </td>
+                </>
+              )}
+              <td>{result.durationMs} ms</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <div className="search-overlay" onClick={onClose}>
+      <div className="search-panel consensus-panel" onClick={e => e.stopPropagation()}>
+        <div className="search-header">
+          <Icons.AlertTriangle size={20} />
+          <h2 className="consensus-title">Gateway consensus</h2>
+          <button className="close-btn" onClick={onClose} aria-label="Close consensus check">
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        {verificationStatus.txId === txId && verificationStatus.status === 'failed' && verificationStatus.error && (
+          <div className="consensus-note">Verification failed: {verificationStatus.error}</div>
+        )}
+
+        {error ? (
+          <div className="no-data">{error}</div>
+        ) : !report ? (
+          <div className="no-data">Fetching from gateways…</div>
+        ) : renderReport(report)}
+
+        <div className="consensus-actions">
+          <button type="button" className="scope-roam-btn" onClick={() => setRun(n => n + 1)} disabled={!report && !error}>
+            Check again
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
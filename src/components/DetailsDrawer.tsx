@@ -4,30 +4,53 @@ import '../styles/details-drawer.css'
 import { useState } from 'preact/hooks'
 import type { TxMeta } from '../constants'
 import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
+import type { HistoryBranchPoint } from '../engine/history'
+import type { SignatureCheck, SignatureMismatch } from '../engine/txSignature'
+import { resolveContentType } from '../utils/contentSniffing'
+import { shortenId } from '../utils/format'
+import { formatFileSize } from '../utils/formatSize'
+import type { ArUrl } from '../utils/arUrl'
+import { ArText } from './ArText'
 import { Icons } from './Icons'
 
 export interface DetailsDrawerProps {
   txMeta: TxMeta | null
   open: boolean
   onClose: () => void
+  historyBranches?: HistoryBranchPoint[]
+  onJumpToHistory?: (nodeId: string) => void
+  detectedContentType?: string | null
+  onOpenArUrl?: (url: ArUrl) => void
+  onBrowseDrive?: (driveId: string) => void
+  arfsRevisions?: TxMeta[]
+  arfsRevisionsLoading?: boolean
+  onSelectRevision?: (tx: TxMeta) => void
+  onViewBundle?: (bundleId: string) => void
+  signatureCheck?: SignatureCheck | null
+  signatureVerifying?: boolean
+  signatureError?: string | null
+  onVerifySignature?: () => void
 }
 
-function shortenId(id: string, head = 6, tail = 6): string {
-  return id.length > head + tail + 3 ? `${id.slice(0, head)}...${id.slice(-tail)}` : id;
+const MISMATCH_LABELS: Record<SignatureMismatch['field'], string> = {
+  owner: 'Owner',
+  tags: 'Tags',
+  fee: 'Fee',
+  quantity: 'Quantity',
+  size: 'Size',
 }
 
-function formatFileSize(bytes: number): string {
-  if (bytes === 0) return '0 B'
-  const k = 1024
-  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
-}
+/** Badge for a displayed field the owner's signature does not cover */
+const UnsignedBadge = ({ mismatch }: { mismatch?: SignatureMismatch }) => mismatch ? (
+  <span className="type-mismatch" title={`Signed value: ${mismatch.signed}`}>
+    Not signed
+  </span>
+) : null
 
-export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JSX.Element | null => {
+export const DetailsDrawer = ({ txMeta, open, onClose, historyBranches = [], onJumpToHistory, detectedContentType, onOpenArUrl, onBrowseDrive, arfsRevisions = [], arfsRevisionsLoading, onSelectRevision, onViewBundle, signatureCheck, signatureVerifying, signatureError, onVerifySignature }: DetailsDrawerProps): JSX.Element | null => {
   if (!open || !txMeta) return null
 
-  const { id, owner, fee, quantity, tags, block, arfsMeta } = txMeta
+  const { id, owner, fee, quantity, tags, block, arfsMeta, bundledIn } = txMeta
   const [showAllTags, setShowAllTags] = useState(false)
   const visibleTags = showAllTags ? tags : tags.slice(0, 5)
   const gatewayDataSourceNoProtocol = GATEWAY_DATA_SOURCE[0].replace('https://', '')
@@ -35,6 +58,16 @@ export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JS
   const driveIdTag = tags.find(tag => tag.name === 'Drive-Id')
   const fileIdTag = tags.find(tag => tag.name === 'File-Id')
 
+  // Declared type vs the type sniffed from the data; a mismatch means the sniffed one is rendered
+  const declaredContentType = arfsMeta?.contentType || tags.find(t => t.name === 'Content-Type')?.value || ''
+  const typeMismatch = !!detectedContentType &&
+    resolveContentType(declaredContentType, detectedContentType) === detectedContentType &&
+    declaredContentType.split(';')[0].trim().toLowerCase() !== detectedContentType
+
+  // Fields that differ from the signed header, once the signature has been checked
+  const signatureMismatches = signatureCheck?.mismatches ?? []
+  const mismatchOf = (field: SignatureMismatch['field']) => signatureMismatches.find(m => m.field === field)
+
   return (
     <>
       <div className="details-backdrop open" onClick={onClose} />
@@ -56,12 +89,28 @@ export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JS
               </div>
             )}
             <div className="info-item">
-              <span className="info-label">Type</span>
-              <span className="info-value">{arfsMeta?.contentType || txMeta.tags.find(t => t.name === 'Content-Type')?.value || 'Unknown'}</span>
+              <span className="info-label">{detectedContentType ? 'Declared Type' : 'Type'}</span>
+              <span className="info-value">{declaredContentType || 'Unknown'}</span>
             </div>
+            {detectedContentType && (
+              <div className="info-item">
+                <span className="info-label">Detected Type</span>
+                <span className="info-value">
+                  {detectedContentType}
+                  {typeMismatch && (
+                    <span className="type-mismatch" title="The data does not match its declared content type">
+                      Mismatch
+                    </span>
+                  )}
+                </span>
+              </div>
+            )}
             <div className="info-item">
               <span className="info-label">Size</span>
-              <span className="info-value">{formatFileSize(arfsMeta?.size || txMeta.data.size)}</span>
+              <span className="info-value">
+                {formatFileSize(arfsMeta?.size || txMeta.data.size)}
+                {!arfsMeta && <UnsignedBadge mismatch={mismatchOf('size')} />}
+              </span>
             </div>
             {arfsMeta?.customTags?.lastModifiedDate && (
               <div className="info-item">
@@ -121,6 +170,20 @@ export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JS
                     </div>
                   </a>
                 )}
+                {driveIdTag && onBrowseDrive && (
+                  <button
+                    type="button"
+                    className="ardrive-link ardrive-browse"
+                    onClick={() => onBrowseDrive(driveIdTag.value)}
+                    title="Browse this drive's folders in Roam"
+                  >
+                    <span className="ardrive-icon"><Icons.BrowseDrive /></span>
+                    <div className="ardrive-info">
+                      <div className="ardrive-label">Browse drive</div>
+                      <div className="ardrive-id">Folders and files in Roam</div>
+                    </div>
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -142,8 +205,23 @@ export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JS
                 <a href={`https://viewblock.io/arweave/address/${owner.address}`} target="_blank" rel="noopener noreferrer" title={owner.address}>
                   {shortenId(owner.address)}
                 </a>
+                <UnsignedBadge mismatch={mismatchOf('owner')} />
               </span>
             </div>
+            {bundledIn && (
+              <div className="info-item">
+                <span className="info-label">Bundle</span>
+                <span className="info-value">
+                  {onViewBundle ? (
+                    <button type="button" className="bundle-link" onClick={() => onViewBundle(bundledIn.id)} title={`View bundle ${bundledIn.id}`}>
+                      {shortenId(bundledIn.id)}
+                    </button>
+                  ) : (
+                    <span title={bundledIn.id}>{shortenId(bundledIn.id)}</span>
+                  )}
+                </span>
+              </div>
+            )}
             <div className="info-item">
               <span className="info-label">Block</span>
               <span className="info-value">{block.height.toLocaleString()}</span>
@@ -155,20 +233,20 @@ export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JS
             {parseFloat(fee.ar) > 0 && (
               <div className="info-item">
                 <span className="info-label">Fee</span>
-                <span className="info-value">{parseFloat(fee.ar).toFixed(6)} AR</span>
+                <span className="info-value">{parseFloat(fee.ar).toFixed(6)} AR<UnsignedBadge mismatch={mismatchOf('fee')} /></span>
               </div>
             )}
             {parseFloat(quantity.ar) > 0 && (
               <div className="info-item">
                 <span className="info-label">Quantity</span>
-                <span className="info-value">{parseFloat(quantity.ar).toFixed(6)} AR</span>
+                <span className="info-value">{parseFloat(quantity.ar).toFixed(6)} AR<UnsignedBadge mismatch={mismatchOf('quantity')} /></span>
               </div>
             )}
           </div>
 
           {/* Transaction Tags Section */}
           <div className="info-section">
-            <h3 className="section-title">Transaction Tags</h3>
+            <h3 className="section-title">Transaction Tags<UnsignedBadge mismatch={mismatchOf('tags')} /></h3>
             <div className="tag-list">
               {visibleTags.map(tag => {
                 const isDriveOrFile = tag.name === 'Drive-Id' || tag.name === 'File-Id'
@@ -176,7 +254,7 @@ export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JS
 
                 return (
                   <span className="tag-item" key={`${tag.name}-${tag.value}`}>
-                    <span className="tag-name">{tag.name}:</span> {tag.value}
+                    <span className="tag-name">{tag.name}:</span> <ArText text={tag.value} onOpenArUrl={onOpenArUrl} />
                   </span>
                 )
               })}
@@ -191,6 +269,118 @@ export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JS
             </div>
           </div>
 
+          {/* Signature Section */}
+          {onVerifySignature && (
+            <div className="info-section">
+              <h3 className="section-title">Signature</h3>
+              {signatureVerifying ? (
+                <div className="revision-loading">Verifying signature…</div>
+              ) : signatureCheck ? (
+                <div className={`signature-result ${signatureCheck.status === 'valid' && signatureMismatches.length === 0 ? 'valid' : 'warning'}`}>
+                  {signatureCheck.status === 'valid' ? (
+                    <>
+                      <div className="signature-summary">
+                        Valid {signatureCheck.scheme} signature over the {signatureCheck.source === 'data-item' ? 'data item' : 'transaction'} header
+                      </div>
+                      {signatureMismatches.length === 0 ? (
+                        <div className="signature-detail">Displayed owner, tags and amounts match what was signed.</div>
+                      ) : (
+                        <ul className="signature-mismatches">
+                          {signatureMismatches.map(mismatch => (
+                            <li key={mismatch.field}>
+                              <span className="tag-name">{MISMATCH_LABELS[mismatch.field]} differs from the signed value</span>
+                              <pre className="signature-value">{mismatch.signed}</pre>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  ) : (
+                    <div className="signature-summary">
+                      {signatureCheck.status === 'invalid' ? 'Invalid signature' : 'Signature not checked'}: {signatureCheck.reason}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <>
+                  {signatureError && <div className="signature-result warning">Could not verify: {signatureError}</div>}
+                  <button
+                    type="button"
+                    className="branch-item verify-signature-btn"
+                    onClick={onVerifySignature}
+                    title={bundledIn
+                      ? 'Fetch the data item header and its data, and check the owner\'s signature'
+                      : 'Fetch the transaction header and check the owner\'s signature'}
+                  >
+                    {signatureError ? 'Retry signature check' : 'Verify signature'}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* History Branches Section */}
+          {historyBranches.length > 0 && (
+            <div className="info-section">
+              <h3 className="section-title">History Branches</h3>
+              {historyBranches.map(point => (
+                <div className="branch-point" key={point.nodeId}>
+                  <div className="branch-origin">
+                    From <span title={point.tx.id}>{shortenId(point.tx.id)}</span>
+                  </div>
+                  <div className="branch-list">
+                    {point.branches.map(branch => (
+                      <button
+                        key={branch.nodeId}
+                        className={`branch-item ${branch.onCurrentPath ? 'active' : ''}`}
+                        onClick={() => onJumpToHistory?.(branch.nodeId)}
+                        disabled={branch.onCurrentPath}
+                        title={branch.tx.id}
+                      >
+                        <span className="branch-id">{branch.tx.arfsMeta?.name || shortenId(branch.tx.id)}</span>
+                        <span className="branch-length">
+                          {branch.onCurrentPath ? 'current' : `${branch.length} item${branch.length === 1 ? '' : 's'}`}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* ArFS Revisions Section */}
+          {arfsMeta && (arfsRevisionsLoading || arfsRevisions.length > 1) && (
+            <div className="info-section">
+              <h3 className="section-title">Revisions</h3>
+              {arfsRevisionsLoading ? (
+                <div className="revision-loading">Loading revisions…</div>
+              ) : (
+                <div className="branch-list">
+                  {arfsRevisions.map((revision, i) => (
+                    <button
+                      key={revision.id}
+                      className={`branch-item revision-item ${revision.id === id ? 'active' : ''}`}
+                      onClick={() => onSelectRevision?.(revision)}
+                      disabled={revision.id === id}
+                      title={revision.id}
+                    >
+                      <span className="revision-body">
+                        <span className="revision-name">{revision.arfsMeta?.name}</span>
+                        <span className="revision-meta">
+                          {formatFileSize(revision.arfsMeta?.size ?? 0)} · data {shortenId(revision.arfsMeta?.dataTxId ?? '')} · block {revision.block.height.toLocaleString()}
+                        </span>
+                      </span>
+                      <span className="branch-length">
+                        {revision.id === id ? 'viewing' : i === 0 ? 'latest' : new Date(revision.block.timestamp * 1000).toLocaleDateString()}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* ArFS Custom Tags Section */}
           {arfsMeta && Object.keys(arfsMeta.customTags).length > 0 && (
             <div className="info-section">
@@ -198,7 +388,7 @@ export const DetailsDrawer = ({ txMeta, open, onClose }: DetailsDrawerProps): JS
               <div className="tag-list">
                 {Object.entries(arfsMeta.customTags).map(([key, value]) => (
                   <span className="tag-item" key={`arfs-${key}-${value}`}>
-                    <span className="tag-name">{key}:</span> {value}
+                    <span className="tag-name">{key}:</span> <ArText text={value} onOpenArUrl={onOpenArUrl} />
                   </span>
                 ))}
               </div>
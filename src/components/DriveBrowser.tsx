@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'preact/hooks'
+import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
+import { countDriveFiles, loadArfsDrive, type ArfsDrive, type ArfsFolder } from '../engine/arfsDrive'
+import { logger } from '../utils/logger'
+import type { ArfsScope } from '../constants'
+import { Icons } from './Icons'
+import '../styles/drive-browser.css'
+
+/** The drive to browse; only entities uploaded by its owner belong to it */
+export interface DriveTarget {
+  driveId: string
+  owner: string
+}
+
+interface DriveBrowserProps {
+  target: DriveTarget | null
+  onClose: () => void
+  onRoam: (scope: ArfsScope) => void
+}
+
+/**
+ * The public folder tree of an ArFS drive with file counts. Roaming the
+ * drive or a folder plays its files in order as a temporary channel.
+ */
+export function DriveBrowser({ target, onClose, onRoam }: DriveBrowserProps) {
+  const [drive, setDrive] = useState<ArfsDrive | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!target) return
+    let cancelled = false
+    setDrive(null)
+    setError(null)
+
+    loadArfsDrive(target.driveId, target.owner, GATEWAY_DATA_SOURCE[0])
+      .then(loaded => { if (!cancelled) setDrive(loaded) })
+      .catch(err => {
+        logger.warn(`Failed to load drive ${target.driveId}`, err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load drive')
+      })
+
+    return () => { cancelled = true }
+  }, [target?.driveId, target?.owner])
+
+  if (!target) return null
+
+  const roam = (folder: ArfsFolder, label: string) => {
+    onRoam({
+      driveId: target.driveId,
+      owner: target.owner,
+      folderId: drive && folder === drive.root ? undefined : folder.id,
+      label
+    })
+    onClose()
+  }
+
+  const renderFolder = (folder: ArfsFolder, path: string) => {
+    const count = countDriveFiles(folder)
+    return (
+      <li key={folder.id}>
+        <div className="drive-folder">
+          <Icons.Folder />
+          <span className="drive-folder-name" title={path}>{folder.name}</span>
+          <span className="drive-folder-count">{count} file{count === 1 ? '' : 's'}</span>
+          <button
+            type="button"
+            className="scope-roam-btn"
+            onClick={() => roam(folder, path)}
+            disabled={count === 0}
+            aria-label={`Roam ${path}`}
+          >
+            Roam
+          </button>
+        </div>
+        {folder.folders.length > 0 && (
+          <ul className="drive-tree">{folder.folders.map(child => renderFolder(child, `${path}/${child.name}`))}</ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div className="search-overlay" onClick={onClose}>
+      <div className="search-panel drive-panel" onClick={e => e.stopPropagation()}>
+        <div className="search-header">
+          <Icons.ArFS />
+          <h2 className="drive-title">{drive?.name ?? 'Drive'}</h2>
+          <button className="close-btn" onClick={onClose} aria-label="Close drive browser">
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        <div className="drive-body">
+          {error ? (
+            <div className="no-data">{error}</div>
+          ) : !drive ? (
+            <div className="no-data">Loading drive…</div>
+          ) : (
+            <ul className="drive-tree drive-root">{renderFolder(drive.root, drive.name)}</ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'preact/hooks'
+import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
+import { IMAGE_LOAD_THRESHOLD, VIDEO_LOAD_THRESHOLD, type TxMeta } from '../constants'
+import { formatFileSize } from '../utils/formatSize'
+import { Icons } from './Icons'
+import '../styles/gallery.css'
+
+interface GalleryProps {
+  items: TxMeta[]
+  loading: boolean
+  exhausted: boolean
+  privacyOn: boolean
+  onLoadMore: () => void
+  onSelect: (tx: TxMeta) => void
+}
+
+/**
+ * Calls `onVisible` when the element scrolls within `margin` of the viewport.
+ * A new `key` re-checks an element that is still in view.
+ */
+function useInView<T extends Element>(onVisible: () => void, margin = '200px', key?: unknown) {
+  const ref = useRef<T>(null)
+  const callback = useRef(onVisible)
+  callback.current = onVisible
+
+  useEffect(() => {
+    const el = ref.current
+    if (!el) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) callback.current()
+    }, { rootMargin: margin })
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [margin, key])
+
+  return ref
+}
+
+function GalleryTile({ tx, onSelect }: { tx: TxMeta; onSelect: (tx: TxMeta) => void }) {
+  const [visible, setVisible] = useState(false)
+  const ref = useInView<HTMLButtonElement>(() => setVisible(true))
+  const src = `${GATEWAY_DATA_SOURCE[0]}/${tx.id}`
+  const isVideo = tx.tags.find(t => t.name === 'Content-Type')?.value.startsWith('video/')
+  // Like the single view, large files are not loaded until the tile is opened
+  const size = Number(tx.data.size)
+  const tooLarge = size > (isVideo ? VIDEO_LOAD_THRESHOLD : IMAGE_LOAD_THRESHOLD)
+
+  return (
+    <button ref={ref} type="button" className="gallery-tile" onClick={() => onSelect(tx)} title={tx.id}>
+      {visible && (tooLarge ? (
+        <span className="gallery-placeholder">
+          {isVideo ? <Icons.Video size={28} /> : <Icons.Image size={28} />}
+          <span>{formatFileSize(size)}</span>
+        </span>
+      ) : isVideo ? (
+        <>
+          {/* The fragment asks for a frame just past the start to use as the poster */}
+          <video src={`${src}#t=0.1`} preload="metadata" muted playsInline />
+          <span className="gallery-video-badge"><Icons.Video size={14} /></span>
+        </>
+      ) : (
+        <img src={src} alt="" loading="lazy" decoding="async" />
+      ))}
+    </button>
+  )
+}
+
+/**
+ * The channel's queue as a thumbnail grid. Tiles load as they scroll into
+ * view and reaching the end of the grid takes the next page.
+ */
+export function Gallery({ items, loading, exhausted, privacyOn, onLoadMore, onSelect }: GalleryProps) {
+  const sentinel = useInView<HTMLDivElement>(() => {
+    if (!loading && !exhausted) onLoadMore()
+  }, '400px', items.length)
+
+  return (
+    <div className={`gallery ${privacyOn ? 'private' : ''}`}>
+      <div className="gallery-grid">
+        {items.map(tx => <GalleryTile key={tx.id} tx={tx} onSelect={onSelect} />)}
+      </div>
+      <div ref={sentinel} className="gallery-status">
+        {loading ? 'Loading more…' : exhausted ? (items.length ? 'End of this channel' : 'Nothing found on this channel') : ''}
+      </div>
+    </div>
+  )
+}
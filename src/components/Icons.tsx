@@ -8,6 +8,8 @@ import {
   Image,
   Video,
   FileSpreadsheet,
+  FileCode,
+  Box,
   Globe,
   Package,
   Clock,
@@ -22,6 +24,7 @@ import {
   Archive,
   FolderOpen,
   Users,
+  UserX,
   Menu,
   Info,
   Calendar,
@@ -31,8 +34,27 @@ import {
   CheckCircle,
   AlertTriangle,
   Settings,
-  RotateCcw
+  RotateCcw,
+  Bookmark,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+  Plus,
+  Upload,
+  Search,
+  Code,
+  Copy,
+  Check,
+  WrapText,
+  AtSign,
+  FolderTree,
+  Folder,
+  ChevronRight,
+  Unlink,
+  FolderSearch
 } from 'lucide-preact'
+import { findCustomMediaForContentType } from '../engine/customMedia'
+import { detectCodeLanguage } from '../utils/codeHighlight'
 
 interface IconProps {
   size?: number
@@ -54,6 +76,8 @@ export const Icons = {
   Document: (props: IconProps) => <FileText size={18} {...props} />,
   Spreadsheet: (props: IconProps) => <FileSpreadsheet size={18} {...props} />,
   Website: (props: IconProps) => <Globe size={18} {...props} />,
+  Code: (props: IconProps) => <FileCode size={18} {...props} />,
+  Model: (props: IconProps) => <Box size={18} {...props} />,
   
   // Metadata
   Package: (props: IconProps) => <Package size={16} {...props} />,
@@ -61,6 +85,7 @@ export const Icons = {
   User: (props: IconProps) => <User size={16} {...props} />,
   Link: (props: IconProps) => <Link size={16} {...props} />,
   Tag: (props: IconProps) => <Tag size={16} {...props} />,
+  ArnsName: (props: IconProps) => <AtSign size={16} {...props} />,
   
   // Privacy
   Eye: (props: IconProps) => <Eye size={18} {...props} />,
@@ -77,7 +102,11 @@ export const Icons = {
   AudioMusic: (props: IconProps) => <Music size={20} {...props} />,
   Websites: (props: IconProps) => <Globe size={20} {...props} />,
   Text: (props: IconProps) => <FileText size={20} {...props} />,
+  SourceCode: (props: IconProps) => <Code size={20} {...props} />,
   ArFS: (props: IconProps) => <FolderOpen size={20} {...props} />,
+  ArNS: (props: IconProps) => <AtSign size={20} {...props} />,
+  Favorites: (props: IconProps) => <Heart size={20} {...props} />,
+  CustomMedia: (props: IconProps) => <Box size={20} {...props} />,
   
   // Time periods
   Recent: (props: IconProps) => <Clock size={18} {...props} />,
@@ -86,6 +115,7 @@ export const Icons = {
   // Creator
   Creator: (props: IconProps) => <User size={18} {...props} />,
   Everyone: (props: IconProps) => <Users size={18} {...props} />,
+  BlockCreator: (props: IconProps) => <UserX size={18} {...props} />,
   
   // Menu
   Menu: (props: IconProps) => <Menu size={18} {...props} />,
@@ -109,7 +139,30 @@ export const Icons = {
   
   // Advanced settings icons
   Settings: (props: IconProps) => <Settings size={16} {...props} />,
-  RotateCcw: (props: IconProps) => <RotateCcw size={16} {...props} />
+  RotateCcw: (props: IconProps) => <RotateCcw size={16} {...props} />,
+  
+  // Collections
+  Collections: (props: IconProps) => <Bookmark size={16} {...props} />,
+  MoveUp: (props: IconProps) => <ChevronUp size={16} {...props} />,
+  MoveDown: (props: IconProps) => <ChevronDown size={16} {...props} />,
+  Trash: (props: IconProps) => <Trash2 size={16} {...props} />,
+  Plus: (props: IconProps) => <Plus size={16} {...props} />,
+  Upload: (props: IconProps) => <Upload size={16} {...props} />,
+  
+  // Search
+  Search: (props: IconProps) => <Search size={16} {...props} />,
+  
+  // Code viewer
+  Copy: (props: IconProps) => <Copy size={16} {...props} />,
+  Copied: (props: IconProps) => <Check size={16} {...props} />,
+  WrapText: (props: IconProps) => <WrapText size={16} {...props} />,
+  
+  // Manifest explorer
+  ManifestTree: (props: IconProps) => <FolderTree size={18} {...props} />,
+  Folder: (props: IconProps) => <Folder size={14} {...props} />,
+  Expand: (props: IconProps) => <ChevronRight size={14} {...props} />,
+  BrokenLink: (props: IconProps) => <Unlink size={14} {...props} />,
+  BrowseDrive: (props: IconProps) => <FolderSearch size={16} {...props} />
 }
 
 // Helper function to get media type icon
@@ -117,6 +170,12 @@ export const getMediaTypeIcon = (contentType: string) => {
   if (contentType.startsWith('image/')) return Icons.Image
   if (contentType.startsWith('video/')) return Icons.Video
   if (contentType.startsWith('audio/')) return Icons.Music
+  if (detectCodeLanguage(contentType)) return Icons.Code
+  // Types covered by a custom media channel use its renderer's icon
+  const custom = findCustomMediaForContentType(contentType)
+  if (custom?.renderAs === 'text') return Icons.Code
+  if (custom?.renderAs === 'embed') return Icons.Website
+  if (custom) return Icons.Model
   if (contentType.includes('pdf') || contentType.startsWith('text/')) return Icons.Document
   if (contentType.includes('html')) return Icons.Website
   if (contentType.includes('spreadsheet') || contentType.includes('csv')) return Icons.Spreadsheet
@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from 'preact/hooks'
+import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
+import { fetchManifest, resolveManifestTargets, type ManifestTarget } from '../engine/manifest'
+import { buildManifestTree, type ArweaveManifest, type ManifestTreeNode } from '../utils/arweaveManifest'
+import { formatFileSize } from '../utils/formatSize'
+import { logger } from '../utils/logger'
+import type { TxMeta } from '../constants'
+import { Icons, getMediaTypeIcon } from './Icons'
+
+interface ManifestExplorerProps {
+  txId: string
+  onOpenTx?: (tx: TxMeta) => void
+}
+
+/**
+ * The paths of an Arweave manifest as a folder tree with each target's size
+ * and content type. Paths whose target no longer resolves are flagged, and
+ * resolved targets open as standalone items.
+ */
+export function ManifestExplorer({ txId, onOpenTx }: ManifestExplorerProps) {
+  const [manifest, setManifest] = useState<ArweaveManifest | null>(null)
+  const [targets, setTargets] = useState<Map<string, ManifestTarget> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    let cancelled = false
+    setManifest(null)
+    setTargets(null)
+    setError(null)
+    setCollapsed(new Set())
+
+    const gateway = GATEWAY_DATA_SOURCE[0]
+    fetchManifest(txId, gateway)
+      .then(async loaded => {
+        if (cancelled) return
+        setManifest(loaded)
+        const resolved = await resolveManifestTargets(loaded.entries.map(e => e.id), gateway)
+        if (!cancelled) setTargets(resolved)
+      })
+      .catch(err => {
+        logger.warn(`Failed to load manifest ${txId}`, err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load manifest')
+      })
+
+    return () => { cancelled = true }
+  }, [txId])
+
+  const tree = useMemo(() => manifest && buildManifestTree(manifest.entries), [manifest])
+
+  if (error) return <div className="media-error">{error}</div>
+  if (!manifest || !tree) return <div className="media-loading">Loading manifest…</div>
+
+  const brokenCount = targets
+    ? manifest.entries.filter(e => targets.get(e.id)?.status === 'broken').length
+    : 0
+
+  const toggleFolder = (path: string) => {
+    const next = new Set(collapsed)
+    if (next.has(path)) next.delete(path)
+    else next.add(path)
+    setCollapsed(next)
+  }
+
+  const renderNode = (node: ManifestTreeNode, depth: number) => {
+    const isFolder = node.children.length > 0
+    const isOpen = !collapsed.has(node.path)
+    const entry = node.entry
+    const target = entry && targets?.get(entry.id)
+    const isBroken = target?.status === 'broken'
+    const canOpen = !!target?.tx && !!onOpenTx
+    const TypeIcon = getMediaTypeIcon(target?.contentType ?? '')
+
+    return (
+      <li key={node.path || '/'}>
+        <div
+          className={`manifest-row ${isBroken ? 'broken' : ''}`}
+          style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+        >
+          {isFolder ? (
+            <button
+              type="button"
+              className={`manifest-toggle ${isOpen ? 'open' : ''}`}
+              onClick={() => toggleFolder(node.path)}
+              aria-expanded={isOpen}
+              aria-label={`${isOpen ? 'Collapse' : 'Expand'} ${node.path}`}
+            >
+              <Icons.Expand />
+            </button>
+          ) : (
+            <span className="manifest-toggle" />
+          )}
+          <span className="manifest-icon">{entry ? <TypeIcon size={14} /> : <Icons.Folder />}</span>
+          {entry && canOpen ? (
+            <button type="button" className="manifest-name manifest-open" onClick={() => onOpenTx!(target!.tx!)} title={`Open ${entry.path}`}>
+              {node.name || '/'}
+            </button>
+          ) : (
+            <span className="manifest-name" title={entry ? entry.id || 'Missing id' : undefined}>{node.name || '/'}</span>
+          )}
+          {entry && manifest.index === entry.path && <span className="manifest-badge">index</span>}
+          {entry && (
+            <span className="manifest-meta">
+              {!targets ? '…'
+                : !target ? 'unchecked'
+                : isBroken ? <><Icons.BrokenLink /> broken</>
+                : [target.contentType, target.size !== undefined ? formatFileSize(target.size) : null].filter(Boolean).join(' · ')}
+            </span>
+          )}
+        </div>
+        {isFolder && isOpen && (
+          <ul className="manifest-tree">{node.children.map(child => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div className="media-element manifest-container">
+      <div className="manifest-summary">
+        <span>{manifest.entries.length} path{manifest.entries.length === 1 ? '' : 's'}</span>
+        <span>manifest v{manifest.version}</span>
+        {!targets && <span>Checking targets…</span>}
+        {brokenCount > 0 && <span className="manifest-broken-count">{brokenCount} broken</span>}
+      </div>
+      <ul className="manifest-tree manifest-root">
+        {tree.entry && renderNode({ ...tree, children: [] }, 0)}
+        {tree.children.map(child => renderNode(child, 0))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { useMemo, useEffect, useRef } from 'preact/hooks'
+import { renderMarkdown } from '../utils/markdown'
+import { sanitizeHtml } from '../utils/sanitizeHtml'
+import { parseArUrl, type ArUrl } from '../utils/arUrl'
+import { wayfinderService } from '../services/wayfinder'
+import { resolveArUrl } from '../services/arResolver'
+import { logger } from '../utils/logger'
+import { isPlainClick } from './ArText'
+
+interface MarkdownViewProps {
+  source: string
+  onOpenArUrl?: (url: ArUrl) => void
+}
+
+/**
+ * Rendered markdown. The HTML is sanitized before it is inserted; Arweave
+ * images and links (ar:// URLs or relative tx ids) are then resolved
+ * through Wayfinder, and Arweave links open inside Roam.
+ */
+export function MarkdownView({ source, onOpenArUrl }: MarkdownViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const html = useMemo(() => sanitizeHtml(renderMarkdown(source)), [source])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    let cancelled = false
+    const objectUrls: string[] = []
+
+    // Links point at the gateway directly so following one does not fetch the target up front
+    container.querySelectorAll<HTMLAnchorElement>('a[data-ar-href]').forEach(link => {
+      const href = resolveArUrl(link.dataset.arHref ?? '')
+      if (!href) return
+      link.href = href
+      link.target = '_blank'
+      link.rel = 'noopener noreferrer nofollow'
+    })
+
+    container.querySelectorAll<HTMLImageElement>('img[data-ar-src]').forEach(async img => {
+      const url = parseArUrl(img.dataset.arSrc ?? '')
+      if (!url) return
+      if (url.kind === 'arns') {
+        img.src = resolveArUrl(url) ?? ''
+        return
+      }
+      try {
+        const result = await wayfinderService.getContentUrl({ txId: url.txId, path: url.path })
+        if (cancelled) return
+        // Prefer the verified bytes Wayfinder already fetched
+        if (result.data) {
+          const objectUrl = URL.createObjectURL(result.data)
+          objectUrls.push(objectUrl)
+          img.src = objectUrl
+        } else {
+          img.src = result.url
+        }
+      } catch (error) {
+        logger.warn(`Failed to resolve markdown image ${url.txId}`, error)
+      }
+    })
+
+    return () => {
+      cancelled = true
+      objectUrls.forEach(url => URL.revokeObjectURL(url))
+    }
+  }, [html])
+
+  const handleClick = (e: MouseEvent) => {
+    if (!onOpenArUrl || !isPlainClick(e)) return
+    const link = (e.target as Element).closest?.('a[data-ar-href]') as HTMLAnchorElement | null
+    const url = link && parseArUrl(link.dataset.arHref ?? '')
+    if (url) {
+      e.preventDefault()
+      onOpenArUrl(url)
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="markdown-body"
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  )
+}
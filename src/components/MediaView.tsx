@@ -7,13 +7,20 @@
  * - Images: Progressive loading with zoom capability
  * - Videos: Native HTML5 player with metadata preload
  * - Audio: Enhanced player with visual wave animation
- * - Text/Markdown: Syntax-highlighted with proper typography
+ * - Text: Preformatted with proper typography
+ * - Markdown: Rendered and sanitized, ar:// images resolved through Wayfinder
+ * - ar:// links in text and markdown open the target inside Roam
+ * - Source code: JS/TS, JSON, Lua, Solidity, CSS and more with line numbers
  * - PDFs: Embedded iframe viewer
  * - Websites/HTML: Sandboxed iframe rendering
+ * - Path manifests: the site, or an explorer of the manifest's paths
  * - ArFS Files: Metadata resolution with file type detection
+ * - Mislabeled uploads: content type sniffed from the leading bytes
+ * - Custom media channels: text, iframe or download card per definition
  * 
  * Smart Loading Features:
  * - Manual load buttons for large files (bandwidth consideration)
+ * - Streamed video/audio playback and a byte progress bar for large downloads
  * - Progressive enhancement based on file size thresholds
  * - Automatic fallback and error handling for corrupted content
  * - Privacy screen toggle for NSFW content protection
@@ -29,16 +36,27 @@ import '../styles/media-view.css';
 import '../styles/verification-indicator.css';
 import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue';
 import { useWayfinderContent } from '../hooks/useWayfinderContent';
-import type { TxMeta } from '../constants';
+import { findCustomMediaForContentType } from '../engine/customMedia';
+import type { CustomMediaDefinition, TxMeta } from '../constants';
+import type { ArUrl } from '../utils/arUrl';
 import { 
   IMAGE_LOAD_THRESHOLD, 
   VIDEO_LOAD_THRESHOLD, 
   AUDIO_LOAD_THRESHOLD, 
   TEXT_LOAD_THRESHOLD,
+  LOAD_PROGRESS_MIN_BYTES,
   IFRAME_LOAD_TIMEOUT,
   FADE_IN_DELAY
 } from '../constants';
 import { Icons, getMediaTypeIcon } from './Icons';
+import { CodeView } from './CodeView';
+import { MarkdownView } from './MarkdownView';
+import { ArText } from './ArText';
+import { ManifestExplorer } from './ManifestExplorer';
+import { detectCodeLanguage } from '../utils/codeHighlight';
+import { isManifestContentType } from '../utils/arweaveManifest';
+import { createMediaSourceUrl } from '../utils/mediaStream';
+import { formatFileSize } from '../utils/formatSize';
 
 export interface MediaViewProps {
   txMeta: TxMeta;
@@ -51,8 +69,28 @@ export interface MediaViewProps {
   onShare?: () => void;
   onDownload?: () => void;
   onOpenInNewTab?: () => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: () => void;
+  onTextExtracted?: (txMeta: TxMeta, text: string) => void;
+  onContentTypeDetected?: (txMeta: TxMeta, sniffedContentType: string | null) => void;
+  onOpenArUrl?: (url: ArUrl) => void;
+  onOpenTx?: (txMeta: TxMeta) => void;
 }
 
+/** Types that always use the native image/video/audio players */
+const NATIVE_MEDIA_PATTERN = /^(image|video|audio)\//;
+
+/**
+ * Content type to render as. Custom media definitions route types without a
+ * native player to the text or iframe renderer.
+ */
+const getRenderContentType = (contentType: string, customMedia?: CustomMediaDefinition): string => {
+  if (!customMedia || NATIVE_MEDIA_PATTERN.test(contentType)) return contentType;
+  if (customMedia.renderAs === 'text') return 'text/plain';
+  if (customMedia.renderAs === 'embed') return 'text/html';
+  return contentType;
+};
+
 export const MediaView = ({
   txMeta,
   onDetails,
@@ -62,7 +100,13 @@ export const MediaView = ({
   onCorrupt,
   onShare,
   onDownload,
-  onOpenInNewTab
+  onOpenInNewTab,
+  isFavorite = false,
+  onToggleFavorite,
+  onTextExtracted,
+  onContentTypeDetected,
+  onOpenArUrl,
+  onOpenTx
 }: MediaViewProps) => {
   const { id, tags } = txMeta;
 
@@ -81,15 +125,26 @@ export const MediaView = ({
   // State for forcing content to load even if it exceeds size thresholds
   const [forceLoad, setForceLoad] = useState(false);
   
-  // Use Wayfinder for content URL with size-aware loading
-  const wayfinderResult = useWayfinderContent(dataTxId, undefined, forceLoad, baseContentType, size);
+  // Use Wayfinder for content URL with size-aware loading; video and audio may arrive as a stream
+  const wayfinderResult = useWayfinderContent(dataTxId, undefined, forceLoad, baseContentType, size, true);
   
-  // Final content type: prefer Wayfinder's detected type, fallback to base
-  const contentType = wayfinderResult.contentType || baseContentType;
+  // Final content type: prefer the sniffed/resolved type, then the gateway header, then the tags
+  const detectedContentType = wayfinderResult.resolvedContentType || wayfinderResult.contentType || baseContentType;
+  const customMedia = findCustomMediaForContentType(detectedContentType);
+  const contentType = getRenderContentType(detectedContentType, customMedia);
+  const showDownloadCard = customMedia?.renderAs === 'download' && !NATIVE_MEDIA_PATTERN.test(detectedContentType);
+  // Source code is detected from the Content-Type, or the filename when the type is generic
+  const codeLanguage = NATIVE_MEDIA_PATTERN.test(contentType) ? null : detectCodeLanguage(contentType, arfsMeta?.name);
+  const isCode = codeLanguage !== null;
+  const isMarkdown = !isCode && contentType.split(';')[0].trim() === 'text/markdown';
+  // Gateways serve a manifest's index page, so the tag is checked as well as the detected type
+  const isManifest = isManifestContentType(baseContentType) || isManifestContentType(detectedContentType);
   
   const directUrl = wayfinderResult.url || `${GATEWAY_DATA_SOURCE[0]}/${dataTxId}`;
 
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  // The playing video or audio element, which a streamed body trims its buffer behind
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
 
   const wideContentTypes = [
     'application/pdf',
@@ -103,7 +158,7 @@ export const MediaView = ({
   const getContentTypeClass = () => { if (contentType) {
       if (contentType.startsWith('image/')) return 'content-image';
       if (contentType === 'application/pdf') return 'content-pdf';
-      if (['text/plain', 'text/markdown'].includes(contentType)) return 'content-text';
+      if (isCode || ['text/plain', 'text/markdown'].includes(contentType)) return 'content-text';
       if (contentType.startsWith('text/html') || 
           contentType === 'application/xhtml+xml' || 
           contentType.startsWith('application/x.arweave-manifest') || 
@@ -123,13 +178,15 @@ export const MediaView = ({
   const [fadeIn, setFadeIn] = useState(false);
   const [actionsExpanded, setActionsExpanded] = useState(false);
   const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [streamUrl, setStreamUrl] = useState<string | null>(null);
+  const [showManifestExplorer, setShowManifestExplorer] = useState(false);
 
   // Reset flags when tx changes
 useEffect(() => {
   const isImage = contentType.startsWith('image/');
   const isVideo = contentType.startsWith('video/');
   const isAudio = contentType.startsWith('audio/');
-  const isText = ['text/plain', 'text/markdown'].includes(contentType);
+  const isText = isCode || ['text/plain', 'text/markdown'].includes(contentType);
 
   setManualLoad(isImage && size > IMAGE_LOAD_THRESHOLD);
   setManualLoadVideo(isVideo && size > VIDEO_LOAD_THRESHOLD);
@@ -141,6 +198,7 @@ useEffect(() => {
   setLoadingText(false);
   setErrorText(null);
   setFadeIn(false);
+  setShowManifestExplorer(false);
   
   // Trigger fade in after a short delay for smooth transition
   const timer = setTimeout(() => {
@@ -148,7 +206,7 @@ useEffect(() => {
   }, FADE_IN_DELAY);
   
   return () => clearTimeout(timer);
-}, [id, contentType, size]);
+}, [id, contentType, isCode, size]);
 
   // Handle Wayfinder content data and Object URL lifecycle
   useEffect(() => {
@@ -164,7 +222,7 @@ useEffect(() => {
       setObjectUrl(newObjectUrl);
       
       // For text content, extract text from Blob automatically (no double-fetching)
-      if ((contentType.startsWith('text/') && !contentType.startsWith('text/html') && !contentType.startsWith('text/xml')) ||
+      if (isCode || (contentType.startsWith('text/') && !contentType.startsWith('text/html') && !contentType.startsWith('text/xml')) ||
           ['text/plain', 'text/markdown'].includes(contentType)) {
         if (!manualLoadText && !textContent && !loadingText) {
           setLoadingText(true);
@@ -186,7 +244,60 @@ useEffect(() => {
         setObjectUrl(null);
       }
     };
-  }, [wayfinderResult.data, wayfinderResult.loading, contentType, manualLoadText, txMeta.id]);
+  }, [wayfinderResult.data, wayfinderResult.loading, contentType, isCode, manualLoadText, txMeta.id]);
+
+  // Play a streamed video/audio body through Media Source Extensions as it downloads
+  useEffect(() => {
+    const stream = wayfinderResult.stream;
+    if (!stream || !wayfinderResult.contentType) {
+      setStreamUrl(null);
+      return;
+    }
+
+    const source = createMediaSourceUrl(stream, wayfinderResult.contentType, () => mediaRef.current);
+    setStreamUrl(source.url);
+
+    return () => {
+      source.cancel();
+      URL.revokeObjectURL(source.url);
+    };
+  }, [wayfinderResult.stream]);
+
+  // Without Wayfinder data, fetch source code and markdown directly (already bounded by TEXT_LOAD_THRESHOLD)
+  useEffect(() => {
+    if (!(isCode || isMarkdown) || manualLoadText || textContent || wayfinderResult.data || wayfinderResult.loading || !wayfinderResult.url) return;
+
+    let cancelled = false;
+    setLoadingText(true);
+    fetch(directUrl)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.text();
+      })
+      .then(text => {
+        if (cancelled) return;
+        setTextContent(text);
+        setErrorText(null);
+      })
+      .catch(() => !cancelled && setErrorText(isCode ? 'Failed to load source code' : 'Failed to load text content'))
+      .finally(() => !cancelled && setLoadingText(false));
+
+    return () => { cancelled = true; };
+  }, [id, isCode, isMarkdown, manualLoadText, textContent, wayfinderResult.data, wayfinderResult.loading, wayfinderResult.url, directUrl]);
+
+  // Hand rendered text to the search index
+  useEffect(() => {
+    if (textContent && onTextExtracted) {
+      onTextExtracted(txMeta, textContent);
+    }
+  }, [textContent]);
+
+  // Report the sniffed type so the details drawer can flag mislabeled uploads
+  useEffect(() => {
+    if (!wayfinderResult.loading && wayfinderResult.url && onContentTypeDetected) {
+      onContentTypeDetected(txMeta, wayfinderResult.sniffedContentType);
+    }
+  }, [wayfinderResult.loading, wayfinderResult.url, wayfinderResult.sniffedContentType]);
 
   // Iframe fallback detection for manifests and HTML
   useEffect(() => {
@@ -202,7 +313,31 @@ useEffect(() => {
     return () => clearTimeout(timeout);
   }, [contentType, directUrl, txMeta]);
 
+  const progressTotal = wayfinderResult.progress?.totalBytes ?? size;
+  const loadProgress = wayfinderResult.progress && progressTotal >= LOAD_PROGRESS_MIN_BYTES
+    ? { loadedBytes: wayfinderResult.progress.loadedBytes, totalBytes: progressTotal }
+    : null;
+
   const renderMedia = () => {
+    if (customMedia && showDownloadCard) {
+      return (
+        <div className="media-element custom-media-card">
+          <Icons.Model size={40} />
+          <div className="custom-media-label">{customMedia.label}</div>
+          <div className="custom-media-type">
+            {detectedContentType} · {(size / 1024 / 1024).toFixed(2)} MB
+          </div>
+          <a className="media-load-btn" href={directUrl} target="_blank" rel="noopener noreferrer" download>
+            Download file
+          </a>
+        </div>
+      );
+    }
+
+    if (isManifest && showManifestExplorer) {
+      return <ManifestExplorer txId={dataTxId} onOpenTx={onOpenTx} />;
+    }
+
     if (contentType.startsWith('image/') && manualLoad) {
       return (
         <button className="media-load-btn" onClick={() => { setManualLoad(false); setForceLoad(true); }} aria-label={`Load image, ${(size / 1024 / 1024).toFixed(2)} MB`}>
@@ -240,8 +375,9 @@ useEffect(() => {
     if (contentType.startsWith('video/')) {
       return (
         <video
+          ref={el => { mediaRef.current = el; }}
           className="media-element media-video"
-          src={manualLoadVideo ? undefined : objectUrl || directUrl}
+          src={manualLoadVideo ? undefined : streamUrl || objectUrl || directUrl}
           controls
           preload="metadata"
           onError={() => onCorrupt?.(txMeta)}
@@ -272,8 +408,9 @@ useEffect(() => {
             </div>
           </div>
           <audio
+            ref={el => { mediaRef.current = el; }}
             className="media-element media-audio"
-            src={manualLoadAudio ? undefined : objectUrl || directUrl}
+            src={manualLoadAudio ? undefined : streamUrl || objectUrl || directUrl}
             controls
             preload="metadata"
             onError={() => onCorrupt?.(txMeta)}
@@ -296,6 +433,20 @@ useEffect(() => {
       );
     }
 
+    if (isCode) {
+      if (manualLoadText) {
+        return (
+          <button className="media-load-btn" onClick={() => { setManualLoadText(false); setForceLoad(true); }} aria-label={`Load source, ${(size / 1024 / 1024).toFixed(2)} MB`}>
+            Tap to load source ({(size / 1024 / 1024).toFixed(2)} MB)
+          </button>
+        );
+      }
+      if (errorText) return <div className="media-error">{errorText}</div>;
+      if (loadingText || textContent === null) return <div className="media-loading">Loading…</div>;
+
+      return <CodeView source={textContent} language={codeLanguage} filename={arfsMeta?.name} />;
+    }
+
     if (
       contentType.startsWith('text/html') ||
       contentType === 'application/xhtml+xml' ||
@@ -353,9 +504,21 @@ useEffect(() => {
         );
       }
       
+      if (isMarkdown && textContent !== null) {
+        return (
+          <div className="media-element text-container">
+            <div className="media-text media-markdown">
+              <MarkdownView source={textContent} onOpenArUrl={onOpenArUrl} />
+            </div>
+          </div>
+        );
+      }
+
       return (
         <div className="media-element text-container">
-          <pre className="media-text">{textContent}</pre>
+          <pre className="media-text">
+            {textContent !== null && <ArText text={textContent} onOpenArUrl={onOpenArUrl} />}
+          </pre>
         </div>
       );
     }
@@ -426,6 +589,17 @@ useEffect(() => {
         >
           {privacyOn ? <Icons.Eye /> : <Icons.EyeOff />}
         </button>
+        {isManifest && (
+          <button
+            className={`manifest-toggle-btn ${showManifestExplorer ? 'active' : ''}`}
+            onClick={() => setShowManifestExplorer(!showManifestExplorer)}
+            title={showManifestExplorer ? 'Show site' : 'Explore manifest paths'}
+            aria-label={showManifestExplorer ? 'Show site' : 'Explore manifest paths'}
+            aria-pressed={showManifestExplorer}
+          >
+            {showManifestExplorer ? <Icons.Website /> : <Icons.ManifestTree />}
+          </button>
+        )}
         
       </div>
 
@@ -443,6 +617,26 @@ useEffect(() => {
           </div>
         )}
         
+        {/* Byte progress while a large body downloads */}
+        {loadProgress && (
+          <div
+            className="media-progress"
+            role="progressbar"
+            aria-label="Download progress"
+            aria-valuemin={0}
+            aria-valuemax={loadProgress.totalBytes}
+            aria-valuenow={loadProgress.loadedBytes}
+          >
+            <div
+              className="media-progress-bar"
+              style={{ width: `${Math.min(100, (loadProgress.loadedBytes / loadProgress.totalBytes) * 100)}%` }}
+            />
+            <span className="media-progress-label">
+              {formatFileSize(loadProgress.loadedBytes)} of {formatFileSize(loadProgress.totalBytes)}
+            </span>
+          </div>
+        )}
+        
         {/* Collapsible media actions */}
         <div className="media-actions-float">
           <button 
@@ -460,11 +654,22 @@ useEffect(() => {
               {onDetails && (
                 <button className="action-float-btn" onClick={onDetails} title="Details" aria-label="View content details">
                   {(() => {
-                    const MediaTypeIcon = getMediaTypeIcon(contentType);
+                    const MediaTypeIcon = getMediaTypeIcon(detectedContentType);
                     return <MediaTypeIcon size={18} />;
                   })()}
                 </button>
               )}
+              {onToggleFavorite && (
+                <button
+                  className={`action-float-btn ${isFavorite ? 'favorited' : ''}`}
+                  onClick={onToggleFavorite}
+                  title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                  aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                  aria-pressed={isFavorite}
+                >
+                  <Icons.Heart size={18} />
+                </button>
+              )}
               {onOpenInNewTab && (
                 <button className="action-float-btn" onClick={onOpenInNewTab} title="Open" aria-label="Open content in new tab">
                   <Icons.Open size={18} />
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'preact/hooks'
+import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
+import { loadOwnerProfile, profileMediaType, type OwnerProfile as Profile, type ProfileMediaType } from '../engine/ownerProfile'
+import { shortenId } from '../utils/format'
+import { logger } from '../utils/logger'
+import type { TxMeta } from '../constants'
+import { Icons } from './Icons'
+import '../styles/owner-profile.css'
+
+/** Recent image uploads shown as thumbnails */
+const THUMBNAIL_COUNT = 12
+
+const MEDIA_LABELS: Record<ProfileMediaType, string> = {
+  images: 'Images',
+  videos: 'Videos',
+  music: 'Music',
+  websites: 'Websites',
+  text: 'Text',
+  code: 'Code',
+  arfs: 'ArFS',
+  other: 'Other'
+}
+
+interface OwnerProfileProps {
+  owner: string | null
+  privacyOn: boolean
+  onClose: () => void
+  onOpenTx: (tx: TxMeta) => void
+  onFollowOwner: (owner: string) => void
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+
+/**
+ * Upload stats for one owner: totals by media type, first and last upload,
+ * activity over block height, most used apps and recent image thumbnails.
+ */
+export function OwnerProfile({ owner, privacyOn, onClose, onOpenTx, onFollowOwner }: OwnerProfileProps) {
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!owner) return
+    let cancelled = false
+    setProfile(null)
+    setError(null)
+
+    loadOwnerProfile(owner)
+      .then(loaded => { if (!cancelled) setProfile(loaded) })
+      .catch(err => {
+        logger.warn(`Failed to load profile for ${owner}`, err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load profile')
+      })
+
+    return () => { cancelled = true }
+  }, [owner])
+
+  if (!owner) return null
+
+  const openTx = (tx: TxMeta) => {
+    onOpenTx(tx)
+    onClose()
+  }
+
+  const renderProfile = (p: Profile) => {
+    const peak = Math.max(1, ...p.histogram.map(b => b.count))
+    const thumbnails = p.uploads.filter(tx => profileMediaType(tx) === 'images').slice(0, THUMBNAIL_COUNT)
+    const total = `${p.uploads.length.toLocaleString()}${p.complete ? '' : '+'}`
+
+    return (
+      <div className="profile-body">
+        <div className="profile-stats">
+          <div className="profile-stat">
+            <span className="profile-stat-value">{total}</span>
+            <span className="profile-stat-label">uploads</span>
+          </div>
+          <div className="profile-stat">
+            <span className="profile-stat-value">{p.dates ? formatDate(p.dates.startDate) : '—'}</span>
+            <span className="profile-stat-label">first upload</span>
+          </div>
+          <div className="profile-stat">
+            <span className="profile-stat-value">{p.dates ? formatDate(p.dates.endDate) : '—'}</span>
+            <span className="profile-stat-label">last upload</span>
+          </div>
+        </div>
+        {!p.complete && (
+          <div className="profile-note">Breakdowns cover the latest {p.uploads.length.toLocaleString()} uploads.</div>
+        )}
+
+        {p.byMedia.length > 0 && (
+          <section className="profile-section">
+            <h3 className="profile-section-title">By media type</h3>
+            <ul className="profile-counts">
+              {p.byMedia.map(({ media, count }) => (
+                <li key={media}>
+                  <span>{MEDIA_LABELS[media]}</span>
+                  <span className="profile-count">{count.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {p.histogram.length > 0 && (
+          <section className="profile-section">
+            <h3 className="profile-section-title">Activity by block height</h3>
+            <div className="profile-histogram" role="img" aria-label="Uploads over block height">
+              {p.histogram.map(bucket => (
+                <div
+                  key={bucket.minHeight}
+                  className="profile-bar"
+                  style={{ height: `${(bucket.count / peak) * 100}%` }}
+                  title={`Blocks ${bucket.minHeight.toLocaleString()}–${bucket.maxHeight.toLocaleString()}: ${bucket.count}`}
+                />
+              ))}
+            </div>
+            <div className="profile-histogram-axis">
+              <span>{p.histogram[0].minHeight.toLocaleString()}</span>
+              <span>{p.histogram[p.histogram.length - 1].maxHeight.toLocaleString()}</span>
+            </div>
+          </section>
+        )}
+
+        {p.topAppNames.length > 0 && (
+          <section className="profile-section">
+            <h3 className="profile-section-title">Top apps</h3>
+            <ul className="profile-counts">
+              {p.topAppNames.map(({ appName, count }) => (
+                <li key={appName}>
+                  <span>{appName}</span>
+                  <span className="profile-count">{count.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {thumbnails.length > 0 && (
+          <section className="profile-section">
+            <h3 className="profile-section-title">Recent images</h3>
+            <div className={`profile-thumbnails ${privacyOn ? 'private' : ''}`}>
+              {thumbnails.map(tx => (
+                <button key={tx.id} type="button" className="profile-thumbnail" onClick={() => openTx(tx)} title={tx.id}>
+                  <img src={`${GATEWAY_DATA_SOURCE[0]}/${tx.id}`} alt="" loading="lazy" />
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="search-overlay" onClick={onClose}>
+      <div className="search-panel profile-panel" onClick={e => e.stopPropagation()}>
+        <div className="search-header">
+          <Icons.Creator />
+          <h2 className="profile-title" title={owner}>{shortenId(owner)}</h2>
+          <a
+            className="profile-link"
+            href={`https://viewblock.io/arweave/address/${owner}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            aria-label="Open address on ViewBlock"
+          >
+            <Icons.Open />
+          </a>
+          <button className="close-btn" onClick={onClose} aria-label="Close profile">
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        {error ? (
+          <div className="no-data">{error}</div>
+        ) : !profile ? (
+          <div className="no-data">Loading profile…</div>
+        ) : renderProfile(profile)}
+
+        <div className="profile-actions">
+          <button type="button" className="scope-roam-btn" onClick={() => { onFollowOwner(owner); onClose() }}>
+            More from this creator
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
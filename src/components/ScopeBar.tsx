@@ -0,0 +1,22 @@
+import type { ComponentChildren } from 'preact'
+import { Icons } from './Icons'
+
+interface ScopeBarProps {
+  icon: ComponentChildren
+  label: string
+  onExit: () => void
+  exitLabel: string
+}
+
+/** Shown while a temporary channel (a drive, folder or bundle) is being roamed */
+export function ScopeBar({ icon, label, onExit, exitLabel }: ScopeBarProps) {
+  return (
+    <div className="scope-bar">
+      {icon}
+      <span className="scope-label" title={label}>Roaming {label}</span>
+      <button type="button" className="scope-exit" onClick={onExit} aria-label={exitLabel}>
+        <Icons.X size={16} />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { useSearch } from '../hooks/useSearchIndex'
+import { getContentType } from '../engine/searchIndex'
+import { shortenId } from '../utils/format'
+import { Icons, getMediaTypeIcon } from './Icons'
+import type { TxMeta } from '../constants'
+import '../styles/search.css'
+
+interface SearchPanelProps {
+  open: boolean
+  onClose: () => void
+  onSelect: (tx: TxMeta) => void
+}
+
+const CONTENT_TYPE_FILTERS = [
+  { label: 'Any type', value: '' },
+  { label: 'Images', value: 'image/' },
+  { label: 'Videos', value: 'video/' },
+  { label: 'Audio', value: 'audio/' },
+  { label: 'Text', value: 'text/' },
+  { label: 'PDF', value: 'application/pdf' },
+  { label: 'Websites', value: 'text/html' }
+]
+
+// yyyy-mm-dd input value to block timestamp (seconds), end of day when `endOfDay`
+function toTimestamp(value: string, endOfDay = false): number | undefined {
+  if (!value) return undefined
+  const date = new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}Z`)
+  return isNaN(date.getTime()) ? undefined : Math.floor(date.getTime() / 1000)
+}
+
+export function SearchPanel({ open, onClose, onSelect }: SearchPanelProps) {
+  const search = useSearch(open)
+
+  if (!open) return null
+
+  const handleSelect = (tx: TxMeta) => {
+    onSelect(tx)
+    onClose()
+  }
+
+  return (
+    <div className="search-overlay" onClick={onClose}>
+      <div className="search-panel" onClick={e => e.stopPropagation()}>
+        <div className="search-header">
+          <Icons.Search size={20} />
+          <input
+            type="search"
+            className="search-input"
+            placeholder="Search what you've seen: names, tags, owners, text…"
+            value={search.query}
+            onInput={e => search.setQuery((e.target as HTMLInputElement).value)}
+            onKeyDown={e => {
+              if (e.key === 'Escape') onClose()
+              if (e.key === 'Enter' && search.results[0]) handleSelect(search.results[0].tx)
+            }}
+            autoFocus
+          />
+          <button className="close-btn" onClick={onClose} aria-label="Close search">
+            <Icons.X size={20} />
+          </button>
+        </div>
+
+        <div className="search-filters">
+          <select
+            value={search.filters.contentType ?? ''}
+            onChange={e => search.setFilters({ ...search.filters, contentType: (e.target as HTMLSelectElement).value || undefined })}
+            aria-label="Content type"
+          >
+            {CONTENT_TYPE_FILTERS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <label>
+            From
+            <input
+              type="date"
+              onChange={e => search.setFilters({ ...search.filters, fromTimestamp: toTimestamp((e.target as HTMLInputElement).value) })}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              onChange={e => search.setFilters({ ...search.filters, toTimestamp: toTimestamp((e.target as HTMLInputElement).value, true) })}
+            />
+          </label>
+          <input
+            type="text"
+            className="search-owner"
+            placeholder="Owner address"
+            value={search.filters.ownerAddress ?? ''}
+            onInput={e => search.setFilters({ ...search.filters, ownerAddress: (e.target as HTMLInputElement).value.trim() || undefined })}
+          />
+        </div>
+
+        <div className="search-results">
+          {search.results.length === 0 && !search.searching && (
+            <div className="no-data">
+              {search.query ? 'Nothing you have viewed matches that search.' : 'Content you view is indexed here.'}
+            </div>
+          )}
+          {search.results.map(({ tx, snippet, viewedAt }) => {
+            const contentType = getContentType(tx)
+            const TypeIcon = getMediaTypeIcon(contentType)
+            return (
+              <button key={tx.id} className="search-result" onClick={() => handleSelect(tx)}>
+                <TypeIcon size={18} />
+                <div className="search-result-body">
+                  <div className="search-result-title">
+                    {tx.arfsMeta?.name || tx.tags.find(t => t.name === 'Title')?.value || shortenId(tx.id)}
+                  </div>
+                  <div className="search-result-meta">
+                    {contentType || 'unknown'} · block {tx.block.height.toLocaleString()} · by {shortenId(tx.owner.address)} · viewed {new Date(viewedAt).toLocaleDateString()}
+                  </div>
+                  {snippet && <div className="search-result-snippet">{snippet}</div>}
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,15 +2,19 @@ import type { TxMeta } from '../constants'
 import type { VerificationStatus } from '../services/wayfinderTypes'
 import { Icons, getMediaTypeIcon } from './Icons'
 import { VerificationIndicator } from './VerificationIndicator'
+import { resolveArUrl } from '../services/arResolver'
 
 interface TransactionInfoProps {
   txMeta: TxMeta
   formattedTime: string
   verificationStatus?: VerificationStatus
+  onViewOwner?: (owner: string) => void
+  onCheckConsensus?: () => void
 }
 
-export function TransactionInfo({ txMeta, formattedTime, verificationStatus }: TransactionInfoProps) {
+export function TransactionInfo({ txMeta, formattedTime, verificationStatus, onViewOwner, onCheckConsensus }: TransactionInfoProps) {
   const fileName = txMeta.arfsMeta?.name
+  const arnsName = txMeta.arnsName
   const contentType = txMeta.arfsMeta?.contentType || 
     txMeta.tags.find(t => t.name === 'Content-Type')?.value || 'Unknown'
   
@@ -26,6 +30,19 @@ export function TransactionInfo({ txMeta, formattedTime, verificationStatus }: T
           </div>
         )}
         
+        {arnsName && (
+          <a
+            className="metadata-link"
+            href={resolveArUrl({ kind: 'arns', name: arnsName, path: '' }) ?? undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={`ArNS name: ${arnsName}`}
+          >
+            <Icons.ArnsName size={14} />
+            <span>{arnsName.length > 24 ? arnsName.slice(0,24) + '…' : arnsName}</span>
+          </a>
+        )}
+        
         <a
           className="metadata-link"
           href={`https://viewblock.io/arweave/tx/${txMeta.id}`}
@@ -37,16 +54,28 @@ export function TransactionInfo({ txMeta, formattedTime, verificationStatus }: T
           <span>{txMeta.id.slice(0,8)}…</span>
         </a>
         
-        <a
-          className="metadata-link"
-          href={`https://viewblock.io/arweave/address/${txMeta.owner.address}`}
-          target="_blank"
-          rel="noopener noreferrer"
-          title={`Owner: ${txMeta.owner.address}`}
-        >
-          <Icons.User size={14} />
-          <span>{txMeta.owner.address.slice(0,8)}…</span>
-        </a>
+        {onViewOwner ? (
+          <button
+            type="button"
+            className="metadata-link"
+            onClick={() => onViewOwner(txMeta.owner.address)}
+            title={`Owner profile: ${txMeta.owner.address}`}
+          >
+            <Icons.User size={14} />
+            <span>{txMeta.owner.address.slice(0,8)}…</span>
+          </button>
+        ) : (
+          <a
+            className="metadata-link"
+            href={`https://viewblock.io/arweave/address/${txMeta.owner.address}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={`Owner: ${txMeta.owner.address}`}
+          >
+            <Icons.User size={14} />
+            <span>{txMeta.owner.address.slice(0,8)}…</span>
+          </a>
+        )}
         
         <a
           className="metadata-link"
@@ -64,6 +93,7 @@ export function TransactionInfo({ txMeta, formattedTime, verificationStatus }: T
             <VerificationIndicator 
               status={verificationStatus}
               className="metadata-verification-indicator"
+              onCheckConsensus={onCheckConsensus}
             />
           </div>
         )}
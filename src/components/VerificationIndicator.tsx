@@ -1,24 +1,35 @@
 import { Icons } from './Icons'
-import type { VerificationStatus } from '../services/wayfinderTypes'
+import type { VerificationStatus, VerificationStrategyType } from '../services/wayfinderTypes'
 
 interface VerificationIndicatorProps {
   status: VerificationStatus
   className?: string
+  /** Offered on failed verifications: compare what several gateways serve */
+  onCheckConsensus?: () => void
 }
 
-export function VerificationIndicator({ status, className = '' }: VerificationIndicatorProps) {
+const METHOD_LABELS: Partial<Record<VerificationStrategyType, string>> = {
+  hash: 'hash from trusted gateways',
+  'local-merkle': 'data root computed on this device'
+}
+
+export function VerificationIndicator({ status, className = '', onCheckConsensus }: VerificationIndicatorProps) {
   // Don't show indicator for pending or not-verified states
   if (status.status === 'pending' || status.status === 'not-verified') {
     return null
   }
 
+  const method = status.verificationMethod && METHOD_LABELS[status.verificationMethod]
+
   const getIndicatorProps = () => {
     switch (status.status) {
       case 'verified':
         return {
           icon: Icons.CheckCircle,
           color: '#22c55e', // green-500
-          title: `Content verified via AR.IO network ${status.gateway ? ` (${status.gateway})` : ''}`,
+          title: method
+            ? `Content verified: ${method}${status.gateway ? ` (${status.gateway})` : ''}`
+            : `Content verified via AR.IO network ${status.gateway ? ` (${status.gateway})` : ''}`,
           className: 'verification-verified'
         }
       case 'verifying':
@@ -32,7 +43,7 @@ export function VerificationIndicator({ status, className = '' }: VerificationIn
         return {
           icon: Icons.AlertTriangle,
           color: '#ef4444', // red-500
-          title: `Content verification failed${status.error ? `: ${status.error}` : ''}`,
+          title: `Content verification failed${method ? ` (${method})` : ''}${status.error ? `: ${status.error}` : ''}`,
           className: 'verification-failed'
         }
       default:
@@ -45,6 +56,20 @@ export function VerificationIndicator({ status, className = '' }: VerificationIn
 
   const { icon: IconComponent, color, title, className: statusClass } = indicatorProps
 
+  if (status.status === 'failed' && onCheckConsensus) {
+    return (
+      <button
+        type="button"
+        className={`verification-indicator ${statusClass} ${className}`}
+        title={`${title}. Click to compare gateways.`}
+        onClick={onCheckConsensus}
+        style={{ '--verification-color': color } as any}
+      >
+        <IconComponent size={12} />
+      </button>
+    )
+  }
+
   return (
     <div 
       className={`verification-indicator ${statusClass} ${className}`}
@@ -7,14 +7,75 @@ export type MediaType =
   | "music"
   | "websites"
   | "text"
+  | "code"
   | "everything"
-  | "arfs";
+  | "arfs"
+  | "arns"
+  | "favorites"
+  | CustomMediaType;
+
+/** User-defined media channels are keyed "custom:<uuid>" */
+export type CustomMediaType = `custom:${string}`;
+
+/**
+ * How content matched only by a custom definition is displayed:
+ * as plain text, in a sandboxed iframe, or as a download card.
+ * Image, video and audio types always use their native players.
+ */
+export type CustomMediaRenderer = "text" | "embed" | "download";
+
+/**
+ * A user-defined media channel, e.g. "3D models" for model/gltf-binary
+ */
+export interface CustomMediaDefinition {
+  id: CustomMediaType;
+  label: string;
+  contentTypes: string[];
+  renderAs: CustomMediaRenderer;
+  createdAt: number;
+}
 export type Recency = "new" | "old";
+/**
+ * Arbitrary tag constraint on a channel. A value of "*" matches any value,
+ * and values containing "*" are matched as wildcards.
+ */
+export interface TagFilter {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Temporary channel over the files of a public ArFS drive, or of one folder
+ * and its subfolders, played in folder order
+ */
+export interface ArfsScope {
+  driveId: string;
+  owner: string;
+  folderId?: string;
+  /** Drive or folder path shown while the scope is active */
+  label: string;
+}
+
+/**
+ * Temporary channel over the data items of one ANS-104 bundle, optionally
+ * only those with the given content types
+ */
+export interface BundleScope {
+  bundleId: string;
+  contentTypes?: string[];
+  /** Bundle and content type shown while the scope is active */
+  label: string;
+}
+
 export interface Channel {
   media: MediaType;
   recency: Recency;
   ownerAddress?: string; // optional Arweave address filter
+  ownerAddresses?: string[]; // optional roster of owners, any may match
   appName?: string; // optional App-Name filter
+  tagFilters?: TagFilter[]; // optional extra tag filters, all must match
+  arfsScope?: ArfsScope; // optional drive/folder scope for the arfs channel
+  bundleScope?: BundleScope; // optional bundle scope, replaces the block window
 }
 
 export const MEDIA_TYPES: MediaType[] = [
@@ -23,18 +84,115 @@ export const MEDIA_TYPES: MediaType[] = [
   "music",
   "websites",
   "text",
+  "code",
   "everything",
   "arfs",
+  "arns",
+  "favorites",
 ];
 
 /**
- * Internal structure of saved history
+ * Compact per-visit entry in the history index. The TxMeta itself lives in
+ * its own record so moving around the tree never rewrites transaction data.
+ */
+export interface HistoryIndexEntry {
+  txId: string;
+  parentId: string | null;
+  childIds: string[];
+  /** Child that goForward follows; the most recently taken branch */
+  activeChildId: string | null;
+  lastVisited: number;
+  /** Approximate serialized size of the stored record */
+  bytes: number;
+}
+
+/**
+ * Internal structure of saved history: a tree of visits rooted at rootId
  */
 export interface HistoryState {
+  version: 3;
+  rootId: string | null;
+  currentId: string | null;
+  nextId: number;
+  totalBytes: number;
+  entries: Record<string, HistoryIndexEntry>;
+}
+
+/**
+ * A single visit in the v2 history tree, where every node carried its TxMeta
+ */
+export interface LegacyHistoryNode {
+  id: string;
+  tx: TxMeta;
+  parentId: string | null;
+  childIds: string[];
+  activeChildId: string | null;
+  visitedAt: number;
+}
+
+/**
+ * Single-blob tree history format, migrated on load
+ */
+export interface LegacyHistoryTree {
+  version: 2;
+  rootId: string | null;
+  currentId: string | null;
+  nextId: number;
+  nodes: Record<string, LegacyHistoryNode>;
+}
+
+/**
+ * Pre-tree history format, migrated on load
+ */
+export interface LegacyHistoryState {
   index: number;
   items: TxMeta[];
 }
 
+/**
+ * A saved favorite, keyed by tx id
+ */
+export interface FavoriteEntry {
+  tx: TxMeta;
+  tags: string[];
+  addedAt: number;
+}
+
+/**
+ * An owner whose uploads are never queued
+ */
+export interface BlockedOwner {
+  address: string;
+  blockedAt: number;
+}
+
+/**
+ * A viewed transaction in the local search index, keyed by tx id
+ */
+export interface SearchDocument {
+  tx: TxMeta;
+  /** Extracted text for text/markdown items, truncated to SEARCH_TEXT_MAX_CHARS */
+  text?: string;
+  viewedAt: number;
+}
+
+/**
+ * A named, ordered set of curated transactions
+ */
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  items: CollectionItem[];
+}
+
+export interface CollectionItem {
+  tx: TxMeta;
+  note: string;
+  addedAt: number;
+}
+
 export interface TxMeta {
   id: string;
   bundledIn?: { id: string };
@@ -51,21 +209,36 @@ export interface TxMeta {
     contentType: string;
     customTags: Record<string, string>;
   };
+  /** ArNS name the transaction was reached through, for the ArNS channel */
+  arnsName?: string;
 }
 
 // --------------------------------------------------------------------------
 // Content-Type mapping per media
 // --------------------------------------------------------------------------
-const BASE_CONTENT_TYPES: Record<Exclude<MediaType, "everything">, string[]> = {
+const BASE_CONTENT_TYPES: Record<Exclude<MediaType, "everything" | "arns" | "favorites" | CustomMediaType>, string[]> = {
   images: ["image/png", "image/jpeg", "image/webp", "image/gif", "image/svg+xml", "image/avif"],
   videos: ["video/mp4", "video/webm", "video/ogg"],
   music: ["audio/mpeg", "audio/mp3", "audio/wav", "audio/ogg", "audio/webm", "audio/mp4", "audio/flac"],
   websites: ["application/x.arweave-manifest+json", "text/html", "application/xhtml+xml"],
   text: ["text/markdown", "application/pdf"],
+  code: [
+    "application/javascript",
+    "text/javascript",
+    "application/typescript",
+    "text/x-typescript",
+    "text/css",
+    "text/x-lua",
+    "application/x-lua",
+    "text/x-solidity",
+    "text/x-python",
+    "text/x-rust",
+  ],
   arfs: ["application/json"] // this ensures only public arfs files
 };
 
-// Build full map including "everything" as the union of all other arrays
+// Build full map including "everything" as the union of all other arrays.
+// Custom media definitions are registered into this map at runtime.
 export const CONTENT_TYPES: Record<MediaType, string[]> = {
   ...BASE_CONTENT_TYPES,
   everything: Object.values(BASE_CONTENT_TYPES).reduce<string[]>((acc, arr) => {
@@ -74,9 +247,40 @@ export const CONTENT_TYPES: Record<MediaType, string[]> = {
     });
     return acc;
   }, []),
+  arns: [], // resolved from registered ArNS names, never queried
+  favorites: [], // served from the local favorites store, never queried
 };
 
+/** Legacy single-blob history key, migrated into the history store */
 export const HISTORY_KEY = "roam-history";
+/** Compact history index, kept in the default idb-keyval store */
+export const HISTORY_INDEX_KEY = "roam-history-index";
+/** Dedicated IndexedDB database holding one record per history visit */
+export const HISTORY_DB_NAME = "roam-history";
+export const HISTORY_STORE_NAME = "entries";
+/** History caps; least recently visited entries are pruned first */
+export const HISTORY_MAX_ENTRIES = 1000;
+export const HISTORY_MAX_BYTES = 5 * 1024 * 1024;
+/** Ancestors of the current visit that pruning keeps; older ones are cut from the root */
+export const HISTORY_KEPT_PATH = 50;
+/** Local full-text index over viewed content */
+export const SEARCH_DB_NAME = "roam-search";
+export const SEARCH_STORE_NAME = "documents";
+export const SEARCH_MAX_DOCUMENTS = 2000;
+export const SEARCH_TEXT_MAX_CHARS = 20_000;
+export const SEARCH_RESULT_LIMIT = 50;
+/** Verified content persisted across reloads, one blob record per tx id + path */
+export const CONTENT_CACHE_DB_NAME = "roam-content-cache";
+export const CONTENT_CACHE_STORE_NAME = "blobs";
+/** Content cache index, kept in the default idb-keyval store */
+export const CONTENT_CACHE_INDEX_KEY = "roam-content-cache-index";
+/** Content cache caps; least recently used blobs are evicted first */
+export const CONTENT_CACHE_MAX_ENTRIES = 500;
+export const CONTENT_CACHE_MAX_BYTES = 200 * 1024 * 1024;
+export const FAVORITES_KEY = "roam-favorites";
+export const COLLECTIONS_KEY = "roam-collections";
+export const BLOCKED_OWNERS_KEY = "roam-blocked-owners";
+export const CUSTOM_MEDIA_KEY = "roam-custom-media";
 export const ADVERTIZEMENT_TIMER = 5;
 export const MIN_AD_CLICKS = 50;
 export const MAX_AD_CLICKS = 50;
@@ -85,12 +289,36 @@ export const MIN_OLD_BLOCK = 100_000;
 export const MAX_RETRY_ATTEMPTS = 8;
 /** Base window size (blocks) */
 export const WINDOW_SIZE = 10_000;
+/** ArNS records requested per page for the ArNS channel */
+export const ARNS_PAGE_SIZE = 25;
+/** Manifest targets resolved for the explorer; larger manifests list the rest unchecked */
+export const MANIFEST_RESOLVE_LIMIT = 500;
+/** GraphQL pages of entities loaded per ArFS drive (100 each) */
+export const ARFS_DRIVE_MAX_PAGES = 10;
+/** GraphQL pages of data items loaded for the bundle explorer (100 each) */
+export const BUNDLE_EXPLORER_MAX_PAGES = 10;
+/** GraphQL pages of recent uploads behind an owner profile (100 each) */
+export const OWNER_PROFILE_MAX_PAGES = 5;
+/** Buckets in the owner profile's activity histogram */
+export const OWNER_HISTOGRAM_BUCKETS = 24;
+/** Channels that can be browsed as a thumbnail gallery */
+export const GALLERY_MEDIA: MediaType[] = ["images", "videos"];
+/** Tiles added to the gallery per infinite-scroll step */
+export const GALLERY_PAGE_SIZE = 24;
 
 // Media loading thresholds (in bytes)
 export const IMAGE_LOAD_THRESHOLD = 25 * 1024 * 1024; // 25MB
 export const VIDEO_LOAD_THRESHOLD = 200 * 1024 * 1024; // 200MB
 export const AUDIO_LOAD_THRESHOLD = 50 * 1024 * 1024; // 50MB
 export const TEXT_LOAD_THRESHOLD = 10 * 1024 * 1024; // 10MB
+/** Downloads at least this large show a progress bar while they load */
+export const LOAD_PROGRESS_MIN_BYTES = 5 * 1024 * 1024; // 5MB
+/** Largest data item downloaded to check its signature, which covers the data */
+export const SIGNATURE_CHECK_MAX_BYTES = 25 * 1024 * 1024; // 25MB
+/** Largest body each gateway downloads in a consensus check; larger ones compare reported digests */
+export const CONSENSUS_MAX_BYTES = 25 * 1024 * 1024; // 25MB
+/** Gateways from the network provider added to a consensus check */
+export const CONSENSUS_NETWORK_GATEWAYS = 4;
 
 // Touch/swipe gesture constants
 export const DEFAULT_SWIPE_THRESHOLD = 50; // px
@@ -103,6 +331,7 @@ export const DEFAULT_DATE_RANGE_DAYS = 30;
 
 // UI timeout constants
 export const IFRAME_LOAD_TIMEOUT = 4000; // ms
+export const CONSENSUS_TIMEOUT = 15000; // ms per gateway
 export const FADE_IN_DELAY = 100; // ms
 
 // App-specific owner addresses for content curation
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { loadArfsDrive, listDriveFiles, resetArfsDrives } from './arfsDrive'
+import { mockTx } from '../test/utils'
+
+vi.mock('./query', () => ({
+  fetchDriveEntities: vi.fn(),
+}))
+
+import { fetchDriveEntities } from './query'
+
+const GATEWAY = 'https://arweave.net'
+const OWNER = 'O'.repeat(43)
+
+const entity = (id: string, height: number, tags: Record<string, string>) =>
+  mockTx({ id, height, tags: { 'Drive-Id': 'drive-1', ...tags } })
+
+// Gateway metadata JSON per entity tx id
+const mockMetadata = (json: Record<string, object>) =>
+  vi.mocked(fetch).mockImplementation(async (input) => {
+    const body = json[String(input).split('/').pop()!]
+    return { ok: !!body, json: async () => body } as Response
+  })
+
+describe('ArFS Drive Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(fetch).mockReset()
+    resetArfsDrives()
+  })
+
+  it('should rebuild the folder tree from the latest revisions', async () => {
+    vi.mocked(fetchDriveEntities).mockResolvedValueOnce({
+      txs: [
+        entity('file-b-v2', 30, { 'Entity-Type': 'file', 'File-Id': 'b', 'Parent-Folder-Id': 'photos' }),
+        entity('folder-photos', 20, { 'Entity-Type': 'folder', 'Folder-Id': 'photos', 'Parent-Folder-Id': 'root' }),
+        entity('file-b-v1', 12, { 'Entity-Type': 'file', 'File-Id': 'b', 'Parent-Folder-Id': 'root' }),
+        entity('file-a', 15, { 'Entity-Type': 'file', 'File-Id': 'a', 'Parent-Folder-Id': 'root' }),
+        entity('folder-root', 10, { 'Entity-Type': 'folder', 'Folder-Id': 'root' }),
+        entity('drive', 10, { 'Entity-Type': 'drive', 'Drive-Privacy': 'public' }),
+      ],
+      hasMore: false,
+    })
+    mockMetadata({
+      'drive': { name: 'My Drive', rootFolderId: 'root' },
+      'folder-photos': { name: 'Photos' },
+    })
+
+    const drive = await loadArfsDrive('drive-1', OWNER, GATEWAY)
+
+    expect(fetchDriveEntities).toHaveBeenCalledWith('drive-1', OWNER, null)
+    expect(drive.name).toBe('My Drive')
+    expect(drive.root.files.map(tx => tx.id)).toEqual(['file-a'])
+    expect(drive.root.folders.map(f => f.name)).toEqual(['Photos'])
+    expect(listDriveFiles(drive).map(tx => tx.id)).toEqual(['file-a', 'file-b-v2'])
+    expect(listDriveFiles(drive, 'photos').map(tx => tx.id)).toEqual(['file-b-v2'])
+    expect(listDriveFiles(drive, 'missing')).toEqual([])
+  })
+
+  it('should page through entities and cache the drive', async () => {
+    vi.mocked(fetchDriveEntities)
+      .mockResolvedValueOnce({
+        txs: [entity('file-a', 15, { 'Entity-Type': 'file', 'File-Id': 'a', 'Parent-Folder-Id': 'root' })],
+        hasMore: true,
+        cursor: 'next',
+      })
+      .mockResolvedValueOnce({
+        txs: [entity('drive', 10, { 'Entity-Type': 'drive' })],
+        hasMore: false,
+      })
+    mockMetadata({ 'drive': { name: 'Paged', rootFolderId: 'root' } })
+
+    const drive = await loadArfsDrive('drive-1', OWNER, GATEWAY)
+    await loadArfsDrive('drive-1', OWNER, GATEWAY)
+
+    expect(fetchDriveEntities).toHaveBeenCalledTimes(2)
+    expect(fetchDriveEntities).toHaveBeenLastCalledWith('drive-1', OWNER, 'next')
+    expect(listDriveFiles(drive).map(tx => tx.id)).toEqual(['file-a'])
+  })
+
+  it('should refuse private drives and retry after a failure', async () => {
+    vi.mocked(fetchDriveEntities).mockResolvedValueOnce({
+      txs: [entity('drive', 10, { 'Entity-Type': 'drive', 'Drive-Privacy': 'private', 'Cipher': 'AES256-GCM' })],
+      hasMore: false,
+    })
+
+    await expect(loadArfsDrive('drive-1', OWNER, GATEWAY)).rejects.toThrow('Private drives cannot be browsed')
+
+    vi.mocked(fetchDriveEntities).mockResolvedValueOnce({ txs: [], hasMore: false })
+    await expect(loadArfsDrive('drive-1', OWNER, GATEWAY)).rejects.toThrow('Drive not found')
+    expect(fetchDriveEntities).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,180 @@
+// src/engine/arfsDrive.ts
+import { fetchDriveEntities } from "./query";
+import { logger } from "../utils/logger";
+import { memoizeAsync } from "../utils/memoizeAsync";
+import { ARFS_DRIVE_MAX_PAGES, type TxMeta } from "../constants";
+
+/** Concurrent gateway requests for drive and folder metadata JSON */
+const METADATA_BATCH_SIZE = 10;
+
+/** A public ArFS folder with the latest revision of each of its files */
+export interface ArfsFolder {
+  id: string;
+  name: string;
+  folders: ArfsFolder[];
+  /** File entity txs in upload order of the file's first revision */
+  files: TxMeta[];
+}
+
+export interface ArfsDrive {
+  driveId: string;
+  owner: string;
+  name: string;
+  root: ArfsFolder;
+}
+
+const tagValue = (tx: TxMeta, name: string) => tx.tags.find((t) => t.name === name)?.value;
+
+/** Later block wins; entities in the same block are ordered by their Unix-Time tag */
+const isNewer = (a: TxMeta, b: TxMeta) =>
+  a.block.height - b.block.height ||
+  Number(tagValue(a, "Unix-Time") ?? 0) - Number(tagValue(b, "Unix-Time") ?? 0);
+
+/**
+ * Latest revision of every entity keyed by its id tag, plus the height the
+ * entity first appeared at so renames and moves keep its original position.
+ */
+function latestRevisions(txs: TxMeta[], idTag: string) {
+  const latest = new Map<string, { tx: TxMeta; firstHeight: number }>();
+  for (const tx of txs) {
+    const id = tagValue(tx, idTag);
+    if (!id) continue;
+    const current = latest.get(id);
+    if (!current) {
+      latest.set(id, { tx, firstHeight: tx.block.height });
+    } else {
+      latest.set(id, {
+        tx: isNewer(tx, current.tx) > 0 ? tx : current.tx,
+        firstHeight: Math.min(current.firstHeight, tx.block.height),
+      });
+    }
+  }
+  return latest;
+}
+
+/** Metadata JSON of a drive or folder entity; null when the gateway can't serve it */
+async function fetchEntityJson(tx: TxMeta, gateway: string): Promise<Record<string, unknown> | null> {
+  try {
+    const response = await fetch(`${gateway}/${tx.id}`);
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (err) {
+    logger.warn(`Failed to load ArFS metadata for ${tx.id}`, err);
+    return null;
+  }
+}
+
+async function fetchAllEntities(driveId: string, owner: string): Promise<TxMeta[]> {
+  const txs: TxMeta[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < ARFS_DRIVE_MAX_PAGES; page++) {
+    const result = await fetchDriveEntities(driveId, owner, cursor);
+    txs.push(...result.txs);
+    if (!result.hasMore || !result.cursor) return txs;
+    cursor = result.cursor;
+  }
+  logger.warn(`Drive ${driveId} has more than ${ARFS_DRIVE_MAX_PAGES} pages of entities; browsing a partial drive`);
+  return txs;
+}
+
+async function buildDrive(driveId: string, owner: string, gateway: string): Promise<ArfsDrive> {
+  const entities = await fetchAllEntities(driveId, owner);
+  const byType = (type: string) =>
+    entities.filter((tx) => tagValue(tx, "Entity-Type") === type && !tagValue(tx, "Cipher"));
+
+  const driveTx = latestRevisions(
+    entities.filter((tx) => tagValue(tx, "Entity-Type") === "drive"),
+    "Drive-Id"
+  ).get(driveId)?.tx;
+  if (!driveTx) {
+    throw new Error("Drive not found");
+  }
+  if (tagValue(driveTx, "Drive-Privacy") === "private" || tagValue(driveTx, "Cipher")) {
+    throw new Error("Private drives cannot be browsed");
+  }
+
+  const folderRevisions = latestRevisions(byType("folder"), "Folder-Id");
+  const fileRevisions = latestRevisions(byType("file"), "File-Id");
+
+  // Names only live in the metadata JSON, so fetch the drive's and every folder's
+  const driveJson = await fetchEntityJson(driveTx, gateway);
+  const folders = new Map<string, ArfsFolder>();
+  const folderTxs = Array.from(folderRevisions.entries());
+  for (let i = 0; i < folderTxs.length; i += METADATA_BATCH_SIZE) {
+    const batch = folderTxs.slice(i, i + METADATA_BATCH_SIZE);
+    const jsons = await Promise.all(batch.map(([, { tx }]) => fetchEntityJson(tx, gateway)));
+    batch.forEach(([id], j) => {
+      const name = jsons[j]?.name;
+      folders.set(id, { id, name: typeof name === "string" && name ? name : id, folders: [], files: [] });
+    });
+  }
+
+  const driveName = typeof driveJson?.name === "string" && driveJson.name ? driveJson.name : driveId;
+  const rootId = typeof driveJson?.rootFolderId === "string"
+    ? driveJson.rootFolderId
+    : folderTxs.find(([, { tx }]) => !tagValue(tx, "Parent-Folder-Id"))?.[0] ?? driveId;
+  const root = folders.get(rootId) ?? { id: rootId, name: driveName, folders: [], files: [] };
+  root.name = driveName;
+  folders.set(rootId, root);
+
+  // Folders whose parent is missing (or that form a cycle) are unreachable from the root and left out
+  for (const [id, { tx }] of folderRevisions) {
+    if (id === rootId) continue;
+    folders.get(tagValue(tx, "Parent-Folder-Id") ?? "")?.folders.push(folders.get(id)!);
+  }
+  const files = Array.from(fileRevisions.values()).sort((a, b) => a.firstHeight - b.firstHeight);
+  for (const { tx } of files) {
+    folders.get(tagValue(tx, "Parent-Folder-Id") ?? "")?.files.push(tx);
+  }
+
+  const sortFolders = (folder: ArfsFolder) => {
+    folder.folders.sort((a, b) => a.name.localeCompare(b.name));
+    folder.folders.forEach(sortFolders);
+  };
+  sortFolders(root);
+
+  const drive = { driveId, owner, name: driveName, root };
+  logger.info(`Loaded drive ${driveId}: ${folderRevisions.size} folders, ${countDriveFiles(root)} of ${files.length} files in the tree`);
+  return drive;
+}
+
+/**
+ * Rebuild the public folder hierarchy of an ArFS drive from the owner's
+ * entities, using the latest revision of each folder and file. A drive is
+ * keyed by owner and id, so opening it from any of its files reuses one tree.
+ */
+export const loadArfsDrive = memoizeAsync(buildDrive, (driveId, owner) => `${owner}:${driveId}`);
+
+/** Find a folder anywhere in the drive */
+export function findArfsFolder(drive: ArfsDrive, folderId: string): ArfsFolder | null {
+  const visit = (folder: ArfsFolder): ArfsFolder | null =>
+    folder.id === folderId ? folder : folder.folders.reduce<ArfsFolder | null>((found, f) => found ?? visit(f), null);
+  return visit(drive.root);
+}
+
+/**
+ * Files of the whole drive, or of one folder and its subfolders, in browsing
+ * order: a folder's own files first, then each subfolder by name.
+ */
+export function listDriveFiles(drive: ArfsDrive, folderId?: string): TxMeta[] {
+  const start = folderId ? findArfsFolder(drive, folderId) : drive.root;
+  if (!start) return [];
+
+  const files: TxMeta[] = [];
+  const visit = (folder: ArfsFolder) => {
+    files.push(...folder.files);
+    folder.folders.forEach(visit);
+  };
+  visit(start);
+  return files;
+}
+
+/** Count of files in a folder and all of its subfolders */
+export function countDriveFiles(folder: ArfsFolder): number {
+  return folder.files.length + folder.folders.reduce((sum, f) => sum + countDriveFiles(f), 0);
+}
+
+/** Drop cached drives (tests and gateway changes) */
+export function resetArfsDrives(): void {
+  loadArfsDrive.clear();
+}
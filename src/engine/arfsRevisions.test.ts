@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { fetchArfsRevisions, loadArfsMeta, preferLatestRevisions } from './arfsRevisions'
+import { mockTx, mockTxMeta } from '../test/utils'
+
+vi.mock('./query', () => ({
+  fetchFileRevisions: vi.fn(),
+}))
+
+import { fetchFileRevisions } from './query'
+
+const GATEWAY = 'https://arweave.net'
+const OTHER_OWNER = 'X'.repeat(43)
+
+const revision = (id: string, fileId: string, height: number, owner?: string) =>
+  mockTx({ id, height, owner, tags: { 'Entity-Type': 'file', 'File-Id': fileId } })
+
+const metadataFor = (id: string) => ({ dataTxId: `data-${id}`, name: `${id}.png`, size: 10, dataContentType: 'image/png' })
+
+describe('ArFS Revisions Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(fetch).mockReset()
+  })
+
+  describe('loadArfsMeta', () => {
+    it('should map the metadata JSON and keep unknown fields as custom tags', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...metadataFor('v1'), lastModifiedDate: 5 }),
+      } as Response)
+
+      expect(await loadArfsMeta(revision('v1', 'f', 1), GATEWAY)).toEqual({
+        dataTxId: 'data-v1',
+        name: 'v1.png',
+        size: 10,
+        contentType: 'image/png',
+        customTags: { lastModifiedDate: 5 },
+      })
+      expect(fetch).toHaveBeenCalledWith(`${GATEWAY}/v1`)
+    })
+
+    it('should throw on gateway errors', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 404 } as Response)
+      await expect(loadArfsMeta(revision('v1', 'f', 1), GATEWAY)).rejects.toThrow('HTTP 404')
+    })
+  })
+
+  describe('fetchArfsRevisions', () => {
+    it('should list the owner\'s revisions newest first with metadata', async () => {
+      const current = { ...revision('v1', 'f', 10), arfsMeta: { dataTxId: 'data-v1', name: 'v1.png', size: 10, contentType: 'image/png', customTags: {} } }
+      vi.mocked(fetchFileRevisions).mockResolvedValueOnce([revision('v3', 'f', 30), revision('v2', 'f', 20), revision('v1', 'f', 10)])
+      vi.mocked(fetch).mockImplementation(async (input) => {
+        const id = String(input).split('/').pop()!
+        return (id === 'v2'
+          ? { ok: false, status: 500 }
+          : { ok: true, json: async () => metadataFor(id) }) as Response
+      })
+
+      const revisions = await fetchArfsRevisions(current, GATEWAY)
+
+      expect(fetchFileRevisions).toHaveBeenCalledWith(['f'], [mockTxMeta.owner.address])
+      expect(revisions.map(r => r.id)).toEqual(['v3', 'v1'])
+      expect(revisions[0].arfsMeta?.dataTxId).toBe('data-v3')
+      expect(revisions[1]).toBe(current)
+    })
+
+    it('should not query transactions without a File-Id', async () => {
+      expect(await fetchArfsRevisions(mockTxMeta, GATEWAY)).toEqual([mockTxMeta])
+      expect(fetchFileRevisions).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('preferLatestRevisions', () => {
+    it('should swap in the owner\'s latest revision and drop duplicates', async () => {
+      vi.mocked(fetchFileRevisions).mockResolvedValueOnce([
+        revision('a-forged', 'a', 50, OTHER_OWNER),
+        revision('a2', 'a', 40),
+        revision('b1', 'b', 5),
+      ])
+
+      const result = await preferLatestRevisions([revision('a1', 'a', 10), revision('b1', 'b', 5), revision('a0', 'a', 1)])
+
+      expect(fetchFileRevisions).toHaveBeenCalledWith(['a', 'b', 'a'])
+      expect(result.map(tx => tx.id)).toEqual(['a2', 'b1'])
+    })
+
+    it('should keep the original txs when the lookup fails', async () => {
+      vi.mocked(fetchFileRevisions).mockRejectedValueOnce(new Error('offline'))
+      const txs = [revision('a1', 'a', 10)]
+
+      expect(await preferLatestRevisions(txs)).toBe(txs)
+    })
+  })
+})
@@ -0,0 +1,101 @@
+// src/engine/arfsRevisions.ts
+import { fetchFileRevisions } from "./query";
+import { logger } from "../utils/logger";
+import type { TxMeta } from "../constants";
+
+type ArfsMeta = NonNullable<TxMeta["arfsMeta"]>;
+
+/** Revisions whose metadata JSON is loaded for the revision timeline */
+const MAX_TIMELINE_REVISIONS = 25;
+
+const tagValue = (tx: TxMeta, name: string) => tx.tags.find((t) => t.name === name)?.value;
+
+/** Later block wins; revisions in the same block are ordered by their Unix-Time tag */
+const compareNewestFirst = (a: TxMeta, b: TxMeta) =>
+  b.block.height - a.block.height ||
+  Number(tagValue(b, "Unix-Time") ?? 0) - Number(tagValue(a, "Unix-Time") ?? 0);
+
+/** Load the metadata JSON of an ArFS file entity */
+export async function loadArfsMeta(tx: TxMeta, gateway: string): Promise<ArfsMeta> {
+  const response = await fetch(`${gateway}/${tx.id}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load ArFS metadata: HTTP ${response.status}`);
+  }
+  const { dataTxId, name, size, dataContentType, ...rest } = await response.json();
+  return {
+    dataTxId,
+    name,
+    size,
+    contentType: dataContentType,
+    customTags: rest,
+  };
+}
+
+/**
+ * Every metadata revision of the file `tx` belongs to, newest first, each
+ * with its arfsMeta loaded. Only revisions by the file's owner count;
+ * revisions whose metadata can't be loaded are left out.
+ */
+export async function fetchArfsRevisions(tx: TxMeta, gateway: string): Promise<TxMeta[]> {
+  const fileId = tagValue(tx, "File-Id");
+  if (!fileId) return [tx];
+
+  const found = await fetchFileRevisions([fileId], [tx.owner.address]);
+  const revisions = [...found.filter((r) => r.id !== tx.id), tx]
+    .sort(compareNewestFirst)
+    .slice(0, MAX_TIMELINE_REVISIONS);
+
+  const loaded = await Promise.all(
+    revisions.map(async (revision) => {
+      if (revision.arfsMeta) return revision;
+      try {
+        return { ...revision, arfsMeta: await loadArfsMeta(revision, gateway) };
+      } catch (err) {
+        logger.warn(`Skipping ArFS revision ${revision.id}`, err);
+        return null;
+      }
+    })
+  );
+  return loaded.filter((revision): revision is TxMeta => revision !== null);
+}
+
+/**
+ * Swap each ArFS file entity for the latest revision of its file by the same
+ * owner, dropping duplicates when several revisions of one file were found.
+ * Falls back to the given txs when the lookup fails.
+ */
+export async function preferLatestRevisions(txs: TxMeta[]): Promise<TxMeta[]> {
+  const fileIds = txs.map((tx) => tagValue(tx, "File-Id")).filter((id): id is string => !!id);
+  if (fileIds.length === 0) return txs;
+
+  let revisions: TxMeta[];
+  try {
+    revisions = await fetchFileRevisions(fileIds);
+  } catch (err) {
+    logger.warn("Failed to look up latest ArFS revisions", err);
+    return txs;
+  }
+
+  const latest = new Map<string, TxMeta>();
+  for (const revision of [...txs, ...revisions]) {
+    const fileId = tagValue(revision, "File-Id");
+    if (!fileId) continue;
+    const key = `${revision.owner.address}:${fileId}`;
+    const current = latest.get(key);
+    if (!current || compareNewestFirst(revision, current) < 0) latest.set(key, revision);
+  }
+
+  const seen = new Set<string>();
+  const result: TxMeta[] = [];
+  let swapped = 0;
+  for (const tx of txs) {
+    const fileId = tagValue(tx, "File-Id");
+    const preferred = (fileId && latest.get(`${tx.owner.address}:${fileId}`)) || tx;
+    if (preferred.id !== tx.id) swapped++;
+    if (seen.has(preferred.id)) continue;
+    seen.add(preferred.id);
+    result.push(preferred);
+  }
+  logger.debug(`Swapped ${swapped} of ${txs.length} ArFS files for their latest revision`);
+  return result;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { fetchArnsPage, resolveArnsName, resetArns, setArnsRegistryProvider, type ArnsRegistry } from './arns'
+import { mockTxMeta } from '../test/utils'
+
+vi.mock('./query', () => ({
+  fetchTxMetasByIds: vi.fn(),
+}))
+
+import { fetchTxMetasByIds } from './query'
+
+const GATEWAY = 'https://arweave.net'
+const TX_A = 'A'.repeat(43)
+const TX_B = 'B'.repeat(43)
+
+// Gateway HEAD responses per ArNS host
+const mockResolution = (ids: Record<string, string | null>) =>
+  vi.mocked(fetch).mockImplementation(async (input) => {
+    const host = new URL(String(input)).host
+    return { ok: true, headers: { get: () => ids[host.split('.')[0]] ?? null } } as unknown as Response
+  })
+
+const mockRegistry = (pages: { names: string[]; nextCursor?: string }[]) => {
+  const getArNSRecords = vi.fn()
+  for (const page of pages) {
+    getArNSRecords.mockResolvedValueOnce({
+      items: page.names.map(name => ({ name })),
+      nextCursor: page.nextCursor,
+      hasMore: !!page.nextCursor,
+    })
+  }
+  setArnsRegistryProvider(() => ({ getArNSRecords }) as unknown as ArnsRegistry)
+  return getArNSRecords
+}
+
+describe('ArNS Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(fetch).mockReset()
+    resetArns()
+  })
+
+  describe('fetchArnsPage', () => {
+    it('should resolve names to transactions tagged with their name', async () => {
+      mockRegistry([{ names: ['ardrive', 'unresolved', 'alias'] }])
+      mockResolution({ ardrive: TX_A, alias: TX_A, unresolved: null })
+      vi.mocked(fetchTxMetasByIds).mockResolvedValue([{ ...mockTxMeta, id: TX_A }])
+
+      const txs = await fetchArnsPage('new', GATEWAY)
+
+      expect(fetchTxMetasByIds).toHaveBeenCalledWith([TX_A])
+      expect(txs).toEqual([{ ...mockTxMeta, id: TX_A, arnsName: 'ardrive' }])
+    })
+
+    it('should page with the cursor and wrap around at the end', async () => {
+      const getArNSRecords = mockRegistry([
+        { names: ['ardrive'], nextCursor: 'ardrive' },
+        { names: ['roam'] },
+        { names: ['ardrive'] },
+      ])
+      mockResolution({ ardrive: TX_A, roam: TX_B })
+      vi.mocked(fetchTxMetasByIds).mockResolvedValue([])
+
+      await fetchArnsPage('old', GATEWAY)
+      await fetchArnsPage('old', GATEWAY)
+      await fetchArnsPage('old', GATEWAY)
+
+      const cursors = getArNSRecords.mock.calls.map(([params]) => params.cursor)
+      expect(cursors).toEqual([undefined, 'ardrive', undefined])
+      expect(getArNSRecords.mock.calls[0][0]).toMatchObject({ sortBy: 'startTimestamp', sortOrder: 'asc' })
+    })
+  })
+
+  describe('resolveArnsName', () => {
+    it('should cache resolutions but retry failed requests', async () => {
+      vi.mocked(fetch).mockRejectedValueOnce(new Error('offline'))
+      expect(await resolveArnsName('ardrive', GATEWAY)).toBeNull()
+
+      mockResolution({ ardrive: TX_A })
+      expect(await resolveArnsName('ardrive', GATEWAY)).toBe(TX_A)
+      expect(await resolveArnsName('ardrive', GATEWAY)).toBe(TX_A)
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(fetch).toHaveBeenLastCalledWith('https://ardrive.arweave.net', { method: 'HEAD' })
+    })
+
+    it('should not cache error responses', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers() } as Response)
+      expect(await resolveArnsName('ardrive', GATEWAY)).toBeNull()
+
+      mockResolution({ ardrive: TX_A })
+      expect(await resolveArnsName('ardrive', GATEWAY)).toBe(TX_A)
+    })
+  })
+})
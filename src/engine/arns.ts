@@ -0,0 +1,102 @@
+// src/engine/arns.ts
+import type { AoARIORead } from "@ar.io/sdk/web";
+import { fetchTxMetasByIds } from "./query";
+import { logger } from "../utils/logger";
+import { ARNS_PAGE_SIZE, type Recency, type TxMeta } from "../constants";
+
+/** Header ar.io gateways set on ArNS responses with the transaction served */
+const ARNS_RESOLVED_ID_HEADER = "x-arns-resolved-id";
+
+/** The part of the ARIO client the ArNS channel pages names through */
+export type ArnsRegistry = Pick<AoARIORead, "getArNSRecords">;
+
+/**
+ * Supplies the ARIO client. Registered by the Wayfinder service, which owns
+ * the AO configuration, so the engine does not import services.
+ */
+let registryProvider: (() => ArnsRegistry) | null = null;
+
+/** Registry cursor per recency; undefined starts from the first page */
+const cursors: Partial<Record<Recency, string>> = {};
+
+/** Resolved transaction per ArNS name; null when the gateway named none */
+const resolvedIds = new Map<string, string | null>();
+
+export function setArnsRegistryProvider(provider: () => ArnsRegistry): void {
+  registryProvider = provider;
+}
+
+/**
+ * Gateway URL serving an ArNS name, e.g. https://ardrive.arweave.net
+ */
+export function arnsGatewayUrl(name: string, gateway: string): string | null {
+  try {
+    const { protocol, host } = new URL(gateway);
+    return `${protocol}//${name}.${host}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Transaction an ArNS name currently points at, read from the gateway's
+ * resolution header. Failed requests and error responses are not cached so
+ * they can be retried.
+ */
+export async function resolveArnsName(name: string, gateway: string): Promise<string | null> {
+  if (resolvedIds.has(name)) {
+    return resolvedIds.get(name) ?? null;
+  }
+
+  const url = arnsGatewayUrl(name, gateway);
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url, { method: "HEAD" });
+    const txId = response.headers.get(ARNS_RESOLVED_ID_HEADER);
+    if (response.ok) resolvedIds.set(name, txId);
+    return txId;
+  } catch (err) {
+    logger.warn(`Failed to resolve ArNS name ${name}`, err);
+    return null;
+  }
+}
+
+/**
+ * Next page of registered ArNS names, resolved to their transactions and
+ * tagged with `arnsName`. "new" pages from the latest registrations down,
+ * "old" from the earliest up; the registry wraps around once exhausted.
+ */
+export async function fetchArnsPage(recency: Recency, gateway: string): Promise<TxMeta[]> {
+  if (!registryProvider) {
+    throw new Error("ArNS registry is not available");
+  }
+
+  const page = await registryProvider().getArNSRecords({
+    cursor: cursors[recency],
+    limit: ARNS_PAGE_SIZE,
+    sortBy: "startTimestamp",
+    sortOrder: recency === "new" ? "desc" : "asc",
+  });
+  cursors[recency] = page.hasMore ? page.nextCursor : undefined;
+
+  // Several names can point at the same transaction; the first one wins
+  const names = new Map<string, string>();
+  const resolved = await Promise.all(
+    page.items.map(async (record) => ({ name: record.name, txId: await resolveArnsName(record.name, gateway) }))
+  );
+  for (const { name, txId } of resolved) {
+    if (txId && !names.has(txId)) names.set(txId, name);
+  }
+  logger.debug(`Resolved ${names.size}/${page.items.length} ArNS names`);
+
+  const txs = await fetchTxMetasByIds(Array.from(names.keys()));
+  return txs.map((tx) => ({ ...tx, arnsName: names.get(tx.id) }));
+}
+
+/** Forget resolved names and start paging from the first page again */
+export function resetArns(): void {
+  resolvedIds.clear();
+  delete cursors.new;
+  delete cursors.old;
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { listBlockedOwners, blockOwner, unblockOwner, getBlockedOwnerSet } from './blocklist'
+import { resetMocks } from '../test/utils'
+
+// Mock idb-keyval
+vi.mock('idb-keyval', () => ({
+  get: vi.fn(),
+  set: vi.fn(),
+}))
+
+import { get, set } from 'idb-keyval'
+
+describe('Blocklist Engine', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.clearAllMocks()
+  })
+
+  describe('listBlockedOwners', () => {
+    it('should return empty list when nothing is stored', async () => {
+      ;(get as any).mockResolvedValue(undefined)
+
+      expect(await listBlockedOwners()).toEqual([])
+    })
+  })
+
+  describe('blockOwner', () => {
+    it('should prepend a new blocked owner', async () => {
+      ;(get as any).mockResolvedValue([{ address: 'older', blockedAt: 1 }])
+
+      const entry = await blockOwner('  spam-owner ')
+
+      expect(entry.address).toBe('spam-owner')
+      expect(set).toHaveBeenCalledWith('roam-blocked-owners', [
+        entry,
+        { address: 'older', blockedAt: 1 }
+      ])
+    })
+
+    it('should not duplicate an already blocked owner', async () => {
+      const existing = { address: 'spam-owner', blockedAt: 1 }
+      ;(get as any).mockResolvedValue([existing])
+
+      expect(await blockOwner('spam-owner')).toEqual(existing)
+      expect(set).not.toHaveBeenCalled()
+    })
+
+    it('should reject empty addresses', async () => {
+      await expect(blockOwner('   ')).rejects.toThrow('Owner address cannot be empty')
+    })
+  })
+
+  describe('unblockOwner', () => {
+    it('should remove a blocked owner', async () => {
+      ;(get as any).mockResolvedValue([
+        { address: 'a', blockedAt: 1 },
+        { address: 'b', blockedAt: 2 }
+      ])
+
+      expect(await unblockOwner('a')).toBe(true)
+      expect(set).toHaveBeenCalledWith('roam-blocked-owners', [{ address: 'b', blockedAt: 2 }])
+    })
+
+    it('should return false when the owner was not blocked', async () => {
+      ;(get as any).mockResolvedValue([])
+
+      expect(await unblockOwner('a')).toBe(false)
+      expect(set).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getBlockedOwnerSet', () => {
+    it('should return the blocked addresses', async () => {
+      ;(get as any).mockResolvedValue([{ address: 'a', blockedAt: 1 }])
+
+      expect(await getBlockedOwnerSet()).toEqual(new Set(['a']))
+    })
+  })
+})
@@ -0,0 +1,64 @@
+// src/engine/blocklist.ts
+import { set, get } from "idb-keyval";
+import { logger } from "../utils/logger";
+import { BLOCKED_OWNERS_KEY, type BlockedOwner } from "../constants";
+
+/**
+ * Load blocked owners from IndexedDB, most recently blocked first.
+ */
+export async function listBlockedOwners(): Promise<BlockedOwner[]> {
+  const stored = await get<BlockedOwner[]>(BLOCKED_OWNERS_KEY);
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+  return [...stored];
+}
+
+/**
+ * Persist blocked owners to IndexedDB
+ */
+async function saveBlockedOwners(entries: BlockedOwner[]): Promise<void> {
+  await set(BLOCKED_OWNERS_KEY, entries);
+}
+
+/**
+ * Addresses of all blocked owners, for filtering fetched transactions.
+ */
+export async function getBlockedOwnerSet(): Promise<Set<string>> {
+  const entries = await listBlockedOwners();
+  return new Set(entries.map((entry) => entry.address));
+}
+
+/**
+ * Block an owner. Blocking an already blocked owner is a no-op.
+ */
+export async function blockOwner(address: string): Promise<BlockedOwner> {
+  const trimmed = address.trim();
+  if (!trimmed) {
+    throw new Error("Owner address cannot be empty");
+  }
+  const entries = await listBlockedOwners();
+  const existing = entries.find((entry) => entry.address === trimmed);
+  if (existing) {
+    return existing;
+  }
+
+  const entry: BlockedOwner = { address: trimmed, blockedAt: Date.now() };
+  await saveBlockedOwners([entry, ...entries]);
+  logger.debug("Owner blocked", { address: trimmed });
+  return entry;
+}
+
+/**
+ * Unblock an owner. Returns false if it was not blocked.
+ */
+export async function unblockOwner(address: string): Promise<boolean> {
+  const entries = await listBlockedOwners();
+  const remaining = entries.filter((entry) => entry.address !== address);
+  if (remaining.length === entries.length) {
+    return false;
+  }
+  await saveBlockedOwners(remaining);
+  logger.debug("Owner unblocked", { address });
+  return true;
+}
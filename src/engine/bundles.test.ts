@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { countByContentType, fetchBundlePage, loadBundleContents, resetBundles, rewindBundleScope } from './bundles'
+import { mockTx } from '../test/utils'
+
+vi.mock('./query', () => ({
+  fetchBundleItems: vi.fn(),
+}))
+
+import { fetchBundleItems } from './query'
+
+const BUNDLE = 'B'.repeat(43)
+
+const item = (id: string, contentType?: string) =>
+  mockTx({ id, tags: contentType ? { 'Content-Type': contentType } : {} })
+
+describe('Bundles Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetBundles()
+  })
+
+  describe('countByContentType', () => {
+    it('should group items by normalized content type, most common first', () => {
+      const counts = countByContentType([
+        item('a', 'text/html; charset=utf-8'),
+        item('b', 'image/png'),
+        item('c', 'Text/HTML'),
+        item('d'),
+      ])
+
+      expect(counts).toEqual([
+        { contentType: 'text/html', count: 2, tagValues: ['text/html; charset=utf-8', 'Text/HTML'] },
+        { contentType: 'image/png', count: 1, tagValues: ['image/png'] },
+        { contentType: 'unknown', count: 1, tagValues: [] },
+      ])
+    })
+  })
+
+  describe('loadBundleContents', () => {
+    it('should page through the bundle and cache the result', async () => {
+      vi.mocked(fetchBundleItems)
+        .mockResolvedValueOnce({ txs: [item('a')], hasMore: true, cursor: 'a' })
+        .mockResolvedValueOnce({ txs: [item('b')], hasMore: false, cursor: 'b' })
+
+      const contents = await loadBundleContents(BUNDLE)
+      await loadBundleContents(BUNDLE)
+
+      expect(contents.complete).toBe(true)
+      expect(contents.items.map(tx => tx.id)).toEqual(['a', 'b'])
+      expect(fetchBundleItems).toHaveBeenCalledTimes(2)
+      expect(fetchBundleItems).toHaveBeenLastCalledWith(BUNDLE, 'a')
+    })
+  })
+
+  describe('fetchBundlePage', () => {
+    it('should continue from the last page and stop at the end of the bundle', async () => {
+      const scope = { bundleId: BUNDLE, contentTypes: ['image/png'], label: 'Bundle' }
+      vi.mocked(fetchBundleItems)
+        .mockResolvedValueOnce({ txs: [item('a')], hasMore: true, cursor: 'a' })
+        .mockResolvedValueOnce({ txs: [item('b')], hasMore: false, cursor: 'b' })
+        .mockResolvedValueOnce({ txs: [item('a')], hasMore: true, cursor: 'a' })
+
+      expect((await fetchBundlePage(scope)).map(tx => tx.id)).toEqual(['a'])
+      expect((await fetchBundlePage(scope)).map(tx => tx.id)).toEqual(['b'])
+      expect(await fetchBundlePage(scope)).toEqual([])
+
+      rewindBundleScope(scope)
+      expect((await fetchBundlePage(scope)).map(tx => tx.id)).toEqual(['a'])
+
+      const cursors = vi.mocked(fetchBundleItems).mock.calls.map(([, cursor]) => cursor)
+      expect(cursors).toEqual([null, 'a', null])
+      expect(fetchBundleItems).toHaveBeenCalledWith(BUNDLE, null, ['image/png'])
+    })
+  })
+})
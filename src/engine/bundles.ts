@@ -0,0 +1,94 @@
+// src/engine/bundles.ts
+import { fetchBundleItems } from "./query";
+import { logger } from "../utils/logger";
+import { memoizeAsync } from "../utils/memoizeAsync";
+import { BUNDLE_EXPLORER_MAX_PAGES, type BundleScope, type TxMeta } from "../constants";
+
+/** Data items of a bundle as far as the explorer loads them */
+export interface BundleContents {
+  items: TxMeta[];
+  /** False when the bundle has more items than BUNDLE_EXPLORER_MAX_PAGES hold */
+  complete: boolean;
+}
+
+export interface ContentTypeCount {
+  contentType: string;
+  count: number;
+  /** Content-Type tag values as written (e.g. with a charset), for GraphQL tag filters */
+  tagValues: string[];
+}
+
+/** Paging position per bundle scope */
+const cursors = new Map<string, { cursor: string | null; done: boolean }>();
+
+const scopeKey = (scope: BundleScope) => `${scope.bundleId}:${(scope.contentTypes ?? []).join(",")}`;
+
+const contentTypeTag = (tx: TxMeta) => tx.tags.find((t) => t.name === "Content-Type")?.value;
+
+/** Content type of a data item, "unknown" when it has no Content-Type tag */
+export function bundleItemContentType(tx: TxMeta): string {
+  return contentTypeTag(tx)?.split(";")[0].trim().toLowerCase() || "unknown";
+}
+
+/** Item counts per content type, most common first */
+export function countByContentType(items: TxMeta[]): ContentTypeCount[] {
+  const counts = new Map<string, ContentTypeCount>();
+  for (const item of items) {
+    const contentType = bundleItemContentType(item);
+    const entry = counts.get(contentType) ?? { contentType, count: 0, tagValues: [] };
+    const tagValue = contentTypeTag(item);
+    entry.count++;
+    if (tagValue && !entry.tagValues.includes(tagValue)) entry.tagValues.push(tagValue);
+    counts.set(contentType, entry);
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.contentType.localeCompare(b.contentType));
+}
+
+async function fetchContents(bundleId: string): Promise<BundleContents> {
+  const items: TxMeta[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < BUNDLE_EXPLORER_MAX_PAGES; page++) {
+    const result = await fetchBundleItems(bundleId, cursor);
+    items.push(...result.txs);
+    if (!result.hasMore || !result.cursor) return { items, complete: true };
+    cursor = result.cursor;
+  }
+  logger.debug(`Bundle ${bundleId} has more than ${items.length} items; listing a partial bundle`);
+  return { items, complete: false };
+}
+
+/**
+ * List the sibling data items of a bundle for the explorer. Every item of a
+ * bundle lists the same siblings, so paging through them fetches once.
+ */
+export const loadBundleContents = memoizeAsync(fetchContents);
+
+/**
+ * Next page of a bundle scope for the fetch queue. Pages continue where the
+ * last one ended and return nothing once the bundle is exhausted, so a
+ * roamed bundle plays through once.
+ */
+export async function fetchBundlePage(scope: BundleScope): Promise<TxMeta[]> {
+  const key = scopeKey(scope);
+  const position = cursors.get(key) ?? { cursor: null, done: false };
+  if (position.done) return [];
+
+  const result = await fetchBundleItems(scope.bundleId, position.cursor, scope.contentTypes);
+  cursors.set(key, {
+    cursor: result.cursor ?? position.cursor,
+    done: !result.hasMore || !result.cursor,
+  });
+  return result.txs;
+}
+
+/** Start a bundle scope from its first item again */
+export function rewindBundleScope(scope: BundleScope): void {
+  cursors.delete(scopeKey(scope));
+}
+
+/** Drop cached bundles and paging positions (tests and resets) */
+export function resetBundles(): void {
+  loadBundleContents.clear();
+  cursors.clear();
+}
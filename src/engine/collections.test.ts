@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  createCollection,
+  renameCollection,
+  addToCollection,
+  moveCollectionItem,
+  setCollectionItemNote,
+  exportCollections,
+  importCollections
+} from './collections'
+import { mockTxMeta, mockArfsTxMeta, resetMocks } from '../test/utils'
+
+// Mock idb-keyval
+vi.mock('idb-keyval', () => ({
+  get: vi.fn(),
+  set: vi.fn(),
+}))
+
+// Mock the GraphQL lookup used to re-validate imported ids
+vi.mock('./query', () => ({
+  fetchTxMetasByIds: vi.fn(),
+}))
+
+import { get, set } from 'idb-keyval'
+import { fetchTxMetasByIds } from './query'
+
+const collection = (items: any[] = []) => ({
+  id: 'c1',
+  name: 'early 2019 art',
+  createdAt: 1,
+  updatedAt: 1,
+  items
+})
+
+describe('Collections Engine', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.clearAllMocks()
+  })
+
+  describe('createCollection', () => {
+    it('should create an empty named collection', async () => {
+      ;(get as any).mockResolvedValue([])
+
+      const created = await createCollection('  Manifold drops ')
+
+      expect(created.name).toBe('Manifold drops')
+      expect(created.items).toEqual([])
+      expect(set).toHaveBeenCalledWith('roam-collections', [created])
+    })
+
+    it('should reject empty names', async () => {
+      await expect(createCollection('   ')).rejects.toThrow('Collection name cannot be empty')
+      expect(set).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('renameCollection', () => {
+    it('should throw for unknown collections', async () => {
+      ;(get as any).mockResolvedValue([])
+
+      await expect(renameCollection('missing', 'x')).rejects.toThrow('Collection not found: missing')
+    })
+  })
+
+  describe('items', () => {
+    it('should append items and skip duplicates', async () => {
+      ;(get as any).mockResolvedValue([collection([{ tx: mockTxMeta, note: '', addedAt: 1 }])])
+
+      const updated = await addToCollection('c1', mockTxMeta, 'again')
+
+      expect(updated.items).toHaveLength(1)
+      expect(updated.items[0].note).toBe('')
+    })
+
+    it('should reorder items', async () => {
+      ;(get as any).mockResolvedValue([collection([
+        { tx: mockTxMeta, note: '', addedAt: 1 },
+        { tx: mockArfsTxMeta, note: '', addedAt: 2 }
+      ])])
+
+      const updated = await moveCollectionItem('c1', 1, 0)
+
+      expect(updated.items.map(i => i.tx.id)).toEqual([mockArfsTxMeta.id, mockTxMeta.id])
+    })
+
+    it('should set a per-item note', async () => {
+      ;(get as any).mockResolvedValue([collection([{ tx: mockTxMeta, note: '', addedAt: 1 }])])
+
+      const updated = await setCollectionItemNote('c1', mockTxMeta.id, 'first light')
+
+      expect(updated.items[0].note).toBe('first light')
+    })
+  })
+
+  describe('exportCollections', () => {
+    it('should produce a versioned document with ids and cached TxMeta', async () => {
+      ;(get as any).mockResolvedValue([collection([{ tx: mockArfsTxMeta, note: 'doc', addedAt: 5 }])])
+
+      const doc = await exportCollections()
+
+      expect(doc.format).toBe('roam-collections')
+      expect(doc.version).toBe(1)
+      expect(doc.collections[0]).toEqual({
+        name: 'early 2019 art',
+        createdAt: 1,
+        items: [{ id: mockArfsTxMeta.id, note: 'doc', addedAt: 5, meta: mockArfsTxMeta }]
+      })
+    })
+  })
+
+  describe('importCollections', () => {
+    const exported = (items: any[]) => JSON.stringify({
+      format: 'roam-collections',
+      version: 1,
+      exportedAt: '2024-01-01T00:00:00.000Z',
+      collections: [{ name: 'early 2019 art', createdAt: 1, items }]
+    })
+
+    it('should reject documents that are not collection exports', async () => {
+      await expect(importCollections('{"format":"other"}')).rejects.toThrow('not a Roam collections export')
+      await expect(importCollections('not json')).rejects.toThrow('not valid JSON')
+    })
+
+    it('should reject newer export versions', async () => {
+      const doc = { format: 'roam-collections', version: 99, collections: [] }
+      await expect(importCollections(doc)).rejects.toThrow('Unsupported collections export version: 99')
+    })
+
+    const txA = { ...mockTxMeta, id: 'A'.repeat(43) }
+    const goneId = 'G'.repeat(43)
+    const arfsTx = { ...mockArfsTxMeta, id: 'F'.repeat(43) }
+
+    it('should re-validate ids in one batch and report unresolved ones', async () => {
+      ;(get as any).mockResolvedValue([])
+      ;(fetchTxMetasByIds as any).mockResolvedValueOnce([txA])
+
+      const report = await importCollections(exported([
+        { id: txA.id, note: 'keep', addedAt: 3, meta: txA },
+        { id: goneId, note: '', addedAt: 4, meta: txA }
+      ]))
+
+      expect(fetchTxMetasByIds).toHaveBeenCalledTimes(1)
+      expect(fetchTxMetasByIds).toHaveBeenCalledWith([txA.id, goneId])
+      expect(report.imported).toBe(1)
+      expect(report.unresolved).toEqual([{ collection: 'early 2019 art', id: goneId }])
+      expect(report.failed).toEqual([])
+      expect(report.collections[0].items.map(i => i.tx.id)).toEqual([txA.id])
+    })
+
+    it('should look up at most 100 ids per request', async () => {
+      ;(get as any).mockResolvedValue([])
+      ;(fetchTxMetasByIds as any).mockResolvedValue([])
+      const items = Array.from({ length: 150 }, (_, i) => ({ id: String(i).padStart(43, 'x'), note: '', addedAt: 1 }))
+
+      await importCollections(exported(items))
+
+      expect((fetchTxMetasByIds as any).mock.calls.map(([ids]: [string[]]) => ids.length)).toEqual([100, 50])
+    })
+
+    it('should report malformed ids without looking them up', async () => {
+      ;(get as any).mockResolvedValue([])
+
+      const report = await importCollections(exported([{ id: 'not-a-tx-id', note: '', addedAt: 1 }, { note: '' }]))
+
+      expect(fetchTxMetasByIds).not.toHaveBeenCalled()
+      expect(report.unresolved.map(u => u.id)).toEqual(['not-a-tx-id', ''])
+    })
+
+    it('should replace invalid timestamps with the import time', async () => {
+      ;(get as any).mockResolvedValue([])
+      ;(fetchTxMetasByIds as any).mockResolvedValue([txA])
+      const doc = JSON.parse(exported([{ id: txA.id, note: '', addedAt: 'yesterday' }]))
+      doc.collections[0].createdAt = Date.now() + 60_000
+
+      const report = await importCollections(doc)
+
+      const [imported] = report.collections
+      expect(imported.createdAt).toBeLessThanOrEqual(Date.now())
+      expect(imported.items[0].addedAt).toBe(imported.createdAt)
+    })
+
+    it('should report ids that could not be checked as retryable failures', async () => {
+      ;(get as any).mockResolvedValue([])
+      ;(fetchTxMetasByIds as any).mockRejectedValue(new Error('All gateways failed – unable to fetch txs by ID'))
+
+      const report = await importCollections(exported([{ id: txA.id, note: '', addedAt: 3, meta: txA }]))
+
+      expect(report.imported).toBe(0)
+      expect(report.unresolved).toEqual([])
+      expect(report.failed).toEqual([{ collection: 'early 2019 art', id: txA.id }])
+    })
+
+    it('should keep cached arfsMeta and merge into a same-name collection', async () => {
+      ;(get as any).mockResolvedValue([collection([{ tx: txA, note: '', addedAt: 1 }])])
+      const { arfsMeta, ...graphqlMeta } = arfsTx
+      ;(fetchTxMetasByIds as any).mockResolvedValue([graphqlMeta])
+
+      const report = await importCollections(exported([
+        { id: txA.id, note: '', addedAt: 1, meta: txA },
+        { id: arfsTx.id, note: '', addedAt: 2, meta: arfsTx }
+      ]))
+
+      expect(report.skipped).toBe(1)
+      expect(fetchTxMetasByIds).toHaveBeenCalledWith([arfsTx.id])
+      const saved = (set as any).mock.calls[0][1]
+      expect(saved).toHaveLength(1)
+      expect(saved[0].id).toBe('c1')
+      expect(saved[0].items[1].tx.arfsMeta).toEqual(arfsMeta)
+    })
+  })
+})
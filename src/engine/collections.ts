@@ -0,0 +1,309 @@
+// src/engine/collections.ts
+import { set, get } from "idb-keyval";
+import { v4 as uuidv4 } from "uuid";
+import { fetchTxMetasByIds } from "./query";
+import { logger } from "../utils/logger";
+import { isTxId } from "../utils/arweaveIds";
+import { COLLECTIONS_KEY, type Collection, type CollectionItem, type TxMeta } from "../constants";
+
+/** Identifies Roam collection exports */
+export const COLLECTIONS_EXPORT_FORMAT = "roam-collections";
+/** Bump when the export document shape changes */
+export const COLLECTIONS_EXPORT_VERSION = 1;
+
+/**
+ * Versioned JSON document produced by exportCollections
+ */
+export interface CollectionsExport {
+  format: typeof COLLECTIONS_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  collections: {
+    name: string;
+    createdAt: number;
+    items: { id: string; note: string; addedAt: number; meta: TxMeta }[];
+  }[];
+}
+
+/**
+ * Outcome of importCollections
+ */
+export interface CollectionsImportReport {
+  collections: Collection[];
+  imported: number;
+  skipped: number;
+  /** Ids no gateway knows any more */
+  unresolved: { collection: string; id: string }[];
+  /** Ids that could not be checked because every gateway failed; importing again retries them */
+  failed: { collection: string; id: string }[];
+}
+
+/**
+ * Load all collections from IndexedDB
+ */
+export async function listCollections(): Promise<Collection[]> {
+  const stored = await get<Collection[]>(COLLECTIONS_KEY);
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+  return [...stored];
+}
+
+/**
+ * Persist collections to IndexedDB
+ */
+async function saveCollections(collections: Collection[]): Promise<void> {
+  await set(COLLECTIONS_KEY, collections);
+}
+
+/**
+ * Load collections, apply `update` to the one with `id`, and persist.
+ */
+async function updateCollection(
+  id: string,
+  update: (collection: Collection) => Collection
+): Promise<Collection> {
+  const collections = await listCollections();
+  const index = collections.findIndex((c) => c.id === id);
+  if (index === -1) {
+    throw new Error(`Collection not found: ${id}`);
+  }
+  const updated = { ...update(collections[index]), updatedAt: Date.now() };
+  collections[index] = updated;
+  await saveCollections(collections);
+  return updated;
+}
+
+export async function getCollection(id: string): Promise<Collection | undefined> {
+  const collections = await listCollections();
+  return collections.find((c) => c.id === id);
+}
+
+/**
+ * Create a new empty collection. Names must be non-empty.
+ */
+export async function createCollection(name: string): Promise<Collection> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Collection name cannot be empty");
+  }
+  const now = Date.now();
+  const collection: Collection = {
+    id: uuidv4(),
+    name: trimmed,
+    createdAt: now,
+    updatedAt: now,
+    items: [],
+  };
+  const collections = await listCollections();
+  await saveCollections([...collections, collection]);
+  logger.debug("Collection created", { id: collection.id, name: trimmed });
+  return collection;
+}
+
+export async function renameCollection(id: string, name: string): Promise<Collection> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Collection name cannot be empty");
+  }
+  return updateCollection(id, (c) => ({ ...c, name: trimmed }));
+}
+
+export async function deleteCollection(id: string): Promise<void> {
+  const collections = await listCollections();
+  await saveCollections(collections.filter((c) => c.id !== id));
+  logger.debug("Collection deleted", { id });
+}
+
+/**
+ * Append a transaction to a collection, skipping it if already present.
+ */
+export async function addToCollection(id: string, tx: TxMeta, note = ""): Promise<Collection> {
+  return updateCollection(id, (c) => {
+    if (c.items.some((item) => item.tx.id === tx.id)) {
+      logger.debug("addToCollection: duplicate, skipping", { id: tx.id });
+      return c;
+    }
+    const item: CollectionItem = { tx, note, addedAt: Date.now() };
+    return { ...c, items: [...c.items, item] };
+  });
+}
+
+export async function removeFromCollection(id: string, txId: string): Promise<Collection> {
+  return updateCollection(id, (c) => ({
+    ...c,
+    items: c.items.filter((item) => item.tx.id !== txId),
+  }));
+}
+
+/**
+ * Move an item within a collection, clamping the target position.
+ */
+export async function moveCollectionItem(id: string, fromIndex: number, toIndex: number): Promise<Collection> {
+  return updateCollection(id, (c) => {
+    if (fromIndex < 0 || fromIndex >= c.items.length) {
+      return c;
+    }
+    const items = [...c.items];
+    const [item] = items.splice(fromIndex, 1);
+    const target = Math.min(Math.max(toIndex, 0), items.length);
+    items.splice(target, 0, item);
+    return { ...c, items };
+  });
+}
+
+export async function setCollectionItemNote(id: string, txId: string, note: string): Promise<Collection> {
+  return updateCollection(id, (c) => ({
+    ...c,
+    items: c.items.map((item) => (item.tx.id === txId ? { ...item, note } : item)),
+  }));
+}
+
+/**
+ * Build a versioned export document for the given collections (all by default).
+ */
+export async function exportCollections(ids?: string[]): Promise<CollectionsExport> {
+  const collections = await listCollections();
+  const selected = ids ? collections.filter((c) => ids.includes(c.id)) : collections;
+
+  return {
+    format: COLLECTIONS_EXPORT_FORMAT,
+    version: COLLECTIONS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections: selected.map((c) => ({
+      name: c.name,
+      createdAt: c.createdAt,
+      items: c.items.map((item) => ({
+        id: item.tx.id,
+        note: item.note,
+        addedAt: item.addedAt,
+        meta: item.tx,
+      })),
+    })),
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validate the outer shape of an export document.
+ */
+function parseExport(input: string | unknown): CollectionsExport {
+  let doc: unknown = input;
+  if (typeof input === "string") {
+    try {
+      doc = JSON.parse(input);
+    } catch {
+      throw new Error("Import file is not valid JSON");
+    }
+  }
+
+  if (!isRecord(doc) || doc.format !== COLLECTIONS_EXPORT_FORMAT || !Array.isArray(doc.collections)) {
+    throw new Error("Import file is not a Roam collections export");
+  }
+  if (typeof doc.version !== "number" || doc.version > COLLECTIONS_EXPORT_VERSION) {
+    throw new Error(`Unsupported collections export version: ${doc.version}`);
+  }
+  return {
+    format: COLLECTIONS_EXPORT_FORMAT,
+    version: doc.version,
+    exportedAt: typeof doc.exportedAt === "string" ? doc.exportedAt : "",
+    // Entries are checked one by one while importing
+    collections: doc.collections as CollectionsExport["collections"],
+  };
+}
+
+/** Ids per GraphQL lookup while importing, the most fetchTxMetasByIds takes */
+const IMPORT_BATCH_SIZE = 100;
+
+/** A timestamp from an import file, or `fallback` when it is missing or not a past time */
+function importedTimestamp(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 && value <= fallback ? value : fallback;
+}
+
+/**
+ * Import an export document. Every tx id is re-validated against the configured
+ * GraphQL gateways, IMPORT_BATCH_SIZE at a time; malformed ids and ids that no
+ * longer resolve are skipped and reported, and so are ids that could not be
+ * checked because every gateway failed.
+ * Collections with a matching name are merged instead of duplicated.
+ */
+export async function importCollections(
+  input: string | unknown,
+  onProgress?: (done: number, total: number) => void
+): Promise<CollectionsImportReport> {
+  const doc = parseExport(input);
+  const collections = await listCollections();
+  const report: CollectionsImportReport = { collections: [], imported: 0, skipped: 0, unresolved: [], failed: [] };
+  const now = Date.now();
+
+  // Match collections and weed out duplicate and malformed ids before any lookup
+  const pending: { target: Collection; name: string; id: string; note: unknown; addedAt: unknown; meta: unknown }[] = [];
+  for (const incoming of doc.collections) {
+    const name = String(incoming.name ?? "").trim() || "Imported collection";
+    let target = collections.find((c) => c.name === name);
+    if (!target) {
+      target = { id: uuidv4(), name, createdAt: importedTimestamp(incoming.createdAt, now), updatedAt: now, items: [] };
+      collections.push(target);
+    }
+    if (!report.collections.includes(target)) report.collections.push(target);
+
+    for (const item of Array.isArray(incoming.items) ? incoming.items : []) {
+      const id = isRecord(item) ? item.id : undefined;
+      if (!isTxId(id)) {
+        report.unresolved.push({ collection: name, id: String(id ?? "") });
+      } else if (
+        target.items.some((existing) => existing.tx.id === id) ||
+        pending.some((p) => p.target === target && p.id === id)
+      ) {
+        report.skipped++;
+      } else {
+        pending.push({ target, name, id, note: item.note, addedAt: item.addedAt, meta: item.meta });
+      }
+    }
+  }
+
+  const ids = Array.from(new Set(pending.map((p) => p.id)));
+  const found = new Map<string, TxMeta>();
+  const failed = new Set<string>();
+  onProgress?.(0, ids.length);
+  for (let start = 0; start < ids.length; start += IMPORT_BATCH_SIZE) {
+    const batch = ids.slice(start, start + IMPORT_BATCH_SIZE);
+    try {
+      (await fetchTxMetasByIds(batch)).forEach((tx) => found.set(tx.id, tx));
+    } catch (err) {
+      logger.warn(`Import: could not check ${batch.length} txs`, err);
+      batch.forEach((id) => failed.add(id));
+    }
+    onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, ids.length), ids.length);
+  }
+
+  for (const { target, name, id, note, addedAt, meta } of pending) {
+    const fresh = found.get(id);
+    if (fresh) {
+      // GraphQL never returns arfsMeta, so keep the cached copy
+      const arfsMeta = isRecord(meta) && isRecord(meta.arfsMeta) ? (meta.arfsMeta as TxMeta["arfsMeta"]) : undefined;
+      target.items.push({
+        tx: arfsMeta ? { ...fresh, arfsMeta } : fresh,
+        note: typeof note === "string" ? note : "",
+        addedAt: importedTimestamp(addedAt, now),
+      });
+      target.updatedAt = now;
+      report.imported++;
+    } else if (failed.has(id)) {
+      report.failed.push({ collection: name, id });
+    } else {
+      logger.warn(`Import: tx ${id} no longer resolves`);
+      report.unresolved.push({ collection: name, id });
+    }
+  }
+
+  await saveCollections(collections);
+  logger.info("Collections imported", {
+    imported: report.imported,
+    unresolved: report.unresolved.length,
+    failed: report.failed.length,
+  });
+  return report;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  loadCustomMedia,
+  createCustomMedia,
+  updateCustomMedia,
+  deleteCustomMedia,
+  findCustomMediaForContentType,
+  getCustomMedia,
+  isCustomMedia,
+  parseContentTypes
+} from './customMedia'
+import { CONTENT_TYPES, type CustomMediaDefinition } from '../constants'
+import { resetMocks } from '../test/utils'
+
+// Mock idb-keyval
+vi.mock('idb-keyval', () => ({
+  get: vi.fn(),
+  set: vi.fn(),
+}))
+
+import { get, set } from 'idb-keyval'
+
+const models: CustomMediaDefinition = {
+  id: 'custom:models',
+  label: '3D models',
+  contentTypes: ['model/gltf-binary'],
+  renderAs: 'download',
+  createdAt: 1
+}
+
+describe('Custom Media Engine', () => {
+  beforeEach(async () => {
+    resetMocks()
+    vi.clearAllMocks()
+    // Start every test from an empty registry
+    ;(get as any).mockResolvedValue(undefined)
+    await loadCustomMedia()
+  })
+
+  describe('parseContentTypes', () => {
+    it('should split, lower-case and de-duplicate content types', () => {
+      expect(parseContentTypes('Text/X-TypeScript, application/javascript\ntext/x-typescript'))
+        .toEqual(['text/x-typescript', 'application/javascript'])
+    })
+
+    it('should reject values that are not type/subtype', () => {
+      expect(() => parseContentTypes('image')).toThrow('Invalid content type: image')
+      expect(() => parseContentTypes('image/*')).toThrow('Invalid content type')
+    })
+  })
+
+  describe('loadCustomMedia', () => {
+    it('should register stored definitions in CONTENT_TYPES', async () => {
+      ;(get as any).mockResolvedValue([models])
+
+      await loadCustomMedia()
+
+      expect(CONTENT_TYPES['custom:models']).toEqual(['model/gltf-binary'])
+      expect(getCustomMedia('custom:models')).toEqual(models)
+    })
+
+    it('should unregister definitions that are no longer stored', async () => {
+      ;(get as any).mockResolvedValue([models])
+      await loadCustomMedia()
+      ;(get as any).mockResolvedValue([])
+      await loadCustomMedia()
+
+      expect(CONTENT_TYPES['custom:models']).toBeUndefined()
+    })
+  })
+
+  describe('createCustomMedia', () => {
+    it('should persist and register a new channel', async () => {
+      const def = await createCustomMedia(' Code ', ['text/x-typescript', 'application/javascript'], 'text')
+
+      expect(isCustomMedia(def.id)).toBe(true)
+      expect(def.label).toBe('Code')
+      expect(set).toHaveBeenCalledWith('roam-custom-media', [def])
+      expect(CONTENT_TYPES[def.id]).toEqual(['text/x-typescript', 'application/javascript'])
+    })
+
+    it('should keep definitions that were stored but not loaded yet', async () => {
+      ;(get as any).mockResolvedValue([models])
+
+      const def = await createCustomMedia('Code', ['application/javascript'], 'text')
+
+      expect(set).toHaveBeenCalledWith('roam-custom-media', [models, def])
+    })
+
+    it('should reject empty names and content type lists', async () => {
+      await expect(createCustomMedia('  ', ['model/gltf-binary'])).rejects.toThrow('Channel name cannot be empty')
+      await expect(createCustomMedia('Models', [])).rejects.toThrow('Add at least one content type')
+      expect(set).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateCustomMedia', () => {
+    it('should replace content types and re-register', async () => {
+      ;(get as any).mockResolvedValue([models])
+
+      const updated = await updateCustomMedia('custom:models', { contentTypes: ['model/gltf-binary', 'model/obj'] })
+
+      expect(updated.contentTypes).toEqual(['model/gltf-binary', 'model/obj'])
+      expect(CONTENT_TYPES['custom:models']).toEqual(['model/gltf-binary', 'model/obj'])
+    })
+
+    it('should throw for unknown channels', async () => {
+      await expect(updateCustomMedia('custom:missing', { label: 'x' })).rejects.toThrow('Custom media not found')
+    })
+  })
+
+  describe('deleteCustomMedia', () => {
+    it('should remove the channel from storage and CONTENT_TYPES', async () => {
+      ;(get as any).mockResolvedValue([models])
+
+      await deleteCustomMedia('custom:models')
+
+      expect(set).toHaveBeenCalledWith('roam-custom-media', [])
+      expect(CONTENT_TYPES['custom:models']).toBeUndefined()
+    })
+  })
+
+  describe('findCustomMediaForContentType', () => {
+    it('should match content types ignoring parameters and case', async () => {
+      ;(get as any).mockResolvedValue([models])
+      await loadCustomMedia()
+
+      expect(findCustomMediaForContentType('Model/GLTF-Binary; charset=binary')).toEqual(models)
+      expect(findCustomMediaForContentType('image/png')).toBeUndefined()
+    })
+  })
+
+  describe('isCustomMedia', () => {
+    it('should only match custom channel ids', () => {
+      expect(isCustomMedia('custom:abc')).toBe(true)
+      expect(isCustomMedia('images')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,153 @@
+// src/engine/customMedia.ts
+import { set, get } from "idb-keyval";
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "../utils/logger";
+import {
+  CONTENT_TYPES,
+  CUSTOM_MEDIA_KEY,
+  type CustomMediaDefinition,
+  type CustomMediaRenderer,
+  type CustomMediaType,
+  type MediaType,
+} from "../constants";
+
+export const CUSTOM_MEDIA_PREFIX = "custom:";
+
+const CUSTOM_MEDIA_RENDERERS: CustomMediaRenderer[] = ["text", "embed", "download"];
+
+/** type/subtype, e.g. "model/gltf-binary" or "application/vnd.ms-excel" */
+const CONTENT_TYPE_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/;
+
+/**
+ * Definitions currently registered in CONTENT_TYPES. Kept in memory so
+ * renderers can look them up synchronously.
+ */
+let registered: CustomMediaDefinition[] = [];
+
+export function isCustomMedia(media: MediaType): media is CustomMediaType {
+  return media.startsWith(CUSTOM_MEDIA_PREFIX);
+}
+
+/**
+ * Split a comma or whitespace separated list into lower-cased content types.
+ * Throws on anything that is not a plain type/subtype.
+ */
+export function parseContentTypes(raw: string): string[] {
+  const types = Array.from(new Set(raw.split(/[\s,]+/).map((t) => t.trim().toLowerCase()).filter(Boolean)));
+  const invalid = types.find((t) => !CONTENT_TYPE_PATTERN.test(t));
+  if (invalid) {
+    throw new Error(`Invalid content type: ${invalid}`);
+  }
+  return types;
+}
+
+/**
+ * Make `definitions` the registered set, replacing any previous custom
+ * entries in CONTENT_TYPES.
+ */
+function register(definitions: CustomMediaDefinition[]): void {
+  for (const def of registered) {
+    delete CONTENT_TYPES[def.id];
+  }
+  for (const def of definitions) {
+    CONTENT_TYPES[def.id] = def.contentTypes;
+  }
+  registered = definitions;
+}
+
+/**
+ * Persist definitions to IndexedDB and register them
+ */
+async function saveCustomMedia(definitions: CustomMediaDefinition[]): Promise<void> {
+  await set(CUSTOM_MEDIA_KEY, definitions);
+  register(definitions);
+}
+
+/**
+ * Load custom media definitions from IndexedDB and register them.
+ */
+export async function loadCustomMedia(): Promise<CustomMediaDefinition[]> {
+  const stored = await get<CustomMediaDefinition[]>(CUSTOM_MEDIA_KEY);
+  const definitions = Array.isArray(stored) ? stored.filter((def) => def?.id && Array.isArray(def.contentTypes)) : [];
+  register(definitions);
+  return [...definitions];
+}
+
+/**
+ * Registered definitions, in creation order
+ */
+export function getCustomMediaDefinitions(): CustomMediaDefinition[] {
+  return [...registered];
+}
+
+export function getCustomMedia(id: string): CustomMediaDefinition | undefined {
+  return registered.find((def) => def.id === id);
+}
+
+/**
+ * The first registered definition covering a content type, if any
+ */
+export function findCustomMediaForContentType(contentType: string): CustomMediaDefinition | undefined {
+  const normalized = contentType.split(";")[0].trim().toLowerCase();
+  return registered.find((def) => def.contentTypes.includes(normalized));
+}
+
+function validate(label: string, contentTypes: string[], renderAs: CustomMediaRenderer) {
+  const trimmed = label.trim();
+  if (!trimmed) {
+    throw new Error("Channel name cannot be empty");
+  }
+  if (contentTypes.length === 0) {
+    throw new Error("Add at least one content type");
+  }
+  if (!CUSTOM_MEDIA_RENDERERS.includes(renderAs)) {
+    throw new Error(`Unknown renderer: ${renderAs}`);
+  }
+  return { label: trimmed, contentTypes: parseContentTypes(contentTypes.join(",")), renderAs };
+}
+
+/**
+ * Create and register a new custom media channel.
+ */
+export async function createCustomMedia(
+  label: string,
+  contentTypes: string[],
+  renderAs: CustomMediaRenderer = "download"
+): Promise<CustomMediaDefinition> {
+  const definition: CustomMediaDefinition = {
+    id: `${CUSTOM_MEDIA_PREFIX}${uuidv4()}`,
+    ...validate(label, contentTypes, renderAs),
+    createdAt: Date.now(),
+  };
+  const definitions = await loadCustomMedia();
+  await saveCustomMedia([...definitions, definition]);
+  logger.debug("Custom media created", { id: definition.id, contentTypes: definition.contentTypes });
+  return definition;
+}
+
+export async function updateCustomMedia(
+  id: string,
+  changes: Partial<Pick<CustomMediaDefinition, "label" | "contentTypes" | "renderAs">>
+): Promise<CustomMediaDefinition> {
+  const definitions = await loadCustomMedia();
+  const existing = definitions.find((def) => def.id === id);
+  if (!existing) {
+    throw new Error(`Custom media not found: ${id}`);
+  }
+  const updated: CustomMediaDefinition = {
+    ...existing,
+    ...validate(
+      changes.label ?? existing.label,
+      changes.contentTypes ?? existing.contentTypes,
+      changes.renderAs ?? existing.renderAs
+    ),
+  };
+  await saveCustomMedia(definitions.map((def) => (def.id === id ? updated : def)));
+  return updated;
+}
+
+export async function deleteCustomMedia(id: string): Promise<void> {
+  const definitions = await loadCustomMedia();
+  await saveCustomMedia(definitions.filter((def) => def.id !== id));
+  logger.debug("Custom media deleted", { id });
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { addFavorite, removeFavorite, toggleFavorite, listFavorites, isFavorite, setFavoriteTags, listFavoritesByTag } from './favorites'
+import { mockTxMeta, mockArfsTxMeta, resetMocks } from '../test/utils'
+
+// Mock idb-keyval
+vi.mock('idb-keyval', () => ({
+  get: vi.fn(),
+  set: vi.fn(),
+}))
+
+import { get, set } from 'idb-keyval'
+
+describe('Favorites Engine', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.clearAllMocks()
+  })
+
+  describe('listFavorites', () => {
+    it('should return empty list when nothing is stored', async () => {
+      ;(get as any).mockResolvedValue(undefined)
+
+      const result = await listFavorites()
+
+      expect(result).toEqual([])
+    })
+  })
+
+  describe('addFavorite', () => {
+    it('should store the full TxMeta including arfsMeta', async () => {
+      ;(get as any).mockResolvedValue([])
+
+      const entry = await addFavorite(mockArfsTxMeta, ['docs'])
+
+      expect(entry.tx.arfsMeta).toEqual(mockArfsTxMeta.arfsMeta)
+      expect(set).toHaveBeenCalledWith('roam-favorites', [
+        { tx: mockArfsTxMeta, tags: ['docs'], addedAt: expect.any(Number) }
+      ])
+    })
+
+    it('should put new favorites first', async () => {
+      const existing = { tx: mockArfsTxMeta, tags: [], addedAt: 1 }
+      ;(get as any).mockResolvedValue([existing])
+
+      await addFavorite(mockTxMeta)
+
+      const saved = (set as any).mock.calls[0][1]
+      expect(saved.map((e: any) => e.tx.id)).toEqual([mockTxMeta.id, mockArfsTxMeta.id])
+    })
+
+    it('should keep tags and added time when re-adding an existing favorite', async () => {
+      const existing = { tx: mockTxMeta, tags: ['art'], addedAt: 1 }
+      ;(get as any).mockResolvedValue([existing])
+
+      const entry = await addFavorite(mockTxMeta, ['2019'])
+
+      expect(entry).toEqual({ tx: mockTxMeta, tags: ['art', '2019'], addedAt: 1 })
+      expect((set as any).mock.calls[0][1]).toHaveLength(1)
+    })
+  })
+
+  describe('removeFavorite', () => {
+    it('should remove a saved favorite', async () => {
+      ;(get as any).mockResolvedValue([{ tx: mockTxMeta, tags: [], addedAt: 1 }])
+
+      const removed = await removeFavorite(mockTxMeta.id)
+
+      expect(removed).toBe(true)
+      expect(set).toHaveBeenCalledWith('roam-favorites', [])
+    })
+
+    it('should return false when the id is not a favorite', async () => {
+      ;(get as any).mockResolvedValue([])
+
+      const removed = await removeFavorite('unknown-id')
+
+      expect(removed).toBe(false)
+      expect(set).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('toggleFavorite', () => {
+    it('should add when not saved and remove when saved', async () => {
+      ;(get as any).mockResolvedValueOnce([]).mockResolvedValueOnce([])
+      expect(await toggleFavorite(mockTxMeta)).toBe(true)
+
+      ;(get as any).mockResolvedValueOnce([{ tx: mockTxMeta, tags: [], addedAt: 1 }])
+      expect(await toggleFavorite(mockTxMeta)).toBe(false)
+    })
+  })
+
+  describe('isFavorite', () => {
+    it('should report saved ids', async () => {
+      ;(get as any).mockResolvedValue([{ tx: mockTxMeta, tags: [], addedAt: 1 }])
+
+      expect(await isFavorite(mockTxMeta.id)).toBe(true)
+      expect(await isFavorite('other-id')).toBe(false)
+    })
+  })
+
+  describe('tags', () => {
+    it('should trim and de-duplicate tags', async () => {
+      ;(get as any).mockResolvedValue([{ tx: mockTxMeta, tags: [], addedAt: 1 }])
+
+      const updated = await setFavoriteTags(mockTxMeta.id, [' art ', 'art', '', 'memes'])
+
+      expect(updated?.tags).toEqual(['art', 'memes'])
+    })
+
+    it('should filter favorites by tag', async () => {
+      ;(get as any).mockResolvedValue([
+        { tx: mockTxMeta, tags: ['art'], addedAt: 2 },
+        { tx: mockArfsTxMeta, tags: ['docs'], addedAt: 1 }
+      ])
+
+      const result = await listFavoritesByTag('docs')
+
+      expect(result.map(e => e.tx.id)).toEqual([mockArfsTxMeta.id])
+    })
+  })
+})
@@ -0,0 +1,102 @@
+// src/engine/favorites.ts
+import { set, get } from "idb-keyval";
+import { logger } from "../utils/logger";
+import { FAVORITES_KEY, type FavoriteEntry, type TxMeta } from "../constants";
+
+/**
+ * Load favorites from IndexedDB, newest first.
+ */
+export async function listFavorites(): Promise<FavoriteEntry[]> {
+  const stored = await get<FavoriteEntry[]>(FAVORITES_KEY);
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+  return [...stored];
+}
+
+/**
+ * Persist favorites to IndexedDB
+ */
+async function saveFavorites(entries: FavoriteEntry[]): Promise<void> {
+  await set(FAVORITES_KEY, entries);
+}
+
+/**
+ * Check whether a transaction has been saved as a favorite.
+ */
+export async function isFavorite(id: string): Promise<boolean> {
+  const entries = await listFavorites();
+  return entries.some((entry) => entry.tx.id === id);
+}
+
+/**
+ * Save a transaction (including any resolved arfsMeta) as a favorite.
+ * Re-adding an existing favorite refreshes its metadata and keeps its tags.
+ */
+export async function addFavorite(tx: TxMeta, tags: string[] = []): Promise<FavoriteEntry> {
+  const entries = await listFavorites();
+  const existing = entries.find((entry) => entry.tx.id === tx.id);
+
+  const entry: FavoriteEntry = {
+    tx,
+    tags: existing ? Array.from(new Set([...existing.tags, ...tags])) : tags,
+    addedAt: existing?.addedAt ?? Date.now(),
+  };
+
+  await saveFavorites(existing ? entries.map((e) => (e.tx.id === tx.id ? entry : e)) : [entry, ...entries]);
+  logger.debug("Favorite added", { id: tx.id });
+  return entry;
+}
+
+/**
+ * Remove a favorite by tx id. Returns false if it was not saved.
+ */
+export async function removeFavorite(id: string): Promise<boolean> {
+  const entries = await listFavorites();
+  const remaining = entries.filter((entry) => entry.tx.id !== id);
+  if (remaining.length === entries.length) {
+    return false;
+  }
+  await saveFavorites(remaining);
+  logger.debug("Favorite removed", { id });
+  return true;
+}
+
+/**
+ * Add the transaction if it is not a favorite yet, remove it otherwise.
+ * Returns the new favorite state.
+ */
+export async function toggleFavorite(tx: TxMeta): Promise<boolean> {
+  if (await removeFavorite(tx.id)) {
+    return false;
+  }
+  await addFavorite(tx);
+  return true;
+}
+
+/**
+ * Replace the tags of a saved favorite. Tags are trimmed and de-duplicated.
+ */
+export async function setFavoriteTags(id: string, tags: string[]): Promise<FavoriteEntry | undefined> {
+  const entries = await listFavorites();
+  const entry = entries.find((e) => e.tx.id === id);
+  if (!entry) {
+    logger.debug("setFavoriteTags: not a favorite", { id });
+    return undefined;
+  }
+
+  const updated: FavoriteEntry = {
+    ...entry,
+    tags: Array.from(new Set(tags.map((t) => t.trim()).filter(Boolean))),
+  };
+  await saveFavorites(entries.map((e) => (e.tx.id === id ? updated : e)));
+  return updated;
+}
+
+/**
+ * List favorites carrying the given tag.
+ */
+export async function listFavoritesByTag(tag: string): Promise<FavoriteEntry[]> {
+  const entries = await listFavorites();
+  return entries.filter((entry) => entry.tags.includes(tag));
+}
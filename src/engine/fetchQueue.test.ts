@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { initFetchQueue, clearSeenIds } from './fetchQueue'
+import { initFetchQueue, clearSeenIds, peekNextTransactions } from './fetchQueue'
 import { mockTxMeta, resetMocks } from '../test/utils'
 import type { Channel } from '../constants'
 
@@ -11,7 +11,39 @@ vi.mock('./query', () => ({
   REFILL_PAGE_LIMIT: 1,
 }))
 
+// Mock the blocklist module
+vi.mock('./blocklist', () => ({
+  getBlockedOwnerSet: vi.fn().mockResolvedValue(new Set()),
+}))
+
+// Mock the ArNS module
+vi.mock('./arns', () => ({
+  fetchArnsPage: vi.fn(),
+}))
+
+// Mock the ArFS drive module
+vi.mock('./arfsDrive', () => ({
+  loadArfsDrive: vi.fn(),
+  listDriveFiles: vi.fn(),
+}))
+
+// Mock the ArFS revisions module
+vi.mock('./arfsRevisions', () => ({
+  loadArfsMeta: vi.fn(),
+  preferLatestRevisions: vi.fn(async (txs) => txs),
+}))
+
+// Mock the bundles module
+vi.mock('./bundles', () => ({
+  fetchBundlePage: vi.fn(),
+}))
+
 import { fetchTxsRange } from './query'
+import { getBlockedOwnerSet } from './blocklist'
+import { fetchArnsPage } from './arns'
+import { loadArfsDrive, listDriveFiles } from './arfsDrive'
+import { preferLatestRevisions } from './arfsRevisions'
+import { fetchBundlePage } from './bundles'
 
 describe('FetchQueue Engine', () => {
   beforeEach(() => {
@@ -67,10 +99,11 @@ describe('FetchQueue Engine', () => {
         'images',
         1,
         1500000,
-        'test-owner-address',
+        ['test-owner-address'],
         undefined,
         2, // INITIAL_PAGE_LIMIT
-        false // isRefill
+        false, // isRefill
+        undefined // tagFilters
       )
     })
 
@@ -91,11 +124,165 @@ describe('FetchQueue Engine', () => {
         undefined,
         'TestApp',
         2, // INITIAL_PAGE_LIMIT
-        false // isRefill
+        false, // isRefill
+        undefined // tagFilters
       )
     })
   })
 
+  describe('tag filters', () => {
+    it('should pass channel tag filters to every query', async () => {
+      const tagFilters = [{ name: 'Type', values: ['meme'] }]
+      ;(fetchTxsRange as any).mockResolvedValue({ txs: [mockTxMeta], hasMore: false })
+
+      await initFetchQueue({ media: 'images', recency: 'new', tagFilters })
+
+      expect(fetchTxsRange).toHaveBeenCalledWith(
+        'images',
+        expect.any(Number),
+        expect.any(Number),
+        undefined,
+        undefined,
+        2,
+        false,
+        tagFilters
+      )
+    })
+
+    it('should prefer deep-link tag filters over the channel', async () => {
+      const deepLinkFilters = [{ name: 'Topic', values: ['*'] }]
+      ;(fetchTxsRange as any).mockResolvedValue({ txs: [mockTxMeta], hasMore: false })
+
+      await initFetchQueue(
+        { media: 'images', recency: 'new', tagFilters: [{ name: 'Type', values: ['meme'] }] },
+        { minBlock: 1000000, maxBlock: 1005000, tagFilters: deepLinkFilters }
+      )
+
+      expect((fetchTxsRange as any).mock.calls[0][7]).toEqual(deepLinkFilters)
+    })
+  })
+
+  describe('owners', () => {
+    it('should query every owner in the channel roster at once', async () => {
+      ;(fetchTxsRange as any).mockResolvedValue({ txs: [mockTxMeta], hasMore: false })
+
+      await initFetchQueue({
+        media: 'images',
+        recency: 'new',
+        ownerAddress: 'owner-a',
+        ownerAddresses: ['owner-b', 'owner-a', 'owner-c']
+      })
+
+      expect(fetchTxsRange).toHaveBeenCalledTimes(1)
+      expect((fetchTxsRange as any).mock.calls[0][3]).toEqual(['owner-a', 'owner-b', 'owner-c'])
+    })
+
+    it('should drop transactions from blocked owners before enqueuing', async () => {
+      const blocked = { ...mockTxMeta, id: 'blocked-tx', owner: { address: 'spam-owner' } }
+      const allowed = { ...mockTxMeta, id: 'allowed-tx' }
+      ;(getBlockedOwnerSet as any).mockResolvedValueOnce(new Set(['spam-owner']))
+      ;(fetchTxsRange as any).mockResolvedValue({ txs: [blocked, allowed], hasMore: false })
+
+      await initFetchQueue({ media: 'images', recency: 'new' })
+      const queued = await peekNextTransactions({ media: 'images', recency: 'new' }, 1)
+
+      expect(queued.map(tx => tx.id)).toEqual(['allowed-tx'])
+    })
+  })
+
+  describe('ArNS channel', () => {
+    it('should queue resolved ArNS names instead of querying a block window', async () => {
+      const named = { ...mockTxMeta, id: 'arns-tx', arnsName: 'ardrive' }
+      ;(fetchArnsPage as any).mockResolvedValueOnce([]).mockResolvedValueOnce([named])
+
+      const range = await initFetchQueue({ media: 'arns', recency: 'new' })
+      const queued = await peekNextTransactions({ media: 'arns', recency: 'new' }, 1)
+
+      expect(fetchTxsRange).not.toHaveBeenCalled()
+      expect(fetchArnsPage).toHaveBeenCalledTimes(2)
+      expect(range).toEqual({ min: named.block.height, max: named.block.height })
+      expect(queued).toEqual([named])
+    })
+  })
+
+  describe('ArFS channel', () => {
+    it('should enqueue the latest revision of each file', async () => {
+      const stale = { ...mockTxMeta, id: 'stale-revision' }
+      const latest = { ...mockTxMeta, id: 'latest-revision' }
+      ;(fetchTxsRange as any).mockResolvedValue({ txs: [stale], hasMore: false })
+      ;(preferLatestRevisions as any).mockResolvedValueOnce([latest])
+
+      await initFetchQueue({ media: 'arfs', recency: 'old' })
+      const queued = await peekNextTransactions({ media: 'arfs', recency: 'old' }, 1)
+
+      expect(preferLatestRevisions).toHaveBeenCalledWith([stale])
+      expect(queued).toEqual([latest])
+    })
+  })
+
+  describe('ArFS drive scope', () => {
+    it('should queue the scoped files in folder order and loop on refills', async () => {
+      const files = [1, 2, 3].map(n => ({ ...mockTxMeta, id: `file-${n}`, block: { height: 100 + n, timestamp: n } }))
+      const drive = { driveId: 'drive-1', owner: mockTxMeta.owner.address, name: 'Drive' }
+      ;(loadArfsDrive as any).mockResolvedValue(drive)
+      ;(listDriveFiles as any).mockReturnValue(files)
+      const channel: Channel = {
+        media: 'arfs',
+        recency: 'new',
+        arfsScope: { driveId: 'drive-1', owner: mockTxMeta.owner.address, folderId: 'photos', label: 'Drive/Photos' },
+      }
+
+      const range = await initFetchQueue(channel)
+      await initFetchQueue(channel, {}, true)
+      const queued = await peekNextTransactions(channel, 6)
+
+      expect(fetchTxsRange).not.toHaveBeenCalled()
+      expect(preferLatestRevisions).not.toHaveBeenCalled()
+      expect(loadArfsDrive).toHaveBeenCalledWith('drive-1', mockTxMeta.owner.address, expect.any(String))
+      expect(listDriveFiles).toHaveBeenCalledWith(drive, 'photos')
+      expect(range).toEqual({ min: 101, max: 103 })
+      expect(queued.map(tx => tx.id)).toEqual(['file-1', 'file-2', 'file-3', 'file-1', 'file-2', 'file-3'])
+    })
+  })
+
+  describe('bundle scope', () => {
+    it('should append bundle pages on refills in bundle order', async () => {
+      const channel: Channel = { media: 'everything', recency: 'new', bundleScope: { bundleId: 'bundle', label: 'Bundle' } }
+      const items = ['a', 'b', 'c'].map(id => ({ ...mockTxMeta, id: `item-${id}` }))
+      ;(fetchBundlePage as any)
+        .mockResolvedValueOnce([items[0]])
+        .mockResolvedValueOnce([items[1], items[2]])
+
+      await initFetchQueue(channel)
+      await initFetchQueue(channel, {}, true)
+      const queued = await peekNextTransactions(channel, 3)
+
+      expect(fetchTxsRange).not.toHaveBeenCalled()
+      expect(fetchBundlePage).toHaveBeenCalledTimes(2)
+      expect(queued.map(tx => tx.id)).toEqual(['item-a', 'item-b', 'item-c'])
+    })
+  })
+
+  describe('peekNextTransactions', () => {
+    it('should skip excluded items and refill when too few are left', async () => {
+      const channel: Channel = { media: 'images', recency: 'old' }
+      const page = (prefix: string) => [1, 2, 3].map(n => ({ ...mockTxMeta, id: `${prefix}-${n}` }))
+      ;(fetchTxsRange as any)
+        .mockResolvedValueOnce({ txs: page('first'), hasMore: true })
+        .mockResolvedValueOnce({ txs: page('second'), hasMore: true })
+
+      await initFetchQueue(channel)
+      const firstPage = await peekNextTransactions(channel, 2)
+      const shown = new Set(firstPage.map(tx => tx.id))
+      const secondPage = await peekNextTransactions(channel, 3, shown)
+
+      expect(firstPage).toHaveLength(2)
+      expect(secondPage).toHaveLength(3)
+      expect(fetchTxsRange).toHaveBeenCalledTimes(2)
+      expect(secondPage.every(tx => !shown.has(tx.id))).toBe(true)
+    })
+  })
+
   describe('clearSeenIds', () => {
     it('should clear the seen IDs set', () => {
       // This is a simple function that clears internal state
@@ -11,8 +11,13 @@
  * 
  * Content Discovery Strategy:
  * - Maintains background transaction queue with smart prefetching
- * - Filters by content type using GraphQL tag queries
- * - Handles ArFS metadata fetching for file references
+ * - Filters by content type and any channel tag filters using GraphQL tag queries
+ * - Follows any number of owners and drops uploads from locally blocked owners
+ * - Handles ArFS metadata fetching for file references, preferring each file's latest revision
+ * - Favorites channel replays the locally saved set instead of querying
+ * - ArNS channel pages through registered names and their target txs
+ * - ArFS drive scope plays a drive's or folder's files in folder order
+ * - Bundle scope pages through the data items of one ANS-104 bundle
  * - 404-resistant design with automatic content skipping
  * 
  * Performance Features:
@@ -23,11 +28,18 @@
  */
 import { fetchTxsRange, getCurrentBlockHeight, INITIAL_PAGE_LIMIT, REFILL_PAGE_LIMIT } from "./query";
 import { logger } from "../utils/logger";
+import { listFavorites } from "./favorites";
+import { fetchArnsPage } from "./arns";
+import { loadArfsDrive, listDriveFiles } from "./arfsDrive";
+import { loadArfsMeta, preferLatestRevisions } from "./arfsRevisions";
+import { fetchBundlePage } from "./bundles";
+import { getBlockedOwnerSet } from "./blocklist";
 import { learnFromBlockRange } from "../utils/dateBlockUtils";
 import { get as idbGet, set as idbSet } from "idb-keyval";
 import {
   type TxMeta,
   type Channel,
+  type TagFilter,
   MIN_OLD_BLOCK,
   MAX_RETRY_ATTEMPTS,
   WINDOW_SIZE,
@@ -195,6 +207,41 @@ async function pickOldWindow(): Promise<{ min: number; max: number }> {
   return { min, max };
 }
 
+/**
+ * Owners followed by a channel: the single owner filter plus any roster,
+ * de-duplicated. Undefined when the channel is not owner-filtered.
+ */
+function getChannelOwners(channel: Channel): string[] | undefined {
+  const owners = Array.from(
+    new Set([channel.ownerAddress, ...(channel.ownerAddresses ?? [])].filter((o): o is string => !!o))
+  );
+  return owners.length > 0 ? owners : undefined;
+}
+
+/** Load blocked owners, treating storage failures as an empty blocklist */
+async function loadBlockedOwners(): Promise<Set<string>> {
+  try {
+    return await getBlockedOwnerSet();
+  } catch (err) {
+    logger.warn("Failed to load blocked owners", err);
+    return new Set();
+  }
+}
+
+/**
+ * Drop queued transactions from an owner, e.g. right after blocking them
+ */
+export async function removeOwnerFromQueue(address: string): Promise<void> {
+  await queueMutex.acquire();
+  try {
+    const before = queue.length;
+    queue = queue.filter((tx) => tx.owner.address !== address);
+    logger.debug(`Removed ${before - queue.length} queued txs from ${address}`);
+  } finally {
+    queueMutex.release();
+  }
+}
+
 /**
  * Fetch transactions in a given block window with progressive pagination
  * @param isRefill - Whether this is a background refill (uses smaller page limit)
@@ -203,12 +250,13 @@ async function fetchWindow(
   media: Channel["media"],
   min: number,
   max: number,
-  owner?: string,
+  owners?: string[],
   appName?: string,
-  isRefill: boolean = false
+  isRefill: boolean = false,
+  tagFilters?: TagFilter[]
 ): Promise<TxMeta[]> {
   const pageLimit = isRefill ? REFILL_PAGE_LIMIT : INITIAL_PAGE_LIMIT;
-  const result = await fetchTxsRange(media, min, max, owner, appName, pageLimit, isRefill);
+  const result = await fetchTxsRange(media, min, max, owners, appName, pageLimit, isRefill, tagFilters);
   
   if (result.hasMore && !isRefill) {
     logger.debug(`Fetched ${result.txs.length} transactions, more available for future refills`);
@@ -264,25 +312,7 @@ export async function getNextTx(channel: Channel): Promise<TxMeta | null> {
 
       try {
         queueMutex.release(); // Release before async operation
-        const response = await fetch(`${GATEWAY_DATA_SOURCE[0]}/${tx.id}`);
-        const metadata = await response.json();
-
-        const {
-          dataTxId,
-          name,
-          size,
-          dataContentType,
-          ...rest
-        } = metadata;
-
-        tx.arfsMeta = {
-          dataTxId,
-          name,
-          size,
-          contentType: dataContentType,
-          customTags: rest,
-        };
-
+        tx.arfsMeta = await loadArfsMeta(tx, GATEWAY_DATA_SOURCE[0]);
       } catch (err) {
         logger.warn(`Failed to load ArFS metadata for ${tx.id}`, err);
         return getNextTx(channel); // try next tx
@@ -308,14 +338,21 @@ export function clearSeenIds(): void {
 }
 
 /**
- * Peek at next few transactions without consuming them for preloading
+ * Peek at next few transactions without consuming them, for preloading or a
+ * gallery page. Transactions in `exclude`, e.g. tiles already shown, are
+ * skipped; a queue with too few others is refilled first.
  */
-export async function peekNextTransactions(channel: Channel, count: number = 3): Promise<TxMeta[]> {
+export async function peekNextTransactions(
+  channel: Channel,
+  count: number = 3,
+  exclude: ReadonlySet<string> = new Set()
+): Promise<TxMeta[]> {
+  const available = () => queue.filter((tx) => !exclude.has(tx.id));
   await queueMutex.acquire();
   
   try {
     // If queue is too small, refill first
-    if (queue.length < count) {
+    if (available().length < count) {
       logger.debug(`Queue has ${queue.length} items, refilling for peek`);
       queueMutex.release(); // Release before async operation
       await initFetchQueue(channel);
@@ -323,7 +360,7 @@ export async function peekNextTransactions(channel: Channel, count: number = 3):
     }
     
     // Return copy of next items without removing them
-    return queue.slice(0, count);
+    return available().slice(0, count);
   } finally {
     queueMutex.release();
   }
@@ -337,6 +374,7 @@ export async function initFetchQueue(
     maxBlock?: number;
     ownerAddress?: string;
     appName?: string;
+    tagFilters?: TagFilter[];
   } = {},
   isRefill: boolean = false
 ): Promise<{ min: number; max: number }> {
@@ -350,16 +388,69 @@ export async function initFetchQueue(
   let txs: TxMeta[] = [];
   let min = 0;
   let max = 0;
+  const isFavorites = channel.media === "favorites";
+  const isArns = channel.media === "arns";
+  const driveScope = channel.arfsScope;
+  const bundleScope = channel.bundleScope;
+  const tagFilters = options.tagFilters ?? channel.tagFilters;
+  const channelOwners = getChannelOwners(channel);
+
+  // —— 0) Favorites channel: play back the locally saved set ——
+  if (isFavorites) {
+    txs = (await listFavorites()).map((entry) => entry.tx);
+    if (txs.length > 0) {
+      const heights = txs.map((tx) => tx.block.height);
+      min = Math.min(...heights);
+      max = Math.max(...heights);
+    }
+    logger.info(`Favorites channel with ${txs.length} saved txs`);
+
+    // —— 0b) ArNS channel: next page of registered names ——
+  } else if (isArns) {
+    for (let i = 0; i < MAX_RETRY_ATTEMPTS && txs.length === 0; i++) {
+      txs = await fetchArnsPage(channel.recency, GATEWAY_DATA_SOURCE[0]);
+    }
+    if (txs.length > 0) {
+      const heights = txs.map((tx) => tx.block.height);
+      min = Math.min(...heights);
+      max = Math.max(...heights);
+    }
+    logger.info(`ArNS channel with ${txs.length} resolved names`);
+
+    // —— 0c) ArFS drive scope: every file of the drive or folder, in order ——
+  } else if (driveScope) {
+    const drive = await loadArfsDrive(driveScope.driveId, driveScope.owner, GATEWAY_DATA_SOURCE[0]);
+    txs = listDriveFiles(drive, driveScope.folderId);
+    if (txs.length > 0) {
+      const heights = txs.map((tx) => tx.block.height);
+      min = Math.min(...heights);
+      max = Math.max(...heights);
+    }
+    logger.info(`ArFS scope "${driveScope.label}" with ${txs.length} files`);
+
+    // —— 0d) Bundle scope: next unseen page of the bundle's data items ——
+  } else if (bundleScope) {
+    for (let i = 0; i < MAX_RETRY_ATTEMPTS && !txs.some((tx) => !seenIds.has(tx.id)); i++) {
+      const page = await fetchBundlePage(bundleScope);
+      if (page.length === 0) break;
+      txs = page;
+    }
+    if (txs.length > 0) {
+      const heights = txs.map((tx) => tx.block.height);
+      min = Math.min(...heights);
+      max = Math.max(...heights);
+    }
+    logger.info(`Bundle scope "${bundleScope.label}" with ${txs.length} items`);
 
-  // —— 1a) Deep-link by txId + explicit range ——
-  if (
+    // —— 1a) Deep-link by txId + explicit range ——
+  } else if (
     options.initialTx &&
     options.minBlock != null &&
     options.maxBlock != null
   ) {
     // Don't mark initialTx as seen - let user view it first
     const { minBlock: rangeMin, maxBlock: rangeMax, ownerAddress, appName } = options;
-    const owner = ownerAddress ?? channel.ownerAddress;
+    const owners = ownerAddress ? [ownerAddress] : channelOwners;
     const appNameToUse = appName ?? channel.appName;
 
     logger.info(`Deep-link by ID+range; subset within ${rangeMin}-${rangeMax}`);
@@ -375,13 +466,13 @@ export async function initFetchQueue(
         max = start + WINDOW_SIZE - 1;
       }
       logger.debug(`Attempt ${i + 1}/${MAX_RETRY_ATTEMPTS} → ${min}-${max}`);
-      txs = await fetchWindow(channel.media, min, max, owner, appNameToUse, isRefill);
+      txs = await fetchWindow(channel.media, min, max, owners, appNameToUse, isRefill, tagFilters);
     }
 
     // —— 1b) Deep-link by txId only ——
   } else if (options.initialTx) {
     // Don't mark initialTx as seen - let user view it first
-    const owner = options.ownerAddress ?? options.initialTx.owner.address;
+    const owners = [options.ownerAddress ?? options.initialTx.owner.address];
     const appNameToUse = options.appName;
     logger.info(`Deep-link by ID only; bucket-mode fallback`);
     for (let i = 0; i < MAX_RETRY_ATTEMPTS && txs.length === 0; i++) {
@@ -395,13 +486,13 @@ export async function initFetchQueue(
         max = w.max;
       }
       logger.debug(`Attempt ${i + 1}/${MAX_RETRY_ATTEMPTS} → ${min}-${max}`);
-      txs = await fetchWindow(channel.media, min, max, owner, appNameToUse, isRefill);
+      txs = await fetchWindow(channel.media, min, max, owners, appNameToUse, isRefill, tagFilters);
     }
 
     // —— 2) Deep-link by explicit range only ——
   } else if (options.minBlock != null && options.maxBlock != null) {
     const { minBlock: rangeMin, maxBlock: rangeMax, ownerAddress, appName } = options;
-    const owner = ownerAddress ?? channel.ownerAddress;
+    const owners = ownerAddress ? [ownerAddress] : channelOwners;
     const appNameToUse = appName ?? channel.appName;
 
     logger.info(`Deep-link by range only ${rangeMin}-${rangeMax}`);
@@ -417,7 +508,7 @@ export async function initFetchQueue(
         max = start + (WINDOW_SIZE * i) - 1; // increase window size for each attempt
       }
       logger.info(`Attempt ${i + 1}/${MAX_RETRY_ATTEMPTS} → ${min}-${max}`);
-      txs = await fetchWindow(channel.media, min, max, owner, appNameToUse, isRefill);
+      txs = await fetchWindow(channel.media, min, max, owners, appNameToUse, isRefill, tagFilters);
     }
 
     // —— 3) Deep-link by owner only (no TX, no range) ——
@@ -425,17 +516,17 @@ export async function initFetchQueue(
     min = 1;
     max = await getCurrentBlockHeight(GATEWAY_DATA_SOURCE[0]);
     logger.info(`Deep-link by owner only; full range ${min}-${max}`);
-    txs = await fetchWindow(channel.media, min, max, options.ownerAddress, options.appName, isRefill);
+    txs = await fetchWindow(channel.media, min, max, [options.ownerAddress], options.appName, isRefill, tagFilters);
 
     // —— 4) No deep-link params: normal bucket mode ——
-  } else if (channel.ownerAddress && !options.ownerAddress) {
-    // only apply this when user manually toggles owner, not on deep-link owner
+  } else if (channelOwners && !options.ownerAddress) {
+    // only apply this when user manually toggles owners, not on deep-link owner
     min = 1;
     max = await getCurrentBlockHeight(GATEWAY_DATA_SOURCE[0]);
     logger.info(
-      `Getting full history for owner ${channel.ownerAddress}: ${min}-${max}`
+      `Getting full history for ${channelOwners.length} owner(s): ${min}-${max}`
     );
-    txs = await fetchWindow(channel.media, min, max, channel.ownerAddress, channel.appName, isRefill);
+    txs = await fetchWindow(channel.media, min, max, channelOwners, channel.appName, isRefill, tagFilters);
   } else {
     logger.info(
       `Bucket-mode (“${channel.recency}”) with up to ${MAX_RETRY_ATTEMPTS} attempts`
@@ -451,34 +542,47 @@ export async function initFetchQueue(
         max = w.max;
       }
       logger.debug(`Attempt ${i + 1}/${MAX_RETRY_ATTEMPTS} → ${min}-${max}`);
-      txs = await fetchWindow(channel.media, min, max, channel.ownerAddress, options.appName, isRefill);
+      txs = await fetchWindow(channel.media, min, max, channelOwners, options.appName, isRefill, tagFilters);
     }
   }
 
-  // —— 6) Dedupe & enqueue ——
-  const newTxs = txs.filter((tx) => !seenIds.has(tx.id));
+  // —— 5) ArFS: windows can hold stale revisions, so enqueue each file's latest ——
+  if (channel.media === "arfs" && !driveScope && !bundleScope && txs.length > 0) {
+    txs = await preferLatestRevisions(txs);
+  }
+
+  // —— 6) Dedupe, drop blocked owners & enqueue ——
+  // Favorites were saved on purpose and a drive is browsed as a whole, so neither is filtered
+  const isLocalSet = isFavorites || !!driveScope;
+  const blockedOwners = isLocalSet ? new Set<string>() : await loadBlockedOwners();
+  const newTxs = isLocalSet
+    ? txs
+    : txs.filter((tx) => !seenIds.has(tx.id) && !blockedOwners.has(tx.owner.address));
   // Don't mark as seen until actually viewed by user
   
-  // Shuffle the transactions for better randomness
+  // Shuffle the transactions for better randomness; drive files and bundle items keep their order
   const shuffled = [...newTxs];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const randomArray = new Uint32Array(1);
-    crypto.getRandomValues(randomArray);
-    const j = Math.floor((randomArray[0] / (0xffffffff + 1)) * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  if (!driveScope && !bundleScope) {
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const randomArray = new Uint32Array(1);
+      crypto.getRandomValues(randomArray);
+      const j = Math.floor((randomArray[0] / (0xffffffff + 1)) * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
   }
   
   // Update queue with mutex protection
   await queueMutex.acquire();
   try {
-    queue = shuffled;
-    logger.info(`Queue loaded with ${queue.length} txs (shuffled)`);
+    // Favorites and drives loop and bundles page on: refills append so the remaining items are not dropped
+    queue = (isLocalSet || bundleScope) && isRefill ? [...queue, ...shuffled] : shuffled;
+    logger.info(`Queue loaded with ${queue.length} txs${driveScope || bundleScope ? "" : " (shuffled)"}`);
   } finally {
     queueMutex.release();
   }
 
   // Learn from this block range for future estimation accuracy
-  if (min > 0 && max > min) {
+  if (!isLocalSet && !isArns && !bundleScope && min > 0 && max > min) {
     learnFromBlockRange(min, max, 0.8);
   }
 
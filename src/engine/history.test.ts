@@ -1,80 +1,278 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { addHistory, goBack, goForward, peekForward, resetHistory } from './history'
+import { addHistory, goBack, goForward, peekForward, resetHistory, jumpToHistoryNode, getHistoryBranches, findHistoryNode } from './history'
 import { mockTxMeta, resetMocks } from '../test/utils'
 
 // Mock idb-keyval
 vi.mock('idb-keyval', () => ({
+  createStore: vi.fn(() => 'history-store'),
   get: vi.fn(),
   set: vi.fn(),
+  setMany: vi.fn(),
+  getMany: vi.fn(),
+  del: vi.fn(),
+  delMany: vi.fn(),
+  clear: vi.fn(),
 }))
 
-import { get, set } from 'idb-keyval'
+import { get, set, setMany, getMany, del, delMany, clear } from 'idb-keyval'
+
+const entry = (txId: string, parentId: string | null, childIds: string[] = [], activeChildId: string | null = childIds[childIds.length - 1] ?? null, lastVisited = 1) => ({
+  txId,
+  parentId,
+  childIds,
+  activeChildId,
+  lastVisited,
+  bytes: 100
+})
+
+const index = (currentId: string | null, entries: Record<string, any>, nextId = Object.keys(entries).length + 1) => ({
+  version: 3,
+  rootId: Object.keys(entries)[0] ?? null,
+  currentId,
+  nextId,
+  totalBytes: Object.keys(entries).length * 100,
+  entries
+})
+
+/**
+ * Serve the history index from the default store, legacy data from the old
+ * key and per-entry TxMeta records from the history store.
+ */
+const mockHistory = (state: any, records: Record<string, any> = {}, legacy?: any) => {
+  ;(get as any).mockImplementation(async (key: string) => {
+    if (key === 'roam-history-index') return state
+    if (key === 'roam-history') return legacy
+    return records[key]
+  })
+  ;(getMany as any).mockImplementation(async (keys: string[]) => keys.map(key => records[key]))
+}
+
+const savedIndex = () => (set as any).mock.calls.find(([key]: any[]) => key === 'roam-history-index')?.[1]
 
 describe('History Engine', () => {
+  const prevTx = { ...mockTxMeta, id: 'prev-tx' }
+  const nextTx = { ...mockTxMeta, id: 'next-tx' }
+
   beforeEach(() => {
     resetMocks()
     vi.clearAllMocks()
   })
 
   describe('resetHistory', () => {
-    it('should reset history to empty state', async () => {
+    it('should clear records and reset the index', async () => {
       await resetHistory()
       
-      expect(set).toHaveBeenCalledWith('roam-history', { index: -1, items: [] })
+      expect(clear).toHaveBeenCalledWith('history-store')
+      expect(set).toHaveBeenCalledWith('roam-history-index', {
+        version: 3,
+        rootId: null,
+        currentId: null,
+        nextId: 1,
+        totalBytes: 0,
+        entries: {}
+      })
     })
   })
 
   describe('addHistory', () => {
-    it('should add transaction to history', async () => {
-      const mockHistory = { index: -1, items: [] }
-      ;(get as any).mockResolvedValue(mockHistory)
+    it('should store the transaction as its own record', async () => {
+      mockHistory(index(null, {}))
 
       await addHistory(mockTxMeta)
 
-      expect(set).toHaveBeenCalledWith('roam-history', {
-        index: 0,
-        items: [mockTxMeta]
+      expect(set).toHaveBeenCalledWith('n1', mockTxMeta, 'history-store')
+      expect(savedIndex()).toEqual({
+        version: 3,
+        rootId: 'n1',
+        currentId: 'n1',
+        nextId: 2,
+        totalBytes: JSON.stringify(mockTxMeta).length,
+        entries: {
+          n1: {
+            txId: mockTxMeta.id,
+            parentId: null,
+            childIds: [],
+            activeChildId: null,
+            lastVisited: expect.any(Number),
+            bytes: JSON.stringify(mockTxMeta).length
+          }
+        }
       })
     })
 
-    it('should truncate forward history when adding new item', async () => {
-      const existingTx = { ...mockTxMeta, id: 'existing-tx' }
-      const mockHistory = { 
-        index: 0, 
-        items: [existingTx, { ...mockTxMeta, id: 'forward-tx' }] 
+    it('should keep forward history as a separate branch when adding new item', async () => {
+      mockHistory(index('n1', {
+        n1: entry(prevTx.id, null, ['n2']),
+        n2: entry(nextTx.id, 'n1')
+      }))
+
+      await addHistory(mockTxMeta)
+
+      const saved = savedIndex()
+      expect(saved.currentId).toBe('n3')
+      expect(saved.entries.n1.childIds).toEqual(['n2', 'n3'])
+      expect(saved.entries.n1.activeChildId).toBe('n3')
+      expect(saved.entries.n2.txId).toBe(nextTx.id)
+      expect(saved.entries.n3.parentId).toBe('n1')
+    })
+
+    it('should skip duplicates of the current item', async () => {
+      mockHistory(index('n1', { n1: entry(mockTxMeta.id, null) }))
+
+      await addHistory(mockTxMeta)
+
+      expect(set).not.toHaveBeenCalled()
+    })
+
+    it('should re-activate an existing branch without writing a record', async () => {
+      mockHistory(index('n1', {
+        n1: entry(prevTx.id, null, ['n2', 'n3']),
+        n2: entry(mockTxMeta.id, 'n1'),
+        n3: entry(nextTx.id, 'n1')
+      }))
+
+      await addHistory(mockTxMeta)
+
+      expect(set).toHaveBeenCalledTimes(1)
+      const saved = savedIndex()
+      expect(saved.currentId).toBe('n2')
+      expect(saved.entries.n1.activeChildId).toBe('n2')
+    })
+  })
+
+  describe('pruning', () => {
+    it('should prune least recently visited entries beyond the entry cap', async () => {
+      const entries: Record<string, any> = { n1: entry('root', null, []) }
+      // Root with 1000 leaf children; n2 is the stalest
+      for (let i = 2; i <= 1001; i++) {
+        entries.n1.childIds.push(`n${i}`)
+        entries[`n${i}`] = entry(`tx-${i}`, 'n1', [], null, i === 2 ? 0 : 10)
       }
-      ;(get as any).mockResolvedValue(mockHistory)
+      entries.n1.activeChildId = 'n1001'
+      mockHistory(index('n1001', entries))
+
+      await addHistory(mockTxMeta)
+
+      expect(delMany).toHaveBeenCalledWith(['n2', 'n3'], 'history-store')
+      const saved = savedIndex()
+      expect(Object.keys(saved.entries)).toHaveLength(1000)
+      expect(saved.entries.n1002.parentId).toBe('n1001')
+    })
+
+    it('should never prune the path to the current entry and reattach orphaned children', async () => {
+      const big = 3 * 1024 * 1024
+      mockHistory({
+        ...index('n4', {
+          n1: entry('a', null, ['n2', 'n3']),
+          n2: { ...entry('b', 'n1', ['n5'], 'n5', 0), bytes: big },
+          n3: { ...entry('c', 'n1', ['n4'], 'n4', 0), bytes: big },
+          n4: entry('d', 'n3'),
+          n5: entry('e', 'n2')
+        }),
+        totalBytes: big * 2 + 300
+      })
+
+      await addHistory(mockTxMeta)
+
+      expect(delMany).toHaveBeenCalledWith(['n2'], 'history-store')
+      const saved = savedIndex()
+      expect(saved.entries.n3).toBeDefined()
+      expect(saved.entries.n5.parentId).toBe('n1')
+      expect(saved.entries.n1.childIds).toEqual(['n5', 'n3'])
+    })
+
+    it('should prune the oldest ancestors of a long linear chain by re-rooting it', async () => {
+      const entries: Record<string, any> = {}
+      // n1 -> n2 -> ... -> n1000, visited in order
+      for (let i = 1; i <= 1000; i++) {
+        entries[`n${i}`] = entry(`tx-${i}`, i === 1 ? null : `n${i - 1}`, i === 1000 ? [] : [`n${i + 1}`], undefined, i)
+      }
+      mockHistory(index('n1000', entries))
+
+      await addHistory(mockTxMeta)
+
+      expect(delMany).toHaveBeenCalledWith(['n1'], 'history-store')
+      const saved = savedIndex()
+      expect(Object.keys(saved.entries)).toHaveLength(1000)
+      expect(saved.rootId).toBe('n2')
+      expect(saved.entries.n2.parentId).toBeNull()
+      expect(saved.currentId).toBe('n1001')
+    })
+  })
+
+  describe('migration', () => {
+    it('should migrate legacy linear history into per-entry records', async () => {
+      mockHistory(undefined, {}, { index: 0, items: [prevTx, nextTx] })
 
       await addHistory(mockTxMeta)
 
-      expect(set).toHaveBeenCalledWith('roam-history', {
-        index: 1,
-        items: [existingTx, mockTxMeta]
+      expect(setMany).toHaveBeenCalledWith([['n1', prevTx], ['n2', nextTx]], 'history-store')
+      expect(del).toHaveBeenCalledWith('roam-history')
+      const saved = (set as any).mock.calls.filter(([key]: any[]) => key === 'roam-history-index').pop()[1]
+      expect(saved.rootId).toBe('n1')
+      expect(saved.entries.n1.childIds).toEqual(['n2', 'n3'])
+      expect(saved.currentId).toBe('n3')
+    })
+
+    it('should migrate the single-blob history tree', async () => {
+      mockHistory(undefined, {}, {
+        version: 2,
+        rootId: 'n1',
+        currentId: 'n2',
+        nextId: 4,
+        nodes: {
+          n1: { id: 'n1', tx: prevTx, parentId: null, childIds: ['n2', 'n3'], activeChildId: 'n2', visitedAt: 5 },
+          n2: { id: 'n2', tx: mockTxMeta, parentId: 'n1', childIds: [], activeChildId: null, visitedAt: 6 },
+          n3: { id: 'n3', tx: nextTx, parentId: 'n1', childIds: [], activeChildId: null, visitedAt: 7 }
+        }
       })
+
+      const result = await goBack()
+
+      expect(result).toBeUndefined() // records are mocked empty, so the parent record is missing
+      expect(setMany).toHaveBeenCalledWith([['n1', prevTx], ['n2', mockTxMeta], ['n3', nextTx]], 'history-store')
+      const saved = savedIndex()
+      expect(saved.currentId).toBe('n2')
+      expect(saved.entries.n1.activeChildId).toBe('n2')
+      expect(saved.entries.n3.lastVisited).toBe(7)
+    })
+
+    it('should not write anything when there is no history at all', async () => {
+      mockHistory(undefined)
+
+      expect(await peekForward()).toBeUndefined()
+      expect(set).not.toHaveBeenCalled()
+      expect(del).not.toHaveBeenCalled()
     })
   })
 
   describe('goBack', () => {
     it('should return previous transaction', async () => {
-      const prevTx = { ...mockTxMeta, id: 'prev-tx' }
-      const mockHistory = { 
-        index: 1, 
-        items: [prevTx, mockTxMeta] 
-      }
-      ;(get as any).mockResolvedValue(mockHistory)
+      mockHistory(index('n2', {
+        n1: entry(prevTx.id, null, ['n2']),
+        n2: entry(mockTxMeta.id, 'n1')
+      }), { n1: prevTx, n2: mockTxMeta })
 
       const result = await goBack()
 
       expect(result).toEqual(prevTx)
-      expect(set).toHaveBeenCalledWith('roam-history', {
-        index: 0,
-        items: [prevTx, mockTxMeta]
-      })
+      expect(savedIndex().currentId).toBe('n1')
+    })
+
+    it('should remember the branch it came from', async () => {
+      mockHistory(index('n2', {
+        n1: entry(prevTx.id, null, ['n2', 'n3'], 'n3'),
+        n2: entry(mockTxMeta.id, 'n1'),
+        n3: entry(nextTx.id, 'n1')
+      }), { n1: prevTx })
+
+      await goBack()
+
+      expect(savedIndex().entries.n1.activeChildId).toBe('n2')
     })
 
     it('should return undefined when at beginning of history', async () => {
-      const mockHistory = { index: 0, items: [mockTxMeta] }
-      ;(get as any).mockResolvedValue(mockHistory)
+      mockHistory(index('n1', { n1: entry(mockTxMeta.id, null) }), { n1: mockTxMeta })
 
       const result = await goBack()
 
@@ -83,26 +281,21 @@ describe('History Engine', () => {
   })
 
   describe('goForward', () => {
-    it('should return next transaction', async () => {
-      const nextTx = { ...mockTxMeta, id: 'next-tx' }
-      const mockHistory = { 
-        index: 0, 
-        items: [mockTxMeta, nextTx] 
-      }
-      ;(get as any).mockResolvedValue(mockHistory)
+    it('should return next transaction on the active branch', async () => {
+      mockHistory(index('n1', {
+        n1: entry(mockTxMeta.id, null, ['n2', 'n3'], 'n3'),
+        n2: entry(prevTx.id, 'n1'),
+        n3: entry(nextTx.id, 'n1')
+      }), { n3: nextTx })
 
       const result = await goForward()
 
       expect(result).toEqual(nextTx)
-      expect(set).toHaveBeenCalledWith('roam-history', {
-        index: 1,
-        items: [mockTxMeta, nextTx]
-      })
+      expect(savedIndex().currentId).toBe('n3')
     })
 
     it('should return undefined when at end of history', async () => {
-      const mockHistory = { index: 0, items: [mockTxMeta] }
-      ;(get as any).mockResolvedValue(mockHistory)
+      mockHistory(index('n1', { n1: entry(mockTxMeta.id, null) }))
 
       const result = await goForward()
 
@@ -112,12 +305,10 @@ describe('History Engine', () => {
 
   describe('peekForward', () => {
     it('should return next transaction without changing index', async () => {
-      const nextTx = { ...mockTxMeta, id: 'next-tx' }
-      const mockHistory = { 
-        index: 0, 
-        items: [mockTxMeta, nextTx] 
-      }
-      ;(get as any).mockResolvedValue(mockHistory)
+      mockHistory(index('n1', {
+        n1: entry(mockTxMeta.id, null, ['n2']),
+        n2: entry(nextTx.id, 'n1')
+      }), { n2: nextTx })
 
       const result = await peekForward()
 
@@ -126,12 +317,63 @@ describe('History Engine', () => {
     })
 
     it('should return undefined when no forward history', async () => {
-      const mockHistory = { index: 0, items: [mockTxMeta] }
-      ;(get as any).mockResolvedValue(mockHistory)
+      mockHistory(index('n1', { n1: entry(mockTxMeta.id, null) }))
 
       const result = await peekForward()
 
       expect(result).toBeUndefined()
     })
   })
+
+  describe('branches', () => {
+    const newPathTx = { ...mockTxMeta, id: 'new-path' }
+    const branched = () => mockHistory(index('n4', {
+      n1: entry(prevTx.id, null, ['n2', 'n4']),
+      n2: entry(mockTxMeta.id, 'n1', ['n3']),
+      n3: entry(nextTx.id, 'n2'),
+      n4: entry(newPathTx.id, 'n1')
+    }), { n1: prevTx, n2: mockTxMeta, n3: nextTx, n4: newPathTx })
+
+    it('should list branch points on the current path', async () => {
+      branched()
+
+      const result = await getHistoryBranches()
+
+      expect(result).toHaveLength(1)
+      expect(result[0].nodeId).toBe('n1')
+      expect(result[0].branches).toEqual([
+        { nodeId: 'n2', tx: mockTxMeta, length: 2, onCurrentPath: false },
+        { nodeId: 'n4', tx: newPathTx, length: 1, onCurrentPath: true }
+      ])
+    })
+
+    it('should jump to a node on another branch and re-activate its path', async () => {
+      branched()
+
+      const result = await jumpToHistoryNode('n3')
+
+      expect(result).toEqual(nextTx)
+      const saved = savedIndex()
+      expect(saved.currentId).toBe('n3')
+      expect(saved.entries.n1.activeChildId).toBe('n2')
+    })
+
+    it('should find the most recently visited node for a transaction', async () => {
+      mockHistory(index('n3', {
+        n1: entry(mockTxMeta.id, null, ['n2'], 'n2', 5),
+        n2: entry(prevTx.id, 'n1', ['n3'], 'n3', 6),
+        n3: entry(mockTxMeta.id, 'n2', [], null, 7)
+      }))
+
+      expect(await findHistoryNode(mockTxMeta.id)).toBe('n3')
+      expect(await findHistoryNode('never-seen')).toBeUndefined()
+    })
+
+    it('should return undefined for unknown nodes', async () => {
+      branched()
+
+      expect(await jumpToHistoryNode('missing')).toBeUndefined()
+      expect(set).not.toHaveBeenCalled()
+    })
+  })
 })
\ No newline at end of file
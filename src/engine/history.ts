@@ -1,64 +1,327 @@
 // src/engine/history.ts
-import { set, get } from "idb-keyval";
+import { createStore, set, get, setMany, getMany, del, delMany, clear } from "idb-keyval";
 import { logger } from "../utils/logger";
-import { HISTORY_KEY, type HistoryState, type TxMeta } from "../constants";
+import {
+  HISTORY_KEY,
+  HISTORY_INDEX_KEY,
+  HISTORY_DB_NAME,
+  HISTORY_STORE_NAME,
+  HISTORY_MAX_ENTRIES,
+  HISTORY_MAX_BYTES,
+  HISTORY_KEPT_PATH,
+  type HistoryState,
+  type HistoryIndexEntry,
+  type LegacyHistoryState,
+  type LegacyHistoryTree,
+  type TxMeta,
+} from "../constants";
+
+/**
+ * One alternative path leaving a branch point
+ */
+export interface HistoryBranch {
+  nodeId: string;
+  tx: TxMeta;
+  /** Number of visits along the branch, following the active child at each step */
+  length: number;
+  /** Whether the current visit lies on this branch */
+  onCurrentPath: boolean;
+}
+
+/**
+ * A visit on the current path from which more than one branch was taken
+ */
+export interface HistoryBranchPoint {
+  nodeId: string;
+  tx: TxMeta;
+  branches: HistoryBranch[];
+}
+
+/**
+ * One TxMeta record per visit, keyed by node id. Only the compact index
+ * (HISTORY_INDEX_KEY) is rewritten on navigation.
+ */
+const historyStore = createStore(HISTORY_DB_NAME, HISTORY_STORE_NAME);
 
 /**
  * Default empty history
  */
-const defaultState: HistoryState = { index: -1, items: [] };
+const emptyState = (): HistoryState => ({
+  version: 3,
+  rootId: null,
+  currentId: null,
+  nextId: 1,
+  totalBytes: 0,
+  entries: {},
+});
+
+/**
+ * Approximate stored size of a record
+ */
+function estimateBytes(tx: TxMeta): number {
+  return JSON.stringify(tx).length;
+}
 
 /**
  * Resetting the history
  */
 export async function resetHistory(): Promise<void> {
-  const state = { index: -1, items: [] };
-  await set(HISTORY_KEY, state);
+  await clear(historyStore);
+  await set(HISTORY_INDEX_KEY, emptyState());
+}
+
+/**
+ * Persist the history index to IndexedDB
+ */
+async function saveHistory(state: HistoryState): Promise<void> {
+  await set(HISTORY_INDEX_KEY, state);
+}
+
+/**
+ * Create an index entry under parentId (or as the root) and make it the
+ * parent's active child. The caller stores the TxMeta record.
+ */
+function addEntry(state: HistoryState, tx: TxMeta, parentId: string | null): string {
+  const id = `n${state.nextId}`;
+  const bytes = estimateBytes(tx);
+  state.nextId++;
+  state.totalBytes += bytes;
+  state.entries[id] = {
+    txId: tx.id,
+    parentId,
+    childIds: [],
+    activeChildId: null,
+    lastVisited: Date.now(),
+    bytes,
+  };
+
+  const parent = parentId ? state.entries[parentId] : undefined;
+  if (parent) {
+    parent.childIds.push(id);
+    parent.activeChildId = id;
+  } else {
+    state.rootId = id;
+  }
+  return id;
+}
+
+/**
+ * Drop an entry from the index, handing its children to its parent so the
+ * rest of the tree stays reachable.
+ */
+function removeEntry(state: HistoryState, id: string): void {
+  const entry = state.entries[id];
+  if (!entry) return;
+
+  const parent = entry.parentId ? state.entries[entry.parentId] : undefined;
+  for (const childId of entry.childIds) {
+    state.entries[childId].parentId = entry.parentId;
+  }
+  if (parent) {
+    parent.childIds.splice(parent.childIds.indexOf(id), 1, ...entry.childIds);
+    if (parent.activeChildId === id) {
+      parent.activeChildId = entry.activeChildId ?? parent.childIds[parent.childIds.length - 1] ?? null;
+    }
+  }
+
+  state.totalBytes -= entry.bytes;
+  delete state.entries[id];
+}
+
+/**
+ * Drop the root and re-root the tree at its child towards the current visit.
+ * The root's other branches go with it. Returns the removed ids.
+ */
+function removeRoot(state: HistoryState, pathIds: Set<string>): string[] {
+  const removed: string[] = [];
+  const drop = (id: string) => {
+    const entry = state.entries[id];
+    entry.childIds.forEach(drop);
+    state.totalBytes -= entry.bytes;
+    delete state.entries[id];
+    removed.push(id);
+  };
+
+  const root = state.entries[state.rootId!];
+  const nextRootId = root.childIds.find((id) => pathIds.has(id)) ?? null;
+  root.childIds = root.childIds.filter((id) => id !== nextRootId);
+  drop(state.rootId!);
+
+  if (nextRootId) state.entries[nextRootId].parentId = null;
+  state.rootId = nextRootId;
+  return removed;
+}
+
+/**
+ * Ids of the current visit and all of its ancestors
+ */
+function currentPath(state: HistoryState): string[] {
+  const path: string[] = [];
+  for (let id = state.currentId; id && state.entries[id]; id = state.entries[id].parentId) {
+    path.push(id);
+  }
+  return path;
+}
+
+/**
+ * Enforce HISTORY_MAX_ENTRIES / HISTORY_MAX_BYTES by pruning least recently
+ * visited entries. The current visit and its HISTORY_KEPT_PATH nearest
+ * ancestors are never pruned; pruning the root moves it down the current path.
+ * Returns the removed ids so their records can be deleted.
+ */
+function pruneHistory(state: HistoryState): string[] {
+  const withinCaps = () =>
+    Object.keys(state.entries).length <= HISTORY_MAX_ENTRIES && state.totalBytes <= HISTORY_MAX_BYTES;
+  if (withinCaps()) return [];
+
+  const path = currentPath(state);
+  const pathIds = new Set(path);
+  const keep = new Set(path.slice(0, HISTORY_KEPT_PATH + 1));
+
+  const candidates = Object.entries(state.entries)
+    .filter(([id]) => !keep.has(id))
+    .sort(([, a], [, b]) => a.lastVisited - b.lastVisited)
+    .map(([id]) => id);
+
+  const removed: string[] = [];
+  for (const id of candidates) {
+    if (withinCaps()) break;
+    // Already gone with a pruned root's branches
+    if (!state.entries[id]) continue;
+    if (id === state.rootId) {
+      removed.push(...removeRoot(state, pathIds));
+    } else {
+      removeEntry(state, id);
+      removed.push(id);
+    }
+  }
+
+  logger.debug("History pruned", { removed: removed.length, totalBytes: state.totalBytes });
+  return removed;
 }
 
 /**
- * Load history state from IndexedDB, fallback to defaultState.
+ * Move the old single-blob history (linear v1 or tree v2) into per-entry
+ * records, then remove the blob.
+ */
+async function migrateLegacyHistory(): Promise<HistoryState> {
+  const legacy = await get<LegacyHistoryState | LegacyHistoryTree>(HISTORY_KEY);
+  const state = emptyState();
+  if (!legacy) return state;
+
+  const records: [string, TxMeta][] = [];
+
+  if ("items" in legacy && Array.isArray(legacy.items)) {
+    const index = Math.min(Math.max(legacy.index, -1), legacy.items.length - 1);
+    let parentId: string | null = null;
+    legacy.items.forEach((tx, i) => {
+      const id = addEntry(state, tx, parentId);
+      records.push([id, tx]);
+      if (i === index) state.currentId = id;
+      parentId = id;
+    });
+  } else if ("nodes" in legacy && legacy.nodes) {
+    // Walk from the root so parents are always added before their children
+    const walk = (oldId: string, parentId: string | null): string | undefined => {
+      const node = legacy.nodes[oldId];
+      if (!node) return undefined;
+      const id = addEntry(state, node.tx, parentId);
+      state.entries[id].lastVisited = node.visitedAt;
+      records.push([id, node.tx]);
+      if (oldId === legacy.currentId) state.currentId = id;
+
+      const childIds = node.childIds.map((childId) => [childId, walk(childId, id)] as const);
+      const active = childIds.find(([childId]) => childId === node.activeChildId)?.[1];
+      state.entries[id].activeChildId = active ?? null;
+      return id;
+    };
+    if (legacy.rootId) walk(legacy.rootId, null);
+  }
+
+  const removed = pruneHistory(state);
+  const kept = records.filter(([id]) => !removed.includes(id));
+  if (kept.length > 0) {
+    await setMany(kept, historyStore);
+  }
+  await saveHistory(state);
+  await del(HISTORY_KEY);
+  logger.debug("History migrated to entry store", { entries: kept.length });
+  return state;
+}
+
+/**
+ * Load the history index, migrating legacy data on first load.
  */
 async function loadHistory(): Promise<HistoryState> {
-  const stored = await get<HistoryState>(HISTORY_KEY);
-  if (!stored || !Array.isArray(stored.items)) {
-    return { ...defaultState };
+  const stored = await get<HistoryState>(HISTORY_INDEX_KEY);
+  if (!stored || stored.version !== 3 || typeof stored.entries !== "object") {
+    return migrateLegacyHistory();
+  }
+
+  const entries: Record<string, HistoryIndexEntry> = {};
+  for (const [id, entry] of Object.entries(stored.entries)) {
+    entries[id] = { ...entry, childIds: [...entry.childIds] };
   }
-  // Clamp index to valid range
-  const idx = Math.min(Math.max(stored.index, -1), stored.items.length - 1);
-  return { index: idx, items: [...stored.items] };
+  const currentId = stored.currentId && entries[stored.currentId] ? stored.currentId : null;
+  return { ...stored, currentId, entries };
 }
 
 /**
- * Persist history state to IndexedDB
+ * Load the TxMeta record for a visit
  */
-async function saveHistory(state: HistoryState): Promise<void> {
-  await set(HISTORY_KEY, state);
+async function loadEntryTx(id: string): Promise<TxMeta | undefined> {
+  const tx = await get<TxMeta>(id, historyStore);
+  if (!tx) {
+    logger.warn("History record missing", { id });
+  }
+  return tx;
 }
 
 /**
- * Add a new transaction to history, trimming any forward states.
+ * Point every ancestor's active child along the path to nodeId, so that
+ * goForward from any of them retraces the way to this node.
+ */
+function activatePath(state: HistoryState, nodeId: string): void {
+  let childId = nodeId;
+  let parentId = state.entries[nodeId]?.parentId;
+  while (parentId && state.entries[parentId]) {
+    state.entries[parentId].activeChildId = childId;
+    childId = parentId;
+    parentId = state.entries[parentId].parentId;
+  }
+}
+
+/**
+ * Add a new transaction to history as a child of the current visit.
+ * Forward history is kept as a sibling branch instead of being trimmed.
  */
 export async function addHistory(tx: TxMeta): Promise<void> {
   const state = await loadHistory();
-
-  // If we're not at the end, trim forward history
-  let items = state.items;
-  if (state.index < state.items.length - 1) {
-    items = items.slice(0, state.index + 1);
-  }
+  const current = state.currentId ? state.entries[state.currentId] : undefined;
 
   // Only push if it's not a duplicate of current
-  if (items[state.index]?.id === tx.id) {
+  if (current?.txId === tx.id) {
     logger.debug("addHistory: duplicate, skipping", { id: tx.id });
     return;
   }
 
-  items.push(tx);
-  const newIndex = items.length - 1;
-  const newState: HistoryState = { index: newIndex, items };
-  await saveHistory(newState);
-  // logger.debug("History added", { index: newIndex, id: tx.id });
+  // Revisiting an existing branch re-activates it rather than duplicating it
+  const existingId = current?.childIds.find((id) => state.entries[id]?.txId === tx.id);
+  if (existingId && current) {
+    current.activeChildId = existingId;
+    state.entries[existingId].lastVisited = Date.now();
+    state.currentId = existingId;
+  } else {
+    const id = addEntry(state, tx, state.currentId);
+    await set(id, tx, historyStore);
+    state.currentId = id;
+  }
+
+  const removed = pruneHistory(state);
+  if (removed.length > 0) {
+    await delMany(removed, historyStore);
+  }
+  await saveHistory(state);
 }
 
 /**
@@ -66,37 +329,116 @@ export async function addHistory(tx: TxMeta): Promise<void> {
  */
 export async function goBack(): Promise<TxMeta | undefined> {
   const state = await loadHistory();
-  if (state.index <= 0) {
+  const currentId = state.currentId;
+  const parentId = currentId ? state.entries[currentId].parentId : null;
+  if (!currentId || !parentId || !state.entries[parentId]) {
     logger.debug("goBack: at beginning of history");
     return undefined;
   }
-  const newIndex = state.index - 1;
-  const tx = state.items[newIndex];
-  await saveHistory({ ...state, index: newIndex });
-  logger.debug("History goBack", { newIndex, id: tx.id });
+  const tx = await loadEntryTx(parentId);
+  if (!tx) return undefined;
+
+  // Remember which branch we came from so goForward returns to it
+  state.entries[parentId].activeChildId = currentId;
+  state.entries[parentId].lastVisited = Date.now();
+  state.currentId = parentId;
+  await saveHistory(state);
+  logger.debug("History goBack", { nodeId: parentId, id: tx.id });
   return tx;
 }
 
 /**
- * Move forward one step in history, return the next TxMeta or undefined.
+ * Move forward one step along the active branch, return the next TxMeta or undefined.
  */
 export async function goForward(): Promise<TxMeta | undefined> {
   const state = await loadHistory();
-  if (state.index >= state.items.length - 1) {
+  const nextId = state.currentId ? state.entries[state.currentId].activeChildId : null;
+  if (!nextId || !state.entries[nextId]) {
     logger.debug("goForward: at end of history");
     return undefined;
   }
-  const newIndex = state.index + 1;
-  const tx = state.items[newIndex];
-  await saveHistory({ ...state, index: newIndex });
-  logger.debug("History goForward", { newIndex, id: tx.id });
+  const tx = await loadEntryTx(nextId);
+  if (!tx) return undefined;
+
+  state.entries[nextId].lastVisited = Date.now();
+  state.currentId = nextId;
+  await saveHistory(state);
+  logger.debug("History goForward", { nodeId: nextId, id: tx.id });
   return tx;
 }
 
 export async function peekForward(): Promise<TxMeta | undefined> {
   const state = await loadHistory();
-  if (state.index < state.items.length - 1) {
-    return state.items[state.index + 1];
+  const nextId = state.currentId ? state.entries[state.currentId].activeChildId : null;
+  return nextId && state.entries[nextId] ? loadEntryTx(nextId) : undefined;
+}
+
+/**
+ * Make nodeId the current visit, switching to its branch. Returns its TxMeta.
+ */
+export async function jumpToHistoryNode(nodeId: string): Promise<TxMeta | undefined> {
+  const state = await loadHistory();
+  if (!state.entries[nodeId]) {
+    logger.debug("jumpToHistoryNode: unknown node", { nodeId });
+    return undefined;
+  }
+  const tx = await loadEntryTx(nodeId);
+  if (!tx) return undefined;
+
+  activatePath(state, nodeId);
+  state.entries[nodeId].lastVisited = Date.now();
+  state.currentId = nodeId;
+  await saveHistory(state);
+  logger.debug("History jump", { nodeId, id: tx.id });
+  return tx;
+}
+
+/**
+ * Find the most recently visited history node for a transaction, if any.
+ */
+export async function findHistoryNode(txId: string): Promise<string | undefined> {
+  const state = await loadHistory();
+  let found: string | undefined;
+  for (const [id, entry] of Object.entries(state.entries)) {
+    if (entry.txId === txId && (!found || entry.lastVisited > state.entries[found].lastVisited)) {
+      found = id;
+    }
   }
-  return undefined;
+  return found;
+}
+
+/**
+ * List the branch points between the root and the current visit (inclusive),
+ * oldest first, with every branch that leaves each of them.
+ */
+export async function getHistoryBranches(): Promise<HistoryBranchPoint[]> {
+  const state = await loadHistory();
+  const path = new Set(currentPath(state));
+
+  const points = [...path].reverse().filter((id) => state.entries[id].childIds.length > 1);
+  if (points.length === 0) return [];
+
+  const ids = points.flatMap((id) => [id, ...state.entries[id].childIds]);
+  const records = await getMany<TxMeta | undefined>(ids, historyStore);
+  const txById = new Map(ids.map((id, i) => [id, records[i]]));
+
+  const branchLength = (startId: string): number => {
+    let length = 0;
+    for (let id: string | null = startId; id && state.entries[id]; id = state.entries[id].activeChildId) {
+      length++;
+    }
+    return length;
+  };
+
+  return points.flatMap((id) => {
+    const tx = txById.get(id);
+    if (!tx) return [];
+    const branches = state.entries[id].childIds.flatMap((childId) => {
+      const childTx = txById.get(childId);
+      return childTx
+        ? [{ nodeId: childId, tx: childTx, length: branchLength(childId), onCurrentPath: path.has(childId) }]
+        : [];
+    });
+    return [{ nodeId: id, tx, branches }];
+  });
 }
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { fetchManifest, resolveManifestTargets } from './manifest'
+import { mockTxMeta } from '../test/utils'
+
+vi.mock('./query', () => ({
+  fetchTxMetasByIds: vi.fn(),
+}))
+
+import { fetchTxMetasByIds } from './query'
+
+const GATEWAY = 'https://arweave.net'
+const TX_A = 'A'.repeat(43)
+const TX_B = 'B'.repeat(43)
+const TX_C = 'C'.repeat(43)
+
+describe('Manifest Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(fetch).mockReset()
+  })
+
+  describe('fetchManifest', () => {
+    it('should fetch the raw manifest JSON', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: async () => ({ manifest: 'arweave/paths', version: '0.1.0', paths: { 'a.txt': { id: TX_A } } })
+      } as Response)
+
+      const manifest = await fetchManifest(TX_A, GATEWAY)
+
+      expect(fetch).toHaveBeenCalledWith(`${GATEWAY}/raw/${TX_A}`)
+      expect(manifest.entries).toEqual([{ path: 'a.txt', id: TX_A }])
+    })
+
+    it('should reject JSON that is not a manifest', async () => {
+      vi.mocked(fetch).mockResolvedValue({ ok: true, json: async () => ({ hello: 'world' }) } as Response)
+      await expect(fetchManifest(TX_A, GATEWAY)).rejects.toThrow('Not an Arweave path manifest')
+    })
+  })
+
+  describe('resolveManifestTargets', () => {
+    it('should resolve targets through GraphQL and probe the rest on the gateway', async () => {
+      const txA = { ...mockTxMeta, id: TX_A, data: { size: 2048 } }
+      vi.mocked(fetchTxMetasByIds).mockResolvedValue([txA])
+      vi.mocked(fetch).mockImplementation(async (input) => {
+        const served = String(input).endsWith(TX_B)
+        return {
+          ok: served,
+          headers: new Headers(served ? { 'content-type': 'text/css', 'content-length': '10' } : {})
+        } as Response
+      })
+
+      const targets = await resolveManifestTargets([TX_A, TX_B, TX_C, 'not-an-id', TX_A], GATEWAY)
+
+      expect(fetchTxMetasByIds).toHaveBeenCalledWith([TX_A, TX_B, TX_C])
+      expect(targets.get(TX_A)).toEqual({ status: 'ok', contentType: 'image/png', size: 2048, tx: txA })
+      expect(targets.get(TX_B)).toEqual({ status: 'ok', contentType: 'text/css', size: 10 })
+      expect(targets.get(TX_C)).toEqual({ status: 'broken' })
+      expect(targets.get('not-an-id')).toEqual({ status: 'broken' })
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should fail when GraphQL is unavailable instead of marking everything broken', async () => {
+      vi.mocked(fetchTxMetasByIds).mockRejectedValue(new Error('All gateways failed'))
+      await expect(resolveManifestTargets([TX_A], GATEWAY)).rejects.toThrow('All gateways failed')
+    })
+  })
+})
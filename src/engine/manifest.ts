@@ -0,0 +1,89 @@
+// src/engine/manifest.ts
+import { fetchTxMetasByIds } from "./query";
+import { logger } from "../utils/logger";
+import { isTxId } from "../utils/arweaveIds";
+import { parseManifest, type ArweaveManifest } from "../utils/arweaveManifest";
+import { MANIFEST_RESOLVE_LIMIT, type TxMeta } from "../constants";
+
+/** GraphQL ids per query when resolving manifest targets */
+const RESOLVE_BATCH_SIZE = 100;
+/** Concurrent gateway probes for targets GraphQL does not know */
+const PROBE_BATCH_SIZE = 20;
+
+/**
+ * What a manifest path points at. Targets missing from GraphQL that the
+ * gateway still serves (e.g. not yet indexed) are "ok" without a tx.
+ */
+export interface ManifestTarget {
+  status: "ok" | "broken";
+  contentType?: string;
+  size?: number;
+  tx?: TxMeta;
+}
+
+/**
+ * Fetch and parse a manifest. The /raw endpoint returns the manifest JSON
+ * itself rather than the index page gateways serve for the tx.
+ */
+export async function fetchManifest(txId: string, gateway: string): Promise<ArweaveManifest> {
+  const response = await fetch(`${gateway}/raw/${txId}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch manifest: HTTP ${response.status}`);
+  }
+  const manifest = parseManifest(await response.json());
+  if (!manifest) {
+    throw new Error("Not an Arweave path manifest");
+  }
+  return manifest;
+}
+
+/** Ask the gateway directly whether it can serve an id GraphQL does not know */
+async function probeTarget(id: string, gateway: string): Promise<ManifestTarget> {
+  try {
+    const response = await fetch(`${gateway}/raw/${id}`, { method: "HEAD" });
+    if (!response.ok) return { status: "broken" };
+    const length = Number(response.headers.get("content-length"));
+    return {
+      status: "ok",
+      contentType: response.headers.get("content-type") ?? undefined,
+      size: Number.isFinite(length) && length > 0 ? length : undefined,
+    };
+  } catch (err) {
+    logger.warn(`Failed to probe manifest target ${id}`, err);
+    return { status: "broken" };
+  }
+}
+
+/**
+ * Resolve the first MANIFEST_RESOLVE_LIMIT distinct target ids to their
+ * size, content type and TxMeta. Malformed ids and ids neither GraphQL nor
+ * the gateway know are broken; ids past the limit are left out of the map.
+ */
+export async function resolveManifestTargets(ids: string[], gateway: string): Promise<Map<string, ManifestTarget>> {
+  const targets = new Map<string, ManifestTarget>();
+  const distinct = Array.from(new Set(ids)).slice(0, MANIFEST_RESOLVE_LIMIT);
+  const valid = distinct.filter((id) => isTxId(id));
+  distinct.filter((id) => !isTxId(id)).forEach((id) => targets.set(id, { status: "broken" }));
+
+  for (let i = 0; i < valid.length; i += RESOLVE_BATCH_SIZE) {
+    const txs = await fetchTxMetasByIds(valid.slice(i, i + RESOLVE_BATCH_SIZE));
+    for (const tx of txs) {
+      targets.set(tx.id, {
+        status: "ok",
+        contentType: tx.tags.find((t) => t.name === "Content-Type")?.value,
+        size: tx.data.size,
+        tx,
+      });
+    }
+  }
+
+  const missing = valid.filter((id) => !targets.has(id));
+  for (let i = 0; i < missing.length; i += PROBE_BATCH_SIZE) {
+    const batch = missing.slice(i, i + PROBE_BATCH_SIZE);
+    const probed = await Promise.all(batch.map((id) => probeTarget(id, gateway)));
+    batch.forEach((id, j) => targets.set(id, probed[j]));
+  }
+  logger.debug(`Resolved ${targets.size} manifest targets, ${missing.length} probed on the gateway`);
+
+  return targets;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { buildActivityHistogram, loadOwnerProfile, profileMediaType, resetOwnerProfiles } from './ownerProfile'
+import { mockTx, mockTxMeta } from '../test/utils'
+
+vi.mock('./query', () => ({
+  fetchOwnerUploads: vi.fn(),
+}))
+
+vi.mock('../utils/dateBlockUtils', () => ({
+  getDateRangeForBlockRange: vi.fn(),
+}))
+
+import { fetchOwnerUploads } from './query'
+import { getDateRangeForBlockRange } from '../utils/dateBlockUtils'
+
+const OWNER = mockTxMeta.owner.address
+
+describe('Owner Profile Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetOwnerProfiles()
+  })
+
+  describe('profileMediaType', () => {
+    it('should map content types to channels', () => {
+      expect(profileMediaType(mockTx({ id: 'a', height: 1, tags: { 'Content-Type': 'image/png' } }))).toBe('images')
+      expect(profileMediaType(mockTx({ id: 'b', height: 1, tags: { 'Content-Type': 'text/html; charset=utf-8' } }))).toBe('websites')
+      expect(profileMediaType(mockTx({ id: 'c', height: 1, tags: { 'Content-Type': 'application/json', 'Entity-Type': 'file' } }))).toBe('arfs')
+      expect(profileMediaType(mockTx({ id: 'd', height: 1, tags: { 'Content-Type': 'application/zip' } }))).toBe('other')
+      expect(profileMediaType(mockTx({ id: 'e', height: 1 }))).toBe('other')
+    })
+  })
+
+  describe('buildActivityHistogram', () => {
+    it('should spread uploads over equal block-height buckets', () => {
+      const uploads = [100, 101, 150, 199].map((h, i) => mockTx({ id: `${i}`, height: h }))
+
+      expect(buildActivityHistogram(uploads, 2)).toEqual([
+        { minHeight: 100, maxHeight: 149, count: 2 },
+        { minHeight: 150, maxHeight: 199, count: 2 },
+      ])
+      expect(buildActivityHistogram([mockTx({ id: 'a', height: 5 })], 4)).toEqual([{ minHeight: 5, maxHeight: 5, count: 1 }])
+      expect(buildActivityHistogram([])).toEqual([])
+    })
+  })
+
+  describe('loadOwnerProfile', () => {
+    it('should summarize every upload of a small history', async () => {
+      vi.mocked(fetchOwnerUploads).mockResolvedValueOnce({
+        txs: [
+          mockTx({ id: 'c', height: 300, tags: { 'Content-Type': 'image/png', 'App-Name': 'ArDrive-App' } }),
+          mockTx({ id: 'b', height: 200, tags: { 'Content-Type': 'image/jpeg', 'App-Name': 'ArDrive-App' } }),
+          mockTx({ id: 'a', height: 100, tags: { 'Content-Type': 'video/mp4', 'App-Name': 'Roam' } }),
+        ],
+        hasMore: false,
+      })
+      const dates = { startDate: new Date(1000), endDate: new Date(2000) }
+      vi.mocked(getDateRangeForBlockRange).mockResolvedValueOnce(dates)
+
+      const profile = await loadOwnerProfile(OWNER)
+      await loadOwnerProfile(OWNER)
+
+      expect(fetchOwnerUploads).toHaveBeenCalledTimes(1)
+      expect(getDateRangeForBlockRange).toHaveBeenCalledWith(100, 300)
+      expect(profile).toMatchObject({
+        complete: true,
+        firstHeight: 100,
+        lastHeight: 300,
+        dates,
+        byMedia: [{ media: 'images', count: 2 }, { media: 'videos', count: 1 }],
+        topAppNames: [{ appName: 'ArDrive-App', count: 2 }, { appName: 'Roam', count: 1 }],
+      })
+    })
+
+    it('should look up the first upload when the history is longer than the sample', async () => {
+      vi.mocked(fetchOwnerUploads).mockImplementation(async (_owner, after, options) => {
+        if (options?.oldestFirst) return { txs: [mockTx({ id: 'first', height: 10 })], hasMore: true }
+        return { txs: [mockTx({ id: `page-${after}`, height: 500 })], hasMore: true, cursor: `${after}+` }
+      })
+
+      const profile = await loadOwnerProfile(OWNER)
+
+      expect(profile.complete).toBe(false)
+      expect(profile.uploads).toHaveLength(5)
+      expect(profile.firstHeight).toBe(10)
+      expect(fetchOwnerUploads).toHaveBeenLastCalledWith(OWNER, null, { oldestFirst: true, first: 1 })
+    })
+  })
+})
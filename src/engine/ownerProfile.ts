@@ -0,0 +1,130 @@
+// src/engine/ownerProfile.ts
+import { fetchOwnerUploads } from "./query";
+import { logger } from "../utils/logger";
+import { memoizeAsync } from "../utils/memoizeAsync";
+import { getDateRangeForBlockRange } from "../utils/dateBlockUtils";
+import {
+  CONTENT_TYPES,
+  OWNER_HISTOGRAM_BUCKETS,
+  OWNER_PROFILE_MAX_PAGES,
+  type MediaType,
+  type TxMeta,
+} from "../constants";
+
+/** Channels an upload can be counted under; "other" covers every type no channel plays */
+export type ProfileMediaType = Extract<MediaType, "images" | "videos" | "music" | "websites" | "text" | "code" | "arfs"> | "other";
+
+const PROFILE_MEDIA_TYPES: Exclude<ProfileMediaType, "arfs" | "other">[] = [
+  "images",
+  "videos",
+  "music",
+  "websites",
+  "text",
+  "code",
+];
+
+export interface HistogramBucket {
+  minHeight: number;
+  maxHeight: number;
+  count: number;
+}
+
+export interface OwnerProfile {
+  owner: string;
+  /** Most recent uploads, newest first */
+  uploads: TxMeta[];
+  /** False when the owner has more uploads than OWNER_PROFILE_MAX_PAGES hold */
+  complete: boolean;
+  firstHeight: number | null;
+  lastHeight: number | null;
+  /** Dates of the first and last upload, from the blocks they were mined in */
+  dates: { startDate: Date; endDate: Date } | null;
+  byMedia: { media: ProfileMediaType; count: number }[];
+  topAppNames: { appName: string; count: number }[];
+  histogram: HistogramBucket[];
+}
+
+const tagValue = (tx: TxMeta, name: string) => tx.tags.find((t) => t.name === name)?.value;
+
+/** Channel an upload belongs to; ArFS entities count as ArFS whatever their data */
+export function profileMediaType(tx: TxMeta): ProfileMediaType {
+  if (tagValue(tx, "Entity-Type")) return "arfs";
+  const contentType = tagValue(tx, "Content-Type")?.split(";")[0].trim().toLowerCase() ?? "";
+  return PROFILE_MEDIA_TYPES.find((media) => CONTENT_TYPES[media].includes(contentType)) ?? "other";
+}
+
+/** Tally values and return them most common first */
+function rank<T>(values: T[]): { value: T; count: number }[] {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+}
+
+/** Upload counts in equal block-height buckets between the lowest and highest upload */
+export function buildActivityHistogram(uploads: TxMeta[], buckets = OWNER_HISTOGRAM_BUCKETS): HistogramBucket[] {
+  if (uploads.length === 0) return [];
+  const heights = uploads.map((tx) => tx.block.height);
+  const min = Math.min(...heights);
+  const max = Math.max(...heights);
+  const size = Math.max(1, Math.ceil((max - min + 1) / buckets));
+  const count = Math.ceil((max - min + 1) / size);
+
+  const histogram = Array.from({ length: count }, (_, i) => ({
+    minHeight: min + i * size,
+    maxHeight: Math.min(max, min + (i + 1) * size - 1),
+    count: 0,
+  }));
+  heights.forEach((height) => histogram[Math.floor((height - min) / size)].count++);
+  return histogram;
+}
+
+async function buildProfile(owner: string): Promise<OwnerProfile> {
+  const uploads: TxMeta[] = [];
+  let cursor: string | null = null;
+  let complete = false;
+  for (let page = 0; page < OWNER_PROFILE_MAX_PAGES; page++) {
+    const result = await fetchOwnerUploads(owner, cursor);
+    uploads.push(...result.txs);
+    if (!result.hasMore || !result.cursor) {
+      complete = true;
+      break;
+    }
+    cursor = result.cursor;
+  }
+
+  // Past the sampled pages the first upload is older than anything loaded
+  const first = complete
+    ? uploads[uploads.length - 1]
+    : (await fetchOwnerUploads(owner, null, { oldestFirst: true, first: 1 })).txs[0];
+  const firstHeight = first?.block.height ?? null;
+  const lastHeight = uploads[0]?.block.height ?? null;
+  const dates = firstHeight !== null && lastHeight !== null
+    ? await getDateRangeForBlockRange(firstHeight, lastHeight)
+    : null;
+
+  logger.info(`Loaded profile for ${owner}: ${uploads.length}${complete ? "" : "+"} uploads`);
+  return {
+    owner,
+    uploads,
+    complete,
+    firstHeight,
+    lastHeight,
+    dates,
+    byMedia: rank(uploads.map(profileMediaType)).map(({ value, count }) => ({ media: value, count })),
+    topAppNames: rank(uploads.map((tx) => tagValue(tx, "App-Name")).filter((name): name is string => !!name))
+      .slice(0, 5)
+      .map(({ value, count }) => ({ appName: value, count })),
+    histogram: buildActivityHistogram(uploads),
+  };
+}
+
+/**
+ * Upload stats for an owner from their most recent uploads, built once per
+ * owner however often their profile is reopened from a transaction.
+ */
+export const loadOwnerProfile = memoizeAsync(buildProfile);
+
+/** Drop cached profiles (tests) */
+export function resetOwnerProfiles(): void {
+  loadOwnerProfile.clear();
+}
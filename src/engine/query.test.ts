@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { getCurrentBlockHeight, fetchTxMetaById, fetchTxsRange } from './query'
+import { getCurrentBlockHeight, fetchTxMetaById, fetchTxMetasByIds, fetchTxsRange } from './query'
 import { mockFetchResponse, resetMocks } from '../test/utils'
 
+const OWNER_A = 'w5AtiFsNvORfcRtikbdrp2tzqixb05vdPw-ZhgVkD70'
+const OWNER_B = 'NVkSolD-1AJcJ0BMfEASJjIuak3Y6CvDJZ4XOIUbU9g'
+
 describe('Query Engine', () => {
   beforeEach(() => {
     resetMocks()
@@ -58,6 +61,10 @@ describe('Query Engine', () => {
       const result = await fetchTxMetaById('test-tx-id')
       
       expect(result).toEqual(mockTx)
+      // The id travels as a variable, never in the query text
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body)
+      expect(body.query).not.toContain('test-tx-id')
+      expect(body.variables.id).toEqual(['test-tx-id'])
     })
 
     it('should throw error when transaction not found', async () => {
@@ -85,6 +92,14 @@ describe('Query Engine', () => {
     }, { timeout: 10000 })
   })
 
+  describe('fetchTxMetasByIds', () => {
+    it('should not query without ids', async () => {
+      global.fetch = vi.fn()
+      expect(await fetchTxMetasByIds([])).toEqual([])
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+  })
+
   describe('fetchTxsRange', () => {
     it('should fetch transactions with progressive pagination', async () => {
       const mockTx1 = {
@@ -185,5 +200,96 @@ describe('Query Engine', () => {
       expect(result.txs).toHaveLength(1)
       expect(result.txs[0].id).toBe('tx-refill')
     })
+
+    it('should send channel tag filters as GraphQL variables', async () => {
+      const mockGraphQLResponse = {
+        data: { transactions: { edges: [], pageInfo: { hasNextPage: false } } }
+      }
+      global.fetch = vi.fn().mockResolvedValue(mockFetchResponse(mockGraphQLResponse))
+
+      await fetchTxsRange('images', 1000000, 1000010, undefined, 'TestApp', 1, false, [
+        { name: 'Type', values: ['meme'] },
+        { name: 'Topic', values: ['*'] }
+      ])
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body)
+      expect(body.query).toContain('tags: $tags')
+      expect(body.query).not.toContain('TestApp')
+      expect(body.variables.tags).toEqual([
+        { name: 'Content-Type', values: expect.arrayContaining(['image/png']) },
+        { name: 'App-Name', values: ['TestApp'] },
+        { name: 'Type', values: ['meme'] },
+        { name: 'Topic', values: ['*'], match: 'WILDCARD' }
+      ])
+    })
+
+    it('should OR multiple owners in a single query', async () => {
+      const mockGraphQLResponse = {
+        data: { transactions: { edges: [], pageInfo: { hasNextPage: false } } }
+      }
+      global.fetch = vi.fn().mockResolvedValue(mockFetchResponse(mockGraphQLResponse))
+
+      await fetchTxsRange('images', 1000000, 1000010, [OWNER_A, OWNER_B], undefined, 1, false)
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body)
+      expect(body.query).toContain('owners: $owners')
+      expect(body.variables.owners).toEqual([OWNER_A, OWNER_B])
+    })
+  })
+
+  describe('query injection', () => {
+    const emptyResponse = {
+      data: { transactions: { edges: [], pageInfo: { hasNextPage: false } } }
+    }
+
+    const sentBody = () => JSON.parse((global.fetch as any).mock.calls[0][1].body)
+
+    beforeEach(() => {
+      global.fetch = vi.fn().mockResolvedValue(mockFetchResponse(emptyResponse))
+    })
+
+    it('should send the same query text whatever the filter values are', async () => {
+      await fetchTxsRange('images', 1000000, 1000010, [OWNER_A], undefined, 1, false)
+      const plain = sentBody().query
+
+      ;(global.fetch as any).mockClear()
+      await fetchTxsRange('images', 1000000, 1000010, [OWNER_B], 'Other"App', 1, false, [
+        { name: 'Type', values: ['meme'] }
+      ])
+
+      expect(sentBody().query).toBe(plain)
+    })
+
+    it('should keep a crafted appName inside the variables', async () => {
+      const crafted = 'x"] }) { edges { node { id } } } transactions(tags: [{ name: "a", values: ["'
+
+      await fetchTxsRange('images', 1000000, 1000010, undefined, crafted, 1, false)
+
+      const body = sentBody()
+      expect(body.query).not.toContain(crafted)
+      expect(body.query).not.toContain('edges { node { id } } }')
+      expect(body.variables.tags).toContainEqual({ name: 'App-Name', values: [crafted] })
+    })
+
+    it('should keep crafted tag filter names and values inside the variables', async () => {
+      const crafted = { name: 'Type") { id } #', values: ['"]}, owners: ["attacker'] }
+
+      await fetchTxsRange('images', 1000000, 1000010, undefined, undefined, 1, false, [crafted])
+
+      const body = sentBody()
+      expect(body.query).not.toContain('attacker')
+      expect(body.query).not.toContain('Type")')
+      expect(body.variables.tags).toContainEqual(crafted)
+      expect(body.variables).not.toHaveProperty('owners')
+    })
+
+    it('should reject owners that are not Arweave addresses', async () => {
+      const crafted = `${OWNER_A}"], tags: [] #`
+
+      await expect(
+        fetchTxsRange('images', 1000000, 1000010, [OWNER_A, crafted], undefined, 1, false)
+      ).rejects.toThrow('Invalid owner address')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
   })
 })
\ No newline at end of file
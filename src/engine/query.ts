@@ -1,5 +1,7 @@
 import { logger } from "../utils/logger";
-import { CONTENT_TYPES, APP_OWNERS, type MediaType, type TxMeta } from "../constants";
+import { CONTENT_TYPES, APP_OWNERS, type MediaType, type TagFilter, type TxMeta } from "../constants";
+import { tagFiltersKey, toGraphQLTagFilter } from "../utils/tagFilters";
+import { isArweaveAddress } from "../utils/arweaveIds";
 
 // --------------------------------------------------------------------------
 // Configuration & Constants
@@ -42,7 +44,7 @@ interface StoredCursor {
   media: string;
   minHeight: number;
   maxHeight: number;
-  owner?: string;
+  owners?: string[];
   appName?: string;
   timestamp: number;
 }
@@ -67,8 +69,9 @@ function startCursorCleanup() {
 
 startCursorCleanup();
 
-function getCursorKey(media: string, minHeight: number, maxHeight: number, owner?: string, appName?: string): string {
-  return `${media}:${minHeight}-${maxHeight}:${owner || 'none'}:${appName || 'none'}`;
+function getCursorKey(media: string, minHeight: number, maxHeight: number, owners?: string[], appName?: string, tagFilters?: TagFilter[]): string {
+  const ownersKey = owners?.length ? [...owners].sort().join(',') : 'none';
+  return `${media}:${minHeight}-${maxHeight}:${ownersKey}:${appName || 'none'}:${tagFiltersKey(tagFilters) || 'none'}`;
 }
 
 if (GATEWAYS_GRAPHQL.length === 0) {
@@ -99,10 +102,22 @@ export async function getCurrentBlockHeight(gateway: string): Promise<number> {
 // Public API: fetchTxsRange with pagination
 // --------------------------------------------------------------------------
 /**
- * Fetches all TxMeta for `media` between [minHeight, maxHeight], optionally filtering by owner.
+ * Fetches all TxMeta for `media` between [minHeight, maxHeight], optionally filtering by owners.
  * Paginates through all pages using cursors until completion.
  */
 
+/** POST request options for a GraphQL query */
+function graphqlPayload(query: string, variables: Record<string, unknown>) {
+  return {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-roam-client": "roam-mvp",
+    },
+    body: JSON.stringify({ query, variables }),
+  };
+}
+
 async function fetchWithRetry(
   gw: string,
   payload: any,
@@ -161,45 +176,24 @@ async function fetchWithRetry(
 }
 
 /**
- * Progressive pagination GraphQL fetching with cursor storage
- * @param pageLimit - Max number of pages to fetch (null = fetch all)
- * @param isRefill - Whether this is a background refill operation
+ * Static query text for fetchTxsRange. Every caller-supplied value (owners,
+ * App-Name, tag filters, block range, cursor) is passed as a typed variable,
+ * so nothing from a deep link or the UI is ever spliced into the query.
+ * Leaving `owners` out of the variables means "any owner".
  */
-export async function fetchTxsRange(
-  media: MediaType,
-  minHeight: number,
-  maxHeight: number,
-  owner?: string,
-  appName?: string,
-  pageLimit: number | null = null,
-  isRefill: boolean = false
-): Promise<{ txs: TxMeta[], hasMore: boolean, cursor?: string }> {
-  const ct = CONTENT_TYPES[media];
-
-  // Set app-specific owner addresses for content curation
-  if (appName && APP_OWNERS[appName]) {
-    owner = APP_OWNERS[appName];
-  }
-  const ownersArg = owner ? `owners: ["${owner}"],` : "";
-  const appNameArg = appName ? `{ name: "App-Name", values: "${appName}" }` : ""
-  const entityTypeArg = media === 'arfs' ? `{ name: "Entity-Type", values: "file" }` : ""
-
-  const query = `
+const FETCH_TXS_RANGE_QUERY = `
     query FetchTxsRange(
-      $ct: [String!]!,
+      $owners: [String!],
+      $tags: [TagFilter!]!,
       $min: Int!,
       $max: Int!,
       $first: Int!,
       $after: String
     ) {
       transactions(
-        ${ownersArg}
+        owners: $owners
         block: { min: $min, max: $max }
-        tags: [
-          { name: "Content-Type", values: $ct }
-          ${entityTypeArg}
-          ${appNameArg}
-        ]
+        tags: $tags
         sort: HEIGHT_DESC
         first: $first
         after: $after
@@ -223,8 +217,61 @@ export async function fetchTxsRange(
       }
   }`;
 
+/**
+ * Variables for FETCH_TXS_RANGE_QUERY, minus the pagination fields
+ */
+function buildTxsRangeVariables(
+  media: MediaType,
+  minHeight: number,
+  maxHeight: number,
+  owners?: string[],
+  appName?: string,
+  tagFilters: TagFilter[] = []
+) {
+  const tags = [
+    { name: "Content-Type", values: CONTENT_TYPES[media] },
+    ...(media === 'arfs' ? [{ name: "Entity-Type", values: ["file"] }] : []),
+    ...(appName ? [{ name: "App-Name", values: [appName] }] : []),
+    ...tagFilters.map(toGraphQLTagFilter),
+  ];
+
+  return {
+    // Multiple owners are OR'd by the gateway
+    ...(owners?.length ? { owners } : {}),
+    tags,
+    min: minHeight,
+    max: maxHeight,
+  };
+}
+
+/**
+ * Progressive pagination GraphQL fetching with cursor storage
+ * @param pageLimit - Max number of pages to fetch (null = fetch all)
+ * @param isRefill - Whether this is a background refill operation
+ */
+export async function fetchTxsRange(
+  media: MediaType,
+  minHeight: number,
+  maxHeight: number,
+  owners?: string[],
+  appName?: string,
+  pageLimit: number | null = null,
+  isRefill: boolean = false,
+  tagFilters: TagFilter[] = []
+): Promise<{ txs: TxMeta[], hasMore: boolean, cursor?: string }> {
+  // Set app-specific owner addresses for content curation
+  if (appName && APP_OWNERS[appName]) {
+    owners = [APP_OWNERS[appName]];
+  }
+  const invalidOwner = owners?.find((o) => !isArweaveAddress(o));
+  if (invalidOwner !== undefined) {
+    throw new Error(`Invalid owner address: ${invalidOwner}`);
+  }
+
+  const baseVariables = buildTxsRangeVariables(media, minHeight, maxHeight, owners, appName, tagFilters);
+
   // Check for stored cursor if this is a refill
-  const cursorKey = getCursorKey(media, minHeight, maxHeight, owner, appName);
+  const cursorKey = getCursorKey(media, minHeight, maxHeight, owners, appName, tagFilters);
   let startCursor: string | null = null;
   
   if (isRefill) {
@@ -246,20 +293,11 @@ export async function fetchTxsRange(
 
       while (hasNext && (pageLimit === null || pageCount < pageLimit)) {
         const variables = {
-          ct,
-          min: minHeight,
-          max: maxHeight,
+          ...baseVariables,
           first: PAGE_SIZE,
           after,
         };
-        const payload = {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "x-roam-client": "roam-mvp",
-          },
-          body: JSON.stringify({ query, variables }),
-        };
+        const payload = graphqlPayload(FETCH_TXS_RANGE_QUERY, variables);
         
         const data = await fetchWithRetry(gw, payload);
         const edges = data.transactions.edges;
@@ -288,7 +326,7 @@ export async function fetchTxsRange(
           media,
           minHeight,
           maxHeight,
-          owner,
+          owners,
           appName,
           timestamp: Date.now()
         });
@@ -311,41 +349,257 @@ export async function fetchTxsRange(
   throw new Error("All gateways failed – unable to fetchTxsRange");
 }
 
-export async function fetchTxMetaById(txid: string): Promise<TxMeta> {
-  const query = `
-    query FetchTxById($id: [ID!]!) {
-      transactions(ids: $id) {
-        edges {
-          node {
-            id
-            bundledIn { id }
-            owner { address }
-            fee { ar }
-            quantity { ar }
-            tags { name value }
-            data { size }
-            block { height timestamp }
-          }
+/**
+ * Static query text for ArFS entity lookups by tag, newest first; owners,
+ * tags and cursor are variables like everywhere else.
+ */
+const FETCH_ARFS_ENTITIES_QUERY = `
+  query FetchArfsEntities($owners: [String!], $tags: [TagFilter!]!, $first: Int!, $after: String) {
+    transactions(owners: $owners, tags: $tags, sort: HEIGHT_DESC, first: $first, after: $after) {
+      edges {
+        cursor
+        node {
+          id
+          bundledIn { id }
+          owner { address }
+          fee { ar }
+          quantity { ar }
+          tags { name value }
+          data { size }
+          block { height timestamp }
+        }
+      }
+      pageInfo {
+        hasNextPage
+      }
+    }
+  }
+`;
+
+/**
+ * One page of an ArFS drive's drive, folder and file entities, newest first.
+ * Only the drive owner's entities are part of the drive, so the owner is
+ * required; anyone can upload entities claiming the same Drive-Id.
+ */
+export async function fetchDriveEntities(
+  driveId: string,
+  owner: string,
+  after: string | null = null
+): Promise<{ txs: TxMeta[]; hasMore: boolean; cursor?: string }> {
+  if (!isArweaveAddress(owner)) {
+    throw new Error(`Invalid owner address: ${owner}`);
+  }
+
+  const payload = graphqlPayload(FETCH_ARFS_ENTITIES_QUERY, {
+    owners: [owner],
+    tags: [
+      { name: "Drive-Id", values: [driveId] },
+      { name: "Entity-Type", values: ["drive", "folder", "file"] },
+    ],
+    first: PAGE_SIZE,
+    after,
+  });
+
+  for (const rawGw of GATEWAYS_GRAPHQL) {
+    const gw = rawGw.trim();
+    try {
+      const data = await fetchWithRetry(gw, payload);
+      const edges: { cursor: string; node: TxMeta }[] = data.transactions.edges;
+      return {
+        // Pending entities have no block yet and are picked up on a later load
+        txs: edges.map((edge) => edge.node).filter((tx) => tx.block != null),
+        hasMore: data.transactions.pageInfo.hasNextPage,
+        cursor: edges[edges.length - 1]?.cursor,
+      };
+    } catch (err) {
+      logger.warn(`Gateway ${gw} failed for drive ${driveId}:`, err);
+    }
+  }
+
+  throw new Error("All gateways failed – unable to fetch drive entities");
+}
+
+/**
+ * Metadata revisions of up to PAGE_SIZE ArFS files by File-Id, newest first.
+ * Without owners, revisions by anyone are returned and callers must match
+ * them to the file's owner themselves.
+ */
+export async function fetchFileRevisions(fileIds: string[], owners?: string[]): Promise<TxMeta[]> {
+  const ids = Array.from(new Set(fileIds)).slice(0, PAGE_SIZE);
+  if (ids.length === 0) return [];
+  const invalidOwner = owners?.find((o) => !isArweaveAddress(o));
+  if (invalidOwner) {
+    throw new Error(`Invalid owner address: ${invalidOwner}`);
+  }
+
+  const payload = graphqlPayload(FETCH_ARFS_ENTITIES_QUERY, {
+    owners,
+    tags: [
+      { name: "File-Id", values: ids },
+      { name: "Entity-Type", values: ["file"] },
+    ],
+    first: PAGE_SIZE,
+  });
+
+  for (const rawGw of GATEWAYS_GRAPHQL) {
+    const gw = rawGw.trim();
+    try {
+      const data = await fetchWithRetry(gw, payload);
+      const edges: { node: TxMeta }[] = data?.transactions?.edges ?? [];
+      return edges.map((edge) => edge.node).filter((tx) => tx.block != null);
+    } catch (err) {
+      logger.warn(`Gateway ${gw} failed for ${ids.length} file revisions:`, err);
+    }
+  }
+
+  throw new Error("All gateways failed – unable to fetch file revisions");
+}
+
+const FETCH_BUNDLE_ITEMS_QUERY = `
+  query FetchBundleItems($bundledIn: [ID!], $tags: [TagFilter!], $first: Int!, $after: String) {
+    transactions(bundledIn: $bundledIn, tags: $tags, first: $first, after: $after) {
+      edges {
+        cursor
+        node {
+          id
+          bundledIn { id }
+          owner { address }
+          fee { ar }
+          quantity { ar }
+          tags { name value }
+          data { size }
+          block { height timestamp }
         }
       }
+      pageInfo {
+        hasNextPage
+      }
     }
-  `;
+  }
+`;
 
-  const variables = { id: [txid] };
+/**
+ * One page of the data items in an ANS-104 bundle, optionally only those
+ * with one of the given content types.
+ */
+export async function fetchBundleItems(
+  bundleId: string,
+  after: string | null = null,
+  contentTypes: string[] = []
+): Promise<{ txs: TxMeta[]; hasMore: boolean; cursor?: string }> {
+  const variables = {
+    bundledIn: [bundleId],
+    tags: contentTypes.length > 0 ? [{ name: "Content-Type", values: contentTypes }] : [],
+    first: PAGE_SIZE,
+    after,
+  };
+  const payload = graphqlPayload(FETCH_BUNDLE_ITEMS_QUERY, variables);
 
   for (const rawGw of GATEWAYS_GRAPHQL) {
     const gw = rawGw.trim();
-    const payload = {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-roam-client": "roam-mvp",
-      },
-      body: JSON.stringify({ query, variables }),
-    };
+    try {
+      const data = await fetchWithRetry(gw, payload);
+      const edges: { cursor: string; node: TxMeta }[] = data.transactions.edges;
+      return {
+        txs: edges.map((edge) => edge.node).filter((tx) => tx.block != null),
+        hasMore: data.transactions.pageInfo.hasNextPage,
+        cursor: edges[edges.length - 1]?.cursor,
+      };
+    } catch (err) {
+      logger.warn(`Gateway ${gw} failed for bundle ${bundleId}:`, err);
+    }
+  }
+
+  throw new Error("All gateways failed – unable to fetch bundle items");
+}
+
+const FETCH_OWNER_UPLOADS_QUERY = `
+  query FetchOwnerUploads($owners: [String!], $sort: SortOrder, $first: Int!, $after: String) {
+    transactions(owners: $owners, sort: $sort, first: $first, after: $after) {
+      edges {
+        cursor
+        node {
+          id
+          bundledIn { id }
+          owner { address }
+          fee { ar }
+          quantity { ar }
+          tags { name value }
+          data { size }
+          block { height timestamp }
+        }
+      }
+      pageInfo {
+        hasNextPage
+      }
+    }
+  }
+`;
+
+/**
+ * One page of everything an owner uploaded, of any content type. Newest
+ * first by default; `oldestFirst` finds where an owner's history begins.
+ */
+export async function fetchOwnerUploads(
+  owner: string,
+  after: string | null = null,
+  { oldestFirst = false, first = PAGE_SIZE }: { oldestFirst?: boolean; first?: number } = {}
+): Promise<{ txs: TxMeta[]; hasMore: boolean; cursor?: string }> {
+  if (!isArweaveAddress(owner)) {
+    throw new Error(`Invalid owner address: ${owner}`);
+  }
+
+  const variables = {
+    owners: [owner],
+    sort: oldestFirst ? "HEIGHT_ASC" : "HEIGHT_DESC",
+    first: Math.min(first, PAGE_SIZE),
+    after,
+  };
+  const payload = graphqlPayload(FETCH_OWNER_UPLOADS_QUERY, variables);
 
+  for (const rawGw of GATEWAYS_GRAPHQL) {
+    const gw = rawGw.trim();
     try {
       const data = await fetchWithRetry(gw, payload);
+      const edges: { cursor: string; node: TxMeta }[] = data.transactions.edges;
+      return {
+        // Pending uploads have no block yet and can't be placed on the timeline
+        txs: edges.map((edge) => edge.node).filter((tx) => tx.block != null),
+        hasMore: data.transactions.pageInfo.hasNextPage,
+        cursor: edges[edges.length - 1]?.cursor,
+      };
+    } catch (err) {
+      logger.warn(`Gateway ${gw} failed for owner ${owner}:`, err);
+    }
+  }
+
+  throw new Error("All gateways failed – unable to fetch owner uploads");
+}
+
+const FETCH_TXS_BY_IDS_QUERY = `
+  query FetchTxsByIds($id: [ID!]!, $first: Int) {
+    transactions(ids: $id, first: $first) {
+      edges {
+        node {
+          id
+          bundledIn { id }
+          owner { address }
+          fee { ar }
+          quantity { ar }
+          tags { name value }
+          data { size }
+          block { height timestamp }
+        }
+      }
+    }
+  }
+`;
+
+export async function fetchTxMetaById(txid: string): Promise<TxMeta> {
+  for (const rawGw of GATEWAYS_GRAPHQL) {
+    const gw = rawGw.trim();
+    try {
+      const data = await fetchWithRetry(gw, graphqlPayload(FETCH_TXS_BY_IDS_QUERY, { id: [txid], first: 1 }));
       const edges = data?.transactions?.edges;
       if (!edges || !edges.length) throw new Error("No transaction found");
 
@@ -357,3 +611,25 @@ export async function fetchTxMetaById(txid: string): Promise<TxMeta> {
 
   throw new Error("All gateways failed – unable to fetch tx by ID");
 }
+
+/**
+ * Fetch TxMeta for up to PAGE_SIZE ids in one query. Ids the gateway does
+ * not know, or that are not mined yet, are left out of the result.
+ */
+export async function fetchTxMetasByIds(txids: string[]): Promise<TxMeta[]> {
+  const ids = Array.from(new Set(txids)).slice(0, PAGE_SIZE);
+  if (ids.length === 0) return [];
+
+  for (const rawGw of GATEWAYS_GRAPHQL) {
+    const gw = rawGw.trim();
+    try {
+      const data = await fetchWithRetry(gw, graphqlPayload(FETCH_TXS_BY_IDS_QUERY, { id: ids, first: ids.length }));
+      const edges: { node: TxMeta }[] = data?.transactions?.edges ?? [];
+      return edges.map((edge) => edge.node).filter((tx) => tx.block != null);
+    } catch (err) {
+      logger.warn(`Gateway ${gw} failed for ${ids.length} txs:`, err);
+    }
+  }
+
+  throw new Error("All gateways failed – unable to fetch txs by ID");
+}
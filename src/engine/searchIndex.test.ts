@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { indexTx, indexText, searchIndex } from './searchIndex'
+import { mockTxMeta, mockArfsTxMeta, resetMocks } from '../test/utils'
+
+// Mock idb-keyval
+vi.mock('idb-keyval', () => ({
+  createStore: vi.fn(() => 'search-store'),
+  update: vi.fn(),
+  values: vi.fn(),
+  keys: vi.fn(),
+  delMany: vi.fn(),
+  clear: vi.fn(),
+}))
+
+import { update, values, keys, delMany } from 'idb-keyval'
+
+const pdfTx = {
+  ...mockTxMeta,
+  id: 'pdf-tx-id',
+  owner: { address: 'pdf-owner' },
+  tags: [{ name: 'Content-Type', value: 'application/pdf' }, { name: 'Title', value: 'Permaweb Economics' }],
+  block: { height: 1200000, timestamp: 1686000000 }
+}
+
+const noteTx = {
+  ...mockTxMeta,
+  id: 'note-tx-id',
+  tags: [{ name: 'Content-Type', value: 'text/markdown' }]
+}
+
+describe('Search Index Engine', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.clearAllMocks()
+    ;(keys as any).mockResolvedValue([])
+    ;(values as any).mockResolvedValue([
+      { tx: mockTxMeta, viewedAt: 3 },
+      { tx: mockArfsTxMeta, viewedAt: 2 },
+      { tx: pdfTx, viewedAt: 1 },
+      { tx: noteTx, text: 'Notes on the storage endowment and how it pays miners over time.', viewedAt: 4 }
+    ])
+  })
+
+  describe('indexTx', () => {
+    it('should keep previously extracted text when re-indexing', async () => {
+      await indexTx(noteTx)
+
+      const [key, updater, store] = (update as any).mock.calls[0]
+      expect(key).toBe(noteTx.id)
+      expect(store).toBe('search-store')
+      expect(updater({ tx: noteTx, text: 'hello', viewedAt: 1 })).toEqual({
+        tx: noteTx,
+        text: 'hello',
+        viewedAt: expect.any(Number)
+      })
+    })
+
+    it('should prune the least recently viewed documents over the cap', async () => {
+      ;(keys as any).mockResolvedValue(new Array(2002).fill('k'))
+
+      await indexTx(mockTxMeta)
+
+      expect(delMany).toHaveBeenCalledWith([pdfTx.id, mockArfsTxMeta.id], 'search-store')
+    })
+  })
+
+  describe('indexText', () => {
+    it('should truncate extracted text', async () => {
+      await indexText(noteTx, 'x'.repeat(30_000))
+
+      const updater = (update as any).mock.calls[0][1]
+      expect(updater(undefined).text).toHaveLength(20_000)
+    })
+  })
+
+  describe('searchIndex', () => {
+    it('should match ArFS names, tags and owner addresses', async () => {
+      expect((await searchIndex('test-file')).map(r => r.tx.id)).toEqual([mockArfsTxMeta.id])
+      expect((await searchIndex('economics')).map(r => r.tx.id)).toEqual([pdfTx.id])
+      expect((await searchIndex('pdf-owner')).map(r => r.tx.id)).toEqual([pdfTx.id])
+    })
+
+    it('should require every term to match', async () => {
+      expect(await searchIndex('economics endowment')).toEqual([])
+    })
+
+    it('should search extracted text and return a snippet', async () => {
+      const [result] = await searchIndex('endowment')
+
+      expect(result.tx.id).toBe(noteTx.id)
+      expect(result.snippet).toContain('storage endowment')
+    })
+
+    it('should match block dates', async () => {
+      expect((await searchIndex('2023-06')).map(r => r.tx.id)).toEqual([pdfTx.id])
+    })
+
+    it('should apply content type and date filters', async () => {
+      const images = await searchIndex('', { contentType: 'image/' })
+      expect(images.map(r => r.tx.id)).toEqual([mockTxMeta.id, mockArfsTxMeta.id])
+
+      const recent = await searchIndex('', { fromTimestamp: 1680000000 })
+      expect(recent.map(r => r.tx.id)).toEqual([pdfTx.id])
+    })
+
+    it('should rank stronger field matches first', async () => {
+      const results = await searchIndex('test')
+
+      // ArFS name match outranks the owner/id matches of the other items
+      expect(results[0].tx.id).toBe(mockArfsTxMeta.id)
+    })
+  })
+})
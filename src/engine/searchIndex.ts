@@ -0,0 +1,177 @@
+// src/engine/searchIndex.ts
+import { createStore, update, values, keys, delMany, clear } from "idb-keyval";
+import { logger } from "../utils/logger";
+import {
+  SEARCH_DB_NAME,
+  SEARCH_STORE_NAME,
+  SEARCH_MAX_DOCUMENTS,
+  SEARCH_TEXT_MAX_CHARS,
+  SEARCH_RESULT_LIMIT,
+  type SearchDocument,
+  type TxMeta,
+} from "../constants";
+
+/**
+ * Optional constraints applied on top of the text query
+ */
+export interface SearchFilters {
+  /** Content-Type prefix, e.g. "image/" or "application/pdf" */
+  contentType?: string;
+  ownerAddress?: string;
+  /** Inclusive block timestamp bounds, in seconds */
+  fromTimestamp?: number;
+  toTimestamp?: number;
+}
+
+export interface SearchResult {
+  tx: TxMeta;
+  viewedAt: number;
+  score: number;
+  /** Excerpt of the extracted text around the first match */
+  snippet?: string;
+}
+
+/**
+ * One SearchDocument per viewed transaction, keyed by tx id
+ */
+const searchStore = createStore(SEARCH_DB_NAME, SEARCH_STORE_NAME);
+
+/** Relative weight of a match in each field */
+const FIELD_WEIGHTS = { name: 5, tags: 3, owner: 2, contentType: 2, id: 2, block: 1, text: 1 };
+
+const SNIPPET_RADIUS = 60;
+
+export function getContentType(tx: TxMeta): string {
+  return tx.arfsMeta?.contentType || tx.tags.find((t) => t.name === "Content-Type")?.value || "";
+}
+
+/**
+ * Lower-cased searchable fields of a document
+ */
+function documentFields(doc: SearchDocument): Record<keyof typeof FIELD_WEIGHTS, string> {
+  const { tx } = doc;
+  const date = tx.block.timestamp ? new Date(tx.block.timestamp * 1000).toISOString().slice(0, 10) : "";
+  return {
+    name: (tx.arfsMeta?.name ?? "").toLowerCase(),
+    tags: tx.tags.map((t) => `${t.name} ${t.value}`).join("\n").toLowerCase(),
+    owner: tx.owner.address.toLowerCase(),
+    contentType: getContentType(tx).toLowerCase(),
+    id: tx.id.toLowerCase(),
+    block: `${tx.block.height} ${date}`,
+    text: (doc.text ?? "").toLowerCase(),
+  };
+}
+
+/**
+ * Split a query into lower-cased terms
+ */
+function tokenize(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function matchesFilters(tx: TxMeta, filters: SearchFilters): boolean {
+  if (filters.contentType && !getContentType(tx).startsWith(filters.contentType)) return false;
+  if (filters.ownerAddress && tx.owner.address !== filters.ownerAddress) return false;
+  if (filters.fromTimestamp != null && tx.block.timestamp < filters.fromTimestamp) return false;
+  if (filters.toTimestamp != null && tx.block.timestamp > filters.toTimestamp) return false;
+  return true;
+}
+
+function makeSnippet(text: string, lowerText: string, terms: string[]): string | undefined {
+  const positions = terms.map((term) => lowerText.indexOf(term)).filter((i) => i >= 0);
+  if (positions.length === 0) return undefined;
+  const at = Math.min(...positions);
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + SNIPPET_RADIUS);
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Drop the least recently viewed documents beyond SEARCH_MAX_DOCUMENTS
+ */
+async function pruneSearchIndex(): Promise<void> {
+  const count = (await keys(searchStore)).length;
+  if (count <= SEARCH_MAX_DOCUMENTS) return;
+
+  const docs = await values<SearchDocument>(searchStore);
+  const stale = docs
+    .sort((a, b) => a.viewedAt - b.viewedAt)
+    .slice(0, count - SEARCH_MAX_DOCUMENTS)
+    .map((doc) => doc.tx.id);
+  await delMany(stale, searchStore);
+  logger.debug("Search index pruned", { removed: stale.length });
+}
+
+/**
+ * Record a viewed transaction, keeping any text already extracted for it.
+ */
+export async function indexTx(tx: TxMeta): Promise<void> {
+  await update<SearchDocument>(
+    tx.id,
+    (doc) => ({ tx, text: doc?.text, viewedAt: Date.now() }),
+    searchStore
+  );
+  await pruneSearchIndex();
+}
+
+/**
+ * Attach extracted text (markdown/plain text) to a transaction's document.
+ */
+export async function indexText(tx: TxMeta, text: string): Promise<void> {
+  const truncated = text.slice(0, SEARCH_TEXT_MAX_CHARS);
+  await update<SearchDocument>(
+    tx.id,
+    (doc) => ({ tx: doc?.tx ?? tx, text: truncated, viewedAt: doc?.viewedAt ?? Date.now() }),
+    searchStore
+  );
+}
+
+/**
+ * Search viewed content. Every query term must match some field; results are
+ * ranked by field weight, then by how recently they were viewed. An empty
+ * query lists the most recently viewed items matching the filters.
+ */
+export async function searchIndex(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+  const terms = tokenize(query);
+  const docs = await values<SearchDocument>(searchStore);
+  const results: SearchResult[] = [];
+
+  for (const doc of docs) {
+    if (!doc?.tx || !matchesFilters(doc.tx, filters)) continue;
+
+    const fields = documentFields(doc);
+    let score = 0;
+    let matchedAll = true;
+    for (const term of terms) {
+      let best = 0;
+      for (const [field, value] of Object.entries(fields) as [keyof typeof FIELD_WEIGHTS, string][]) {
+        if (value.includes(term)) best = Math.max(best, FIELD_WEIGHTS[field]);
+      }
+      if (best === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += best;
+    }
+    if (!matchedAll) continue;
+
+    results.push({
+      tx: doc.tx,
+      viewedAt: doc.viewedAt,
+      score,
+      snippet: doc.text ? makeSnippet(doc.text, fields.text, terms) : undefined,
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || b.viewedAt - a.viewedAt)
+    .slice(0, SEARCH_RESULT_LIMIT);
+}
+
+/**
+ * Remove every document from the search index
+ */
+export async function clearSearchIndex(): Promise<void> {
+  await clear(searchStore);
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { verifyTxSignature, resetSignatureChecks } from './txSignature'
+import { mockTxMeta, mockSignedTxHeader as TX_HEADER } from '../test/utils'
+import type { TxMeta } from '../constants'
+
+const GATEWAY = 'https://arweave.net'
+
+const signedTx: TxMeta = {
+  ...mockTxMeta,
+  id: TX_HEADER.id,
+  owner: { address: 'FsxlqNTtC92dvJMGMIpG4b4mcZi9x4bVyXTt-lf38a0' },
+  fee: { ar: '0.000123456789' },
+  quantity: { ar: '1' },
+  tags: [{ name: 'Content-Type', value: 'text/plain' }],
+  data: { size: 10 },
+}
+
+// Ed25519 data item built by arbundles; its data "hello roam" starts at byte 220
+const DATA_ITEM = Uint8Array.from(
+  atob('AgDlc9tHKfQb/bqu1I/NlDOBe15bppCD7dMEf/Y8XCaAWtl0Zr/Ajr2cBb4Ask3j8g6Lp07pvdNJ39MZSFK013AAEV4p2AlM26wJXTkZulxQQudg4YN5axSnYIHsmss3lt8BBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcBYWFhYWFhYWFhYWFhYWFhYWFhYWFhYWFhYWFhYWFhYWECAAAAAAAAACgAAAAAAAAABBhDb250ZW50LVR5cGUUdGV4dC9wbGFpbhBBcHAtTmFtZQhSb2FtAGhlbGxvIHJvYW0='),
+  (c) => c.charCodeAt(0)
+)
+const DATA_START = 220
+const ITEM_OFFSET = 1000
+
+const signedItem: TxMeta = {
+  ...mockTxMeta,
+  id: '4V5kAAQMudzWW7Pap22gpmFV0NUdF-fcFAhmbf8aWpc',
+  bundledIn: { id: 'bundle-id' },
+  owner: { address: '21NfhQ0Cphpx61B7vbEiVAo7WNNiiVduMUzoOxaXBPo' },
+  fee: { ar: '0' },
+  quantity: { ar: '0' },
+  tags: [
+    { name: 'Content-Type', value: 'text/plain' },
+    { name: 'App-Name', value: 'Roam' },
+  ],
+  data: { size: 10 },
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  ({ ok: status === 200, status, json: async () => body }) as Response
+
+const bytesResponse = (bytes: Uint8Array, status: number, headers: Record<string, string> = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    arrayBuffer: async () => bytes.slice().buffer,
+  }) as Response
+
+const OFFSET_HEADERS = {
+  'X-AR-IO-Root-Transaction-Id': 'root-bundle-id',
+  'X-AR-IO-Root-Data-Item-Offset': String(ITEM_OFFSET),
+  'X-AR-IO-Root-Data-Offset': String(ITEM_OFFSET + DATA_START),
+}
+
+function mockDataItemGateway(headers: Record<string, string> = OFFSET_HEADERS) {
+  vi.mocked(fetch).mockImplementation(async (input) => {
+    const url = String(input)
+    if (url === `${GATEWAY}/raw/${signedItem.id}`) {
+      return bytesResponse(DATA_ITEM.subarray(DATA_START), 200, headers)
+    }
+    if (url === `${GATEWAY}/raw/root-bundle-id`) {
+      return bytesResponse(DATA_ITEM.subarray(0, DATA_START), 206)
+    }
+    return jsonResponse(null, 404)
+  })
+}
+
+describe('Transaction Signature Engine', () => {
+  beforeEach(() => {
+    resetSignatureChecks()
+    vi.mocked(fetch).mockReset()
+  })
+
+  describe('layer 1 transactions', () => {
+    it('should verify the header signature and find no mismatches', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(TX_HEADER))
+
+      expect(await verifyTxSignature(signedTx, GATEWAY)).toEqual({
+        status: 'valid',
+        source: 'transaction',
+        scheme: 'RSA-PSS',
+        mismatches: [],
+      })
+      expect(fetch).toHaveBeenCalledWith(`${GATEWAY}/tx/${signedTx.id}`)
+    })
+
+    it('should flag displayed fields that differ from the signed header', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(TX_HEADER))
+      const edited: TxMeta = {
+        ...signedTx,
+        owner: { address: 'X'.repeat(43) },
+        fee: { ar: '0.0001' },
+        tags: [{ name: 'Content-Type', value: 'text/html' }],
+      }
+
+      const check = await verifyTxSignature(edited, GATEWAY)
+      expect(check.status).toBe('valid')
+      expect(check.mismatches).toEqual([
+        { field: 'owner', displayed: 'X'.repeat(43), signed: signedTx.owner.address },
+        { field: 'tags', displayed: 'Content-Type: text/html', signed: 'Content-Type: text/plain' },
+        { field: 'fee', displayed: '0.0001', signed: '0.000123456789' },
+      ])
+    })
+
+    it('should reject a header whose fields were altered after signing', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ ...TX_HEADER, reward: '1' }))
+
+      const check = await verifyTxSignature(signedTx, GATEWAY)
+      expect(check.status).toBe('invalid')
+      expect(check.reason).toBe('Signature does not match the signed fields')
+    })
+
+    it('should reject a header signed for another transaction id', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(TX_HEADER))
+
+      const check = await verifyTxSignature({ ...signedTx, id: 'Y'.repeat(43) }, GATEWAY)
+      expect(check.status).toBe('invalid')
+      expect(check.reason).toBe('Signature does not belong to this transaction id')
+    })
+
+    it('should report format 1 transactions as unsupported', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ ...TX_HEADER, format: 1 }))
+
+      expect(await verifyTxSignature(signedTx, GATEWAY)).toEqual({
+        status: 'unsupported',
+        source: 'transaction',
+        mismatches: [],
+        reason: 'Format 1 transactions are not checked',
+      })
+    })
+
+    it('should throw and retry when the header is unavailable', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(null, 202))
+      await expect(verifyTxSignature(signedTx, GATEWAY)).rejects.toThrow('HTTP 202')
+
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(TX_HEADER))
+      expect((await verifyTxSignature(signedTx, GATEWAY)).status).toBe('valid')
+    })
+
+    it('should cache checks per transaction', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse(TX_HEADER))
+
+      await verifyTxSignature(signedTx, GATEWAY)
+      await verifyTxSignature(signedTx, GATEWAY)
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('bundled data items', () => {
+    it('should read the header from the root bundle and verify it', async () => {
+      mockDataItemGateway()
+
+      expect(await verifyTxSignature(signedItem, GATEWAY)).toEqual({
+        status: 'valid',
+        source: 'data-item',
+        scheme: 'Ed25519',
+        mismatches: [],
+      })
+      expect(fetch).toHaveBeenCalledWith(`${GATEWAY}/raw/root-bundle-id`, {
+        headers: { Range: `bytes=${ITEM_OFFSET}-${ITEM_OFFSET + DATA_START - 1}` },
+      })
+    })
+
+    it('should flag tags that differ from the signed data item', async () => {
+      mockDataItemGateway()
+
+      const check = await verifyTxSignature({ ...signedItem, tags: signedItem.tags.slice(0, 1) }, GATEWAY)
+      expect(check.mismatches).toEqual([
+        { field: 'tags', displayed: 'Content-Type: text/plain', signed: 'Content-Type: text/plain\nApp-Name: Roam' },
+      ])
+    })
+
+    it('should reject data that does not match the signature', async () => {
+      vi.mocked(fetch).mockImplementation(async (input) =>
+        String(input).endsWith(signedItem.id)
+          ? bytesResponse(new TextEncoder().encode('hello ROAM'), 200, OFFSET_HEADERS)
+          : bytesResponse(DATA_ITEM.subarray(0, DATA_START), 206)
+      )
+
+      expect((await verifyTxSignature(signedItem, GATEWAY)).status).toBe('invalid')
+    })
+
+    it('should report items as unsupported when the gateway gives no bundle offsets', async () => {
+      mockDataItemGateway({})
+
+      const check = await verifyTxSignature(signedItem, GATEWAY)
+      expect(check.status).toBe('unsupported')
+      expect(check.reason).toContain('did not report where the data item sits')
+    })
+
+    it('should not download items above the size limit', async () => {
+      const check = await verifyTxSignature({ ...signedItem, data: { size: 100 * 1024 * 1024 } }, GATEWAY)
+      expect(check.status).toBe('unsupported')
+      expect(fetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,318 @@
+// src/engine/txSignature.ts
+import { logger } from "../utils/logger";
+import { memoizeAsync } from "../utils/memoizeAsync";
+import {
+  b64UrlToBytes,
+  bytesToB64Url,
+  deepHash,
+  deserializeTags,
+  sha256,
+  utf8,
+  type DeepHashChunk,
+} from "../utils/arweaveCrypto";
+import { SIGNATURE_CHECK_MAX_BYTES, type TxMeta } from "../constants";
+
+export type SignatureScheme = "RSA-PSS" | "Ed25519";
+
+/** A field shown in the details drawer that differs from what the owner signed */
+export interface SignatureMismatch {
+  field: "owner" | "tags" | "fee" | "quantity" | "size";
+  displayed: string;
+  signed: string;
+}
+
+export interface SignatureCheck {
+  /**
+   * "valid" when the signature covers the fetched header, "invalid" when it
+   * does not, "unsupported" when this item can't be checked in the browser
+   */
+  status: "valid" | "invalid" | "unsupported";
+  /** Which header was checked: a layer 1 transaction or an ANS-104 data item */
+  source: "transaction" | "data-item";
+  scheme?: SignatureScheme;
+  /** Only filled in for valid signatures */
+  mismatches: SignatureMismatch[];
+  reason?: string;
+}
+
+/** Transaction header as served by a gateway's /tx endpoint */
+export interface TransactionHeader {
+  format: number;
+  id?: string;
+  owner: string;
+  target?: string;
+  quantity: string;
+  reward: string;
+  last_tx?: string;
+  tags?: { name: string; value: string }[];
+  data_size: string;
+  data_root?: string;
+  signature: string;
+}
+
+/** The fields of a transaction or data item header the checks below need */
+interface SignedHeader {
+  source: SignatureCheck["source"];
+  scheme: SignatureScheme;
+  signature: Uint8Array;
+  owner: Uint8Array;
+  tags: { name: string; value: string }[];
+  message: Uint8Array;
+  dataSize: number;
+  /** Winston strings; data items carry no fee or transfer */
+  reward?: string;
+  quantity?: string;
+}
+
+/** Signature and owner lengths of the ANS-104 signature types checked here */
+const DATA_ITEM_SIGNATURE_TYPES: Record<number, { scheme: SignatureScheme; signature: number; owner: number }> = {
+  1: { scheme: "RSA-PSS", signature: 512, owner: 512 },
+  2: { scheme: "Ed25519", signature: 64, owner: 32 },
+  4: { scheme: "Ed25519", signature: 64, owner: 32 },
+};
+
+const WINSTON_DECIMALS = 12;
+
+class UnsupportedSignature extends Error {}
+
+/** Parse an AR amount such as "0.000123" into winston */
+function arToWinston(ar: string): bigint {
+  const [whole, fraction = ""] = ar.trim().split(".");
+  return BigInt((whole || "0") + fraction.padEnd(WINSTON_DECIMALS, "0").slice(0, WINSTON_DECIMALS));
+}
+
+function winstonToAr(winston: string): string {
+  const padded = winston.padStart(WINSTON_DECIMALS + 1, "0");
+  const whole = padded.slice(0, -WINSTON_DECIMALS);
+  const fraction = padded.slice(-WINSTON_DECIMALS).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/** Version 2 transaction header rebuilt into the deep hash its owner signed */
+async function parseTransactionHeader(header: TransactionHeader): Promise<SignedHeader> {
+  if (header.format !== 2) {
+    throw new UnsupportedSignature(`Format ${header.format} transactions are not checked`);
+  }
+
+  const tags: { name: string; value: string }[] = header.tags ?? [];
+  const message = await deepHash([
+    utf8(String(header.format)),
+    b64UrlToBytes(header.owner),
+    b64UrlToBytes(header.target ?? ""),
+    utf8(header.quantity),
+    utf8(header.reward),
+    b64UrlToBytes(header.last_tx ?? ""),
+    tags.map((tag): DeepHashChunk => [b64UrlToBytes(tag.name), b64UrlToBytes(tag.value)]),
+    utf8(header.data_size),
+    b64UrlToBytes(header.data_root ?? ""),
+  ]);
+  const decoder = new TextDecoder();
+  return {
+    source: "transaction",
+    scheme: "RSA-PSS",
+    signature: b64UrlToBytes(header.signature),
+    owner: b64UrlToBytes(header.owner),
+    tags: tags.map((tag) => ({
+      name: decoder.decode(b64UrlToBytes(tag.name)),
+      value: decoder.decode(b64UrlToBytes(tag.value)),
+    })),
+    message,
+    dataSize: Number(header.data_size),
+    reward: header.reward,
+    quantity: header.quantity,
+  };
+}
+
+async function fetchTransactionHeader(txId: string, gateway: string): Promise<SignedHeader> {
+  const response = await fetch(`${gateway}/tx/${txId}`);
+  if (response.status !== 200) {
+    throw new Error(`Transaction header unavailable (HTTP ${response.status})`);
+  }
+  return parseTransactionHeader(await response.json());
+}
+
+/** The id is the hash of the signature, so a header can only belong to one tx */
+async function belongsTo(header: SignedHeader, txId: string): Promise<boolean> {
+  return bytesToB64Url(await sha256(header.signature)) === txId;
+}
+
+/**
+ * Parse an ANS-104 data item header and deep hash it with the item's data.
+ * Throws when the bytes end before the header does.
+ */
+async function parseDataItemHeader(header: Uint8Array, data: Uint8Array): Promise<SignedHeader> {
+  let pos = 0;
+  const take = (length: number) => {
+    if (pos + length > header.byteLength) throw new Error("Truncated data item header");
+    const bytes = header.subarray(pos, pos + length);
+    pos += length;
+    return bytes;
+  };
+  const takeOptional = (length: number) => (take(1)[0] === 1 ? take(length) : new Uint8Array(0));
+  // Header integers are little-endian
+  const takeNumber = (length: number) => take(length).reduceRight((value, byte) => value * 256 + byte, 0);
+
+  const signatureType = takeNumber(2);
+  const layout = DATA_ITEM_SIGNATURE_TYPES[signatureType];
+  if (!layout) {
+    throw new UnsupportedSignature(`Signature type ${signatureType} is not checked`);
+  }
+  const signature = take(layout.signature);
+  const owner = take(layout.owner);
+  const target = takeOptional(32);
+  const anchor = takeOptional(32);
+  takeNumber(8); // tag count, repeated in the Avro block
+  const tagBytes = take(takeNumber(8));
+
+  const message = await deepHash([
+    utf8("dataitem"),
+    utf8("1"),
+    utf8(String(signatureType)),
+    owner,
+    target,
+    anchor,
+    tagBytes,
+    data,
+  ]);
+  return {
+    source: "data-item",
+    scheme: layout.scheme,
+    signature,
+    owner,
+    tags: deserializeTags(tagBytes),
+    message,
+    dataSize: data.byteLength,
+  };
+}
+
+/**
+ * Data item header of a bundled item. AR.IO gateways report where the item
+ * sits in its root bundle, so the header is read from the bundle's bytes
+ * rather than from an index that could have been edited.
+ */
+async function fetchDataItemHeader(tx: TxMeta, gateway: string): Promise<SignedHeader> {
+  if (tx.data.size > SIGNATURE_CHECK_MAX_BYTES) {
+    throw new UnsupportedSignature("Data item is too large to download for a signature check");
+  }
+
+  const dataResponse = await fetch(`${gateway}/raw/${tx.id}`);
+  if (!dataResponse.ok) {
+    throw new Error(`Data item unavailable (HTTP ${dataResponse.status})`);
+  }
+  const rootId = dataResponse.headers.get("X-AR-IO-Root-Transaction-Id");
+  const itemOffset = Number(dataResponse.headers.get("X-AR-IO-Root-Data-Item-Offset"));
+  const dataOffset = Number(dataResponse.headers.get("X-AR-IO-Root-Data-Offset"));
+  if (!rootId || !dataOffset || !(dataOffset > itemOffset)) {
+    throw new UnsupportedSignature("Gateway did not report where the data item sits in its bundle");
+  }
+  const data = new Uint8Array(await dataResponse.arrayBuffer());
+
+  const headerResponse = await fetch(`${gateway}/raw/${rootId}`, {
+    headers: { Range: `bytes=${itemOffset}-${dataOffset - 1}` },
+  });
+  if (headerResponse.status !== 206) {
+    throw new Error(`Data item header unavailable (HTTP ${headerResponse.status})`);
+  }
+  return parseDataItemHeader(new Uint8Array(await headerResponse.arrayBuffer()), data);
+}
+
+async function verifySignature(header: SignedHeader): Promise<boolean> {
+  const { scheme, owner, signature, message } = header;
+  if (scheme === "Ed25519") {
+    let key: CryptoKey;
+    try {
+      key = await crypto.subtle.importKey("raw", owner as BufferSource, { name: "Ed25519" }, false, ["verify"]);
+    } catch {
+      throw new UnsupportedSignature("This browser cannot check Ed25519 signatures");
+    }
+    return crypto.subtle.verify({ name: "Ed25519" }, key, signature as BufferSource, message as BufferSource);
+  }
+
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    { kty: "RSA", e: "AQAB", n: bytesToB64Url(owner), alg: "PS256", ext: true },
+    { name: "RSA-PSS", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  // Arweave wallets have signed with each of these salt lengths over the years
+  const maxSalt = Math.ceil((owner.byteLength * 8 - 1) / 8) - 32 - 2;
+  for (const saltLength of [32, 0, maxSalt]) {
+    if (await crypto.subtle.verify({ name: "RSA-PSS", saltLength }, key, signature as BufferSource, message as BufferSource)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function findMismatches(tx: TxMeta, header: SignedHeader): Promise<SignatureMismatch[]> {
+  const mismatches: SignatureMismatch[] = [];
+  const signedOwner = bytesToB64Url(await sha256(header.owner));
+  if (signedOwner !== tx.owner.address) {
+    mismatches.push({ field: "owner", displayed: tx.owner.address, signed: signedOwner });
+  }
+
+  const formatTags = (tags: { name: string; value: string }[]) =>
+    tags.map((tag) => `${tag.name}: ${tag.value}`).join("\n");
+  if (formatTags(tx.tags) !== formatTags(header.tags)) {
+    mismatches.push({ field: "tags", displayed: formatTags(tx.tags), signed: formatTags(header.tags) });
+  }
+
+  if (header.reward !== undefined && arToWinston(tx.fee.ar) !== BigInt(header.reward)) {
+    mismatches.push({ field: "fee", displayed: tx.fee.ar, signed: winstonToAr(header.reward) });
+  }
+  if (header.quantity !== undefined && arToWinston(tx.quantity.ar) !== BigInt(header.quantity)) {
+    mismatches.push({ field: "quantity", displayed: tx.quantity.ar, signed: winstonToAr(header.quantity) });
+  }
+  if (tx.data.size !== header.dataSize) {
+    mismatches.push({ field: "size", displayed: String(tx.data.size), signed: String(header.dataSize) });
+  }
+  return mismatches;
+}
+
+async function checkSignature(tx: TxMeta, gateway: string): Promise<SignatureCheck> {
+  const source = tx.bundledIn ? "data-item" : "transaction";
+  try {
+    const header = tx.bundledIn
+      ? await fetchDataItemHeader(tx, gateway)
+      : await fetchTransactionHeader(tx.id, gateway);
+
+    if (!(await belongsTo(header, tx.id))) {
+      return { status: "invalid", source, scheme: header.scheme, mismatches: [], reason: "Signature does not belong to this transaction id" };
+    }
+    if (!(await verifySignature(header))) {
+      return { status: "invalid", source, scheme: header.scheme, mismatches: [], reason: "Signature does not match the signed fields" };
+    }
+
+    const mismatches = await findMismatches(tx, header);
+    logger.debug(`Signature of ${tx.id} verified with ${mismatches.length} mismatched fields`);
+    return { status: "valid", source, scheme: header.scheme, mismatches };
+  } catch (err) {
+    if (err instanceof UnsupportedSignature) {
+      return { status: "unsupported", source, mismatches: [], reason: err.message };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Check the owner's signature over a transaction's or data item's header and
+ * compare the signed owner, tags, fee, quantity and size with what GraphQL
+ * returned. A signed header never changes, so each tx is checked once.
+ */
+export const verifyTxSignature = memoizeAsync(checkSignature, (tx) => tx.id);
+
+/**
+ * Whether a /tx header is the version 2 transaction `txId` as its owner
+ * signed it, every field including data_root. Throws for headers that can't
+ * be checked, such as format 1 transactions.
+ */
+export async function verifyTransactionHeader(txId: string, header: TransactionHeader): Promise<boolean> {
+  const signed = await parseTransactionHeader(header);
+  return (await belongsTo(signed, txId)) && (await verifySignature(signed));
+}
+
+/** Drop cached signature checks (tests) */
+export function resetSignatureChecks(): void {
+  verifyTxSignature.clear();
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'preact/hooks'
-import type { Channel, TxMeta } from '../constants'
+import type { ArfsScope, BundleScope, Channel, TagFilter, TxMeta } from '../constants'
 
 export function useAppState() {
   // Main content state
@@ -12,7 +12,11 @@ export function useAppState() {
   const [media, setMedia] = useState<Channel['media']>('images')
   const [recency, setRecency] = useState<Channel['recency']>('old')
   const [ownerAddress, setOwnerAddress] = useState<string | undefined>()
+  const [ownerAddresses, setOwnerAddresses] = useState<string[]>([])
   const [appName, setAppName] = useState<string | undefined>()
+  const [tagFilters, setTagFilters] = useState<TagFilter[]>([])
+  const [arfsScope, setArfsScope] = useState<ArfsScope | undefined>()
+  const [bundleScope, setBundleScope] = useState<BundleScope | undefined>()
   
   // UI state
   const [detailsOpen, setDetailsOpen] = useState(false)
@@ -25,7 +29,7 @@ export function useAppState() {
   const [showInterstitial, setShowInterstitial] = useState(false)
   
   // Computed channel object
-  const channel: Channel = { media, recency, ownerAddress, appName }
+  const channel: Channel = { media, recency, ownerAddress, ownerAddresses, appName, tagFilters, arfsScope, bundleScope }
   
   // Helper functions
   const clearError = () => setError(null)
@@ -58,7 +62,11 @@ export function useAppState() {
     media,
     recency,
     ownerAddress,
+    ownerAddresses,
     appName,
+    tagFilters,
+    arfsScope,
+    bundleScope,
     detailsOpen,
     showChannels,
     showAbout,
@@ -76,7 +84,11 @@ export function useAppState() {
     setMedia,
     setRecency,
     setOwnerAddress,
+    setOwnerAddresses,
     setAppName,
+    setTagFilters,
+    setArfsScope,
+    setBundleScope,
     setDetailsOpen,
     setShowChannels,
     setShowAbout,
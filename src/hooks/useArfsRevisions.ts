@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'preact/hooks'
+import { fetchArfsRevisions } from '../engine/arfsRevisions'
+import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
+import { logger } from '../utils/logger'
+import type { TxMeta } from '../constants'
+
+/**
+ * Hook for the metadata revisions of the current ArFS file, newest first
+ */
+export function useArfsRevisions(currentTx: TxMeta | null, open: boolean) {
+  const [revisions, setRevisions] = useState<TxMeta[]>([])
+  const [loading, setLoading] = useState(false)
+
+  // Only ArFS files have revisions; reload when the file changes while the view is open
+  useEffect(() => {
+    setRevisions([])
+    if (!open || !currentTx?.arfsMeta) return
+    let cancelled = false
+    setLoading(true)
+    fetchArfsRevisions(currentTx, GATEWAY_DATA_SOURCE[0])
+      .then(found => { if (!cancelled) setRevisions(found) })
+      .catch(error => logger.warn('Failed to load ArFS revisions', error))
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [currentTx?.id, !!currentTx?.arfsMeta, open])
+
+  return { revisions, loading }
+}
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'preact/hooks'
+import { listBlockedOwners, blockOwner, unblockOwner } from '../engine/blocklist'
+import { removeOwnerFromQueue } from '../engine/fetchQueue'
+import { logger } from '../utils/logger'
+import type { BlockedOwner } from '../constants'
+
+/**
+ * Hook for managing the local owner blocklist
+ */
+export function useBlocklist() {
+  const [blockedOwners, setBlockedOwners] = useState<BlockedOwner[]>([])
+
+  // Load the blocklist once on mount
+  useEffect(() => {
+    listBlockedOwners()
+      .then(setBlockedOwners)
+      .catch(error => logger.warn('Failed to load blocked owners', error))
+  }, [])
+
+  const block = async (address: string) => {
+    try {
+      const entry = await blockOwner(address)
+      setBlockedOwners(prev => prev.some(b => b.address === entry.address) ? prev : [entry, ...prev])
+      // Already queued uploads from this owner should not show up next
+      await removeOwnerFromQueue(entry.address)
+    } catch (error) {
+      logger.error('Failed to block owner', error)
+    }
+  }
+
+  const unblock = async (address: string) => {
+    try {
+      await unblockOwner(address)
+      setBlockedOwners(prev => prev.filter(b => b.address !== address))
+    } catch (error) {
+      logger.error('Failed to unblock owner', error)
+    }
+  }
+
+  return {
+    blockedOwners,
+    blockOwner: block,
+    unblockOwner: unblock
+  }
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'preact/hooks'
+import {
+  listCollections,
+  createCollection,
+  renameCollection,
+  deleteCollection,
+  addToCollection,
+  removeFromCollection,
+  moveCollectionItem,
+  setCollectionItemNote,
+  exportCollections,
+  importCollections,
+  type CollectionsImportReport
+} from '../engine/collections'
+import { logger } from '../utils/logger'
+import type { Collection, TxMeta } from '../constants'
+
+/**
+ * Hook for managing named collections and their export/import
+ */
+export function useCollections() {
+  const [collections, setCollections] = useState<Collection[]>([])
+  const [importing, setImporting] = useState(false)
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null)
+  const [importReport, setImportReport] = useState<CollectionsImportReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = async () => {
+    try {
+      setCollections(await listCollections())
+    } catch (err) {
+      logger.warn('Failed to load collections', err)
+    }
+  }
+
+  // Load saved collections once on mount
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  // Run a mutation, then reload so the list reflects what was persisted
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      logger.error('Collection update failed', err)
+      setError(err instanceof Error ? err.message : 'Collection update failed')
+    }
+    await refresh()
+  }
+
+  const exportToFile = async (ids?: string[]) => {
+    try {
+      const doc = await exportCollections(ids)
+      const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `roam-collections-${doc.exportedAt.slice(0, 10)}.json`
+      document.body.appendChild(a)
+      a.click()
+      a.remove()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      logger.error('Collections export failed', err)
+      setError('Failed to export collections.')
+    }
+  }
+
+  const importFromFile = async (file: File) => {
+    setError(null)
+    setImportReport(null)
+    setImporting(true)
+    setImportProgress({ done: 0, total: 0 })
+    try {
+      const text = await file.text()
+      const report = await importCollections(text, (done, total) => setImportProgress({ done, total }))
+      setImportReport(report)
+    } catch (err) {
+      logger.error('Collections import failed', err)
+      setError(err instanceof Error ? err.message : 'Failed to import collections.')
+    } finally {
+      setImporting(false)
+      setImportProgress(null)
+      await refresh()
+    }
+  }
+
+  return {
+    collections,
+    error,
+    importing,
+    importProgress,
+    importReport,
+    clearImportReport: () => setImportReport(null),
+    create: (name: string) => run(() => createCollection(name)),
+    rename: (id: string, name: string) => run(() => renameCollection(id, name)),
+    remove: (id: string) => run(() => deleteCollection(id)),
+    addItem: (id: string, tx: TxMeta) => run(() => addToCollection(id, tx)),
+    removeItem: (id: string, txId: string) => run(() => removeFromCollection(id, txId)),
+    moveItem: (id: string, from: number, to: number) => run(() => moveCollectionItem(id, from, to)),
+    setNote: (id: string, txId: string, note: string) => run(() => setCollectionItemNote(id, txId, note)),
+    exportToFile,
+    importFromFile
+  }
+}
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'preact/hooks'
+import { getContentCacheUsage, clearContentCache } from '../services/contentCache'
+import { logger } from '../utils/logger'
+import type { ContentCacheUsage } from '../services/wayfinderTypes'
+
+/**
+ * Hook for the persistent verified-content cache: current usage, refreshed
+ * whenever `active` turns on, and a clear action
+ */
+export function useContentCache(active: boolean) {
+  const [usage, setUsage] = useState<ContentCacheUsage | null>(null)
+  const [clearing, setClearing] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsage(await getContentCacheUsage())
+    } catch (error) {
+      logger.warn('Failed to read content cache usage', error)
+      setUsage(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (active) refresh()
+  }, [active, refresh])
+
+  const clear = useCallback(async () => {
+    setClearing(true)
+    try {
+      await clearContentCache()
+    } catch (error) {
+      logger.warn('Failed to clear content cache', error)
+    } finally {
+      setClearing(false)
+      await refresh()
+    }
+  }, [refresh])
+
+  return { usage, clearing, clear }
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'preact/hooks'
+import {
+  loadCustomMedia,
+  createCustomMedia,
+  updateCustomMedia,
+  deleteCustomMedia,
+  parseContentTypes
+} from '../engine/customMedia'
+import { logger } from '../utils/logger'
+import type { CustomMediaDefinition, CustomMediaRenderer } from '../constants'
+
+/**
+ * Hook for managing user-defined media channels
+ */
+export function useCustomMedia() {
+  const [definitions, setDefinitions] = useState<CustomMediaDefinition[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = async () => {
+    try {
+      setDefinitions(await loadCustomMedia())
+    } catch (err) {
+      logger.warn('Failed to load custom media', err)
+    }
+  }
+
+  // Load and register saved definitions once on mount
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  // Run a mutation, then reload so the list reflects what was persisted.
+  // Resolves to false when the mutation failed.
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null)
+    let ok = true
+    try {
+      await action()
+    } catch (err) {
+      ok = false
+      logger.error('Custom media update failed', err)
+      setError(err instanceof Error ? err.message : 'Custom media update failed')
+    }
+    await refresh()
+    return ok
+  }
+
+  return {
+    definitions,
+    error,
+    clearError: () => setError(null),
+    create: (label: string, rawContentTypes: string, renderAs: CustomMediaRenderer) =>
+      run(() => createCustomMedia(label, parseContentTypes(rawContentTypes), renderAs)),
+    update: (id: string, label: string, rawContentTypes: string, renderAs: CustomMediaRenderer) =>
+      run(() => updateCustomMedia(id, { label, contentTypes: parseContentTypes(rawContentTypes), renderAs })),
+    remove: (id: string) => run(() => deleteCustomMedia(id))
+  }
+}
@@ -118,12 +118,12 @@ export function useDateRangeSlider(
       // Clear seen IDs when applying custom range to allow fresh exploration
       clearSeenIds()
       
+      // Owners come from the channel so a followed roster is kept
       await initFetchQueue(
-        { media: channel.media, recency: channel.recency, ownerAddress, appName },
+        { ...channel, ownerAddress, appName },
         { 
           minBlock: resolvedBlockRange.minBlock, 
           maxBlock: resolvedBlockRange.maxBlock, 
-          ownerAddress, 
           appName 
         }
       )
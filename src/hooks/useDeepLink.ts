@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'preact/hooks'
 import { fetchTxMetaById, getCurrentBlockHeight } from '../engine/query'
 import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
-import { MEDIA_TYPES, type Channel, type MediaType, type TxMeta } from '../constants'
+import { MEDIA_TYPES, type Channel, type MediaType, type TagFilter, type TxMeta } from '../constants'
 import { logger } from '../utils/logger'
+import { parseTagFilter } from '../utils/tagFilters'
+import { isTxId, isArweaveAddress } from '../utils/arweaveIds'
+import { loadCustomMedia, getCustomMedia } from '../engine/customMedia'
+import { isArnsName } from '../utils/arUrl'
+import { resolveArUrlToTxId } from '../services/arResolver'
 
 export type DeepLinkOpts = {
   initialTx?: TxMeta
@@ -11,6 +16,7 @@ export type DeepLinkOpts = {
   channel?: Channel
   ownerAddress?: string
   appName?: string
+  tagFilters?: TagFilter[]
 }
 
 export function useDeepLink() {
@@ -30,10 +36,13 @@ export function useDeepLink() {
         const tip = await getCurrentBlockHeight(GATEWAY_DATA_SOURCE[0])
         if (isMounted) setChainTip(tip)
         
-        // Parse txid
-        if (params.has('txid')) {
+        // Parse txid, ignoring anything that is not a well-formed id
+        const txid = params.get('txid')
+        if (txid != null && !isTxId(txid)) {
+          logger.warn('Ignoring invalid txid deep-link parameter')
+        } else if (txid != null) {
           try {
-            const initialTx = await fetchTxMetaById(params.get('txid')!)
+            const initialTx = await fetchTxMetaById(txid)
             
             // Check if this is an ArFS metadata file
             const entityType = initialTx.tags.find(tag => tag.name === 'Entity-Type')?.value
@@ -64,14 +73,26 @@ export function useDeepLink() {
               }
             }
             
+            // Label the tx with its ArNS name only while the name still points at it
+            const arnsName = params.get('arns')?.toLowerCase()
+            if (arnsName && isArnsName(arnsName)) {
+              const resolvedId = await resolveArUrlToTxId({ kind: 'arns', name: arnsName, path: '' })
+              if (resolvedId === initialTx.id) {
+                initialTx.arnsName = arnsName
+              }
+            }
+            
             opts.initialTx = initialTx
           } catch (error) {
           }
         }
         
         // Parse owner address
-        if (params.has('ownerAddress')) {
-          opts.ownerAddress = params.get('ownerAddress')!
+        const ownerAddress = params.get('ownerAddress')
+        if (ownerAddress != null && !isArweaveAddress(ownerAddress)) {
+          logger.warn('Ignoring invalid ownerAddress deep-link parameter')
+        } else if (ownerAddress != null) {
+          opts.ownerAddress = ownerAddress
         }
         
         // Parse app name
@@ -79,6 +100,14 @@ export function useDeepLink() {
           opts.appName = params.get('appName')!
         }
         
+        // Parse tag filters (tag=Name=v1,v2, repeatable)
+        const tagFilters = params.getAll('tag')
+          .map(parseTagFilter)
+          .filter((filter): filter is TagFilter => filter !== null)
+        if (tagFilters.length > 0) {
+          opts.tagFilters = tagFilters
+        }
+        
         // Parse block range
         if (params.has('minBlock')) {
           const minBlock = Number(params.get('minBlock'))
@@ -97,7 +126,11 @@ export function useDeepLink() {
         // Parse channel/media type
         if (params.has('channel')) {
           const rawMedia = params.get('channel')!
-          if (MEDIA_TYPES.includes(rawMedia as MediaType)) {
+          // Custom channels only resolve on the device that defined them
+          const customMedia = await loadCustomMedia()
+            .then(() => getCustomMedia(rawMedia))
+            .catch(() => undefined)
+          if (MEDIA_TYPES.includes(rawMedia as MediaType) || customMedia) {
             opts.channel = {
               media: rawMedia as MediaType,
               recency: 'old', // Default value - fixed bug from original
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'preact/hooks'
+import { listFavorites, toggleFavorite } from '../engine/favorites'
+import { logger } from '../utils/logger'
+import type { TxMeta } from '../constants'
+
+/**
+ * Hook for tracking which transactions are saved as favorites
+ */
+export function useFavorites(currentTx: TxMeta | null) {
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set())
+
+  // Load saved favorites once on mount
+  useEffect(() => {
+    listFavorites()
+      .then(entries => setFavoriteIds(new Set(entries.map(entry => entry.tx.id))))
+      .catch(error => logger.warn('Failed to load favorites', error))
+  }, [])
+
+  const toggle = async (tx: TxMeta | null = currentTx) => {
+    if (!tx) return
+    try {
+      const saved = await toggleFavorite(tx)
+      setFavoriteIds(prev => {
+        const next = new Set(prev)
+        if (saved) next.add(tx.id)
+        else next.delete(tx.id)
+        return next
+      })
+    } catch (error) {
+      logger.error('Failed to toggle favorite', error)
+    }
+  }
+
+  return {
+    favoriteIds,
+    isCurrentFavorite: !!currentTx && favoriteIds.has(currentTx.id),
+    favoritesCount: favoriteIds.size,
+    toggleFavorite: toggle
+  }
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, useRef, useCallback } from 'preact/hooks'
+import { peekNextTransactions } from '../engine/fetchQueue'
+import { tagFiltersKey } from '../utils/tagFilters'
+import { logger } from '../utils/logger'
+import { GALLERY_PAGE_SIZE, type Channel, type TxMeta } from '../constants'
+
+/**
+ * Hook for gallery mode: pages of the channel's queue as tiles, with more
+ * peeked (and the queue refilled) each time the grid is scrolled to the end.
+ * Tiles stay in the queue and are not counted as seen.
+ */
+export function useGallery(channel: Channel, active: boolean) {
+  const [items, setItems] = useState<TxMeta[]>([])
+  const [loading, setLoading] = useState(false)
+  const [exhausted, setExhausted] = useState(false)
+  const [epoch, setEpoch] = useState(0)
+  const loadingRef = useRef(false)
+  const generationRef = useRef(0)
+
+  const loadMore = useCallback(async () => {
+    if (!active || loadingRef.current || exhausted) return
+    const generation = generationRef.current
+    loadingRef.current = true
+    setLoading(true)
+    try {
+      const shown = new Set(items.map(tx => tx.id))
+      const page = await peekNextTransactions(channel, GALLERY_PAGE_SIZE, shown)
+      if (generation !== generationRef.current) return
+      if (page.length === 0) setExhausted(true)
+      setItems(prev => [...prev, ...page.filter(tx => !prev.some(p => p.id === tx.id))])
+    } catch (error) {
+      logger.warn('Failed to load gallery page', error)
+      if (generation === generationRef.current) setExhausted(true)
+    } finally {
+      loadingRef.current = false
+      setLoading(false)
+    }
+  }, [active, exhausted, channel, items])
+
+  // Start over whenever the gallery opens or the channel changes under it
+  useEffect(() => {
+    generationRef.current++
+    loadingRef.current = false
+    setItems([])
+    setExhausted(false)
+    setEpoch(generationRef.current)
+  }, [
+    active,
+    channel.media,
+    channel.recency,
+    channel.ownerAddress,
+    channel.ownerAddresses?.join(','),
+    channel.appName,
+    tagFiltersKey(channel.tagFilters)
+  ])
+
+  // First page once the reset has been rendered
+  useEffect(() => {
+    if (active && items.length === 0 && !exhausted) loadMore()
+  }, [active, epoch, items.length === 0, exhausted])
+
+  return { items, loading, exhausted, loadMore }
+}
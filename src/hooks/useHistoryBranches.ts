@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'preact/hooks'
+import { getHistoryBranches, type HistoryBranchPoint } from '../engine/history'
+import { logger } from '../utils/logger'
+import type { TxMeta } from '../constants'
+
+/**
+ * Hook for the branch points on the path to the current history entry
+ */
+export function useHistoryBranches(currentTx: TxMeta | null, open: boolean) {
+  const [branches, setBranches] = useState<HistoryBranchPoint[]>([])
+
+  // Reload whenever the current item changes while the view is open
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    getHistoryBranches()
+      .then(points => { if (!cancelled) setBranches(points) })
+      .catch(error => logger.warn('Failed to load history branches', error))
+    return () => { cancelled = true }
+  }, [currentTx?.id, open])
+
+  return branches
+}
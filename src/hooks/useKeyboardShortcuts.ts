@@ -10,6 +10,8 @@ interface KeyboardShortcutsConfig {
   onTogglePrivacy: () => void
   onFullscreen?: () => void
   onSessionStats?: () => void
+  onToggleFavorite?: () => void
+  onOpenSearch?: () => void
 }
 
 export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
@@ -28,7 +30,7 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
       // Prevent default for our handled keys
       const handledKeys = [
         ' ', 'Enter', 'Backspace', 'ArrowLeft', 'ArrowRight', 
-        's', 'd', 'f', 'c', 'Escape', 'p', 't', '?'
+        's', 'd', 'f', 'c', 'Escape', 'p', 't', 'h', '/', '?'
       ]
       
       if (handledKeys.includes(event.key) || handledKeys.includes(event.code)) {
@@ -81,6 +83,19 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
           }
           break
           
+        case 'h':
+        case 'H':
+          if (config.onToggleFavorite) {
+            config.onToggleFavorite()
+          }
+          break
+          
+        case '/':
+          if (config.onOpenSearch) {
+            config.onOpenSearch()
+          }
+          break
+          
         case 'Escape':
           config.onCloseOverlays()
           break
@@ -101,6 +116,8 @@ Actions:
   P              Toggle privacy screen
   F              Fullscreen mode
   T              Session statistics
+  H              Add/remove favorite
+  /              Search viewed content
   
 General:
   Escape         Close overlays
@@ -1,8 +1,15 @@
 import { useRef } from 'preact/hooks'
 import { initFetchQueue, getNextTx, clearSeenIds, GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
-import { addHistory, goBack, goForward, peekForward, resetHistory } from '../engine/history'
+import { addHistory, goBack, goForward, peekForward, resetHistory, jumpToHistoryNode, findHistoryNode } from '../engine/history'
+import { clearSearchIndex } from '../engine/searchIndex'
+import { resetArns } from '../engine/arns'
+import { profileMediaType } from '../engine/ownerProfile'
 import { logger } from '../utils/logger'
-import type { Channel, TxMeta } from '../constants'
+import type { Channel, TagFilter, TxMeta } from '../constants'
+import { formatTagFilter } from '../utils/tagFilters'
+import { fetchTxMetaById } from '../engine/query'
+import { resolveArUrl, resolveArUrlToTxId } from '../services/arResolver'
+import type { ArUrl } from '../utils/arUrl'
 
 interface NavigationCallbacks {
   setCurrentTx: (tx: TxMeta | null) => void
@@ -35,10 +42,17 @@ export function useNavigation(callbacks: NavigationCallbacks) {
       await resetHistory()
       logger.debug('History reset')
       
+      // The search index covers viewed content, so it goes with the history
+      await clearSearchIndex()
+      logger.debug('Search index cleared')
+      
       // Clear seen IDs for fresh exploration
       clearSeenIds()
       logger.debug('Seen IDs cleared')
       
+      // Resolve ArNS names afresh and page the registry from the start
+      resetArns()
+      
       // Clear current transaction first
       setCurrentTx(null)
       
@@ -186,12 +200,83 @@ export function useNavigation(callbacks: NavigationCallbacks) {
     }
   }
   
-  const handleShare = async (currentTx: TxMeta | null, media: string, ownerAddress?: string, appName?: string) => {
+  // Jump straight to a known transaction (e.g. from a collection) and record it in history
+  const handleOpenTx = async (tx: TxMeta) => {
+    clearError()
+    try {
+      await addHistory(tx)
+      setCurrentTx(tx)
+    } catch (e) {
+      logger.error('Open failed', e)
+      setError('Failed to open content.')
+    }
+  }
+  
+  // Switch to another branch of the history tree
+  const handleJumpToHistory = async (nodeId: string) => {
+    clearError()
+    try {
+      const tx = await jumpToHistoryNode(nodeId)
+      if (tx) {
+        setCurrentTx(tx)
+      } else {
+        setError('That history entry is no longer available.')
+      }
+    } catch (e) {
+      logger.error('History jump failed', e)
+      setError('Failed to switch branch.')
+    }
+  }
+  
+  // Return to a previously viewed transaction, reusing its history entry when it still exists
+  const handleRevisitTx = async (tx: TxMeta) => {
+    const nodeId = await findHistoryNode(tx.id)
+    if (nodeId) {
+      await handleJumpToHistory(nodeId)
+    } else {
+      await handleOpenTx(tx)
+    }
+  }
+  
+  // Follow an ar:// link inside Roam; names that do not resolve open on the gateway instead
+  const handleOpenArUrl = async (url: ArUrl) => {
+    clearError()
+    const txId = await resolveArUrlToTxId(url)
+    if (!txId) {
+      const gatewayUrl = resolveArUrl(url)
+      if (gatewayUrl) window.open(gatewayUrl, '_blank', 'noopener,noreferrer')
+      return
+    }
+    
+    setLoading(true)
+    try {
+      const tx = await fetchTxMetaById(txId)
+      await handleRevisitTx(tx)
+    } catch (e) {
+      logger.error('Open ar:// link failed', e)
+      setError('Failed to open linked content.')
+    } finally {
+      setLoading(false)
+    }
+  }
+  
+  const handleShare = async (currentTx: TxMeta | null, media: string, ownerAddress?: string, appName?: string, tagFilters: TagFilter[] = []) => {
     if (!currentTx) return
     
+    // Favorites only exist on this device, so the link opens the tx's own channel
+    let channelMedia = media
+    if (media === "favorites") {
+      const txMedia = profileMediaType(currentTx)
+      channelMedia = txMedia === "other" ? "everything" : txMedia
+    }
+    
     const params = new URLSearchParams()
     params.set("txid", currentTx.id)
-    params.set("channel", media)
+    params.set("channel", channelMedia)
+    
+    if (currentTx.arnsName) {
+      params.set("arns", currentTx.arnsName)
+    }
     
     if (ownerAddress) {
       params.set("ownerAddress", ownerAddress)
@@ -201,6 +286,10 @@ export function useNavigation(callbacks: NavigationCallbacks) {
       params.set("appName", appName)
     }
     
+    for (const filter of tagFilters) {
+      params.append("tag", formatTagFilter(filter))
+    }
+    
     const min = blockRangeRef.current?.min
     const max = blockRangeRef.current?.max
     if (min !== undefined && max !== undefined) {
@@ -259,6 +348,10 @@ export function useNavigation(callbacks: NavigationCallbacks) {
     handleBack,
     handleNext,
     handleRoam,
+    handleOpenTx,
+    handleJumpToHistory,
+    handleRevisitTx,
+    handleOpenArUrl,
     handleShare,
     handleDownload,
     initializeQueue
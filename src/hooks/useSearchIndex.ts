@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'preact/hooks'
+import { indexTx, indexText, searchIndex, type SearchFilters, type SearchResult } from '../engine/searchIndex'
+import { logger } from '../utils/logger'
+import type { TxMeta } from '../constants'
+
+const SEARCH_DEBOUNCE_MS = 200
+
+/**
+ * Hook that records every viewed transaction in the local search index
+ */
+export function useSearchIndexer(currentTx: TxMeta | null) {
+  useEffect(() => {
+    if (!currentTx) return
+    indexTx(currentTx).catch(error => logger.warn('Failed to index transaction', error))
+  }, [currentTx?.id])
+
+  // Called by MediaView once text/markdown content has been read
+  const handleTextExtracted = (tx: TxMeta, text: string) => {
+    indexText(tx, text).catch(error => logger.warn('Failed to index text', error))
+  }
+
+  return { handleTextExtracted }
+}
+
+/**
+ * Hook for querying the local search index with debouncing
+ */
+export function useSearch(open: boolean) {
+  const [query, setQuery] = useState('')
+  const [filters, setFilters] = useState<SearchFilters>({})
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setSearching(true)
+
+    const timer = setTimeout(() => {
+      searchIndex(query, filters)
+        .then(found => { if (!cancelled) setResults(found) })
+        .catch(error => logger.warn('Search failed', error))
+        .finally(() => { if (!cancelled) setSearching(false) })
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, query, filters])
+
+  return { query, setQuery, filters, setFilters, results, searching }
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback, useRef } from 'preact/hooks'
+import { verifyTxSignature, type SignatureCheck } from '../engine/txSignature'
+import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
+import { logger } from '../utils/logger'
+import type { TxMeta } from '../constants'
+
+/**
+ * Hook for the opt-in signature check of the current transaction. Nothing is
+ * fetched until `verify` is called; the result is dropped when the tx changes.
+ */
+export function useTxSignature(currentTx: TxMeta | null) {
+  const [check, setCheck] = useState<SignatureCheck | null>(null)
+  const [verifying, setVerifying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const currentId = useRef<string | null>(null)
+
+  useEffect(() => {
+    currentId.current = currentTx?.id ?? null
+    setCheck(null)
+    setVerifying(false)
+    setError(null)
+  }, [currentTx?.id])
+
+  const verify = useCallback(async () => {
+    if (!currentTx) return
+    const txId = currentTx.id
+    setVerifying(true)
+    setError(null)
+    try {
+      const result = await verifyTxSignature(currentTx, GATEWAY_DATA_SOURCE[0])
+      if (currentId.current === txId) setCheck(result)
+    } catch (err) {
+      logger.warn(`Failed to verify the signature of ${txId}`, err)
+      if (currentId.current === txId) setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      if (currentId.current === txId) setVerifying(false)
+    }
+  }, [currentTx])
+
+  return { check, verifying, error, verify }
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'preact/hooks'
 import { wayfinderService } from '../services/wayfinder'
-import type { ContentRequest, ContentResponse, VerificationStatus } from '../services/wayfinderTypes'
+import type { ContentRequest, ContentResponse, VerificationEvent, VerificationStatus } from '../services/wayfinderTypes'
+import { resolveContentType } from '../utils/contentSniffing'
 import { logger } from '../utils/logger'
 
 interface UseWayfinderContentResult {
@@ -13,18 +14,25 @@ interface UseWayfinderContentResult {
   isWayfinderEnabled: boolean
   data: Blob | null
   contentType: string | null
+  sniffedContentType: string | null
+  resolvedContentType: string | null
+  stream: ReadableStream<Uint8Array> | null
+  /** Bytes received while a binary body downloads; null once it is complete */
+  progress: { loadedBytes: number; totalBytes: number | null } | null
 }
 
 /**
  * Hook for fetching content URLs via Wayfinder with verification
- * Now supports size-aware loading and forced fetching
+ * Now supports size-aware loading, forced fetching and, for callers that
+ * can play one, a streamed body for video and audio
  */
 export function useWayfinderContent(
   txId: string | null,
   path?: string,
   forceLoad?: boolean,
   contentType?: string,
-  size?: number
+  size?: number,
+  stream?: boolean
 ): UseWayfinderContentResult {
   const [result, setResult] = useState<UseWayfinderContentResult>({
     url: null,
@@ -40,6 +48,10 @@ export function useWayfinderContent(
     isWayfinderEnabled: false,
     data: null,
     contentType: null,
+    sniffedContentType: null,
+    resolvedContentType: null,
+    stream: null,
+    progress: null,
   })
 
   useEffect(() => {
@@ -49,7 +61,9 @@ export function useWayfinderContent(
         url: null,
         gateway: null,
         loading: false,
-        error: null
+        error: null,
+        stream: null,
+        progress: null
       }))
       return
     }
@@ -58,8 +72,23 @@ export function useWayfinderContent(
     let pollInterval: any = null
 
     // Register event listener BEFORE making the request to avoid race conditions
-    const handleVerificationEvent = (event: any) => {
-      if (event.txId === txId && !cancelled) {
+    const handleVerificationEvent = (event: VerificationEvent) => {
+      if (event.txId !== txId || cancelled) return
+      if (event.type === 'download-progress') {
+        setResult(prev => ({
+          ...prev,
+          progress: event.progress === 100
+            ? null
+            : { loadedBytes: event.loadedBytes ?? 0, totalBytes: event.totalBytes ?? null }
+        }))
+      } else if (event.type === 'content-sniffed') {
+        const sniffedContentType = event.sniffedContentType ?? null
+        setResult(prev => ({
+          ...prev,
+          sniffedContentType,
+          resolvedContentType: resolveContentType(prev.contentType || contentType, sniffedContentType)
+        }))
+      } else {
         setResult(prev => ({
           ...prev,
           verified: event.type === 'verification-completed',
@@ -76,7 +105,11 @@ export function useWayfinderContent(
         setResult(prev => ({
           ...prev,
           loading: true,
-          error: null
+          error: null,
+          sniffedContentType: null,
+          resolvedContentType: null,
+          stream: null,
+          progress: null
         }))
 
         // Check if Wayfinder is available
@@ -87,7 +120,8 @@ export function useWayfinderContent(
           txId,
           path,
           contentType,
-          size
+          size,
+          stream
         }
 
         // Get content URL - pass forceLoad flag for size-aware loading
@@ -108,7 +142,15 @@ export function useWayfinderContent(
           verificationStatus: currentVerificationStatus, // Use current status
           isWayfinderEnabled,
           data: response.data,
-          contentType: response.contentType
+          contentType: response.contentType,
+          // A sniff that finished before the response keeps its result
+          sniffedContentType: response.sniffedContentType ?? prev.sniffedContentType,
+          resolvedContentType: prev.sniffedContentType && !response.sniffedContentType
+            ? resolveContentType(response.contentType || contentType, prev.sniffedContentType)
+            : response.resolvedContentType,
+          stream: response.stream ?? null,
+          // A buffered body is complete by now; one still downloading keeps reporting
+          progress: response.data ? null : prev.progress
         }))
 
         // Add verification status polling for missed events
@@ -158,6 +200,7 @@ export function useWayfinderContent(
           ...prev,
           loading: false,
           error: errorMessage,
+          progress: null,
           verificationStatus: {
             txId,
             status: 'failed',
@@ -178,7 +221,7 @@ export function useWayfinderContent(
         pollInterval = null
       }
     }
-  }, [txId, path, forceLoad]) // Removed contentType and size to prevent unnecessary re-requests
+  }, [txId, path, forceLoad, stream]) // Removed contentType and size to prevent unnecessary re-requests
 
   return result
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'preact/hooks'
 import { wayfinderService } from '../services/wayfinder'
 import { logger } from '../utils/logger'
-import type { WayfinderConfig } from '../services/wayfinderTypes'
+import type { VerificationStrategyType, WayfinderConfig } from '../services/wayfinderTypes'
 
 interface WayfinderSettings {
   // Master control (combines routing + verification)
@@ -20,7 +20,7 @@ interface WayfinderSettings {
   routingTimeoutMs: number
   
   // Verification configuration
-  verificationStrategy: 'hash' | 'none'
+  verificationStrategy: VerificationStrategyType
   trustedGateways: string[]
   verificationTimeoutMs: number
   
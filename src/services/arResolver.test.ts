@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { resolveArUrl, resolveArUrlToTxId } from './arResolver'
+import { resetArns } from '../engine/arns'
+
+vi.mock('./wayfinder', () => ({
+  wayfinderService: {
+    getFallbackGateway: () => 'https://arweave.net'
+  }
+}))
+
+const TX_ID = 'Ar9lHUwJmGLdzLhBSm5pDOaNlk4Xi9nQBkBq4Jx3pLs'
+
+describe('arResolver', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset()
+    resetArns()
+  })
+
+  describe('resolveArUrl', () => {
+    it('should map transactions and ArNS names to gateway URLs', () => {
+      expect(resolveArUrl(`ar://${TX_ID}/a.png`)).toBe(`https://arweave.net/${TX_ID}/a.png`)
+      expect(resolveArUrl('ar://docs_ardrive/guide')).toBe('https://docs_ardrive.arweave.net/guide')
+    })
+
+    it('should return null for anything but ar:// URLs', () => {
+      expect(resolveArUrl('https://ar.io')).toBeNull()
+    })
+  })
+
+  describe('resolveArUrlToTxId', () => {
+    it('should return transaction ids without a request', async () => {
+      expect(await resolveArUrlToTxId(`ar://${TX_ID}`)).toBe(TX_ID)
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('should resolve ArNS names on the fallback gateway', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        headers: { get: () => TX_ID }
+      } as unknown as Response)
+
+      expect(await resolveArUrlToTxId('ar://ardrive/docs')).toBe(TX_ID)
+      expect(fetch).toHaveBeenCalledWith('https://ardrive.arweave.net', { method: 'HEAD' })
+    })
+  })
+})
@@ -0,0 +1,33 @@
+import { wayfinderService } from './wayfinder'
+import { arnsGatewayUrl, resolveArnsName } from '../engine/arns'
+import { parseArUrl, type ArUrl } from '../utils/arUrl'
+
+const toArUrl = (url: ArUrl | string): ArUrl | null => (typeof url === 'string' ? parseArUrl(url) : url)
+
+/**
+ * Gateway URL for an ar:// reference: `<gateway>/<txid>/path` for
+ * transactions and `https://<name>.<gateway host>/path` for ArNS names.
+ * Uses the same fallback gateway Wayfinder uses, so no request is made.
+ */
+export function resolveArUrl(url: ArUrl | string): string | null {
+  const parsed = toArUrl(url)
+  if (!parsed) return null
+
+  const gateway = wayfinderService.getFallbackGateway()
+  if (parsed.kind === 'tx') {
+    return `${gateway}/${parsed.txId}${parsed.path}`
+  }
+  const nameUrl = arnsGatewayUrl(parsed.name, gateway)
+  return nameUrl && `${nameUrl}${parsed.path}`
+}
+
+/**
+ * Transaction id an ar:// reference points at. ArNS names are resolved by
+ * asking the gateway which transaction it serves for the name.
+ */
+export async function resolveArUrlToTxId(url: ArUrl | string): Promise<string | null> {
+  const parsed = toArUrl(url)
+  if (!parsed) return null
+  if (parsed.kind === 'tx') return parsed.txId
+  return resolveArnsName(parsed.name, wayfinderService.getFallbackGateway())
+}
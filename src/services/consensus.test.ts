@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { runConsensusCheck } from './consensus'
+import { bytesToB64Url, sha256 } from '../utils/arweaveCrypto'
+import type { ConsensusGateway } from './wayfinderTypes'
+
+const TX_ID = 'test-tx-id'
+const GOOD = new TextEncoder().encode('original bytes')
+const BAD = new TextEncoder().encode('tampered bytes')
+
+const ROUTED: ConsensusGateway = { url: 'https://routed.io', role: 'routed' }
+const TRUSTED_A: ConsensusGateway = { url: 'https://trusted-a.io', role: 'trusted' }
+const TRUSTED_B: ConsensusGateway = { url: 'https://trusted-b.io', role: 'trusted' }
+const NETWORK: ConsensusGateway = { url: 'https://network.io', role: 'network' }
+
+const bodyResponse = (bytes: Uint8Array, headers: Record<string, string> = {}) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers({ 'content-type': 'image/png', 'content-length': String(bytes.byteLength), ...headers }),
+  body: { cancel: vi.fn() },
+  arrayBuffer: async () => bytes.slice().buffer
+}) as unknown as Response
+
+/** Serve `bodies[gateway]` for each gateway; missing gateways reject */
+function mockGateways(bodies: Record<string, Response | Error>) {
+  vi.mocked(fetch).mockImplementation(async (input) => {
+    const gateway = Object.keys(bodies).find(url => String(input).startsWith(url))
+    const body = gateway ? bodies[gateway] : new Error('unknown gateway')
+    if (body instanceof Error) throw body
+    return body
+  })
+}
+
+describe('Consensus Check', () => {
+  let goodDigest: string
+
+  beforeEach(async () => {
+    vi.mocked(fetch).mockReset()
+    goodDigest = bytesToB64Url(await sha256(GOOD))
+  })
+
+  it('should report consistent gateways when all serve the same bytes', async () => {
+    mockGateways({
+      [ROUTED.url]: bodyResponse(GOOD),
+      [TRUSTED_A.url]: bodyResponse(GOOD),
+      [TRUSTED_B.url]: bodyResponse(GOOD)
+    })
+
+    const report = await runConsensusCheck(TX_ID, [ROUTED, TRUSTED_A, TRUSTED_B])
+    expect(report.verdict).toBe('consistent')
+    expect(report.majorityDigest).toBe(goodDigest)
+    expect(report.majoritySize).toBe(GOOD.byteLength)
+    expect(report.majorityContentType).toBe('image/png')
+    expect(report.results.every(r => r.agrees)).toBe(true)
+    expect(fetch).toHaveBeenCalledWith(`${ROUTED.url}/raw/${TX_ID}`, expect.anything())
+  })
+
+  it('should blame the routed gateway when it alone serves different bytes', async () => {
+    mockGateways({
+      [ROUTED.url]: bodyResponse(BAD, { 'content-type': 'text/html' }),
+      [TRUSTED_A.url]: bodyResponse(GOOD),
+      [TRUSTED_B.url]: bodyResponse(GOOD)
+    })
+
+    const report = await runConsensusCheck(TX_ID, [ROUTED, TRUSTED_A, TRUSTED_B])
+    expect(report.verdict).toBe('routed-outlier')
+    expect(report.results.map(r => r.agrees)).toEqual([false, true, true])
+    expect(report.majorityContentType).toBe('image/png')
+  })
+
+  it('should blame the trusted set when a trusted gateway disagrees', async () => {
+    mockGateways({
+      [ROUTED.url]: bodyResponse(GOOD),
+      [TRUSTED_A.url]: bodyResponse(BAD),
+      [NETWORK.url]: bodyResponse(GOOD)
+    })
+
+    const report = await runConsensusCheck(TX_ID, [ROUTED, TRUSTED_A, NETWORK])
+    expect(report.verdict).toBe('trusted-outlier')
+  })
+
+  it('should report a split when no digest has a majority', async () => {
+    mockGateways({
+      [ROUTED.url]: bodyResponse(GOOD),
+      [TRUSTED_A.url]: bodyResponse(BAD)
+    })
+
+    const report = await runConsensusCheck(TX_ID, [ROUTED, TRUSTED_A])
+    expect(report.verdict).toBe('split')
+  })
+
+  it('should record failing gateways and report too few answers', async () => {
+    mockGateways({
+      [ROUTED.url]: bodyResponse(GOOD),
+      [TRUSTED_A.url]: { ok: false, status: 404, headers: new Headers() } as Response,
+      [TRUSTED_B.url]: new Error('Network down')
+    })
+
+    const report = await runConsensusCheck(TX_ID, [ROUTED, TRUSTED_A, TRUSTED_B])
+    expect(report.verdict).toBe('unavailable')
+    expect(report.results[1]).toMatchObject({ httpStatus: 404, error: 'HTTP 404', agrees: null })
+    expect(report.results[2]).toMatchObject({ httpStatus: null, error: 'Network down', agrees: null })
+  })
+
+  it('should compare reported digests for bodies above the download limit', async () => {
+    const large = { 'content-length': String(100 * 1024 * 1024), 'x-ar-io-digest': goodDigest }
+    const routed = bodyResponse(GOOD, large)
+    mockGateways({
+      [ROUTED.url]: routed,
+      [TRUSTED_A.url]: bodyResponse(GOOD, large)
+    })
+
+    const report = await runConsensusCheck(TX_ID, [ROUTED, TRUSTED_A])
+    expect(report.verdict).toBe('consistent')
+    expect(report.results[0]).toMatchObject({ digest: null, reportedDigest: goodDigest, agrees: true })
+    expect(routed.body!.cancel).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,112 @@
+import { logger } from '../utils/logger'
+import { bytesToB64Url, sha256 } from '../utils/arweaveCrypto'
+import { CONSENSUS_MAX_BYTES, CONSENSUS_TIMEOUT } from '../constants'
+import type {
+  ConsensusGateway,
+  ConsensusGatewayResult,
+  ConsensusReport,
+  ConsensusVerdict
+} from './wayfinderTypes'
+
+/**
+ * Most common non-null value and how often it occurs
+ */
+function majorityOf<T>(values: (T | null)[]): { value: T | null; count: number } {
+  const counts = new Map<T, number>()
+  for (const value of values) {
+    if (value !== null) counts.set(value, (counts.get(value) ?? 0) + 1)
+  }
+  let best: { value: T | null; count: number } = { value: null, count: 0 }
+  for (const [value, count] of counts) {
+    if (count > best.count) best = { value, count }
+  }
+  return best
+}
+
+/**
+ * Fetch the raw data of `txId` from one gateway. The body is hashed here
+ * unless it is larger than CONSENSUS_MAX_BYTES, in which case only the
+ * gateway's own x-ar-io-digest is available to compare.
+ */
+async function probeGateway(txId: string, gateway: ConsensusGateway): Promise<Omit<ConsensusGatewayResult, 'agrees'>> {
+  const started = Date.now()
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), CONSENSUS_TIMEOUT)
+  const result: Omit<ConsensusGatewayResult, 'agrees'> = {
+    ...gateway,
+    httpStatus: null,
+    size: null,
+    contentType: null,
+    digest: null,
+    reportedDigest: null,
+    durationMs: 0
+  }
+
+  try {
+    const response = await fetch(`${gateway.url}/raw/${txId}`, { signal: controller.signal })
+    result.httpStatus = response.status
+    result.contentType = response.headers.get('content-type')
+    result.reportedDigest = response.headers.get('x-ar-io-digest')
+    const contentLength = response.headers.get('content-length')
+    result.size = contentLength !== null ? Number(contentLength) : null
+
+    if (!response.ok) {
+      result.error = `HTTP ${response.status}`
+    } else if (result.size !== null && result.size > CONSENSUS_MAX_BYTES) {
+      await response.body?.cancel()
+    } else {
+      const bytes = new Uint8Array(await response.arrayBuffer())
+      result.size = bytes.byteLength
+      result.digest = bytesToB64Url(await sha256(bytes))
+    }
+  } catch (error) {
+    result.error = controller.signal.aborted
+      ? `Timed out after ${CONSENSUS_TIMEOUT / 1000}s`
+      : error instanceof Error ? error.message : 'Request failed'
+  } finally {
+    clearTimeout(timeout)
+    result.durationMs = Date.now() - started
+  }
+  return result
+}
+
+function verdictFor(results: ConsensusGatewayResult[], majorityCount: number, answered: number): ConsensusVerdict {
+  if (answered < 2) return 'unavailable'
+  if (majorityCount * 2 <= answered) return 'split'
+  if (results.some(r => r.role === 'routed' && r.agrees === false)) return 'routed-outlier'
+  if (results.some(r => r.role === 'trusted' && r.agrees === false)) return 'trusted-outlier'
+  return 'consistent'
+}
+
+/**
+ * Fetch the same transaction from every gateway and compare what they serve,
+ * to tell whether a failed verification points at the routed gateway or at
+ * the trusted set. Gateways that fail to answer are reported, not thrown.
+ */
+export async function runConsensusCheck(txId: string, gateways: ConsensusGateway[]): Promise<ConsensusReport> {
+  const probes = await Promise.all(gateways.map(gateway => probeGateway(txId, gateway)))
+
+  // A locally computed digest is preferred; a reported one stands in for large bodies
+  const digestOf = (probe: Omit<ConsensusGatewayResult, 'agrees'>) =>
+    probe.error ? null : probe.digest ?? probe.reportedDigest
+  const majority = majorityOf(probes.map(digestOf))
+  const answered = probes.filter(probe => digestOf(probe) !== null).length
+
+  const results: ConsensusGatewayResult[] = probes.map(probe => {
+    const digest = digestOf(probe)
+    return { ...probe, agrees: digest === null || majority.value === null ? null : digest === majority.value }
+  })
+  const agreeing = results.filter(r => r.agrees)
+
+  const report: ConsensusReport = {
+    txId,
+    results,
+    verdict: verdictFor(results, majority.count, answered),
+    majorityDigest: majority.value,
+    majorityContentType: majorityOf(agreeing.map(r => r.contentType)).value,
+    majoritySize: majorityOf(agreeing.map(r => r.size)).value,
+    checkedAt: Date.now()
+  }
+  logger.info(`Consensus check for ${txId}: ${report.verdict} (${majority.count}/${answered} gateways agree)`)
+  return report
+}
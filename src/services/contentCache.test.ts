@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { CONTENT_CACHE_MAX_BYTES, CONTENT_CACHE_MAX_ENTRIES } from '../constants'
+import type { CachedContent } from './wayfinderTypes'
+
+// In-memory idb-keyval: one map per store, the default store under 'default'
+const stores = vi.hoisted(() => new Map<string, Map<unknown, unknown>>())
+
+vi.mock('idb-keyval', () => {
+  const storeOf = (name = 'default') => {
+    if (!stores.has(name)) stores.set(name, new Map())
+    return stores.get(name)!
+  }
+  return {
+    createStore: vi.fn(() => 'blobs'),
+    get: vi.fn(async (key, store) => storeOf(store).get(key)),
+    set: vi.fn(async (key, value, store) => { storeOf(store).set(key, value) }),
+    update: vi.fn(async (key, updater, store) => { storeOf(store).set(key, updater(storeOf(store).get(key))) }),
+    del: vi.fn(async (key, store) => { storeOf(store).delete(key) }),
+    delMany: vi.fn(async (keys: unknown[], store) => { keys.forEach(key => storeOf(store).delete(key)) }),
+    clear: vi.fn(async store => { storeOf(store).clear() }),
+  }
+})
+
+import { getPersistedContent, persistContent, getContentCacheUsage, clearContentCache } from './contentCache'
+
+const content = (txId: string, size: number): CachedContent => ({
+  data: new Blob(['x']),
+  contentType: 'image/png',
+  url: `https://arweave.net/${txId}`,
+  gateway: 'https://arweave.net',
+  verified: true,
+  verificationStatus: { txId, status: 'verified', timestamp: 1 },
+  timestamp: 1,
+  size,
+})
+
+describe('Content Cache Service', () => {
+  beforeEach(() => {
+    stores.clear()
+    vi.useRealTimers()
+  })
+
+  it('should store and return verified content with its status', async () => {
+    await persistContent('tx-a', content('tx-a', 100))
+
+    const cached = await getPersistedContent('tx-a')
+    expect(cached?.verificationStatus.status).toBe('verified')
+    expect(await getPersistedContent('tx-b')).toBeNull()
+    expect(await getContentCacheUsage()).toEqual({ entries: 1, bytes: 100, maxBytes: CONTENT_CACHE_MAX_BYTES })
+  })
+
+  it('should evict the least recently used entries when over the byte budget', async () => {
+    vi.useFakeTimers()
+    const third = Math.floor(CONTENT_CACHE_MAX_BYTES / 3)
+
+    vi.setSystemTime(1000)
+    await persistContent('tx-a', content('tx-a', third))
+    vi.setSystemTime(2000)
+    await persistContent('tx-b', content('tx-b', third))
+    // Reading tx-a makes tx-b the least recently used
+    vi.setSystemTime(3000)
+    await getPersistedContent('tx-a')
+    vi.setSystemTime(4000)
+    await persistContent('tx-c', content('tx-c', third * 2))
+
+    expect(await getPersistedContent('tx-b')).toBeNull()
+    expect(await getPersistedContent('tx-a')).not.toBeNull()
+    expect(await getContentCacheUsage()).toMatchObject({ entries: 2, bytes: third * 3 })
+  })
+
+  it('should cap the number of entries', async () => {
+    for (let i = 0; i <= CONTENT_CACHE_MAX_ENTRIES; i++) {
+      await persistContent(`tx-${i}`, content(`tx-${i}`, 1))
+    }
+
+    expect((await getContentCacheUsage()).entries).toBe(CONTENT_CACHE_MAX_ENTRIES)
+  })
+
+  it('should skip blobs larger than the whole budget and clear everything', async () => {
+    await persistContent('huge', content('huge', CONTENT_CACHE_MAX_BYTES + 1))
+    await persistContent('tx-a', content('tx-a', 10))
+    expect((await getContentCacheUsage()).entries).toBe(1)
+
+    await clearContentCache()
+    expect(await getPersistedContent('tx-a')).toBeNull()
+    expect(await getContentCacheUsage()).toMatchObject({ entries: 0, bytes: 0 })
+  })
+})
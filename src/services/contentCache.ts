@@ -0,0 +1,112 @@
+import { createStore, get, set, update, delMany, del, clear } from 'idb-keyval'
+import { logger } from '../utils/logger'
+import {
+  CONTENT_CACHE_DB_NAME,
+  CONTENT_CACHE_STORE_NAME,
+  CONTENT_CACHE_INDEX_KEY,
+  CONTENT_CACHE_MAX_ENTRIES,
+  CONTENT_CACHE_MAX_BYTES
+} from '../constants'
+import type { CachedContent, ContentCacheUsage } from './wayfinderTypes'
+
+interface ContentCacheIndexEntry {
+  size: number
+  lastAccess: number
+}
+
+interface ContentCacheIndex {
+  totalBytes: number
+  entries: Record<string, ContentCacheIndexEntry>
+}
+
+/**
+ * One CachedContent record per tx id + path. Only the compact index
+ * (CONTENT_CACHE_INDEX_KEY) is rewritten when an entry is read.
+ */
+const contentStore = createStore(CONTENT_CACHE_DB_NAME, CONTENT_CACHE_STORE_NAME)
+
+const emptyIndex = (): ContentCacheIndex => ({ totalBytes: 0, entries: {} })
+
+/**
+ * Add or refresh an entry, then evict least recently used entries until the
+ * index is within CONTENT_CACHE_MAX_ENTRIES / CONTENT_CACHE_MAX_BYTES.
+ * Returns the evicted keys so their records can be deleted.
+ */
+function touchEntry(index: ContentCacheIndex, key: string, size: number): string[] {
+  index.totalBytes += size - (index.entries[key]?.size ?? 0)
+  index.entries[key] = { size, lastAccess: Date.now() }
+
+  const withinCaps = () =>
+    Object.keys(index.entries).length <= CONTENT_CACHE_MAX_ENTRIES && index.totalBytes <= CONTENT_CACHE_MAX_BYTES
+  if (withinCaps()) return []
+
+  const candidates = Object.entries(index.entries)
+    .filter(([k]) => k !== key)
+    .sort(([, a], [, b]) => a.lastAccess - b.lastAccess)
+    .map(([k]) => k)
+
+  const evicted: string[] = []
+  for (const k of candidates) {
+    if (withinCaps()) break
+    index.totalBytes -= index.entries[k].size
+    delete index.entries[k]
+    evicted.push(k)
+  }
+  return evicted
+}
+
+async function recordAccess(key: string, size: number): Promise<void> {
+  let evicted: string[] = []
+  await update<ContentCacheIndex>(CONTENT_CACHE_INDEX_KEY, (index = emptyIndex()) => {
+    evicted = touchEntry(index, key, size)
+    return index
+  })
+  if (evicted.length > 0) {
+    await delMany(evicted, contentStore)
+    logger.debug('Content cache evicted', { evicted: evicted.length })
+  }
+}
+
+/**
+ * Verified content stored under `key` (tx id + path) by an earlier session,
+ * or null. Storage errors are treated as a miss.
+ */
+export async function getPersistedContent(key: string): Promise<CachedContent | null> {
+  try {
+    const content = await get<CachedContent>(key, contentStore)
+    if (!content) return null
+    await recordAccess(key, content.size)
+    return content
+  } catch (error) {
+    logger.warn(`Failed to read cached content for ${key}:`, error)
+    return null
+  }
+}
+
+/**
+ * Persist verified content under `key`. Blobs larger than the whole budget
+ * are not stored.
+ */
+export async function persistContent(key: string, content: CachedContent): Promise<void> {
+  if (content.size > CONTENT_CACHE_MAX_BYTES) return
+  try {
+    await set(key, content, contentStore)
+    await recordAccess(key, content.size)
+  } catch (error) {
+    logger.warn(`Failed to cache content for ${key}:`, error)
+  }
+}
+
+export async function getContentCacheUsage(): Promise<ContentCacheUsage> {
+  const index = (await get<ContentCacheIndex>(CONTENT_CACHE_INDEX_KEY)) ?? emptyIndex()
+  return {
+    entries: Object.keys(index.entries).length,
+    bytes: index.totalBytes,
+    maxBytes: CONTENT_CACHE_MAX_BYTES
+  }
+}
+
+export async function clearContentCache(): Promise<void> {
+  await clear(contentStore)
+  await del(CONTENT_CACHE_INDEX_KEY)
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { TransactionHeaderDataRootProvider } from './dataRoot'
+import { mockSignedTxHeader as TX_HEADER } from '../test/utils'
+
+const TX_ID = TX_HEADER.id
+const DATA_ROOT = TX_HEADER.data_root
+
+const headerResponse = (status: number, body: unknown = {}) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  json: () => Promise.resolve(body)
+})
+
+describe('TransactionHeaderDataRootProvider', () => {
+  let provider: TransactionHeaderDataRootProvider
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    provider = new TransactionHeaderDataRootProvider(() => 'https://arweave.net')
+  })
+
+  it('should return the data root from the transaction header, once per transaction', async () => {
+    ;(global.fetch as any).mockResolvedValue(headerResponse(200, TX_HEADER))
+
+    expect(await provider.getDataRoot({ txId: TX_ID })).toBe(DATA_ROOT)
+    expect(await provider.getDataRoot({ txId: TX_ID })).toBe(DATA_ROOT)
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+    expect(global.fetch).toHaveBeenCalledWith(`https://arweave.net/tx/${TX_ID}`)
+  })
+
+  it('should explain why bundled data items cannot be checked', async () => {
+    ;(global.fetch as any).mockResolvedValue(headerResponse(404))
+
+    await expect(provider.getDataRoot({ txId: TX_ID })).rejects.toThrow('bundled data items have no data root')
+  })
+
+  it('should reject pending transactions and headers without data, and retry later', async () => {
+    ;(global.fetch as any)
+      .mockResolvedValueOnce(headerResponse(202))
+      .mockResolvedValueOnce(headerResponse(200, { ...TX_HEADER, data_root: '' }))
+      .mockResolvedValueOnce(headerResponse(200, TX_HEADER))
+
+    await expect(provider.getDataRoot({ txId: TX_ID })).rejects.toThrow('HTTP 202')
+    await expect(provider.getDataRoot({ txId: TX_ID })).rejects.toThrow('no data root')
+    expect(await provider.getDataRoot({ txId: TX_ID })).toBe(DATA_ROOT)
+  })
+
+  it('should reject a data root the owner did not sign', async () => {
+    ;(global.fetch as any).mockResolvedValue(headerResponse(200, { ...TX_HEADER, data_root: 'b'.repeat(43) }))
+
+    await expect(provider.getDataRoot({ txId: TX_ID })).rejects.toThrow('signature does not match')
+  })
+
+  it('should reject a header served for a different transaction', async () => {
+    ;(global.fetch as any).mockResolvedValue(headerResponse(200, TX_HEADER))
+
+    await expect(provider.getDataRoot({ txId: 'a'.repeat(43) })).rejects.toThrow('signature does not match')
+  })
+})
@@ -0,0 +1,45 @@
+import { verifyTransactionHeader, type TransactionHeader } from '../engine/txSignature'
+import { logger } from '../utils/logger'
+import { memoizeAsync } from '../utils/memoizeAsync'
+
+/**
+ * Data roots from signed transaction headers, for the 'local-merkle'
+ * verification strategy. The SDK's DataRootVerificationStrategy computes the
+ * data root of the downloaded bytes on this device and compares it to the one
+ * returned here, so no gateway is trusted to vouch for a hash of the data.
+ * The header itself is only used once its signature checks out.
+ */
+export class TransactionHeaderDataRootProvider {
+  private getGateway: () => string
+  /** A header's data root is fixed by its signature, so each tx is fetched once */
+  private dataRoots = memoizeAsync((txId: string) => this.fetchDataRoot(txId))
+
+  constructor(getGateway: () => string) {
+    this.getGateway = getGateway
+  }
+
+  getDataRoot({ txId }: { txId: string }): Promise<string> {
+    return this.dataRoots(txId)
+  }
+
+  private async fetchDataRoot(txId: string): Promise<string> {
+    const response = await fetch(`${this.getGateway()}/tx/${txId}`)
+    // Bundled data items have no header of their own; pending transactions answer 202
+    if (response.status === 404) {
+      throw new Error('No transaction header: bundled data items have no data root')
+    }
+    if (response.status !== 200) {
+      throw new Error(`Transaction header unavailable (HTTP ${response.status})`)
+    }
+
+    const header: TransactionHeader = await response.json()
+    if (typeof header?.data_root !== 'string' || header.data_root === '') {
+      throw new Error('Transaction header has no data root')
+    }
+    if (!(await verifyTransactionHeader(txId, header))) {
+      throw new Error('Transaction header signature does not match this transaction')
+    }
+    logger.debug(`Data root for ${txId} from transaction header: ${header.data_root}`)
+    return header.data_root
+  }
+}
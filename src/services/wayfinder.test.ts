@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { WayfinderService } from './wayfinder'
+import { getPersistedContent } from './contentCache'
+
+vi.mock('./contentCache', () => ({
+  getPersistedContent: vi.fn().mockResolvedValue(null),
+  persistContent: vi.fn()
+}))
 
 // Mock the AR.IO SDK
 vi.mock('@ar.io/sdk', () => ({
@@ -100,6 +106,153 @@ describe('Wayfinder Service', () => {
       expect(result.contentType).toBe(null)
     })
 
+    it('should sniff a generic content type after returning the URL', async () => {
+      wayfinderService.updateConfig({ enableWayfinder: false })
+      const listener = vi.fn()
+      wayfinderService.addEventListener(listener)
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+      ;(global.fetch as any).mockResolvedValue({
+        ok: true,
+        status: 206,
+        arrayBuffer: () => Promise.resolve(png.buffer)
+      })
+
+      const result = await wayfinderService.getContentUrl({
+        txId: 'test-tx-id',
+        contentType: 'application/octet-stream'
+      })
+
+      expect(result.url).toContain('test-tx-id')
+      expect(result.sniffedContentType).toBe(null)
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'content-sniffed',
+        txId: 'test-tx-id',
+        sniffedContentType: 'image/png'
+      })))
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/test-tx-id'),
+        { headers: { Range: 'bytes=0-511' } }
+      )
+
+      const again = await wayfinderService.getContentUrl({
+        txId: 'test-tx-id',
+        contentType: 'application/octet-stream'
+      })
+      expect(again.resolvedContentType).toBe('image/png')
+    })
+
+    it('should not fetch bytes to sniff a specific declared type', async () => {
+      wayfinderService.updateConfig({ enableWayfinder: false })
+
+      const result = await wayfinderService.getContentUrl({
+        txId: 'test-tx-id',
+        contentType: 'text/markdown'
+      })
+
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(result.sniffedContentType).toBe(null)
+      expect(result.resolvedContentType).toBe('text/markdown')
+    })
+
+    it('should serve verified content persisted by an earlier session', async () => {
+      wayfinderService.updateConfig({ enableWayfinder: false })
+      const data = new Blob(['cached'], { type: 'text/plain' })
+      vi.mocked(getPersistedContent).mockResolvedValueOnce({
+        data,
+        contentType: 'text/plain',
+        url: 'https://permagate.io/test-tx-id',
+        gateway: 'https://permagate.io',
+        verified: true,
+        verificationStatus: { txId: 'test-tx-id', status: 'verified', timestamp: 1 },
+        timestamp: 1,
+        size: data.size
+      })
+
+      const result = await wayfinderService.getContentUrl({ txId: 'test-tx-id' })
+
+      expect(getPersistedContent).toHaveBeenCalledWith('test-tx-id')
+      expect(result.data).toBe(data)
+      expect(result.verified).toBe(true)
+      expect(result.fromCache).toBe(true)
+      expect(wayfinderService.getVerificationStatus('test-tx-id').status).toBe('verified')
+    })
+
+    it('should sniff fetched bytes even when the declared type is specific', async () => {
+      wayfinderService.updateConfig({ enableWayfinder: false })
+      const listener = vi.fn()
+      wayfinderService.addEventListener(listener)
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+      const data = { size: png.length, slice: () => ({ arrayBuffer: () => Promise.resolve(png.buffer) }) }
+      vi.mocked(getPersistedContent).mockResolvedValueOnce({
+        data: data as unknown as Blob,
+        contentType: 'text/plain',
+        url: 'https://permagate.io/test-tx-id',
+        gateway: 'https://permagate.io',
+        verified: true,
+        verificationStatus: { txId: 'test-tx-id', status: 'verified', timestamp: 1 },
+        timestamp: 1,
+        size: png.length
+      })
+
+      await wayfinderService.getContentUrl({ txId: 'test-tx-id', contentType: 'text/plain' })
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'content-sniffed',
+        sniffedContentType: 'image/png'
+      })))
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should hand plain MP4 to the player by URL and download it in the background', async () => {
+      wayfinderService.updateConfig({ enableWayfinder: true, verificationTimeoutMs: 0 })
+      vi.spyOn(wayfinderService, 'initialize').mockResolvedValue()
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new Uint8Array(100))
+          controller.close()
+        }
+      })
+      ;(wayfinderService as any).wayfinder = {
+        request: vi.fn().mockResolvedValue({
+          url: 'https://permagate.io/test-tx-id',
+          headers: new Headers({ 'content-type': 'video/mp4', 'content-length': '100' }),
+          body
+        })
+      }
+      const cacheContent = vi.spyOn(wayfinderService as any, 'cacheContent').mockImplementation(() => {})
+
+      const result = await wayfinderService.getContentUrl({ txId: 'test-tx-id', stream: true })
+
+      expect(result.url).toBe('https://permagate.io/test-tx-id')
+      expect(result.data).toBe(null)
+      expect(result.stream).toBeUndefined()
+      await vi.waitFor(() => expect(cacheContent).toHaveBeenCalledWith(
+        'test-tx-id', 'test-tx-id', expect.objectContaining({ size: 100 }), 'video/mp4',
+        'https://permagate.io/test-tx-id', 'https://permagate.io'
+      ))
+    })
+
+    it('should report download progress while reading a body', async () => {
+      const listener = vi.fn()
+      wayfinderService.addEventListener(listener)
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new Uint8Array(50))
+          controller.enqueue(new Uint8Array(50))
+          controller.close()
+        }
+      })
+
+      const data = await (wayfinderService as any).readWithProgress('test-tx-id', body, 'video/mp4', 100)
+
+      expect(data.size).toBe(100)
+      const progress = listener.mock.calls
+        .map(([event]) => event)
+        .filter(event => event.type === 'download-progress')
+      expect(progress.map(event => [event.loadedBytes, event.progress])).toEqual([[50, 50], [100, 99], [100, 100]])
+      expect(progress[0]).toMatchObject({ txId: 'test-tx-id', totalBytes: 100 })
+    })
+
     it('should attempt Wayfinder when enabled', async () => {
       wayfinderService.updateConfig({ enableWayfinder: true })
       
@@ -141,6 +294,21 @@ describe('Wayfinder Service', () => {
       expect(status.txId).toBe(txId)
     })
 
+    it('should list the routed and trusted gateways for a consensus check', async () => {
+      wayfinderService.updateConfig({ trustedGateways: ['https://trusted-a.io', 'https://routed.example/'] })
+      ;(wayfinderService as any).handleVerificationEvent({
+        type: 'routing-succeeded',
+        txId: 'test-tx-id',
+        gateway: 'https://routed.example/test-tx-id',
+        timestamp: Date.now()
+      })
+
+      expect(await wayfinderService.getConsensusGateways('test-tx-id')).toEqual([
+        { url: 'https://routed.example', role: 'routed' },
+        { url: 'https://trusted-a.io', role: 'trusted' }
+      ])
+    })
+
     it('should provide service statistics', () => {
       const stats = wayfinderService.getStats()
       
@@ -4,6 +4,7 @@ import {
   NetworkGatewaysProvider,
   StaticGatewaysProvider,
   HashVerificationStrategy,
+  DataRootVerificationStrategy,
   TrustedGatewaysHashProvider,
   RandomRoutingStrategy,
   StaticRoutingStrategy,
@@ -12,18 +13,27 @@ import {
   PreferredWithFallbackRoutingStrategy,
   ARIO,
   AOProcess,
-  ARIO_MAINNET_PROCESS_ID
+  ARIO_MAINNET_PROCESS_ID,
+  type AoARIORead
 } from '@ar.io/sdk/web'
 import { connect } from '@permaweb/aoconnect'
 import { logger } from '../utils/logger'
 import { GATEWAY_DATA_SOURCE } from '../engine/fetchQueue'
+import { setArnsRegistryProvider } from '../engine/arns'
+import { getPersistedContent, persistContent } from './contentCache'
+import { TransactionHeaderDataRootProvider } from './dataRoot'
+import { SNIFF_BYTES, sniffContentType, resolveContentType, isGenericContentType } from '../utils/contentSniffing'
+import { readStreamToBlob, isStreamableMediaType, withCancel } from '../utils/mediaStream'
+import { CONSENSUS_NETWORK_GATEWAYS } from '../constants'
 import type { 
   WayfinderConfig,
   VerificationStatus,
   ContentRequest,
   ContentResponse,
   VerificationEvent,
-  CachedContent
+  VerificationStrategyType,
+  CachedContent,
+  ConsensusGateway
 } from './wayfinderTypes'
 
 /**
@@ -106,11 +116,14 @@ const DEFAULT_CONFIG: WayfinderConfig = {
 
 class WayfinderService {
   private wayfinder: Wayfinder | null = null
+  private ario: AoARIORead | null = null
+  private gatewaysProvider: { getGateways: () => Promise<URL[]> } | null = null
   private config: WayfinderConfig
   private verificationStatuses = new Map<string, VerificationStatus>()
   private eventListeners = new Set<(event: VerificationEvent) => void>()
   private urlCache = new Map<string, { url: string; timestamp: number; gateway: string }>()
   private contentCache = new Map<string, CachedContent>()
+  private sniffCache = new Map<string, string | null>()
   // Note: AR.IO SDK does not currently expose x-ar-io-digest hashes in its public API
   private initialized = false
   private lastCleanup = 0
@@ -137,6 +150,7 @@ class WayfinderService {
       
       // Create gateway provider based on configuration
       const gatewaysProvider = this.createGatewayProvider()
+      this.gatewaysProvider = gatewaysProvider
 
       // Create verification strategy based on configuration
       const verificationStrategy = this.createVerificationStrategy()
@@ -248,8 +262,8 @@ class WayfinderService {
 
     // Verification configuration
     if (env.VITE_WAYFINDER_VERIFICATION_STRATEGY) {
-      const strategy = env.VITE_WAYFINDER_VERIFICATION_STRATEGY as 'hash' | 'none'
-      if (['hash', 'none'].includes(strategy)) {
+      const strategy = env.VITE_WAYFINDER_VERIFICATION_STRATEGY as VerificationStrategyType
+      if (['hash', 'local-merkle', 'none'].includes(strategy)) {
         this.config.verificationStrategy = strategy
       }
     }
@@ -351,7 +365,7 @@ class WayfinderService {
         return new SimpleCacheGatewaysProvider({
           ttlSeconds: 60 * 60, // Cache for 1 hour to minimize network requests
           gatewaysProvider: new NetworkGatewaysProvider({
-            ario: this.createArioInstance(),
+            ario: this.getArio(),
             sortBy: 'operatorStake',
             sortOrder: 'desc',
             limit: this.config.gatewayLimit,
@@ -367,7 +381,7 @@ class WayfinderService {
         return new SimpleCacheGatewaysProvider({
           ttlSeconds: this.config.cacheTimeoutMinutes * 60,
           gatewaysProvider: new NetworkGatewaysProvider({
-            ario: this.createArioInstance(),
+            ario: this.getArio(),
             sortBy: 'operatorStake',
             sortOrder: 'desc',
             limit: this.config.gatewayLimit,
@@ -381,6 +395,16 @@ class WayfinderService {
     }
   }
 
+  /**
+   * Shared ARIO instance, created on first use with the configured AO CU URL
+   */
+  getArio(): AoARIORead {
+    if (!this.ario) {
+      this.ario = this.createArioInstance()
+    }
+    return this.ario
+  }
+
   /**
    * Create ARIO instance with custom AO CU URL
    */
@@ -451,6 +475,12 @@ class WayfinderService {
           }),
         })
 
+      case 'local-merkle':
+        logger.info('Verification strategy: data root computed locally, compared with the transaction header')
+        return new DataRootVerificationStrategy({
+          trustedDataRootProvider: new TransactionHeaderDataRootProvider(() => this.getFallbackGateway()),
+        })
+
       default:
         logger.warn('Unknown verification strategy:', this.config.verificationStrategy)
         return undefined
@@ -477,9 +507,76 @@ class WayfinderService {
 
   /**
    * Get content URL via Wayfinder or fallback to original gateway
-   * Now with intelligent caching and size-aware fetching
+   * Now with intelligent caching and size-aware fetching.
+   * Fetched bytes are always sniffed, so a wrong but specific label is caught
+   * too; without them only a missing or generic type is worth a ranged
+   * request. A recognised type arrives as a 'content-sniffed' event.
    */
   async getContentUrl(request: ContentRequest, forceLoad: boolean = false): Promise<ContentResponse> {
+    const response = await this.fetchContent(request, forceLoad)
+    const declaredContentType = response.contentType || request.contentType
+    const cacheKey = `${request.txId}${request.path || ''}`
+    const sniffedContentType = this.sniffCache.get(cacheKey) ?? null
+
+    if (!this.sniffCache.has(cacheKey) && (response.data || isGenericContentType(declaredContentType))) {
+      this.sniffContent(request, response.data).then(sniffed => {
+        if (!sniffed) return
+        this.handleVerificationEvent({
+          type: 'content-sniffed',
+          txId: request.txId,
+          sniffedContentType: sniffed,
+          timestamp: Date.now()
+        })
+      })
+    }
+
+    return {
+      ...response,
+      sniffedContentType,
+      resolvedContentType: resolveContentType(declaredContentType, sniffedContentType)
+    }
+  }
+
+  /**
+   * Detect the content type from the leading bytes. Uses the fetched data when
+   * available, otherwise a ranged request against the data gateway.
+   */
+  private async sniffContent(request: ContentRequest, data: Blob | null): Promise<string | null> {
+    const cacheKey = `${request.txId}${request.path || ''}`
+    if (this.sniffCache.has(cacheKey)) {
+      return this.sniffCache.get(cacheKey) ?? null
+    }
+
+    let sniffed: string | null = null
+    try {
+      if (data) {
+        sniffed = sniffContentType(new Uint8Array(await data.slice(0, SNIFF_BYTES).arrayBuffer()))
+      } else {
+        const gateway = GATEWAY_DATA_SOURCE[0] || 'https://arweave.net'
+        const response = await fetch(`${gateway}/${cacheKey}`, {
+          headers: { Range: `bytes=0-${SNIFF_BYTES - 1}` }
+        })
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        // Gateways that ignore Range send the whole file; only look at the start
+        const head = new Uint8Array(await response.arrayBuffer()).subarray(0, SNIFF_BYTES)
+        sniffed = sniffContentType(head)
+      }
+    } catch (error) {
+      // Sniffing is best effort: keep the declared type, and retry next time
+      logger.debug(`Content sniffing failed for ${request.txId}:`, error)
+      return null
+    }
+
+    this.sniffCache.set(cacheKey, sniffed)
+    return sniffed
+  }
+
+  private async fetchContent(
+    request: ContentRequest,
+    forceLoad: boolean
+  ): Promise<Omit<ContentResponse, 'sniffedContentType' | 'resolvedContentType'>> {
     const { txId, path = '', contentType, size } = request
     const cacheKey = `${txId}${path}`
 
@@ -522,6 +619,26 @@ class WayfinderService {
       }
     }
 
+    // Verified content persisted by an earlier session
+    const persisted = await getPersistedContent(cacheKey)
+    if (persisted) {
+      this.contentCache.set(cacheKey, { ...persisted, timestamp: Date.now() })
+      if (this.getVerificationStatus(txId).status === 'pending') {
+        this.setVerificationStatus(txId, persisted.verificationStatus)
+      }
+      const currentVerificationStatus = this.getVerificationStatus(txId)
+
+      return {
+        url: persisted.url,
+        gateway: persisted.gateway,
+        verified: currentVerificationStatus.status === 'verified',
+        verificationStatus: currentVerificationStatus,
+        data: persisted.data,
+        contentType: persisted.contentType,
+        fromCache: true
+      }
+    }
+
     // Check URL cache for metadata-only response
     const urlCached = this.urlCache.get(cacheKey)
     if (urlCached && Date.now() - urlCached.timestamp < this.config.cacheTimeoutMinutes * 60 * 1000) {
@@ -585,24 +702,69 @@ class WayfinderService {
           }, this.config.verificationTimeoutMs)
         }
 
-        // Use request() method like the example
-        const response = await this.wayfinder.request(arUrl)
+        // Use request() method like the example. A streamed request can be
+        // aborted once playback is cancelled, which ends its download branch
+        const abort = request.stream ? new AbortController() : null
+        const response = await this.wayfinder.request(arUrl, abort ? { signal: abort.signal } : undefined)
         
         // Extract URL and content info from response
         const gatewayUrl = response.url
         const gateway = this.extractGatewayFromUrl(gatewayUrl)
         const contentType = response.headers.get('content-type') || 'application/octet-stream'
+        const totalBytes = Number(response.headers.get('content-length')) || size || null
+        const isMedia = contentType.startsWith('video/') || contentType.startsWith('audio/')
+
+        // Video and audio play while they download. A streamable type is fed
+        // from one branch of the body; any other, such as plain MP4, plays
+        // natively from the gateway URL with range requests. Either way the
+        // body itself is read in the background for verification and caching
+        if (abort && isMedia && response.body) {
+          const [playback, download] = isStreamableMediaType(contentType)
+            ? response.body.tee()
+            : [null, response.body]
+
+          this.urlCache.set(cacheKey, {
+            url: gatewayUrl,
+            timestamp: Date.now(),
+            gateway
+          })
+
+          this.readWithProgress(txId, download, contentType, totalBytes)
+            .then(data => this.cacheContent(cacheKey, txId, data, contentType, gatewayUrl, gateway))
+            .catch(error => {
+              if (!abort.signal.aborted) logger.warn(`Streamed download failed for ${txId}:`, error)
+            })
+
+          this.setVerificationStatus(txId, {
+            txId,
+            status: 'verifying',
+            gateway,
+            timestamp: Date.now()
+          })
+
+          return {
+            url: gatewayUrl,
+            gateway,
+            verified: false, // Will be updated by verification events
+            verificationStatus: this.getVerificationStatus(txId),
+            contentType,
+            data: null,
+            stream: playback ? withCancel(playback, reason => abort.abort(reason)) : undefined,
+            fromCache: false
+          }
+        }
         
         // Handle content based on type to ensure proper verification completion
         let data: Blob
         try {
           if (contentType.startsWith('image/') || 
-              contentType.startsWith('video/') || 
-              contentType.startsWith('audio/') ||
+              isMedia ||
               contentType === 'application/pdf' ||
               contentType.includes('octet-stream')) {
-            // Handle binary content - use blob() to complete stream and trigger verification
-            data = await response.blob()
+            // Handle binary content - read the whole body to trigger verification, reporting progress
+            data = response.body
+              ? await this.readWithProgress(txId, response.body, contentType, totalBytes)
+              : await response.blob()
           } else if (contentType.startsWith('application/json')) {
             // Handle JSON content
             const jsonData = await response.json()
@@ -631,16 +793,7 @@ class WayfinderService {
         })
 
         // Cache the verified content for future use
-        this.contentCache.set(cacheKey, {
-          data,
-          contentType,
-          url: gatewayUrl,
-          gateway,
-          verified: false, // Will be updated by verification events
-          verificationStatus: this.getVerificationStatus(txId),
-          timestamp: Date.now(),
-          size: data.size
-        })
+        this.cacheContent(cacheKey, txId, data, contentType, gatewayUrl, gateway)
 
         // Set initial status - verification will be updated via events
         this.setVerificationStatus(txId, {
@@ -690,10 +843,72 @@ class WayfinderService {
     return this.getFallbackContentUrl(request)
   }
 
+  /**
+   * Read a response body, reporting byte progress to listeners as
+   * 'download-progress' events (at most one per percent, or per MB when the
+   * size is unknown) and a final event once the body is complete
+   */
+  private async readWithProgress(
+    txId: string,
+    body: ReadableStream<Uint8Array>,
+    contentType: string,
+    totalBytes: number | null
+  ): Promise<Blob> {
+    const step = totalBytes ? totalBytes / 100 : 1024 * 1024
+    let nextReport = step
+    const report = (loadedBytes: number, progress?: number) => this.handleVerificationEvent({
+      type: 'download-progress',
+      txId,
+      loadedBytes,
+      totalBytes: totalBytes ?? undefined,
+      progress,
+      timestamp: Date.now()
+    })
+
+    const data = await readStreamToBlob(body, contentType, loadedBytes => {
+      if (loadedBytes < nextReport) return
+      nextReport = loadedBytes + step
+      report(loadedBytes, totalBytes ? Math.min(99, Math.floor((loadedBytes / totalBytes) * 100)) : undefined)
+    })
+    report(data.size, 100)
+    return data
+  }
+
+  /**
+   * Keep fetched content in the session cache. Verification can finish while
+   * the body is read, before the entry exists, so verified content is
+   * persisted straight away.
+   */
+  private cacheContent(
+    cacheKey: string,
+    txId: string,
+    data: Blob,
+    contentType: string,
+    url: string,
+    gateway: string
+  ): void {
+    this.contentCache.set(cacheKey, {
+      data,
+      contentType,
+      url,
+      gateway,
+      verified: false, // Will be updated by verification events
+      verificationStatus: this.getVerificationStatus(txId),
+      timestamp: Date.now(),
+      size: data.size
+    })
+
+    if (this.getVerificationStatus(txId).status === 'verified') {
+      this.persistVerifiedContent(txId)
+    }
+  }
+
   /**
    * Fallback to original gateway system
    */
-  private getFallbackContentUrl(request: ContentRequest): ContentResponse {
+  private getFallbackContentUrl(
+    request: ContentRequest
+  ): Omit<ContentResponse, 'sniffedContentType' | 'resolvedContentType'> {
     const { txId, path = '' } = request
     
     // Use the hostname-based fallback gateway detection
@@ -785,22 +1000,18 @@ class WayfinderService {
           ...currentStatus,
           status: 'verified',
           gateway: event.gateway,
-          verificationMethod: 'hash'
+          verificationMethod: this.config.verificationStrategy
         })
         
-        // Update cached content verification status
-        for (const [cacheKey, cached] of this.contentCache.entries()) {
-          if (cacheKey.startsWith(event.txId)) {
-            cached.verified = true
-            cached.verificationStatus = this.getVerificationStatus(event.txId)
-          }
-        }
+        // Update cached content verification status and keep it across reloads
+        this.persistVerifiedContent(event.txId)
         break
       case 'verification-failed':
         this.setVerificationStatus(event.txId, {
           ...currentStatus,
           status: 'failed',
-          error: event.error
+          error: event.error,
+          verificationMethod: this.config.verificationStrategy
         })
         break
       case 'routing-succeeded':
@@ -821,6 +1032,20 @@ class WayfinderService {
     })
   }
 
+  /**
+   * Mark the cached content of a verified transaction as verified and store
+   * it in the persistent content cache
+   */
+  private persistVerifiedContent(txId: string): void {
+    for (const [cacheKey, cached] of this.contentCache.entries()) {
+      if (cacheKey.startsWith(txId)) {
+        cached.verified = true
+        cached.verificationStatus = this.getVerificationStatus(txId)
+        persistContent(cacheKey, cached)
+      }
+    }
+  }
+
   /**
    * Extract gateway hostname from URL
    */
@@ -839,6 +1064,7 @@ class WayfinderService {
   clearCache(): void {
     this.urlCache.clear()
     this.contentCache.clear()
+    this.sniffCache.clear()
     this.verificationStatuses.clear()
   }
 
@@ -887,6 +1113,11 @@ class WayfinderService {
         this.contentCache.delete(key)
       }
     }
+
+    // Sniffed types are tiny but unbounded; drop them all once the map grows large
+    if (this.sniffCache.size > maxCacheSize * 10) {
+      this.sniffCache.clear()
+    }
   }
 
   /**
@@ -930,9 +1161,14 @@ class WayfinderService {
       JSON.stringify(oldConfig.trustedGateways) !== JSON.stringify(this.config.trustedGateways)
     )
     
+    if (oldConfig.aoCuUrl !== this.config.aoCuUrl) {
+      this.ario = null
+    }
+    
     if (needsReinitialization && this.initialized) {
       this.initialized = false
       this.wayfinder = null
+      this.gatewaysProvider = null
       
       // Re-initialize if Wayfinder should be enabled
       if (this.config.enableWayfinder) {
@@ -987,6 +1223,35 @@ class WayfinderService {
     return this.config.fallbackGateways[0] || determineFallbackGateway()
   }
 
+  /**
+   * Gateways to compare in a consensus check of `txId`: the gateway the
+   * request was routed to, the trusted set, and the top of the network
+   * provider's list. Each gateway appears once, under its first role.
+   */
+  async getConsensusGateways(txId: string): Promise<ConsensusGateway[]> {
+    const gateways = new Map<string, ConsensusGateway>()
+    const add = (url: string, role: ConsensusGateway['role']) => {
+      const origin = this.extractGatewayFromUrl(url)
+      if (origin !== 'unknown' && !gateways.has(origin)) gateways.set(origin, { url: origin, role })
+    }
+
+    const routed = this.getVerificationStatus(txId).gateway
+    if (routed) add(routed, 'routed')
+    this.config.trustedGateways.forEach(url => add(url, 'trusted'))
+
+    if (this.config.enableWayfinder) {
+      try {
+        const provider = this.gatewaysProvider ?? this.createGatewayProvider()
+        const network = await provider.getGateways()
+        network.slice(0, CONSENSUS_NETWORK_GATEWAYS).forEach(url => add(url.toString(), 'network'))
+      } catch (error) {
+        logger.warn('Could not list network gateways for the consensus check:', error)
+      }
+    }
+    if (gateways.size < 2) add(this.getFallbackGateway(), 'network')
+    return Array.from(gateways.values())
+  }
+
   /**
    * Get service statistics with granular configuration details
    */
@@ -1021,6 +1286,9 @@ class WayfinderService {
 // Create singleton instance
 export const wayfinderService = new WayfinderService()
 
+// The ArNS channel pages names through the same ARIO instance
+setArnsRegistryProvider(() => wayfinderService.getArio())
+
 // Export the service class for testing
 export { WayfinderService }
 
@@ -4,11 +4,18 @@ export interface VerificationStatus {
   txId: string
   status: 'pending' | 'verifying' | 'verified' | 'failed' | 'not-verified'
   gateway?: string
-  verificationMethod?: string
+  verificationMethod?: VerificationStrategyType
   error?: string
   timestamp: number
 }
 
+/**
+ * 'hash' compares the data's digest with trusted gateways; 'local-merkle'
+ * computes the data root on this device and compares it with the
+ * transaction header
+ */
+export type VerificationStrategyType = 'hash' | 'local-merkle' | 'none'
+
 export interface WayfinderConfig {
   // Master switch
   enableWayfinder: boolean        // Enable both routing and verification
@@ -26,7 +33,7 @@ export interface WayfinderConfig {
   routingTimeoutMs?: number      // Timeout for ping-based routing strategies
   
   // Verification configuration
-  verificationStrategy: 'hash' | 'none'
+  verificationStrategy: VerificationStrategyType
   trustedGateways: string[]      // Gateways used for verification hash comparison
   verificationTimeoutMs: number  // Timeout for verification process
   
@@ -43,6 +50,7 @@ export interface ContentRequest {
   headers?: Record<string, string>
   contentType?: string  // For size-aware loading decisions
   size?: number        // File size for threshold checking
+  stream?: boolean     // Caller can play video/audio from ContentResponse.stream or the URL while it downloads
 }
 
 export interface ContentResponse {
@@ -50,9 +58,12 @@ export interface ContentResponse {
   gateway: string
   data: Blob | null
   contentType: string | null,
+  sniffedContentType: string | null   // Detected from the leading bytes, null if unrecognised
+  resolvedContentType: string | null  // Type to render: sniffed when the declared one is missing or wrong
   verified: boolean
   verificationStatus: VerificationStatus
   fromCache?: boolean
+  stream?: ReadableStream<Uint8Array> | null  // Streamed video/audio body; data stays null while it downloads
 }
 
 export interface CachedContent {
@@ -73,12 +84,62 @@ export type VerificationEventType =
   | 'verification-failed'
   | 'routing-succeeded'
   | 'routing-failed'
+  | 'download-progress'
+  | 'content-sniffed'
 
 export interface VerificationEvent {
   type: VerificationEventType
   txId: string
   gateway?: string
   progress?: number
+  loadedBytes?: number   // download-progress: bytes received so far
+  totalBytes?: number    // download-progress: expected size, when known
+  sniffedContentType?: string  // content-sniffed: type detected from the leading bytes
   error?: string
   timestamp: number
-}
\ No newline at end of file
+}
+
+export interface ContentCacheUsage {
+  entries: number
+  bytes: number
+  maxBytes: number
+}
+
+/**
+ * Where a gateway in a consensus check came from: the one Wayfinder routed
+ * the request to, the configured trusted set, or the network provider
+ */
+export type ConsensusGatewayRole = 'routed' | 'trusted' | 'network'
+
+export interface ConsensusGateway {
+  url: string
+  role: ConsensusGatewayRole
+}
+
+export interface ConsensusGatewayResult extends ConsensusGateway {
+  httpStatus: number | null
+  size: number | null
+  contentType: string | null
+  digest: string | null          // SHA-256 of the bytes served, computed here; null when too large
+  reportedDigest: string | null  // x-ar-io-digest header, when the gateway sends one
+  durationMs: number
+  error?: string
+  agrees: boolean | null         // Matches the majority digest; null when nothing to compare
+}
+
+/**
+ * 'consistent': routed and trusted gateways agree with the majority;
+ * 'routed-outlier' / 'trusted-outlier': that side serves different bytes;
+ * 'split': no digest is served by a majority; 'unavailable': too few answers
+ */
+export type ConsensusVerdict = 'consistent' | 'routed-outlier' | 'trusted-outlier' | 'split' | 'unavailable'
+
+export interface ConsensusReport {
+  txId: string
+  results: ConsensusGatewayResult[]
+  verdict: ConsensusVerdict
+  majorityDigest: string | null
+  majorityContentType: string | null
+  majoritySize: number | null
+  checkedAt: number
+}
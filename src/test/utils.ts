@@ -15,6 +15,26 @@ export const mockTxMeta: TxMeta = {
   block: { height: 1000000, timestamp: 1640995200 },
 }
 
+/** Unix time of block 0; blocks follow about every two minutes */
+const GENESIS_TIMESTAMP = 1528502400
+
+/**
+ * A mockTxMeta with its own id, block height and tags, timestamped as if the
+ * block were mined on schedule
+ */
+export const mockTx = ({ id, height = mockTxMeta.block.height, tags = {}, owner = mockTxMeta.owner.address }: {
+  id: string
+  height?: number
+  tags?: Record<string, string>
+  owner?: string
+}): TxMeta => ({
+  ...mockTxMeta,
+  id,
+  owner: { address: owner },
+  block: { height, timestamp: GENESIS_TIMESTAMP + height * 120 },
+  tags: Object.entries(tags).map(([name, value]) => ({ name, value })),
+})
+
 export const mockArfsTxMeta: TxMeta = {
   ...mockTxMeta,
   id: 'arfs-tx-id-456',
@@ -31,6 +51,21 @@ export const mockArfsTxMeta: TxMeta = {
   }
 }
 
+// Format 2 transaction signed by arweave-js with a 2048-bit test wallet
+export const mockSignedTxHeader = {
+  format: 2,
+  id: 'ygO5VDVKe8efL6yCCFSf5zf9PS9MpoMJKBBYrZjcTJw',
+  last_tx: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+  owner: '3-CPD0s2G7YuJGm-joyesVoz-jtOHCw8sux7s-MBb-JvK8ANz6-KbhREUjnoelY0h3iSp_g2PORrM1LQIhHhTCVCykfxzKC6iouOEewtkNkhn8mQWrN8nNkb2323HaQ7qn2-hZoyXtdAlmwZeKVWLJJstF1mK55Dr0sueiUXREQbVn_nZuVs-mk3IqCqGkxLZpfKEnjrhl-YGF8LoL7EJbvpiETYPh41ONng-iwtrFZD-b-hcvHjM3LNYYa3Gaype3GBUwR4kinpKJQ562sweiWtVZDRjeod-GP8iby-EQGEEcv8eOQns0-ic3axP_dx5r9BtPKXz_hPlTt1PVDaOw',
+  tags: [{ name: 'Q29udGVudC1UeXBl', value: 'dGV4dC9wbGFpbg' }],
+  target: 'CQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQk',
+  quantity: '1000000000000',
+  data_size: '10',
+  data_root: '9cBBs4D-K81a1dwW_vYepEoqJKRbPdbR9Fk-EXwJ9Vc',
+  reward: '123456789',
+  signature: 'tUiTcrZbCu8Xi-5bbI-9AkS6kKMfyj1TtUztW45ADAe9OT_xNYDnyLytMaL25_W1F0-WdqaLOI0UrQn_vOxywxVdnTfxMjflhgTcNH5j0puZHSWQKIumoPkliLCfKh1Pr8HbPKEB9nfzmvAx0UaFvg01JmH6hqPovO8t2zKZTa9CQl03hWC2jIlL277AyNiCTGn6UPu5UFD4aB6jZOiVmjCJ-IRG_REbrCip2Eo8d53tT-469X-63g8i0yI3devcj8-Vr-lUMnyShx_DtyyTL51GsnXDSJ79YEUaZBTLQOaqvKsjdsGgQBpZqk3XVCAreH1V38sFuMY5qU-Z3O5YUw',
+}
+
 // Mock fetch responses
 export const mockFetchResponse = (data: any, ok = true, status = 200) => {
   return Promise.resolve({
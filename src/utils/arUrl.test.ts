@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { parseArUrl, formatArUrl, splitArUrls, isArnsName } from './arUrl'
+
+const TX_ID = 'Ar9lHUwJmGLdzLhBSm5pDOaNlk4Xi9nQBkBq4Jx3pLs'
+
+describe('arUrl', () => {
+  describe('parseArUrl', () => {
+    it('should parse transaction ids with paths', () => {
+      expect(parseArUrl(`ar://${TX_ID}`)).toEqual({ kind: 'tx', txId: TX_ID, path: '' })
+      expect(parseArUrl(`ar://${TX_ID}/index.html?x=1#top`))
+        .toEqual({ kind: 'tx', txId: TX_ID, path: '/index.html?x=1#top' })
+    })
+
+    it('should parse ArNS names and undernames in lowercase', () => {
+      expect(parseArUrl('ar://ArDrive')).toEqual({ kind: 'arns', name: 'ardrive', path: '' })
+      expect(parseArUrl('ar://docs_ardrive/guide')).toEqual({ kind: 'arns', name: 'docs_ardrive', path: '/guide' })
+    })
+
+    it('should reject other schemes and invalid names', () => {
+      expect(parseArUrl(`https://arweave.net/${TX_ID}`)).toBeNull()
+      expect(parseArUrl(TX_ID)).toBeNull()
+      expect(parseArUrl('ar://')).toBeNull()
+      expect(parseArUrl('ar://no%20pe')).toBeNull()
+      expect(parseArUrl(`ar://${'a'.repeat(52)}`)).toBeNull()
+    })
+  })
+
+  describe('isArnsName', () => {
+    it('should accept lowercase names and undernames only', () => {
+      expect(isArnsName('ardrive')).toBe(true)
+      expect(isArnsName('docs_ardrive')).toBe(true)
+      expect(isArnsName('ArDrive')).toBe(false)
+      expect(isArnsName('ar.drive')).toBe(false)
+      expect(isArnsName('')).toBe(false)
+    })
+  })
+
+  describe('formatArUrl', () => {
+    it('should round-trip parsed URLs', () => {
+      for (const value of [`ar://${TX_ID}/a.png`, 'ar://docs_ardrive/guide']) {
+        expect(formatArUrl(parseArUrl(value)!)).toBe(value)
+      }
+    })
+  })
+
+  describe('splitArUrls', () => {
+    it('should split text around ar:// URLs', () => {
+      expect(splitArUrls(`See ar://ardrive and ar://${TX_ID}/x.json.`)).toEqual([
+        'See ',
+        { kind: 'arns', name: 'ardrive', path: '' },
+        ' and ',
+        { kind: 'tx', txId: TX_ID, path: '/x.json' },
+        '.'
+      ])
+    })
+
+    it('should stop at quotes and closing brackets', () => {
+      expect(splitArUrls('(ar://ardrive/docs)')).toEqual([
+        '(',
+        { kind: 'arns', name: 'ardrive', path: '/docs' },
+        ')'
+      ])
+    })
+
+    it('should return text without ar:// URLs unchanged', () => {
+      expect(splitArUrls('plain text')).toEqual(['plain text'])
+      expect(splitArUrls('')).toEqual([])
+    })
+  })
+})
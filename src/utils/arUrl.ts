@@ -0,0 +1,59 @@
+import { isTxId } from './arweaveIds'
+
+/**
+ * A parsed ar:// URL: either a transaction id or an ArNS name (including
+ * undernames such as "docs_ardrive"), plus an optional path/query/hash.
+ */
+export type ArUrl =
+  | { kind: 'tx'; txId: string; path: string }
+  | { kind: 'arns'; name: string; path: string }
+
+/** ArNS names: 1-51 lowercase letters, digits, "-" and "_" for undernames */
+const ARNS_NAME_PATTERN = /^[a-z0-9_-]{1,51}$/
+
+/** ar:// URLs embedded in text; stops at whitespace, quotes and closing brackets */
+const AR_URL_IN_TEXT = /ar:\/\/[a-zA-Z0-9_-]+(?:[/?#][^\s<>"'`)\]]*)?/g
+
+/** Whether a value is a well-formed, lowercase ArNS name */
+export function isArnsName(value: string): boolean {
+  return ARNS_NAME_PATTERN.test(value)
+}
+
+/**
+ * Parse an ar:// URL. Returns null for anything else, including ArNS names
+ * with characters a name cannot contain.
+ */
+export function parseArUrl(value: string): ArUrl | null {
+  const match = /^ar:\/\/([a-zA-Z0-9_-]+)((?:[/?#].*)?)$/i.exec(value.trim())
+  if (!match) return null
+  const [, target, path] = match
+  const name = target.toLowerCase()
+  if (isTxId(target)) return { kind: 'tx', txId: target, path }
+  return isArnsName(name) ? { kind: 'arns', name, path } : null
+}
+
+export function formatArUrl(url: ArUrl): string {
+  return `ar://${url.kind === 'tx' ? url.txId : url.name}${url.path}`
+}
+
+/**
+ * Split text into plain segments and ar:// URL segments, in order.
+ * Trailing sentence punctuation is left out of the URL.
+ */
+export function splitArUrls(text: string): Array<string | ArUrl> {
+  const segments: Array<string | ArUrl> = []
+  let last = 0
+
+  for (const match of text.matchAll(AR_URL_IN_TEXT)) {
+    const raw = match[0].replace(/[.,;:!?]+$/, '')
+    const url = parseArUrl(raw)
+    if (!url) continue
+    const start = match.index ?? 0
+    if (start > last) segments.push(text.slice(last, start))
+    segments.push(url)
+    last = start + raw.length
+  }
+
+  if (last < text.length) segments.push(text.slice(last))
+  return segments
+}
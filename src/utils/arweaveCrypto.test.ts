@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  b64UrlToBytes,
+  bytesToB64Url,
+  deepHash,
+  deserializeTags,
+  serializeTags,
+  utf8,
+} from './arweaveCrypto'
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+
+// Reference encodings produced by arweave-js and arbundles
+const LONG_VALUE = 'x'.repeat(70)
+const ENCODED_TAGS = fromBase64(
+  'BBhDb250ZW50LVR5cGUUdGV4dC9wbGFpbgrDnG7Dr4wBeHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eAA='
+)
+
+describe('arweaveCrypto', () => {
+  describe('base64url', () => {
+    it('should round-trip bytes without padding', () => {
+      const bytes = Uint8Array.from([0, 251, 255, 62, 63, 1])
+      const encoded = bytesToB64Url(bytes)
+      expect(encoded).toBe('APv_Pj8B')
+      expect(b64UrlToBytes(encoded)).toEqual(bytes)
+    })
+
+    it('should decode unpadded lengths', () => {
+      expect(b64UrlToBytes('YQ')).toEqual(Uint8Array.from([97]))
+      expect(b64UrlToBytes('YWI')).toEqual(Uint8Array.from([97, 98]))
+    })
+  })
+
+  describe('deepHash', () => {
+    it('should match the arweave-js deep hash of nested chunks', async () => {
+      const hash = await deepHash([utf8('2'), Uint8Array.from([1, 2, 3]), [[utf8('a'), utf8('b')]]])
+      expect(toHex(hash)).toBe(
+        '2a627c2da9fb21b0193a805c9166e593bff376d29106ac19b265f0e7eb20374bf438f9fddce0e016e7eaa4c1382f8cfd'
+      )
+    })
+  })
+
+  describe('tags', () => {
+    const tags = [
+      { name: 'Content-Type', value: 'text/plain' },
+      { name: 'Ünï', value: LONG_VALUE },
+    ]
+
+    it('should encode tags like arbundles', () => {
+      expect(serializeTags(tags)).toEqual(ENCODED_TAGS)
+    })
+
+    it('should encode no tags as no bytes', () => {
+      expect(serializeTags([])).toEqual(new Uint8Array(0))
+      expect(deserializeTags(new Uint8Array(0))).toEqual([])
+    })
+
+    it('should decode encoded tags', () => {
+      expect(deserializeTags(ENCODED_TAGS)).toEqual(tags)
+    })
+
+    it('should reject truncated tag bytes', () => {
+      expect(() => deserializeTags(ENCODED_TAGS.subarray(0, 20))).toThrow('Truncated tag bytes')
+    })
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Byte-level building blocks for checking Arweave signatures in the browser:
+ * base64url, SHA hashes, the deep hash that transactions and data items sign,
+ * and the Avro encoding of ANS-104 tags.
+ */
+
+export type DeepHashChunk = Uint8Array | DeepHashChunk[]
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+export function utf8(value: string): Uint8Array {
+  return textEncoder.encode(value)
+}
+
+export function b64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+export function bytesToB64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.byteLength
+  }
+  return result
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.byteLength === b.byteLength && a.every((byte, i) => byte === b[i])
+}
+
+async function digest(algorithm: 'SHA-256' | 'SHA-384', data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource))
+}
+
+export const sha256 = (data: Uint8Array) => digest('SHA-256', data)
+export const sha384 = (data: Uint8Array) => digest('SHA-384', data)
+
+/**
+ * Arweave's deep hash: SHA-384 over a tagged tree of byte strings, the
+ * message format signed by version 2 transactions and ANS-104 data items
+ */
+export async function deepHash(chunk: DeepHashChunk): Promise<Uint8Array> {
+  if (Array.isArray(chunk)) {
+    let acc = await sha384(utf8(`list${chunk.length}`))
+    for (const child of chunk) {
+      acc = await sha384(concatBytes(acc, await deepHash(child)))
+    }
+    return acc
+  }
+  const tag = await sha384(utf8(`blob${chunk.byteLength}`))
+  return sha384(concatBytes(tag, await sha384(chunk)))
+}
+
+function writeLong(out: number[], n: number) {
+  // Avro longs are zigzag varints; tag counts and lengths are never negative
+  let value = n * 2
+  while (value >= 0x80) {
+    out.push((value % 0x80) | 0x80)
+    value = Math.floor(value / 0x80)
+  }
+  out.push(value)
+}
+
+/**
+ * Avro encoding of ANS-104 tags, as signed in a data item header.
+ * No tags encode to no bytes at all.
+ */
+export function serializeTags(tags: { name: string; value: string }[]): Uint8Array {
+  if (tags.length === 0) return new Uint8Array(0)
+  const out: number[] = []
+  writeLong(out, tags.length)
+  for (const { name, value } of tags) {
+    for (const text of [name, value]) {
+      const bytes = utf8(text)
+      writeLong(out, bytes.byteLength)
+      out.push(...bytes)
+    }
+  }
+  writeLong(out, 0)
+  return Uint8Array.from(out)
+}
+
+/**
+ * Decode Avro-encoded ANS-104 tags; throws on truncated input
+ */
+export function deserializeTags(bytes: Uint8Array): { name: string; value: string }[] {
+  let pos = 0
+  const readLong = () => {
+    let value = 0
+    let scale = 1
+    for (;;) {
+      if (pos >= bytes.byteLength) throw new Error('Truncated tag bytes')
+      const byte = bytes[pos++]
+      value += (byte & 0x7f) * scale
+      scale *= 0x80
+      if (!(byte & 0x80)) break
+    }
+    return value % 2 ? -(value + 1) / 2 : value / 2
+  }
+  const readString = () => {
+    const length = readLong()
+    if (length < 0 || pos + length > bytes.byteLength) throw new Error('Truncated tag bytes')
+    const text = textDecoder.decode(bytes.subarray(pos, pos + length))
+    pos += length
+    return text
+  }
+
+  const tags: { name: string; value: string }[] = []
+  if (bytes.byteLength === 0) return tags
+  for (let count = readLong(); count !== 0; count = readLong()) {
+    // A negative block count is followed by the block's size in bytes
+    if (count < 0) {
+      count = -count
+      readLong()
+    }
+    while (count--) tags.push({ name: readString(), value: readString() })
+  }
+  return tags
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { isTxId, isArweaveAddress } from './arweaveIds'
+
+const VALID_ID = 'w5AtiFsNvORfcRtikbdrp2tzqixb05vdPw-ZhgVkD70'
+
+describe('arweaveIds', () => {
+  describe('isTxId', () => {
+    it('should accept 43 character base64url ids', () => {
+      expect(isTxId(VALID_ID)).toBe(true)
+      expect(isTxId('_'.repeat(43))).toBe(true)
+    })
+
+    it('should reject ids of the wrong length', () => {
+      expect(isTxId(VALID_ID.slice(1))).toBe(false)
+      expect(isTxId(`${VALID_ID}A`)).toBe(false)
+      expect(isTxId('')).toBe(false)
+    })
+
+    it('should reject characters outside base64url', () => {
+      expect(isTxId(`${VALID_ID.slice(0, 42)}=`)).toBe(false)
+      expect(isTxId(`${VALID_ID.slice(0, 42)}"`)).toBe(false)
+      expect(isTxId(`${VALID_ID.slice(0, 41)}\n`)).toBe(false)
+    })
+
+    it('should reject non-string values', () => {
+      expect(isTxId(undefined)).toBe(false)
+      expect(isTxId(null)).toBe(false)
+      expect(isTxId(42)).toBe(false)
+    })
+  })
+
+  describe('isArweaveAddress', () => {
+    it('should validate addresses with the same format', () => {
+      expect(isArweaveAddress(VALID_ID)).toBe(true)
+      expect(isArweaveAddress('"]) { id } #')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,18 @@
+/**
+ * Arweave transaction ids and wallet addresses are both 32-byte values
+ * encoded as 43 base64url characters (no padding).
+ */
+const ARWEAVE_ID_PATTERN = /^[a-zA-Z0-9_-]{43}$/
+
+const isBase64Url32 = (value: unknown): value is string =>
+  typeof value === 'string' && ARWEAVE_ID_PATTERN.test(value)
+
+/**
+ * Check whether a value is a well-formed Arweave transaction id
+ */
+export const isTxId = isBase64Url32
+
+/**
+ * Check whether a value is a well-formed Arweave wallet address
+ */
+export const isArweaveAddress = isBase64Url32
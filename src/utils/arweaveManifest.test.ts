@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { parseManifest, buildManifestTree, isManifestContentType } from './arweaveManifest'
+
+const TX_A = 'A'.repeat(43)
+const TX_B = 'B'.repeat(43)
+
+describe('arweaveManifest', () => {
+  describe('parseManifest', () => {
+    it('should parse paths, index and fallback', () => {
+      const manifest = parseManifest({
+        manifest: 'arweave/paths',
+        version: '0.2.0',
+        index: { path: 'index.html' },
+        fallback: { id: TX_B },
+        paths: {
+          'index.html': { id: TX_A },
+          'assets/app.js': { id: TX_B }
+        }
+      })
+
+      expect(manifest).toEqual({
+        version: '0.2.0',
+        index: 'index.html',
+        indexId: undefined,
+        fallbackId: TX_B,
+        entries: [
+          { path: 'assets/app.js', id: TX_B },
+          { path: 'index.html', id: TX_A }
+        ]
+      })
+    })
+
+    it('should keep entries with missing ids so they can be reported', () => {
+      const manifest = parseManifest({ manifest: 'arweave/paths', paths: { 'a.txt': {}, 'b.txt': { id: 42 } } })
+      expect(manifest?.entries).toEqual([{ path: 'a.txt', id: '' }, { path: 'b.txt', id: '' }])
+      expect(manifest?.version).toBe('unknown')
+    })
+
+    it('should reject values that are not path manifests', () => {
+      expect(parseManifest(null)).toBeNull()
+      expect(parseManifest([])).toBeNull()
+      expect(parseManifest({ manifest: 'other', paths: {} })).toBeNull()
+      expect(parseManifest({ manifest: 'arweave/paths', paths: [] })).toBeNull()
+    })
+  })
+
+  describe('buildManifestTree', () => {
+    it('should nest paths into folders listed before files', () => {
+      const tree = buildManifestTree([
+        { path: 'index.html', id: TX_A },
+        { path: 'assets/img/logo.png', id: TX_B },
+        { path: 'assets/app.js', id: TX_A }
+      ])
+
+      expect(tree.children.map(c => c.name)).toEqual(['assets', 'index.html'])
+      const assets = tree.children[0]
+      expect(assets.entry).toBeUndefined()
+      expect(assets.children.map(c => c.path)).toEqual(['assets/img', 'assets/app.js'])
+      expect(assets.children[0].children[0].entry).toEqual({ path: 'assets/img/logo.png', id: TX_B })
+    })
+
+    it('should let a path be both a file and a folder', () => {
+      const tree = buildManifestTree([
+        { path: 'docs', id: TX_A },
+        { path: 'docs/intro', id: TX_B }
+      ])
+      expect(tree.children).toHaveLength(1)
+      expect(tree.children[0].entry?.id).toBe(TX_A)
+      expect(tree.children[0].children[0].entry?.id).toBe(TX_B)
+    })
+  })
+
+  describe('isManifestContentType', () => {
+    it('should match the manifest type with parameters', () => {
+      expect(isManifestContentType('application/x.arweave-manifest+json')).toBe(true)
+      expect(isManifestContentType('application/x.arweave-manifest+json; charset=utf-8')).toBe(true)
+      expect(isManifestContentType('application/json')).toBe(false)
+    })
+  })
+})
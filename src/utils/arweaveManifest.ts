@@ -0,0 +1,95 @@
+/** Content-Type of Arweave path manifests */
+export const MANIFEST_CONTENT_TYPE = 'application/x.arweave-manifest+json'
+
+/** A single path in a manifest and the transaction it points at */
+export interface ManifestEntry {
+  path: string
+  id: string
+}
+
+/**
+ * A parsed arweave/paths manifest. `index` is the path served at the root;
+ * version 0.2.0 manifests may point the index and fallback at ids instead.
+ */
+export interface ArweaveManifest {
+  version: string
+  index?: string
+  indexId?: string
+  fallbackId?: string
+  entries: ManifestEntry[]
+}
+
+/** A folder or file in the manifest's path tree; files carry their entry */
+export interface ManifestTreeNode {
+  name: string
+  path: string
+  entry?: ManifestEntry
+  children: ManifestTreeNode[]
+}
+
+export function isManifestContentType(contentType: string): boolean {
+  return contentType.split(';')[0].trim() === MANIFEST_CONTENT_TYPE
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const idOf = (value: unknown): string | undefined =>
+  isRecord(value) && typeof value.id === 'string' ? value.id : undefined
+
+/**
+ * Parse manifest JSON. Returns null when the value is not an arweave/paths
+ * manifest. Entry ids are kept as written, so malformed ids can be reported.
+ */
+export function parseManifest(value: unknown): ArweaveManifest | null {
+  if (!isRecord(value) || value.manifest !== 'arweave/paths' || !isRecord(value.paths)) {
+    return null
+  }
+
+  const entries: ManifestEntry[] = []
+  for (const [path, target] of Object.entries(value.paths)) {
+    entries.push({ path, id: idOf(target) ?? '' })
+  }
+  entries.sort((a, b) => a.path.localeCompare(b.path))
+
+  const index = isRecord(value.index) && typeof value.index.path === 'string' ? value.index.path : undefined
+  return {
+    version: typeof value.version === 'string' ? value.version : 'unknown',
+    index,
+    indexId: idOf(value.index),
+    fallbackId: idOf(value.fallback),
+    entries
+  }
+}
+
+/**
+ * Build a folder tree from manifest paths. Folders sort before files and a
+ * path can be both a file and the folder of deeper paths.
+ */
+export function buildManifestTree(entries: ManifestEntry[]): ManifestTreeNode {
+  const root: ManifestTreeNode = { name: '', path: '', children: [] }
+
+  for (const entry of entries) {
+    let node = root
+    const segments = entry.path.split('/').filter(Boolean)
+    segments.forEach((name, i) => {
+      const path = segments.slice(0, i + 1).join('/')
+      let child = node.children.find(c => c.name === name)
+      if (!child) {
+        child = { name, path, children: [] }
+        node.children.push(child)
+      }
+      node = child
+    })
+    node.entry = entry
+  }
+
+  const sort = (node: ManifestTreeNode) => {
+    node.children.sort((a, b) =>
+      Number(a.children.length === 0) - Number(b.children.length === 0) || a.name.localeCompare(b.name)
+    )
+    node.children.forEach(sort)
+  }
+  sort(root)
+  return root
+}
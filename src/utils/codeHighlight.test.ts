@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { detectCodeLanguage, highlightCode, MAX_HIGHLIGHT_CHARS, type CodeToken } from './codeHighlight'
+
+// Collect the text of every token of a type
+const ofType = (lines: CodeToken[][], type: CodeToken['type']) =>
+  lines.flat().filter(token => token.type === type).map(token => token.text)
+
+describe('codeHighlight', () => {
+  describe('detectCodeLanguage', () => {
+    it('should detect languages from the Content-Type', () => {
+      expect(detectCodeLanguage('application/javascript; charset=utf-8')).toBe('javascript')
+      expect(detectCodeLanguage('text/x-lua')).toBe('lua')
+      expect(detectCodeLanguage('application/json')).toBe('json')
+      expect(detectCodeLanguage('text/css')).toBe('css')
+    })
+
+    it('should fall back to the filename extension', () => {
+      expect(detectCodeLanguage('text/plain', 'process.lua')).toBe('lua')
+      expect(detectCodeLanguage('application/octet-stream', 'Token.SOL')).toBe('solidity')
+      expect(detectCodeLanguage(undefined, 'index.tsx')).toBe('typescript')
+    })
+
+    it('should return null for non-code content', () => {
+      expect(detectCodeLanguage('text/plain', 'notes.txt')).toBeNull()
+      expect(detectCodeLanguage('image/png')).toBeNull()
+      expect(detectCodeLanguage('text/markdown', 'README')).toBeNull()
+      expect(detectCodeLanguage('text/html', 'page.js')).toBeNull()
+      expect(detectCodeLanguage('image/svg+xml', 'icon.css')).toBeNull()
+    })
+  })
+
+  describe('highlightCode', () => {
+    it('should classify keywords, strings, numbers and comments', () => {
+      const lines = highlightCode('const answer = 42 // the answer\nreturn "yes"', 'javascript')
+
+      expect(lines).toHaveLength(2)
+      expect(ofType(lines, 'keyword')).toEqual(['const', 'return'])
+      expect(ofType(lines, 'number')).toEqual(['42'])
+      expect(ofType(lines, 'comment')).toEqual(['// the answer'])
+      expect(ofType(lines, 'string')).toEqual(['"yes"'])
+    })
+
+    it('should keep the source text intact', () => {
+      const source = 'local t = { "a", [[long\nstring]] }\n-- done\n'
+      const lines = highlightCode(source, 'lua')
+
+      expect(lines.map(line => line.map(token => token.text).join('')).join('\n')).toBe(source)
+    })
+
+    it('should split multi-line comments across lines', () => {
+      const lines = highlightCode('/* one\ntwo */ x', 'typescript')
+
+      expect(lines[0]).toEqual([{ type: 'comment', text: '/* one' }])
+      expect(lines[1][0]).toEqual({ type: 'comment', text: 'two */' })
+    })
+
+    it('should distinguish JSON keys from string values', () => {
+      const lines = highlightCode('{"name": "roam", "count": 3, "ok": true}', 'json')
+
+      expect(ofType(lines, 'property')).toEqual(['"name"', '"count"', '"ok"'])
+      expect(ofType(lines, 'string')).toEqual(['"roam"'])
+      expect(ofType(lines, 'keyword')).toEqual(['true'])
+    })
+
+    it('should not treat identifiers containing keywords as keywords', () => {
+      expect(ofType(highlightCode('let format = constant', 'javascript'), 'keyword')).toEqual(['let'])
+    })
+
+    it('should leave unknown languages and very large sources unhighlighted', () => {
+      expect(highlightCode('const x = 1', null)).toEqual([[{ type: 'plain', text: 'const x = 1' }]])
+
+      const large = 'a'.repeat(MAX_HIGHLIGHT_CHARS + 1)
+      expect(highlightCode(large, 'javascript')).toEqual([[{ type: 'plain', text: large }]])
+    })
+  })
+})
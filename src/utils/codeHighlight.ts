@@ -0,0 +1,226 @@
+export type CodeLanguage = 'javascript' | 'typescript' | 'json' | 'lua' | 'solidity' | 'css' | 'python' | 'rust'
+
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'number' | 'comment' | 'property'
+
+export interface CodeToken {
+  type: CodeTokenType
+  text: string
+}
+
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  json: 'JSON',
+  lua: 'Lua',
+  solidity: 'Solidity',
+  css: 'CSS',
+  python: 'Python',
+  rust: 'Rust'
+}
+
+/** Sources longer than this are shown without highlighting to keep rendering fast */
+export const MAX_HIGHLIGHT_CHARS = 200_000
+
+const CONTENT_TYPE_LANGUAGES: Record<string, CodeLanguage> = {
+  'application/javascript': 'javascript',
+  'application/x-javascript': 'javascript',
+  'text/javascript': 'javascript',
+  'application/ecmascript': 'javascript',
+  'application/typescript': 'typescript',
+  'application/x-typescript': 'typescript',
+  'text/typescript': 'typescript',
+  'text/x-typescript': 'typescript',
+  'application/json': 'json',
+  'text/json': 'json',
+  'text/x-lua': 'lua',
+  'application/x-lua': 'lua',
+  'text/x-solidity': 'solidity',
+  'application/x-solidity': 'solidity',
+  'text/css': 'css',
+  'text/x-python': 'python',
+  'application/x-python': 'python',
+  'text/x-rust': 'rust'
+}
+
+const EXTENSION_LANGUAGES: Record<string, CodeLanguage> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  mts: 'typescript',
+  tsx: 'typescript',
+  json: 'json',
+  lua: 'lua',
+  sol: 'solidity',
+  css: 'css',
+  py: 'python',
+  rs: 'rust'
+}
+
+/** Declared types vague enough that the file extension decides the language */
+const EXTENSION_FALLBACK_TYPES = ['', 'text/plain', 'application/octet-stream']
+
+/**
+ * Pick a language from the Content-Type, falling back to the file extension
+ * when the type is missing, text/plain or application/octet-stream.
+ */
+export function detectCodeLanguage(contentType: string | null | undefined, filename?: string): CodeLanguage | null {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase()
+  if (CONTENT_TYPE_LANGUAGES[type]) return CONTENT_TYPE_LANGUAGES[type]
+  if (!EXTENSION_FALLBACK_TYPES.includes(type)) return null
+
+  const extension = filename?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1]
+  return extension ? EXTENSION_LANGUAGES[extension] ?? null : null
+}
+
+// --------------------------------------------------------------------------
+// Grammars: ordered sticky-regex rules, first match wins
+// --------------------------------------------------------------------------
+type Rule = [CodeTokenType, RegExp]
+
+const words = (list: string) => new Set(list.split(' '))
+
+const BLOCK_COMMENT: Rule = ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y]
+const LINE_COMMENT: Rule = ['comment', /\/\/.*/y]
+const DOUBLE_QUOTED: Rule = ['string', /"(?:\\.|[^"\\\n])*"?/y]
+const SINGLE_QUOTED: Rule = ['string', /'(?:\\.|[^'\\\n])*'?/y]
+const NUMBER: Rule = ['number', /(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)/y]
+
+const JS_KEYWORDS = words(
+  'async await break case catch class const continue debugger default delete do else export extends false ' +
+  'finally for from function if import in instanceof let new null of return static super switch this throw ' +
+  'true try typeof undefined var void while yield'
+)
+
+interface Grammar {
+  rules: Rule[]
+  keywords: Set<string>
+}
+
+const GRAMMARS: Record<CodeLanguage, Grammar> = {
+  javascript: {
+    rules: [BLOCK_COMMENT, LINE_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, ['string', /`(?:\\[\s\S]|[^`\\])*`?/y], NUMBER],
+    keywords: JS_KEYWORDS
+  },
+  typescript: {
+    rules: [BLOCK_COMMENT, LINE_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, ['string', /`(?:\\[\s\S]|[^`\\])*`?/y], NUMBER],
+    keywords: new Set([
+      ...JS_KEYWORDS,
+      ...words('abstract as any boolean declare enum implements interface keyof namespace never number private protected public readonly string type unknown')
+    ])
+  },
+  json: {
+    rules: [['property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y], DOUBLE_QUOTED, ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y]],
+    keywords: words('true false null')
+  },
+  lua: {
+    rules: [
+      ['comment', /--\[(=*)\[[\s\S]*?(?:\]\1\]|$)/y],
+      ['comment', /--.*/y],
+      ['string', /\[(=*)\[[\s\S]*?(?:\]\1\]|$)/y],
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      NUMBER
+    ],
+    keywords: words('and break do else elseif end false for function goto if in local nil not or repeat return then true until while')
+  },
+  solidity: {
+    rules: [BLOCK_COMMENT, LINE_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, NUMBER],
+    keywords: words(
+      'address bool break bytes bytes32 calldata constant constructor contract else emit enum event external false ' +
+      'for function if import interface internal library mapping memory modifier payable pragma private public pure ' +
+      'require return returns revert storage string struct true uint uint256 int int256 using view while'
+    )
+  },
+  css: {
+    rules: [
+      BLOCK_COMMENT,
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      ['keyword', /@[\w-]+|!important\b/y],
+      ['number', /#[\da-fA-F]{3,8}\b/y],
+      // A name followed by ":" and a value ending in ";" or "}" on the same line (not a:hover {)
+      ['property', /[\w-]+(?=\s*:[^{};\n]*[;}])/y],
+      ['number', /-?\d*\.?\d+(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?/y]
+    ],
+    keywords: words('inherit initial unset none auto')
+  },
+  python: {
+    rules: [
+      ['comment', /#.*/y],
+      ['string', /(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/y],
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      NUMBER
+    ],
+    keywords: words(
+      'and as assert async await break class continue def del elif else except False finally for from global if ' +
+      'import in is lambda None nonlocal not or pass raise return True try while with yield'
+    )
+  },
+  rust: {
+    rules: [BLOCK_COMMENT, LINE_COMMENT, DOUBLE_QUOTED, ['string', /'(?:\\.|[^'\\\n])'/y], NUMBER],
+    keywords: words(
+      'as async await break const continue crate else enum extern false fn for if impl in let loop match mod move ' +
+      'mut pub ref return self Self static struct super trait true type unsafe use where while'
+    )
+  }
+}
+
+const WORD = /[A-Za-z_$][\w$]*/y
+
+function tokenize(source: string, grammar: Grammar): CodeToken[] {
+  const tokens: CodeToken[] = []
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last && last.type === type && type === 'plain') {
+      last.text += text
+    } else {
+      tokens.push({ type, text })
+    }
+  }
+
+  let pos = 0
+  outer: while (pos < source.length) {
+    for (const [type, pattern] of grammar.rules) {
+      pattern.lastIndex = pos
+      const match = pattern.exec(source)
+      if (match && match[0].length > 0) {
+        push(type, match[0])
+        pos += match[0].length
+        continue outer
+      }
+    }
+
+    WORD.lastIndex = pos
+    const word = WORD.exec(source)
+    if (word) {
+      push(grammar.keywords.has(word[0]) ? 'keyword' : 'plain', word[0])
+      pos += word[0].length
+    } else {
+      push('plain', source[pos])
+      pos++
+    }
+  }
+  return tokens
+}
+
+/**
+ * Split source into lines of highlighted tokens. Multi-line comments and
+ * strings are split across lines keeping their token type.
+ */
+export function highlightCode(source: string, language: CodeLanguage | null): CodeToken[][] {
+  const tokens = language && source.length <= MAX_HIGHLIGHT_CHARS
+    ? tokenize(source, GRAMMARS[language])
+    : [{ type: 'plain' as const, text: source }]
+
+  const lines: CodeToken[][] = [[]]
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([])
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part })
+    })
+  }
+  return lines
+}
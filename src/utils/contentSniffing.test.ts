@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { sniffContentType, isGenericContentType, resolveContentType } from './contentSniffing'
+
+const bytes = (...values: (number | string)[]) =>
+  new Uint8Array(values.flatMap(v => typeof v === 'string' ? Array.from(v, c => c.charCodeAt(0)) : [v]))
+
+describe('contentSniffing', () => {
+  describe('sniffContentType', () => {
+    it('should recognise common image signatures', () => {
+      expect(sniffContentType(bytes(0x89, 'PNG', 0x0d, 0x0a, 0x1a, 0x0a, 0, 0))).toBe('image/png')
+      expect(sniffContentType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg')
+      expect(sniffContentType(bytes('GIF89a'))).toBe('image/gif')
+      expect(sniffContentType(bytes('RIFF', 0, 0, 0, 0, 'WEBP'))).toBe('image/webp')
+      expect(sniffContentType(bytes(0, 0, 0, 0x1c, 'ftypavif'))).toBe('image/avif')
+    })
+
+    it('should only treat "BM" as a bitmap with a valid header size', () => {
+      const header = bytes('BM', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 40, 0)
+      expect(sniffContentType(header)).toBe('image/bmp')
+      expect(sniffContentType(bytes('BMW owners club newsletter'))).toBeNull()
+    })
+
+    it('should recognise audio and video containers', () => {
+      expect(sniffContentType(bytes('ID3', 4, 0))).toBe('audio/mpeg')
+      expect(sniffContentType(bytes(0xff, 0xfb, 0x90))).toBe('audio/mpeg')
+      expect(sniffContentType(bytes('RIFF', 0, 0, 0, 0, 'WAVE'))).toBe('audio/wav')
+      expect(sniffContentType(bytes('OggS'))).toBe('audio/ogg')
+      expect(sniffContentType(bytes(0x1a, 0x45, 0xdf, 0xa3))).toBe('video/webm')
+      expect(sniffContentType(bytes(0, 0, 0, 0x20, 'ftypisom'))).toBe('video/mp4')
+      expect(sniffContentType(bytes(0, 0, 0, 0x20, 'ftypqt  '))).toBe('video/quicktime')
+    })
+
+    it('should recognise documents, archives and models', () => {
+      expect(sniffContentType(bytes('%PDF-1.7'))).toBe('application/pdf')
+      expect(sniffContentType(bytes('PK', 3, 4))).toBe('application/zip')
+      expect(sniffContentType(bytes('glTF', 2, 0, 0, 0))).toBe('model/gltf-binary')
+    })
+
+    it('should recognise HTML and SVG markup', () => {
+      expect(sniffContentType(bytes('\n  <!DOCTYPE html><html>'))).toBe('text/html')
+      expect(sniffContentType(bytes(0xef, 0xbb, 0xbf, '<svg xmlns="http://www.w3.org/2000/svg">'))).toBe('image/svg+xml')
+      expect(sniffContentType(bytes('<?xml version="1.0"?>\n<svg>'))).toBe('image/svg+xml')
+    })
+
+    it('should not guess plain text, JSON or UTF-16 text', () => {
+      expect(sniffContentType(bytes('# Hello world'))).toBeNull()
+      expect(sniffContentType(bytes('{"manifest":"arweave/paths"}'))).toBeNull()
+      expect(sniffContentType(bytes(0xff, 0xfe, 'h', 0, 'i', 0))).toBeNull()
+      expect(sniffContentType(new Uint8Array())).toBeNull()
+    })
+  })
+
+  describe('isGenericContentType', () => {
+    it('should flag missing and octet-stream types', () => {
+      expect(isGenericContentType(undefined)).toBe(true)
+      expect(isGenericContentType('')).toBe(true)
+      expect(isGenericContentType('application/octet-stream; charset=binary')).toBe(true)
+      expect(isGenericContentType('image/png')).toBe(false)
+    })
+  })
+
+  describe('resolveContentType', () => {
+    it('should use the sniffed type when the declaration is missing or generic', () => {
+      expect(resolveContentType(undefined, 'image/png')).toBe('image/png')
+      expect(resolveContentType('application/octet-stream', 'image/png')).toBe('image/png')
+    })
+
+    it('should use the sniffed type when the declaration names another kind', () => {
+      expect(resolveContentType('application/json', 'image/png')).toBe('image/png')
+      expect(resolveContentType('text/plain', 'audio/mpeg')).toBe('audio/mpeg')
+    })
+
+    it('should keep a declaration of the same kind', () => {
+      expect(resolveContentType('image/jpeg', 'image/png')).toBe('image/jpeg')
+      expect(resolveContentType('text/markdown', 'text/html')).toBe('text/markdown')
+      expect(resolveContentType('audio/mp4', 'video/mp4')).toBe('audio/mp4')
+    })
+
+    it('should keep the declaration when nothing was sniffed', () => {
+      expect(resolveContentType('text/markdown; charset=utf-8', null)).toBe('text/markdown')
+      expect(resolveContentType('', null)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,92 @@
+/** Number of leading bytes needed to recognise every supported signature */
+export const SNIFF_BYTES = 512
+
+/** Declared types that say nothing about the actual format */
+const GENERIC_CONTENT_TYPES = ['', 'application/octet-stream', 'binary/octet-stream', 'application/unknown']
+
+/** ISO base media (ftyp) major brands that are not plain MP4 video */
+const FTYP_BRANDS: Record<string, string> = {
+  avif: 'image/avif',
+  avis: 'image/avif',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  mif1: 'image/heif',
+  msf1: 'image/heif',
+  'M4A ': 'audio/mp4',
+  'M4B ': 'audio/mp4',
+  'qt  ': 'video/quicktime'
+}
+
+/** BITMAPCOREHEADER through BITMAPV5HEADER */
+const BMP_DIB_HEADER_SIZES = [12, 40, 52, 56, 108, 124]
+
+const startsWithBytes = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((b, i) => bytes[offset + i] === b)
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end))
+
+/**
+ * Identify a content type from the first bytes of a file. Returns null when
+ * no known signature matches, including for plain text and JSON.
+ */
+export function sniffContentType(bytes: Uint8Array): string | null {
+  if (startsWithBytes(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (startsWithBytes(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'image/gif'
+  // "BM" plus a known DIB header size, so text starting with "BM" is not a bitmap
+  if (ascii(bytes, 0, 2) === 'BM' && BMP_DIB_HEADER_SIZES.includes(bytes[14]) && bytes[15] === 0) return 'image/bmp'
+  if (ascii(bytes, 0, 4) === '%PDF') return 'application/pdf'
+  if (ascii(bytes, 0, 4) === 'glTF') return 'model/gltf-binary'
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'audio/flac'
+  if (ascii(bytes, 0, 4) === 'OggS') return 'audio/ogg'
+  if (ascii(bytes, 0, 3) === 'ID3') return 'audio/mpeg'
+  // MPEG layer III frame sync without an ID3 header (0xFFFE is a UTF-16 BOM)
+  if (bytes[0] === 0xff && [0xfb, 0xfa, 0xf3, 0xf2].includes(bytes[1])) return 'audio/mpeg'
+  if (startsWithBytes(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm'
+  if (startsWithBytes(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip'
+  if (startsWithBytes(bytes, [0x1f, 0x8b])) return 'application/gzip'
+
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const format = ascii(bytes, 8, 12)
+    if (format === 'WEBP') return 'image/webp'
+    if (format === 'WAVE') return 'audio/wav'
+    if (format === 'AVI ') return 'video/x-msvideo'
+  }
+
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    return FTYP_BRANDS[ascii(bytes, 8, 12)] ?? 'video/mp4'
+  }
+
+  // Markup: TextDecoder drops a UTF-8 BOM; skip leading whitespace and look at the first tag
+  const head = new TextDecoder().decode(bytes.subarray(0, SNIFF_BYTES)).trimStart().toLowerCase()
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) return 'text/html'
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) return 'image/svg+xml'
+
+  return null
+}
+
+/**
+ * Check whether a declared type carries no format information
+ */
+export function isGenericContentType(contentType: string | null | undefined): boolean {
+  return GENERIC_CONTENT_TYPES.includes((contentType ?? '').split(';')[0].trim().toLowerCase())
+}
+
+/**
+ * Pick the type to render from the declared and sniffed types. The sniffed
+ * type wins when the declaration is missing, generic or names a different
+ * kind of content; otherwise the more specific declaration is kept.
+ */
+export function resolveContentType(declared: string | null | undefined, sniffed: string | null): string | null {
+  const declaredType = (declared ?? '').split(';')[0].trim().toLowerCase()
+  if (!sniffed) return declaredType || null
+  if (isGenericContentType(declaredType)) return sniffed
+
+  const declaredKind = declaredType.split('/')[0]
+  const sniffedKind = sniffed.split('/')[0]
+  if (declaredKind === sniffedKind) return declaredType
+  // MP4 and WebM containers hold audio-only files too
+  if (declaredKind === 'audio' && (sniffed === 'video/mp4' || sniffed === 'video/webm')) return declaredType
+  return sniffed
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { shortenId } from './format'
+
+const TX_ID = 'w5AtiFsNvORfcRtikbdrp2tzqixb05vdPw-ZhgVkD70'
+
+describe('shortenId', () => {
+  it('should keep the first and last six characters', () => {
+    expect(shortenId(TX_ID)).toBe('w5AtiF...gVkD70')
+  })
+
+  it('should take custom head and tail lengths', () => {
+    expect(shortenId(TX_ID, 4, 2)).toBe('w5At...70')
+  })
+
+  it('should keep ids that shortening would not make shorter', () => {
+    expect(shortenId('bundle-123')).toBe('bundle-123')
+    expect(shortenId('a'.repeat(15))).toBe('a'.repeat(15))
+  })
+})
@@ -0,0 +1,7 @@
+/**
+ * Shorten a tx id or address to its first and last characters,
+ * e.g. "w5AtiF...gVkD70"; ids that are already short are kept whole
+ */
+export function shortenId(id: string, head = 6, tail = 6): string {
+  return id.length > head + tail + 3 ? `${id.slice(0, head)}...${id.slice(-tail)}` : id
+}
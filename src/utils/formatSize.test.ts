@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest'
+import { formatFileSize } from './formatSize'
+
+describe('formatFileSize', () => {
+  it('should format bytes with the largest whole unit', () => {
+    expect(formatFileSize(0)).toBe('0 B')
+    expect(formatFileSize(512)).toBe('512 B')
+    expect(formatFileSize(1536)).toBe('1.5 KB')
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5 MB')
+  })
+})
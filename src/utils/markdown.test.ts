@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { renderMarkdown } from './markdown'
+
+describe('markdown', () => {
+  describe('blocks', () => {
+    it('should render ATX and setext headings', () => {
+      expect(renderMarkdown('# Title\n## Sub ##')).toBe('<h1>Title</h1>\n<h2>Sub</h2>')
+      expect(renderMarkdown('Title\n=====\nSub\n---')).toBe('<h1>Title</h1>\n<h2>Sub</h2>')
+      expect(renderMarkdown('#hashtag')).toBe('<p>#hashtag</p>')
+    })
+
+    it('should render fenced code blocks with escaped content', () => {
+      expect(renderMarkdown('```lua\nprint("<hi>")\n```'))
+        .toBe('<pre><code class="language-lua">print(&quot;&lt;hi&gt;&quot;)\n</code></pre>')
+    })
+
+    it('should render indented code blocks', () => {
+      expect(renderMarkdown('    a < b\n    c')).toBe('<pre><code>a &lt; b\nc\n</code></pre>')
+    })
+
+    it('should render tight and loose lists', () => {
+      expect(renderMarkdown('- one\n- two')).toBe('<ul><li>one</li><li>two</li></ul>')
+      expect(renderMarkdown('1. one\n\n2. two')).toBe('<ol><li><p>one</p></li><li><p>two</p></li></ol>')
+      expect(renderMarkdown('3) three')).toBe('<ol start="3"><li>three</li></ol>')
+    })
+
+    it('should render nested lists', () => {
+      expect(renderMarkdown('- a\n  - b\n- c')).toBe('<ul><li>a\n<ul><li>b</li></ul></li><li>c</li></ul>')
+    })
+
+    it('should render blockquotes and thematic breaks', () => {
+      expect(renderMarkdown('> quoted\n> text\n\n***')).toBe('<blockquote><p>quoted\ntext</p></blockquote>\n<hr />')
+    })
+
+    it('should render GFM tables with alignment', () => {
+      expect(renderMarkdown('| a | b |\n|:--|--:|\n| 1 | 2 |')).toBe(
+        '<table><thead><tr><th align="left">a</th><th align="right">b</th></tr></thead>' +
+        '<tbody><tr><td align="left">1</td><td align="right">2</td></tr></tbody></table>'
+      )
+    })
+  })
+
+  describe('inline', () => {
+    it('should render emphasis, strong and strikethrough', () => {
+      expect(renderMarkdown('*a* **b** ~~c~~ ***d***'))
+        .toBe('<p><em>a</em> <strong>b</strong> <del>c</del> <em><strong>d</strong></em></p>')
+      expect(renderMarkdown('*a **b***')).toBe('<p><em>a <strong>b</strong></em></p>')
+    })
+
+    it('should not emphasize inside words with underscores', () => {
+      expect(renderMarkdown('snake_case_name and _em_')).toBe('<p>snake_case_name and <em>em</em></p>')
+    })
+
+    it('should render code spans without further processing', () => {
+      expect(renderMarkdown('`*not em* <b>`')).toBe('<p><code>*not em* &lt;b&gt;</code></p>')
+    })
+
+    it('should render links and images with titles', () => {
+      expect(renderMarkdown('[Roam](https://roam.ar.io "Home") ![alt *text*](img.png)'))
+        .toBe('<p><a href="https://roam.ar.io" title="Home">Roam</a> <img src="img.png" alt="alt text" /></p>')
+    })
+
+    it('should resolve reference links', () => {
+      expect(renderMarkdown('[docs][d] and [d]\n\n[d]: https://docs.ar.io "Docs"'))
+        .toBe('<p><a href="https://docs.ar.io" title="Docs">docs</a> and <a href="https://docs.ar.io" title="Docs">d</a></p>')
+    })
+
+    it('should render autolinks, escapes and hard breaks', () => {
+      expect(renderMarkdown('<https://ar.io> \\*x\\*  \nnext'))
+        .toBe('<p><a href="https://ar.io">https://ar.io</a> *x*<br />\nnext</p>')
+    })
+
+    it('should escape stray HTML characters', () => {
+      expect(renderMarkdown('1 < 2 & "3"')).toBe('<p>1 &lt; 2 &amp; &quot;3&quot;</p>')
+    })
+  })
+})
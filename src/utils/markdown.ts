@@ -0,0 +1,535 @@
+/**
+ * Small CommonMark renderer (plus GFM tables and strikethrough). The output
+ * may contain raw HTML from the source and must go through sanitizeHtml
+ * before it reaches the DOM.
+ */
+
+interface LinkReference {
+  href: string
+  title?: string
+}
+
+interface RenderContext {
+  references: Map<string, LinkReference>
+}
+
+const ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, ch => ESCAPES[ch])
+}
+
+const normalizeLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase()
+
+// --------------------------------------------------------------------------
+// Block patterns
+// --------------------------------------------------------------------------
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/
+const BLOCKQUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/
+const HTML_BLOCK = /^ {0,3}<(?:\/?[a-zA-Z][\w-]*(?:[\s/>]|$)|!--)/
+const INDENTED_CODE = /^(?: {4}|\t)/
+const TABLE_SEPARATOR = /^ {0,3}\|?(?:\s*:?-+:?\s*\|)+\s*(?::?-+:?\s*)?$|^ {0,3}\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)+\|?\s*$/
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/
+const REFERENCE_DEFINITION = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/
+
+const isBlank = (line: string) => line.trim() === ''
+
+/** Lines that end a paragraph without a blank line in between */
+function interruptsParagraph(line: string): boolean {
+  if (ATX_HEADING.test(line) || FENCE_OPEN.test(line) || BLOCKQUOTE.test(line)) return true
+  if (THEMATIC_BREAK.test(line) || HTML_BLOCK.test(line)) return true
+  const item = LIST_ITEM.exec(line)
+  // Only non-empty bullets and ordered lists starting at 1 interrupt a paragraph
+  return !!item && !!item[4]?.trim() && (/^[-*+]$/.test(item[2]) || /^1[.)]$/.test(item[2]))
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim()
+  if (row.startsWith('|')) row = row.slice(1)
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1)
+  const cells: string[] = []
+  let current = ''
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|'
+      i++
+    } else if (row[i] === '|') {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += row[i]
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+function renderTable(lines: string[], ctx: RenderContext): string {
+  const header = splitTableRow(lines[0])
+  const aligns = splitTableRow(lines[1]).map(cell => {
+    const left = cell.startsWith(':')
+    const right = cell.endsWith(':')
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : ''
+  })
+  const cell = (tag: string, text: string, i: number) =>
+    `<${tag}${aligns[i] ? ` align="${aligns[i]}"` : ''}>${renderInline(text, ctx)}</${tag}>`
+
+  const head = `<thead><tr>${header.map((text, i) => cell('th', text, i)).join('')}</tr></thead>`
+  const rows = lines.slice(2).map(line => {
+    const cells = splitTableRow(line)
+    return `<tr>${header.map((_, i) => cell('td', cells[i] ?? '', i)).join('')}</tr>`
+  })
+  return `<table>${head}${rows.length ? `<tbody>${rows.join('')}</tbody>` : ''}</table>`
+}
+
+/**
+ * Render block structure. `tight` drops <p> around paragraphs, as used for
+ * list items without blank lines between them.
+ */
+function renderBlocks(lines: string[], ctx: RenderContext, tight = false): string {
+  const out: string[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (isBlank(line)) {
+      i++
+      continue
+    }
+
+    // Fenced code block
+    const fence = FENCE_OPEN.exec(line)
+    if (fence) {
+      const marker = fence[1]
+      const indent = line.length - line.trimStart().length
+      const lang = fence[2].replace(/[^\w+-]/g, '')
+      const code: string[] = []
+      i++
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i].replace(new RegExp(`^ {0,${indent}}`), ''))
+        i++
+      }
+      i++ // closing fence (or end of input)
+      const body = code.length ? escapeHtml(code.join('\n')) + '\n' : ''
+      out.push(`<pre><code${lang ? ` class="language-${lang}"` : ''}>${body}</code></pre>`)
+      continue
+    }
+
+    const heading = ATX_HEADING.exec(line)
+    if (heading) {
+      const level = heading[1].length
+      out.push(`<h${level}>${renderInline(heading[2] ?? '', ctx)}</h${level}>`)
+      i++
+      continue
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      out.push('<hr />')
+      i++
+      continue
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''))
+        i++
+      }
+      out.push(`<blockquote>${renderBlocks(quoted, ctx)}</blockquote>`)
+      continue
+    }
+
+    const item = LIST_ITEM.exec(line)
+    if (item && !INDENTED_CODE.test(line)) {
+      const ordered = /\d/.test(item[2])
+      const delimiter = item[2].slice(-1)
+      const items: string[][] = []
+      let loose = false
+      let sawBlank = false
+
+      while (i < lines.length) {
+        const current = LIST_ITEM.exec(lines[i])
+        const sameList = current && !INDENTED_CODE.test(lines[i]) &&
+          /\d/.test(current[2]) === ordered && current[2].slice(-1) === delimiter
+        if (!sameList) break
+        if (sawBlank) loose = true
+
+        // Content indent: marker width plus the spaces after it
+        const contentIndent = current[1].length + current[2].length + Math.min(current[3]?.length ?? 1, 4)
+        const itemLines = [current[4] ?? '']
+        sawBlank = false
+        i++
+
+        while (i < lines.length) {
+          const next = lines[i]
+          if (isBlank(next)) {
+            sawBlank = true
+            itemLines.push('')
+            i++
+            continue
+          }
+          const indent = next.length - next.trimStart().length
+          if (indent >= contentIndent) {
+            if (sawBlank) loose = true
+            itemLines.push(next.slice(contentIndent))
+            sawBlank = false
+            i++
+          } else if (!sawBlank && !LIST_ITEM.test(next) && !interruptsParagraph(next)) {
+            // Lazy paragraph continuation
+            itemLines.push(next.trim())
+            i++
+          } else {
+            break
+          }
+        }
+        while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) itemLines.pop()
+        items.push(itemLines)
+      }
+
+      const start = ordered ? parseInt(item[2], 10) : 1
+      const tag = ordered ? 'ol' : 'ul'
+      const body = items.map(lines => `<li>${renderBlocks(lines, ctx, !loose)}</li>`).join('')
+      out.push(`<${tag}${ordered && start !== 1 ? ` start="${start}"` : ''}>${body}</${tag}>`)
+      continue
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const rows = [line, lines[i + 1]]
+      i += 2
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        rows.push(lines[i])
+        i++
+      }
+      out.push(renderTable(rows, ctx))
+      continue
+    }
+
+    if (HTML_BLOCK.test(line)) {
+      const html: string[] = []
+      while (i < lines.length && !isBlank(lines[i])) {
+        html.push(lines[i])
+        i++
+      }
+      out.push(html.join('\n'))
+      continue
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const code: string[] = []
+      while (i < lines.length && (INDENTED_CODE.test(lines[i]) || isBlank(lines[i]))) {
+        code.push(lines[i].replace(/^(?: {4}|\t)/, ''))
+        i++
+      }
+      while (code.length && isBlank(code[code.length - 1])) code.pop()
+      out.push(`<pre><code>${escapeHtml(code.join('\n'))}\n</code></pre>`)
+      continue
+    }
+
+    // Paragraph, possibly turned into a setext heading
+    // Trailing spaces are kept for hard breaks, except at the very end
+    const paragraph = [line.trimStart()]
+    i++
+    let setextLevel = 0
+    while (i < lines.length && !isBlank(lines[i])) {
+      const setext = SETEXT_UNDERLINE.exec(lines[i])
+      if (setext) {
+        setextLevel = setext[1][0] === '=' ? 1 : 2
+        i++
+        break
+      }
+      if (interruptsParagraph(lines[i])) break
+      paragraph.push(lines[i].trimStart())
+      i++
+    }
+    const text = renderInline(paragraph.join('\n').trimEnd(), ctx)
+    if (setextLevel) {
+      out.push(`<h${setextLevel}>${text}</h${setextLevel}>`)
+    } else {
+      out.push(tight ? text : `<p>${text}</p>`)
+    }
+  }
+
+  return out.join('\n')
+}
+
+// --------------------------------------------------------------------------
+// Inline
+// --------------------------------------------------------------------------
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/
+const ENTITY = /^&(?:#\d{1,7}|#[xX][\da-fA-F]{1,6}|[a-zA-Z][a-zA-Z\d]{1,31});/
+const AUTOLINK = /^<([a-zA-Z][a-zA-Z\d+.-]{1,31}:[^\s<>]*)>/
+const EMAIL_AUTOLINK = /^<([\w.!#$%&'*+/=?^`{|}~-]+@[a-zA-Z\d](?:[a-zA-Z\d-]*[a-zA-Z\d])?(?:\.[a-zA-Z\d](?:[a-zA-Z\d-]*[a-zA-Z\d])?)*)>/
+const INLINE_HTML = /^(?:<\/?[a-zA-Z][\w-]*(?:\s+[a-zA-Z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<!--[\s\S]*?-->)/
+
+/** Find the "]" closing a bracket opened just before `start` */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 1
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0]
+      const close = text.indexOf(run, i + run.length)
+      if (close !== -1) i = close + run.length - 1
+    } else if (text[i] === '[') depth++
+    else if (text[i] === ']' && --depth === 0) return i
+  }
+  return -1
+}
+
+/** Parse `(dest "title")` at `start`; returns the destination and end index */
+function parseInlineLink(text: string, start: number): { href: string; title?: string; end: number } | null {
+  if (text[start] !== '(') return null
+  let i = start + 1
+  while (text[i] === ' ' || text[i] === '\n') i++
+
+  let href = ''
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i)
+    if (close === -1) return null
+    href = text.slice(i + 1, close)
+    i = close + 1
+  } else {
+    let depth = 0
+    while (i < text.length && !/\s/.test(text[i])) {
+      if (text[i] === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+        href += text[i + 1]
+        i += 2
+        continue
+      }
+      if (text[i] === '(') depth++
+      if (text[i] === ')' && depth-- === 0) break
+      href += text[i]
+      i++
+    }
+  }
+
+  while (text[i] === ' ' || text[i] === '\n') i++
+  let title: string | undefined
+  const quote = text[i]
+  if (quote === '"' || quote === "'" || quote === '(') {
+    const closing = quote === '(' ? ')' : quote
+    title = ''
+    i++
+    while (i < text.length && text[i] !== closing) {
+      if (text[i] === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) i++
+      title += text[i]
+      i++
+    }
+    if (i >= text.length) return null
+    i++
+    while (text[i] === ' ' || text[i] === '\n') i++
+  }
+  if (text[i] !== ')') return null
+  return { href, title, end: i + 1 }
+}
+
+/**
+ * Find the closing emphasis run for an opener of `marker` repeated `length`
+ * times. Closers must follow a non-space character and match the opener's
+ * length (a run of three also closes a nested pair, as in `*a **b***`);
+ * "_" closers must not be followed by a word character.
+ */
+function findEmphasisClose(text: string, start: number, marker: string, length: number): number {
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+      continue
+    }
+    if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0]
+      const close = text.indexOf(run, i + run.length)
+      if (close !== -1) i = close + run.length - 1
+      continue
+    }
+    if (text[i] !== marker) continue
+    let run = 0
+    while (text[i + run] === marker) run++
+    const after = text[i + run] ?? ''
+    if ((run === length || run === 3) && !/\s/.test(text[i - 1]) && i > start && !(marker === '_' && /\w/.test(after))) {
+      return i + run - length
+    }
+    i += run - 1
+  }
+  return -1
+}
+
+function renderLink(label: string, href: string, title: string | undefined, ctx: RenderContext, image: boolean): string {
+  const titleAttr = title ? ` title="${escapeHtml(title)}"` : ''
+  if (image) {
+    // Alt text is the plain text of the label
+    const alt = renderInline(label, ctx).replace(/<[^>]*>/g, '')
+    return `<img src="${escapeHtml(href)}" alt="${alt}"${titleAttr} />`
+  }
+  return `<a href="${escapeHtml(href)}"${titleAttr}>${renderInline(label, ctx)}</a>`
+}
+
+export function renderInline(text: string, ctx: RenderContext): string {
+  let out = ''
+  let i = 0
+
+  while (i < text.length) {
+    const ch = text[i]
+    const rest = text.slice(i)
+
+    if (ch === '\\') {
+      if (text[i + 1] === '\n') {
+        out += '<br />\n'
+        i += 2
+        continue
+      }
+      if (ESCAPABLE.test(text[i + 1] ?? '')) {
+        out += escapeHtml(text[i + 1])
+        i += 2
+        continue
+      }
+    }
+
+    if (ch === '`') {
+      const run = /^`+/.exec(rest)![0]
+      const close = text.indexOf(run, i + run.length)
+      // The closing run must be exactly as long as the opening one
+      if (close !== -1 && text[close + run.length] !== '`') {
+        let code = text.slice(i + run.length, close).replace(/\n/g, ' ')
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1)
+        out += `<code>${escapeHtml(code)}</code>`
+        i = close + run.length
+        continue
+      }
+      out += escapeHtml(run)
+      i += run.length
+      continue
+    }
+
+    if (ch === '[' || (ch === '!' && text[i + 1] === '[')) {
+      const image = ch === '!'
+      const open = i + (image ? 2 : 1)
+      const close = findClosingBracket(text, open)
+      if (close !== -1) {
+        const label = text.slice(open, close)
+        const inline = parseInlineLink(text, close + 1)
+        if (inline) {
+          out += renderLink(label, inline.href, inline.title, ctx, image)
+          i = inline.end
+          continue
+        }
+        // Reference links: [text][ref], [text][] and [ref]
+        let refLabel = label
+        let end = close + 1
+        const full = /^\[([^\]]*)\]/.exec(text.slice(close + 1))
+        if (full) {
+          refLabel = full[1] || label
+          end = close + 1 + full[0].length
+        }
+        const ref = ctx.references.get(normalizeLabel(refLabel))
+        if (ref) {
+          out += renderLink(label, ref.href, ref.title, ctx, image)
+          i = end
+          continue
+        }
+      }
+      out += image ? '![' : '['
+      i = open
+      continue
+    }
+
+    if (ch === '<') {
+      const auto = AUTOLINK.exec(rest)
+      if (auto) {
+        out += `<a href="${escapeHtml(auto[1])}">${escapeHtml(auto[1])}</a>`
+        i += auto[0].length
+        continue
+      }
+      const email = EMAIL_AUTOLINK.exec(rest)
+      if (email) {
+        out += `<a href="mailto:${escapeHtml(email[1])}">${escapeHtml(email[1])}</a>`
+        i += email[0].length
+        continue
+      }
+      const html = INLINE_HTML.exec(rest)
+      if (html) {
+        out += html[0]
+        i += html[0].length
+        continue
+      }
+    }
+
+    if (ch === '&') {
+      const entity = ENTITY.exec(rest)
+      if (entity) {
+        out += entity[0]
+        i += entity[0].length
+        continue
+      }
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      const run = new RegExp(`^\\${ch}+`).exec(rest)![0]
+      const next = text[i + run.length] ?? ''
+      const prev = text[i - 1] ?? ''
+      const canOpen = next !== '' && !/\s/.test(next) && !(ch === '_' && /\w/.test(prev))
+      const length = ch === '~' ? 2 : Math.min(run.length, 3)
+      if (canOpen && (ch !== '~' || run.length === 2)) {
+        const close = findEmphasisClose(text, i + length, ch, length)
+        if (close !== -1) {
+          const inner = renderInline(text.slice(i + length, close), ctx)
+          const wrapped = ch === '~'
+            ? `<del>${inner}</del>`
+            : length === 3
+              ? `<em><strong>${inner}</strong></em>`
+              : length === 2 ? `<strong>${inner}</strong>` : `<em>${inner}</em>`
+          out += escapeHtml(run.slice(length)) + wrapped
+          i = close + length
+          continue
+        }
+      }
+      out += escapeHtml(run)
+      i += run.length
+      continue
+    }
+
+    if (ch === '\n') {
+      // Two trailing spaces make a hard break
+      if (/ {2,}$/.test(out)) {
+        out = out.replace(/ +$/, '') + '<br />\n'
+      } else {
+        out = out.replace(/ +$/, '') + '\n'
+      }
+      i++
+      continue
+    }
+
+    out += escapeHtml(ch)
+    i++
+  }
+
+  return out
+}
+
+/**
+ * Render markdown source to (unsanitized) HTML
+ */
+export function renderMarkdown(source: string): string {
+  const references = new Map<string, LinkReference>()
+  const lines: string[] = []
+  let inFence = false
+
+  // Collect reference definitions outside code fences
+  for (const line of source.replace(/\r\n?/g, '\n').split('\n')) {
+    if (FENCE_OPEN.test(line)) inFence = !inFence
+    const definition = !inFence ? REFERENCE_DEFINITION.exec(line) : null
+    if (definition) {
+      const label = normalizeLabel(definition[1])
+      if (!references.has(label)) {
+        references.set(label, { href: definition[2], title: definition[3] ?? definition[4] ?? definition[5] })
+      }
+      continue
+    }
+    lines.push(line)
+  }
+
+  return renderBlocks(lines, { references })
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest'
+import { readStreamToBlob, isStreamableMediaType, createMediaSourceUrl, withCancel } from './mediaStream'
+
+const streamOf = (...chunks: number[][]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    chunks.forEach(chunk => controller.enqueue(new Uint8Array(chunk)))
+    controller.close()
+  }
+})
+
+describe('readStreamToBlob', () => {
+  it('should collect every chunk and report the running byte count', async () => {
+    const onProgress = vi.fn()
+
+    const blob = await readStreamToBlob(streamOf([1, 2, 3], [4, 5]), 'video/webm', onProgress)
+
+    expect(blob.size).toBe(5)
+    expect(blob.type).toBe('video/webm')
+    expect(onProgress.mock.calls).toEqual([[3], [5]])
+  })
+})
+
+describe('isStreamableMediaType', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should only accept appendable containers the browser supports', () => {
+    vi.stubGlobal('MediaSource', { isTypeSupported: (type: string) => type !== 'audio/mpeg' })
+
+    expect(isStreamableMediaType('video/webm; codecs="vp9"')).toBe(true)
+    expect(isStreamableMediaType('video/mp4')).toBe(false)
+    expect(isStreamableMediaType('audio/mpeg')).toBe(false)
+  })
+
+  it('should reject everything without Media Source Extensions', () => {
+    expect(isStreamableMediaType('video/webm')).toBe(false)
+  })
+})
+
+describe('withCancel', () => {
+  it('should pass chunks through and report a cancel', async () => {
+    const onCancel = vi.fn()
+    const reader = withCancel(streamOf([1, 2], [3]), onCancel).getReader()
+
+    expect(Array.from((await reader.read()).value!)).toEqual([1, 2])
+    await reader.cancel('closed')
+    expect(onCancel).toHaveBeenCalledWith('closed')
+  })
+})
+
+describe('createMediaSourceUrl', () => {
+  class FakeSourceBuffer extends EventTarget {
+    ranges: [number, number][] = [[0, 60]]
+    failures: Error[] = []
+    appended: number[][] = []
+    removed: [number, number][] = []
+    get buffered() {
+      return { length: this.ranges.length, start: (i: number) => this.ranges[i][0], end: (i: number) => this.ranges[i][1] }
+    }
+    appendBuffer(chunk: Uint8Array) {
+      const failure = this.failures.shift()
+      if (failure) throw failure
+      this.appended.push(Array.from(chunk))
+      queueMicrotask(() => this.dispatchEvent(new Event('updateend')))
+    }
+    remove(start: number, end: number) {
+      this.removed.push([start, end])
+      queueMicrotask(() => this.dispatchEvent(new Event('updateend')))
+    }
+  }
+
+  let sourceBuffer: FakeSourceBuffer
+  let mediaSource: EventTarget & { readyState: string; endOfStream: ReturnType<typeof vi.fn> }
+
+  beforeEach(() => {
+    sourceBuffer = new FakeSourceBuffer()
+    vi.stubGlobal('MediaSource', class extends EventTarget {
+      readyState = 'open'
+      endOfStream = vi.fn()
+      constructor() {
+        super()
+        mediaSource = this
+      }
+      addSourceBuffer() { return sourceBuffer }
+    })
+    vi.stubGlobal('URL', { createObjectURL: () => 'blob:media' })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should remove played ranges and retry when the SourceBuffer is full', async () => {
+    sourceBuffer.failures.push(new DOMException('full', 'QuotaExceededError'))
+    const media = { currentTime: 30, addEventListener: vi.fn(), removeEventListener: vi.fn() } as unknown as HTMLMediaElement
+
+    createMediaSourceUrl(streamOf([1, 2]), 'video/webm', () => media)
+    mediaSource.dispatchEvent(new Event('sourceopen'))
+
+    await vi.waitFor(() => expect(mediaSource.endOfStream).toHaveBeenCalled())
+    expect(sourceBuffer.removed).toEqual([[0, 20]])
+    expect(sourceBuffer.appended).toEqual([[1, 2]])
+    expect(mediaSource.endOfStream).toHaveBeenCalledWith()
+  })
+
+  it('should end the stream without a decode error when an append fails', async () => {
+    sourceBuffer.failures.push(new DOMException('gone', 'InvalidStateError'))
+
+    createMediaSourceUrl(streamOf([1, 2]), 'video/webm')
+    mediaSource.dispatchEvent(new Event('sourceopen'))
+
+    await vi.waitFor(() => expect(mediaSource.endOfStream).toHaveBeenCalled())
+    expect(mediaSource.endOfStream).toHaveBeenCalledWith()
+  })
+})
@@ -0,0 +1,150 @@
+import { logger } from './logger'
+
+/**
+ * Streaming helpers for large media: reading a response body with byte
+ * progress, and playing a body through Media Source Extensions.
+ */
+
+/**
+ * Containers whose byte stream can be appended to a SourceBuffer as it
+ * arrives. Plain MP4 is left out: unless fragmented it needs the whole file,
+ * so it plays from the gateway URL, which browsers fetch in ranges.
+ */
+const STREAMABLE_MEDIA_TYPES = ['video/webm', 'audio/webm', 'audio/mpeg']
+
+/**
+ * Read a body to a Blob, calling `onProgress` with the bytes read so far
+ * after each chunk
+ */
+export async function readStreamToBlob(
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  onProgress?: (loadedBytes: number) => void
+): Promise<Blob> {
+  const reader = body.getReader()
+  const chunks: Uint8Array[] = []
+  let loadedBytes = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loadedBytes += value.byteLength
+    onProgress?.(loadedBytes)
+  }
+  return new Blob(chunks as BlobPart[], { type: contentType })
+}
+
+/**
+ * Whether a content type can be played from a stream in this browser
+ */
+export function isStreamableMediaType(contentType: string): boolean {
+  const mime = contentType.split(';')[0].trim().toLowerCase()
+  return typeof MediaSource !== 'undefined' &&
+    STREAMABLE_MEDIA_TYPES.includes(mime) &&
+    MediaSource.isTypeSupported(contentType)
+}
+
+/**
+ * Pass `stream` through, calling `onCancel` when the consumer cancels it,
+ * e.g. to abort the request behind the other branch of a tee
+ */
+export function withCancel(
+  stream: ReadableStream<Uint8Array>,
+  onCancel: (reason?: unknown) => void
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    cancel(reason) {
+      onCancel(reason)
+      return reader.cancel(reason)
+    }
+  })
+}
+
+/** Seconds kept behind the playhead when a full SourceBuffer is trimmed */
+const BACK_BUFFER_SECONDS = 10
+/** How long a full SourceBuffer waits for playback before trying again */
+const QUOTA_RETRY_MS = 1000
+
+const isQuotaExceeded = (error: unknown) =>
+  error instanceof DOMException && error.name === 'QuotaExceededError'
+
+/**
+ * Object URL of a MediaSource fed from `stream`, for a video or audio src.
+ * Browsers cap how much one SourceBuffer holds, so when it is full the
+ * ranges already played by `getMedia()` are removed, or playback is awaited
+ * until there are some. `cancel` stops reading; the caller revokes the URL.
+ */
+export function createMediaSourceUrl(
+  stream: ReadableStream<Uint8Array>,
+  contentType: string,
+  getMedia?: () => HTMLMediaElement | null
+): { url: string; cancel: () => void } {
+  const mediaSource = new MediaSource()
+  const reader = stream.getReader()
+  let cancelled = false
+
+  const waitForPlayback = () => new Promise<void>(resolve => {
+    const media = getMedia?.()
+    const done = () => {
+      clearTimeout(timer)
+      media?.removeEventListener('timeupdate', done)
+      resolve()
+    }
+    const timer = setTimeout(done, QUOTA_RETRY_MS)
+    media?.addEventListener('timeupdate', done)
+  })
+
+  const appendAll = async () => {
+    const sourceBuffer = mediaSource.addSourceBuffer(contentType)
+    const updated = () => new Promise(resolve => sourceBuffer.addEventListener('updateend', resolve, { once: true }))
+
+    const append = async (chunk: Uint8Array) => {
+      while (!cancelled) {
+        try {
+          sourceBuffer.appendBuffer(chunk as BufferSource)
+          await updated()
+          return
+        } catch (error) {
+          if (!isQuotaExceeded(error)) throw error
+          const playedUntil = (getMedia?.()?.currentTime ?? 0) - BACK_BUFFER_SECONDS
+          const { buffered } = sourceBuffer
+          if (buffered.length > 0 && buffered.start(0) < playedUntil) {
+            sourceBuffer.remove(buffered.start(0), playedUntil)
+            await updated()
+          } else {
+            await waitForPlayback()
+          }
+        }
+      }
+    }
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done || cancelled) break
+      await append(value)
+    }
+    if (!cancelled && mediaSource.readyState === 'open') mediaSource.endOfStream()
+  }
+
+  mediaSource.addEventListener('sourceopen', () => {
+    appendAll().catch(error => {
+      // Play what was appended; a failed append is not evidence of corrupt data
+      logger.warn('Streaming media stopped early', error)
+      if (mediaSource.readyState === 'open') mediaSource.endOfStream()
+    })
+  }, { once: true })
+
+  return {
+    url: URL.createObjectURL(mediaSource),
+    cancel: () => {
+      cancelled = true
+      reader.cancel().catch(() => {})
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest'
+import { memoizeAsync } from './memoizeAsync'
+
+describe('memoizeAsync', () => {
+  it('should share one load between calls with the same key', async () => {
+    const load = vi.fn((id: string) => Promise.resolve(`loaded ${id}`))
+    const cached = memoizeAsync(load)
+
+    const [a, b] = await Promise.all([cached('a'), cached('a')])
+    await cached('b')
+
+    expect(a).toBe('loaded a')
+    expect(b).toBe('loaded a')
+    expect(load.mock.calls).toEqual([['a'], ['b']])
+  })
+
+  it('should key calls with a custom key function', async () => {
+    const load = vi.fn((id: string, gateway: string) => Promise.resolve(`${id}@${gateway}`))
+    const cached = memoizeAsync(load, (id) => id)
+
+    await cached('a', 'https://arweave.net')
+    const result = await cached('a', 'https://permagate.io')
+
+    expect(result).toBe('a@https://arweave.net')
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('should load again after a failure', async () => {
+    const load = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce('loaded')
+    const cached = memoizeAsync(load as (id: string) => Promise<string>)
+
+    await expect(cached('a')).rejects.toThrow('offline')
+    await expect(cached('a')).resolves.toBe('loaded')
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('should load again once cleared', async () => {
+    const load = vi.fn((id: string) => Promise.resolve(id))
+    const cached = memoizeAsync(load)
+
+    await cached('a')
+    cached.clear()
+    await cached('a')
+
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+})
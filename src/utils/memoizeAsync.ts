@@ -0,0 +1,34 @@
+/**
+ * Share one in-flight or settled promise per key between callers of an async
+ * loader. A rejected promise is dropped, so the next call loads again.
+ */
+export interface MemoizedAsync<A extends unknown[], T> {
+  (...args: A): Promise<T>
+  /** Forget every cached result */
+  clear: () => void
+}
+
+/**
+ * Memoize `load` by `key`, which defaults to the first argument
+ */
+export function memoizeAsync<A extends unknown[], T>(
+  load: (...args: A) => Promise<T>,
+  key: (...args: A) => string = (...args) => String(args[0])
+): MemoizedAsync<A, T> {
+  const results = new Map<string, Promise<T>>()
+
+  const memoized = (...args: A): Promise<T> => {
+    const k = key(...args)
+    let result = results.get(k)
+    if (!result) {
+      result = load(...args)
+      results.set(k, result)
+      result.catch(() => {
+        if (results.get(k) === result) results.delete(k)
+      })
+    }
+    return result
+  }
+
+  return Object.assign(memoized, { clear: () => results.clear() })
+}
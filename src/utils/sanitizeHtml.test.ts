@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { sanitizeHtml, isSafeUrl, parseArweaveRef } from './sanitizeHtml'
+import { renderMarkdown } from './markdown'
+
+const TX_ID = 'Ar9lHUwJmGLdzLhBSm5pDOaNlk4Xi9nQBkBq4Jx3pLs'
+
+// Render markdown the way MediaView does
+const render = (markdown: string) => sanitizeHtml(renderMarkdown(markdown))
+
+describe('sanitizeHtml', () => {
+  describe('hostile markdown', () => {
+    it('should drop script and style elements with their content', () => {
+      const html = render('Hello\n\n<script>alert(1)</script>\n\n<style>body{display:none}</style>')
+      expect(html).toBe('<p>Hello</p>\n\n')
+    })
+
+    it('should strip event handlers from raw HTML', () => {
+      const html = render('<img src="x.png" onerror="alert(1)"> <b onclick="steal()">bold</b>')
+      expect(html).not.toMatch(/onerror|onclick|alert|steal/)
+      expect(html).toContain('<b>bold</b>')
+    })
+
+    it('should remove javascript: and other unsafe link schemes', () => {
+      for (const href of ['javascript:alert(1)', 'JaVaScRiPt:alert(1)', 'java\tscript:alert(1)', 'vbscript:msgbox(1)', 'data:text/html;base64,PHNjcmlwdD4=']) {
+        const html = render(`[click](<${href}>)`)
+        expect(html).toBe('<p><a>click</a></p>')
+      }
+    })
+
+    it('should remove entity-encoded javascript: URLs in raw HTML', () => {
+      const html = render('<a href="&#106;avascript&#58;alert(1)">x</a>')
+      expect(html).not.toContain('href')
+    })
+
+    it('should drop iframes, objects, forms and SVG', () => {
+      const html = render([
+        '<iframe src="https://evil.example"></iframe>',
+        '<object data="x.swf"></object>',
+        '<form action="https://evil.example"><input name="pw"></form>',
+        '<svg><script>alert(1)</script></svg>',
+        '<math><mi xlink:href="javascript:alert(1)">x</mi></math>'
+      ].join('\n\n'))
+      expect(html).not.toMatch(/iframe|object|form|input|svg|script|math|alert/)
+    })
+
+    it('should strip inline styles, ids and classes that are not code languages', () => {
+      const html = render('<div style="position:fixed" id="app" class="overlay">x</div>\n\n```js\nx\n```')
+      expect(html).toContain('<div>x</div>')
+      expect(html).toContain('<code class="language-js">')
+    })
+
+    it('should unwrap unknown elements but keep their text', () => {
+      expect(render('<custom-el>kept</custom-el>')).toBe('kept')
+    })
+
+    it('should remove HTML comments and meta refreshes', () => {
+      const html = render('<!-- <img src=x onerror=alert(1)> -->\n\n<meta http-equiv="refresh" content="0;url=https://evil.example">')
+      expect(html).not.toMatch(/img|meta|refresh/)
+    })
+
+    it('should not let markdown link titles break out of attributes', () => {
+      const html = render('[x](https://ar.io "a\\" onmouseover=\\"alert(1)")')
+      const container = document.createElement('div')
+      container.innerHTML = html
+      expect(container.querySelector('[onmouseover]')).toBeNull()
+      expect(container.querySelector('a')?.title).toBe('a" onmouseover="alert(1)')
+    })
+
+    it('should only allow data URLs for raster images', () => {
+      expect(render('![x](data:image/png;base64,iVBORw0KGgo=)')).toContain('src="data:image/png;base64,iVBORw0KGgo="')
+      expect(render('![x](data:image/svg+xml;base64,PHN2Zz4=)')).not.toContain('src=')
+    })
+  })
+
+  describe('links and images', () => {
+    it('should open external links in a new tab without referrer', () => {
+      expect(render('[ar.io](https://ar.io)'))
+        .toBe('<p><a href="https://ar.io" target="_blank" rel="noopener noreferrer nofollow">ar.io</a></p>')
+    })
+
+    it('should move Arweave references into data attributes', () => {
+      const html = render(`[doc](ar://${TX_ID}/index.html) ![pic](${TX_ID})`)
+      expect(html).toContain(`data-ar-href="ar://${TX_ID}/index.html"`)
+      expect(html).toContain(`data-ar-src="ar://${TX_ID}"`)
+      expect(html).not.toMatch(/ (href|src)="/)
+    })
+
+    it('should keep ar:// links to ArNS names', () => {
+      expect(render('[docs](ar://docs_ardrive/guide)')).toContain('data-ar-href="ar://docs_ardrive/guide"')
+      expect(render('[bad](ar://no%20pe)')).toBe('<p><a>bad</a></p>')
+    })
+  })
+
+  describe('isSafeUrl', () => {
+    it('should allow web, relative and mailto URLs', () => {
+      expect(isSafeUrl('https://ar.io', 'href')).toBe(true)
+      expect(isSafeUrl('#section', 'href')).toBe(true)
+      expect(isSafeUrl('mailto:hi@ar.io', 'href')).toBe(true)
+      expect(isSafeUrl('mailto:hi@ar.io', 'src')).toBe(false)
+      expect(isSafeUrl('//evil.example/x', 'src')).toBe(false)
+    })
+  })
+
+  describe('parseArweaveRef', () => {
+    it('should parse ar:// and relative transaction references', () => {
+      expect(parseArweaveRef(`ar://${TX_ID}`)).toEqual({ txId: TX_ID, path: '' })
+      expect(parseArweaveRef(`./${TX_ID}/a.png`)).toEqual({ txId: TX_ID, path: '/a.png' })
+      expect(parseArweaveRef(`/${TX_ID}?x=1`)).toEqual({ txId: TX_ID, path: '?x=1' })
+      expect(parseArweaveRef('ar://ardrive')).toBeNull()
+      expect(parseArweaveRef('https://arweave.net/' + TX_ID)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import { isTxId } from './arweaveIds'
+import { parseArUrl, formatArUrl, type ArUrl } from './arUrl'
+
+/**
+ * Allowlist HTML sanitizer for rendered user content. Anything not listed
+ * here is removed: unknown elements are unwrapped (their text is kept),
+ * dangerous ones are dropped with their content, and every attribute not
+ * allowed for its element - including all event handlers and inline
+ * styles - is stripped.
+ */
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'code', 'dd', 'del', 'details', 'div', 'dl', 'dt', 'em',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'small',
+  'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+])
+
+/** Elements removed together with everything inside them */
+const DROPPED_TAGS = new Set([
+  'applet', 'audio', 'base', 'button', 'canvas', 'embed', 'form', 'frame', 'frameset', 'head', 'iframe',
+  'input', 'link', 'math', 'meta', 'noembed', 'noframes', 'noscript', 'object', 'portal', 'script', 'select',
+  'source', 'style', 'svg', 'template', 'textarea', 'title', 'track', 'video', 'xmp'
+])
+
+const GLOBAL_ATTRIBUTES = ['title']
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  img: ['src', 'alt', 'width', 'height'],
+  code: ['class'],
+  ol: ['start'],
+  th: ['align', 'colspan', 'rowspan'],
+  td: ['align', 'colspan', 'rowspan'],
+  p: ['align'],
+  div: ['align'],
+  details: ['open']
+}
+
+const ATTRIBUTE_PATTERNS: Record<string, RegExp> = {
+  class: /^language-[\w+-]+$/,
+  align: /^(left|right|center)$/i,
+  width: /^\d{1,4}%?$/,
+  height: /^\d{1,4}%?$/,
+  start: /^\d{1,9}$/,
+  colspan: /^\d{1,3}$/,
+  rowspan: /^\d{1,3}$/
+}
+
+const SAFE_IMAGE_DATA_URL = /^data:image\/(?:png|gif|jpeg|webp);base64,[a-z0-9+/=]+$/i
+
+export interface ArweaveRef {
+  txId: string
+  path: string
+}
+
+/**
+ * Parse a reference to Arweave content: `ar://<txid>/path`, or a relative
+ * `<txid>`, `./<txid>` or `/<txid>` link as used in permaweb documents.
+ */
+export function parseArweaveRef(value: string): ArweaveRef | null {
+  const match = /^(?:ar:\/\/|\.?\/)?([a-zA-Z0-9_-]{43})((?:[/?#].*)?)$/.exec(value.trim())
+  if (!match || !isTxId(match[1])) return null
+  return { txId: match[1], path: match[2] }
+}
+
+/**
+ * Check a URL for use in href/src. Control characters and whitespace are
+ * removed first so "java\tscript:" cannot slip past the scheme check.
+ */
+export function isSafeUrl(value: string, attribute: 'href' | 'src'): boolean {
+  const compact = value.replace(/[\u0000- \u007f-\u009f]/g, '')
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(compact)?.[1].toLowerCase()
+  if (!scheme) return !compact.startsWith('//')
+  if (scheme === 'http' || scheme === 'https') return true
+  if (scheme === 'mailto') return attribute === 'href'
+  if (scheme === 'data') return attribute === 'src' && SAFE_IMAGE_DATA_URL.test(compact)
+  return false
+}
+
+function sanitizeElement(element: Element): void {
+  const tag = element.tagName.toLowerCase()
+  const allowed = [...GLOBAL_ATTRIBUTES, ...(ALLOWED_ATTRIBUTES[tag] ?? [])]
+
+  for (const { name, value } of Array.from(element.attributes)) {
+    const pattern = ATTRIBUTE_PATTERNS[name]
+    if (!allowed.includes(name) || (pattern && !pattern.test(value))) {
+      element.removeAttribute(name)
+    }
+  }
+
+  // Arweave references are resolved later through the gateway, so park them
+  // in data attributes instead of letting the browser request ar:// URLs
+  const urlAttribute = tag === 'a' ? 'href' : tag === 'img' ? 'src' : null
+  if (urlAttribute) {
+    const value = element.getAttribute(urlAttribute)
+    if (value !== null) {
+      const ref = parseArweaveRef(value)
+      const arUrl: ArUrl | null = ref ? { kind: 'tx', ...ref } : parseArUrl(value)
+      if (arUrl) {
+        element.removeAttribute(urlAttribute)
+        element.setAttribute(`data-ar-${urlAttribute}`, formatArUrl(arUrl))
+      } else if (!isSafeUrl(value, urlAttribute)) {
+        element.removeAttribute(urlAttribute)
+      }
+    }
+  }
+
+  if (tag === 'a' && element.hasAttribute('href')) {
+    element.setAttribute('target', '_blank')
+    element.setAttribute('rel', 'noopener noreferrer nofollow')
+  }
+  if (tag === 'img') {
+    element.setAttribute('loading', 'lazy')
+    element.setAttribute('referrerpolicy', 'no-referrer')
+  }
+}
+
+function sanitizeChildren(parent: Node): void {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) continue
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      // Comments, processing instructions, CDATA
+      node.parentNode?.removeChild(node)
+      continue
+    }
+
+    const element = node as Element
+    const tag = element.tagName.toLowerCase()
+
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove()
+      continue
+    }
+
+    sanitizeChildren(element)
+
+    if (ALLOWED_TAGS.has(tag)) {
+      sanitizeElement(element)
+    } else {
+      // Unknown element: keep its (already sanitized) children
+      element.replaceWith(...Array.from(element.childNodes))
+    }
+  }
+}
+
+/**
+ * Sanitize an HTML fragment. Parsing happens in an inert document, so
+ * nothing in the input runs or loads while it is being cleaned.
+ */
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  sanitizeChildren(doc.body)
+  return doc.body.innerHTML
+}
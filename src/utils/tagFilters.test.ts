@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { parseTagFilter, formatTagFilter, tagFiltersKey, toGraphQLTagFilter } from './tagFilters'
+
+describe('tagFilters', () => {
+  describe('parseTagFilter', () => {
+    it('should parse a single value', () => {
+      expect(parseTagFilter('Type=meme')).toEqual({ name: 'Type', values: ['meme'] })
+    })
+
+    it('should parse, trim and de-duplicate multiple values', () => {
+      expect(parseTagFilter(' Topic = art, memes ,art')).toEqual({ name: 'Topic', values: ['art', 'memes'] })
+    })
+
+    it('should treat a bare name or "*" as any value', () => {
+      expect(parseTagFilter('Topic')).toEqual({ name: 'Topic', values: ['*'] })
+      expect(parseTagFilter('Topic=art,*')).toEqual({ name: 'Topic', values: ['*'] })
+    })
+
+    it('should reject filters without a name or values', () => {
+      expect(parseTagFilter('=meme')).toBeNull()
+      expect(parseTagFilter('Type=')).toBeNull()
+      expect(parseTagFilter('Type= , ')).toBeNull()
+    })
+
+    it('should keep "=" inside values', () => {
+      expect(parseTagFilter('Query=a=b')).toEqual({ name: 'Query', values: ['a=b'] })
+    })
+  })
+
+  describe('formatTagFilter', () => {
+    it('should round-trip with parseTagFilter', () => {
+      const filter = { name: 'Type', values: ['meme', 'art'] }
+      expect(parseTagFilter(formatTagFilter(filter))).toEqual(filter)
+    })
+  })
+
+  describe('tagFiltersKey', () => {
+    it('should be independent of filter order', () => {
+      const a = { name: 'Type', values: ['meme'] }
+      const b = { name: 'Topic', values: ['*'] }
+      expect(tagFiltersKey([a, b])).toBe(tagFiltersKey([b, a]))
+      expect(tagFiltersKey(undefined)).toBe('')
+    })
+  })
+
+  describe('toGraphQLTagFilter', () => {
+    it('should use exact matching for plain values', () => {
+      expect(toGraphQLTagFilter({ name: 'Type', values: ['meme'] })).toEqual({ name: 'Type', values: ['meme'] })
+    })
+
+    it('should use wildcard matching when a value contains "*"', () => {
+      expect(toGraphQLTagFilter({ name: 'Topic', values: ['*'] })).toEqual({ name: 'Topic', values: ['*'], match: 'WILDCARD' })
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import type { TagFilter } from '../constants'
+
+/** Value that matches any value of a tag */
+export const TAG_WILDCARD = '*'
+
+/**
+ * Parse "Name=v1,v2" into a TagFilter. Returns null when the name or all
+ * values are missing. "Name" alone (or "Name=*") matches any value.
+ */
+export function parseTagFilter(raw: string): TagFilter | null {
+  const separator = raw.indexOf('=')
+  const name = (separator === -1 ? raw : raw.slice(0, separator)).trim()
+  if (!name) return null
+
+  const rawValues = separator === -1 ? TAG_WILDCARD : raw.slice(separator + 1)
+  const values = Array.from(new Set(rawValues.split(',').map(v => v.trim()).filter(Boolean)))
+  if (values.length === 0) return null
+
+  return { name, values: values.includes(TAG_WILDCARD) ? [TAG_WILDCARD] : values }
+}
+
+/**
+ * Format a TagFilter as "Name=v1,v2" (inverse of parseTagFilter)
+ */
+export function formatTagFilter(filter: TagFilter): string {
+  return `${filter.name}=${filter.values.join(',')}`
+}
+
+/**
+ * Stable key for a set of tag filters, for cursors and effect dependencies
+ */
+export function tagFiltersKey(filters?: TagFilter[]): string {
+  return (filters ?? []).map(formatTagFilter).sort().join('&')
+}
+
+/**
+ * Convert a TagFilter into a GraphQL TagFilter input, using wildcard
+ * matching whenever a value contains "*"
+ */
+export function toGraphQLTagFilter(filter: TagFilter): { name: string; values: string[]; match?: 'WILDCARD' } {
+  return filter.values.some(v => v.includes(TAG_WILDCARD))
+    ? { name: filter.name, values: filter.values, match: 'WILDCARD' }
+    : { name: filter.name, values: filter.values }
+}